@@ -0,0 +1,272 @@
+/**
+ * Command-line mode — call tools from scripts and CI without an MCP client.
+ *
+ *   bitbadges-builder-mcp call <tool> [--file args.json | --file -] [--args '{...}'] [--<arg> <value> ...] [--text]
+ *   bitbadges-builder-mcp list [tool ...]
+ *
+ * Tool arguments are merged from --file (a JSON object; "-" reads stdin), then --args,
+ * then one flag per argument. Flag values stay strings (IDs and amounts are string
+ * numbers here) unless they start with { or [, or the tool's schema expects something
+ * other than a string at that key, in which case they are parsed as JSON.
+ * --profile / --tools restrict the tools exactly as they do for the server.
+ *
+ * Calls go through an in-process MCP server, so arguments, results and errors are
+ * exactly what a client would see. `call` prints structuredContent as JSON (or the
+ * text content with --text). Exit codes: 0 ok, 1 the call returned isError or
+ * success: false, 2 usage errors.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from './server.js';
+import { getToolProfile, parseToolAllowlist } from './tools/profiles.js';
+import { getTool } from './tools/registry.js';
+
+export const CLI_COMMANDS = ['call', 'list'] as const;
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Reads all of stdin (for --file -) */
+  readStdin: () => Promise<string>;
+}
+
+const USAGE = `Usage:
+  bitbadges-builder-mcp call <tool> [--file <args.json>|-] [--args <json>] [--<arg> <value> ...] [--text]
+  bitbadges-builder-mcp list [tool ...] [--text]
+
+Options:
+  --file <path>     Tool arguments as a JSON object ("-" reads stdin)
+  --args <json>     Tool arguments as inline JSON
+  --<arg> <value>   One argument (a string, unless it is JSON {...}/[...] or the tool expects a non-string)
+  --text            Print the text content instead of structured JSON
+  --profile <name>  Tool profile: full, read-only, offline-builder, custom
+  --tools <list>    Comma-separated allowlist (custom profile)`;
+
+const CLI_FLAGS = new Set(['file', 'args', 'profile', 'tools']);
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positionals: string[];
+  /** CLI options (--file, --args, --profile, --tools) */
+  options: Record<string, string>;
+  /** Everything else — tool arguments, as typed */
+  toolArgs: Record<string, string>;
+  text: boolean;
+}
+
+/** The schema a value must satisfy, without optional/default/refine wrappers */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema.innerType());
+  return schema;
+}
+
+function acceptsString(schema: z.ZodTypeAny): boolean {
+  const inner = unwrapSchema(schema);
+  if (inner instanceof z.ZodString || inner instanceof z.ZodEnum) return true;
+  if (inner instanceof z.ZodLiteral) return typeof inner.value === 'string';
+  if (inner instanceof z.ZodUnion) return (inner.options as z.ZodTypeAny[]).some(acceptsString);
+  return false;
+}
+
+/**
+ * A --<arg> flag value: JSON for objects, arrays and keys the tool types as something
+ * other than a string (numbers, booleans, ...); otherwise the string as given.
+ */
+function parseFlagValue(raw: string, field: z.ZodTypeAny | undefined): unknown {
+  const looksLikeJson = raw.startsWith('{') || raw.startsWith('[');
+  if (!looksLikeJson && (!field || acceptsString(field))) return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function toolArgShape(toolName: string): Record<string, z.ZodTypeAny> {
+  const schema = getTool(toolName)?.schema;
+  const inner = schema ? unwrapSchema(schema) : undefined;
+  return inner instanceof z.ZodObject ? inner.shape : {};
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: {}, toolArgs: {}, text: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+    if (arg === '--text') {
+      parsed.text = true;
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const name = eq >= 0 ? arg.slice(2, eq) : arg.slice(2);
+    let value: string;
+    if (eq >= 0) {
+      value = arg.slice(eq + 1);
+    } else {
+      if (i + 1 >= argv.length) throw new UsageError(`Missing value for --${name}`);
+      value = argv[++i];
+    }
+    if (CLI_FLAGS.has(name)) {
+      parsed.options[name] = value;
+    } else {
+      parsed.toolArgs[name] = value;
+    }
+  }
+  return parsed;
+}
+
+function parseJsonObject(text: string, source: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error: any) {
+    throw new UsageError(`${source} is not valid JSON: ${error.message}`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new UsageError(`${source} must be a JSON object of tool arguments`);
+  }
+  return value as Record<string, unknown>;
+}
+
+async function collectToolArgs(toolName: string, parsed: ParsedArgs, io: CliIO): Promise<Record<string, unknown>> {
+  let fromFile: Record<string, unknown> = {};
+  const file = parsed.options.file;
+  if (file === '-') {
+    fromFile = parseJsonObject(await io.readStdin(), 'stdin');
+  } else if (file) {
+    let text: string;
+    try {
+      text = readFileSync(resolve(file), 'utf-8');
+    } catch (error: any) {
+      throw new UsageError(`Cannot read ${file}: ${error.message}`);
+    }
+    fromFile = parseJsonObject(text, file);
+  }
+  const inline = parsed.options.args ? parseJsonObject(parsed.options.args, '--args') : {};
+  const shape = toolArgShape(toolName);
+  const flags = Object.fromEntries(
+    Object.entries(parsed.toolArgs).map(([key, raw]) => [key, parseFlagValue(raw, shape[key])])
+  );
+  return { ...fromFile, ...inline, ...flags };
+}
+
+async function connect(parsed: ParsedArgs): Promise<Client> {
+  const allowlist = parseToolAllowlist(parsed.options.tools || process.env.BITBADGES_MCP_TOOLS);
+  const profile = parsed.options.profile || process.env.BITBADGES_MCP_PROFILE || (allowlist.length > 0 ? 'custom' : 'full');
+  let toolProfile;
+  try {
+    toolProfile = getToolProfile(profile, allowlist);
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const server = createServer({ toolProfile });
+  const client = new Client({ name: 'bitbadges-builder-cli', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function runCall(parsed: ParsedArgs, io: CliIO): Promise<number> {
+  const [name, ...extra] = parsed.positionals;
+  if (!name) throw new UsageError('call needs a tool name');
+  if (extra.length > 0) throw new UsageError(`Unexpected arguments: ${extra.join(' ')}`);
+
+  const args = await collectToolArgs(name, parsed, io);
+  const client = await connect(parsed);
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    const content = (result.content as Array<{ type: string; text?: string }>) || [];
+    const text = content.filter((c) => c.type === 'text').map((c) => c.text).join('\n');
+
+    if (result.isError) {
+      io.stderr(text);
+      return 1;
+    }
+    const structured = result.structuredContent as Record<string, unknown> | undefined;
+    io.stdout(parsed.text || !structured ? text : JSON.stringify(structured, null, 2));
+    return structured?.success === false ? 1 : 0;
+  } finally {
+    await client.close();
+  }
+}
+
+async function runList(parsed: ParsedArgs, io: CliIO): Promise<number> {
+  if (parsed.options.file || parsed.options.args || Object.keys(parsed.toolArgs).length > 0) {
+    throw new UsageError('list only takes tool names, --profile and --tools');
+  }
+  const client = await connect(parsed);
+  try {
+    const { tools } = await client.listTools();
+    const wanted = parsed.positionals;
+    const unknown = wanted.filter((name) => !tools.some((tool) => tool.name === name));
+    if (unknown.length > 0) {
+      io.stderr(`Unknown tool: ${unknown.join(', ')}`);
+      return 1;
+    }
+    const selected = wanted.length > 0 ? tools.filter((tool) => wanted.includes(tool.name)) : tools;
+    io.stdout(parsed.text
+      ? selected.map((tool) => `${tool.name}\t${tool.description}`).join('\n')
+      : JSON.stringify(selected, null, 2));
+    return 0;
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Run a CLI command (argv without the node/script prefix, starting at the subcommand).
+ * Resolves to the process exit code.
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    if (!command) throw new UsageError('Missing command');
+    if (command === '--help' || rest.includes('--help')) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    const parsed = parseArgs(rest);
+    switch (command) {
+      case 'call':
+        return await runCall(parsed, io);
+      case 'list':
+        return await runList(parsed, io);
+      default:
+        throw new UsageError(`Unknown command "${command}". Commands: ${CLI_COMMANDS.join(', ')}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+/**
+ * The CLI's IO on the real process streams.
+ */
+export function processIO(): CliIO {
+  return {
+    stdout: (text) => process.stdout.write(`${text}\n`),
+    stderr: (text) => process.stderr.write(`${text}\n`),
+    readStdin: async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+      return Buffer.concat(chunks).toString('utf-8');
+    }
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * HTTP mode — serve the builder to many clients over MCP Streamable HTTP, with the
+ * legacy HTTP+SSE transport for older clients.
+ *
+ * Routes:
+ *   POST/GET/DELETE /mcp   Streamable HTTP (mcp-session-id header)
+ *   GET  /sse              Legacy SSE stream
+ *   POST /messages         Legacy SSE client messages (?sessionId=...)
+ *   GET  /health           Liveness + open transport counts (and idle sessions closed so far)
+ *
+ * Streamable HTTP sessions idle longer than idleTimeoutMs are closed by a periodic sweep,
+ * so clients that vanish without a DELETE don't pile up.
+ *
+ * Tools that read or write server files (export_session, import_session) are left out
+ * unless allowFilesystemTools is set.
+ *
+ * Each MCP transport session gets its own Server instance. Session tools called
+ * without a sessionId use the transport's session ID (see createServer), so every
+ * connected client builds in its own session automatically.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { createServer } from './server.js';
+import { getToolProfile, withoutFilesystemTools, type ToolProfile } from './tools/profiles.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpServerOptions {
+  /** Port to listen on (0 = pick a free port) */
+  port: number;
+  /** Interface to bind (default 127.0.0.1 — set 0.0.0.0 to expose on the network) */
+  host?: string;
+  /** Tools every MCP session exposes (default: the full profile) */
+  toolProfile?: ToolProfile;
+  /** Keep tools that read or write files on this host (default false) */
+  allowFilesystemTools?: boolean;
+  /** Close Streamable HTTP sessions without a request for this long (default 30 min, 0 = never) */
+  idleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  /** The bound port (useful when started with port 0) */
+  port: number;
+  httpServer: HttpServer;
+  /** Close all MCP sessions and stop accepting connections */
+  close(): Promise<void>;
+}
+
+interface OpenSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivityAt: number;
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Start the HTTP server. Resolves once it is listening.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const streamable = new Map<string, OpenSession>();
+  const sse = new Map<string, OpenSession>();
+  const startedAt = Date.now();
+  const profile = options.toolProfile ?? getToolProfile('full');
+  const toolProfile = options.allowFilesystemTools ? profile : withoutFilesystemTools(profile);
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  let idleClosed = 0;
+
+  function sweepIdleSessions(): void {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, open] of streamable) {
+      if (open.lastActivityAt > cutoff) continue;
+      streamable.delete(id);
+      idleClosed++;
+      open.server.close().catch(() => {});
+    }
+  }
+
+  const sweep = idleTimeoutMs > 0
+    ? setInterval(sweepIdleSessions, Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)).unref()
+    : undefined;
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? streamable.get(sessionId) : undefined;
+    if (existing) {
+      existing.lastActivityAt = Date.now();
+      await (existing.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || sessionId || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Unknown MCP session' : 'No MCP session: send an initialize request first');
+      return;
+    }
+
+    const server = createServer({ toolProfile });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamable.set(id, { transport, server, lastActivityAt: Date.now() });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) streamable.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const server = createServer({ toolProfile });
+    const transport = new SSEServerTransport('/messages', res);
+    sse.set(transport.sessionId, { transport, server, lastActivityAt: Date.now() });
+    res.on('close', () => {
+      sse.delete(transport.sessionId);
+    });
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const open = sse.get(url.searchParams.get('sessionId') || '');
+    if (!open) {
+      sendJsonRpcError(res, 404, 'Unknown SSE session');
+      return;
+    }
+    const body = await readJsonBody(req);
+    await (open.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    const handled = (async () => {
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+        return handleStreamable(req, res);
+      }
+      switch (route) {
+        case 'GET /health':
+          return sendJson(res, 200, {
+            status: 'ok',
+            uptimeMs: Date.now() - startedAt,
+            sessions: { streamableHttp: streamable.size, sse: sse.size, idleClosed }
+          });
+        case 'GET /sse':
+          return handleSseStream(res);
+        case 'POST /messages':
+          return handleSseMessage(req, res, url);
+        default:
+          return sendJson(res, 404, { error: `Not found: ${route}` });
+      }
+    })();
+
+    handled.catch((error: Error) => {
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error.message === 'Request body too large' ? 413 : 400, error.message);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host || '127.0.0.1', () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    httpServer,
+    async close() {
+      clearInterval(sweep);
+      const open = [...streamable.values(), ...sse.values()];
+      streamable.clear();
+      sse.clear();
+      await Promise.allSettled(open.map(({ server }) => server.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections?.();
+      });
+    }
+  };
+}
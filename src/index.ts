@@ -15,25 +15,133 @@
  * - Subscriptions
  */
 
+import { readFileSync } from 'fs';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
+import { startHttpServer } from './httpServer.js';
+import { getToolProfile, parseToolAllowlist, type ToolProfile } from './tools/profiles.js';
+import { runCli, processIO, CLI_COMMANDS } from './cli.js';
+import { startMockApiServer } from './mock/mockApiServer.js';
+import { checkApiClientEnv } from './sdk/apiClient.js';
+
+interface CliOptions {
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+  toolProfile: ToolProfile;
+  allowFilesystemTools: boolean;
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Transport selection: --transport stdio|http (or --http), --port, --host.
+ * Tool profile: --profile full|read-only|offline-builder|custom, --tools a,b,prefix_*
+ * (an allowlist alone implies the custom profile).
+ * Env fallbacks: BITBADGES_MCP_TRANSPORT, BITBADGES_MCP_PORT, BITBADGES_MCP_HOST,
+ * BITBADGES_MCP_PROFILE, BITBADGES_MCP_TOOLS, BITBADGES_MCP_FILE_TOOLS and
+ * BITBADGES_MCP_IDLE_TIMEOUT_MS (HTTP only).
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+  const idx = argv.indexOf(`--${name}`);
+  if (idx >= 0) return argv[idx + 1];
+  const inline = argv.find((a) => a.startsWith(`--${name}=`));
+  return inline?.slice(name.length + 3);
+}
+
+function parseCliOptions(argv: string[]): CliOptions {
+  const flag = (name: string) => readFlag(argv, name);
+
+  const transport = argv.includes('--http') ? 'http' : (flag('transport') || process.env.BITBADGES_MCP_TRANSPORT || 'stdio');
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}". Use "stdio" or "http".`);
+  }
+  const port = Number(flag('port') || process.env.BITBADGES_MCP_PORT || 3000);
+  if (!Number.isInteger(port) || port < 0) {
+    throw new Error(`Invalid port "${flag('port') || process.env.BITBADGES_MCP_PORT}".`);
+  }
+  const idleTimeout = process.env.BITBADGES_MCP_IDLE_TIMEOUT_MS;
+  const idleTimeoutMs = idleTimeout ? Number(idleTimeout) : undefined;
+  if (idleTimeoutMs !== undefined && (!Number.isFinite(idleTimeoutMs) || idleTimeoutMs < 0)) {
+    throw new Error(`Invalid BITBADGES_MCP_IDLE_TIMEOUT_MS "${idleTimeout}".`);
+  }
+  const allowlist = parseToolAllowlist(flag('tools') || process.env.BITBADGES_MCP_TOOLS);
+  const profile = flag('profile') || process.env.BITBADGES_MCP_PROFILE || (allowlist.length > 0 ? 'custom' : 'full');
+  return {
+    transport,
+    port,
+    host: flag('host') || process.env.BITBADGES_MCP_HOST || '127.0.0.1',
+    toolProfile: getToolProfile(profile, allowlist),
+    allowFilesystemTools: process.env.BITBADGES_MCP_FILE_TOOLS === 'on',
+    idleTimeoutMs
+  };
+}
+
+function onShutdown(close: () => Promise<void>): void {
+  let closing = false;
+  const shutdown = async () => {
+    if (closing) return;
+    closing = true;
+    await close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+/**
+ * `mock-api [--port 3001] [--host 127.0.0.1] [--seed seed.json]` — serve the bundled
+ * mock BitBadges API (see mock/mockApiServer.ts) instead of the MCP server.
+ */
+async function startMockApi(argv: string[]): Promise<void> {
+  const port = Number(readFlag(argv, 'port') || 3001);
+  if (!Number.isInteger(port) || port < 0) {
+    throw new Error(`Invalid port "${readFlag(argv, 'port')}".`);
+  }
+  const seedPath = readFlag(argv, 'seed');
+  const seed = seedPath ? JSON.parse(readFileSync(seedPath, 'utf-8')) : undefined;
+  const running = await startMockApiServer({ port, host: readFlag(argv, 'host'), seed });
+  console.error(`Mock BitBadges API listening on ${running.url} (set BITBADGES_API_URL=${running.url})`);
+  onShutdown(() => running.close());
+}
 
 async function main() {
-  const server = createServer();
+  const argv = process.argv.slice(2);
+  if (argv[0] === 'mock-api') {
+    await startMockApi(argv.slice(1));
+    return;
+  }
+
+  // Bad API client env (e.g. an unknown validation mode) stops the server and the CLI alike
+  checkApiClientEnv();
+  // `call` / `list` run one command and exit instead of starting a server (see cli.ts)
+  if ((CLI_COMMANDS as readonly string[]).includes(argv[0])) {
+    process.exitCode = await runCli(argv, processIO());
+    return;
+  }
+
+  const options = parseCliOptions(argv);
+
+  if (options.transport === 'http') {
+    const running = await startHttpServer({
+      port: options.port,
+      host: options.host,
+      toolProfile: options.toolProfile,
+      allowFilesystemTools: options.allowFilesystemTools,
+      idleTimeoutMs: options.idleTimeoutMs
+    });
+    // stdout is free in HTTP mode, but keep logs on stderr like stdio mode
+    console.error(`BitBadges Builder MCP listening on http://${options.host}:${running.port} (Streamable HTTP: /mcp, SSE: /sse, health: /health)`);
+    onShutdown(() => running.close());
+    return;
+  }
+
+  const server = createServer({ toolProfile: options.toolProfile });
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
 
   // Handle graceful shutdown
-  process.on('SIGINT', async () => {
-    await server.close();
-    process.exit(0);
-  });
-
-  process.on('SIGTERM', async () => {
-    await server.close();
-    process.exit(0);
-  });
+  onShutdown(() => server.close());
 }
 
 main().catch((error) => {
@@ -0,0 +1,187 @@
+/**
+ * Mock BitBadges API — a small local server implementing the endpoints apiClient.ts
+ * calls, for end-to-end build → simulate → query loops without the real API.
+ *
+ * Routes:
+ *   POST /api/v0/collections                                    Collections by ID
+ *   POST /api/v0/collections/:collectionId/balance/:address     Full balance document
+ *   GET  /api/v0/collection/:collectionId/:tokenId/balance/:address   One token's amount
+ *   GET  /api/v0/collection/:collectionId/:tokenId/owners      Owners of a token, paginated
+ *   POST /api/v0/simulate                                       Registers new collections, applies MsgTransferTokens
+ *   POST /api/v0/verifyOwnershipRequirements                    $and / $or / $not / assets
+ *   POST /api/v0/search                                         Collections by ID or name, accounts
+ *   POST /api/v0/plugins                                        Plugins by ID
+ *   GET  /api/v0/plugins/search                                 Plugins by ID, name or description
+ *
+ * Point the builder at it with BITBADGES_API_URL=http://127.0.0.1:<port> (any API key
+ * is accepted). State is seeded from JSON (see mockApiState.ts) and lives in memory.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { createMockApiState, type MockApiSeed, type MockApiState } from './mockApiState.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface MockApiServerOptions {
+  /** Port to listen on (0 = pick a free port) */
+  port: number;
+  /** Interface to bind (default 127.0.0.1) */
+  host?: string;
+  /** Initial collections, balances, accounts and plugins */
+  seed?: MockApiSeed;
+  /** Items per page on paginated routes (default 25) */
+  pageSize?: number;
+}
+
+export interface RunningMockApiServer {
+  /** The bound port (useful when started with port 0) */
+  port: number;
+  /** Base URL to use as BITBADGES_API_URL */
+  url: string;
+  httpServer: HttpServer;
+  state: MockApiState;
+  close(): Promise<void>;
+}
+
+function readJsonBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve({});
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * One page of `items`. Bookmarks are just the offset of the next page.
+ */
+function paginate<T>(items: T[], bookmark: string | null, pageSize: number) {
+  const offset = Number(bookmark) || 0;
+  const hasMore = offset + pageSize < items.length;
+  return {
+    page: items.slice(offset, offset + pageSize),
+    pagination: { bookmark: hasMore ? String(offset + pageSize) : '', hasMore }
+  };
+}
+
+async function route(state: MockApiState, pageSize: number, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const path = url.pathname;
+  let match: RegExpMatchArray | null;
+
+  if (req.method === 'POST' && path === '/api/v0/collections') {
+    const body = await readJsonBody(req);
+    const collections = (body.collectionsToFetch || [])
+      .map((c: { collectionId: string }) => state.getCollection(String(c.collectionId)))
+      .filter(Boolean);
+    return sendJson(res, 200, { collections, hasMore: false });
+  }
+
+  if (req.method === 'POST' && (match = path.match(/^\/api\/v0\/collections\/([^/]+)\/balance\/([^/]+)$/))) {
+    const [, collectionId, address] = match.map(decodeURIComponent);
+    if (!state.getCollection(collectionId)) return sendJson(res, 404, { error: `Collection ${collectionId} not found` });
+    return sendJson(res, 200, { balance: { collectionId, address, balances: state.getBalances(collectionId, address) } });
+  }
+
+  if (req.method === 'GET' && (match = path.match(/^\/api\/v0\/collection\/([^/]+)\/([^/]+)\/balance\/([^/]+)$/))) {
+    const [, collectionId, tokenId, address] = match.map(decodeURIComponent);
+    if (!state.getCollection(collectionId)) return sendJson(res, 404, { error: `Collection ${collectionId} not found` });
+    return sendJson(res, 200, { balance: state.getTokenBalance(collectionId, tokenId, address) });
+  }
+
+  if (req.method === 'GET' && (match = path.match(/^\/api\/v0\/collection\/([^/]+)\/([^/]+)\/owners$/))) {
+    const [, collectionId, tokenId] = match.map(decodeURIComponent);
+    if (!state.getCollection(collectionId)) return sendJson(res, 404, { error: `Collection ${collectionId} not found` });
+    const { page, pagination } = paginate(state.getOwners(collectionId, tokenId), url.searchParams.get('bookmark'), pageSize);
+    return sendJson(res, 200, { owners: page, pagination });
+  }
+
+  if (req.method === 'POST' && path === '/api/v0/simulate') {
+    const body = await readJsonBody(req);
+    const results = (body.txs || []).map((tx: { messages?: unknown[] }) => {
+      const { error, events } = state.applyTransfers(tx.messages || []);
+      return error ? { error } : { gasUsed: String(100000 + 50000 * (tx.messages?.length || 0)), events };
+    });
+    return sendJson(res, 200, { results });
+  }
+
+  if (req.method === 'POST' && path === '/api/v0/verifyOwnershipRequirements') {
+    const body = await readJsonBody(req);
+    const verified = state.verifyOwnership(String(body.address), body.assetOwnershipRequirements || {});
+    return sendJson(res, 200, { success: verified, verified });
+  }
+
+  if (req.method === 'POST' && path === '/api/v0/search') {
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, state.search(String(body.searchValue || '')));
+  }
+
+  if (req.method === 'POST' && path === '/api/v0/plugins') {
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, { plugins: state.getPlugins(body.pluginIds || []) });
+  }
+
+  if (req.method === 'GET' && path === '/api/v0/plugins/search') {
+    return sendJson(res, 200, { plugins: state.searchPlugins(url.searchParams.get('searchValue') || '') });
+  }
+
+  sendJson(res, 404, { error: `Mock API has no route for ${req.method} ${path}` });
+}
+
+/**
+ * Start the mock API server. Resolves once it is listening.
+ */
+export async function startMockApiServer(options: MockApiServerOptions): Promise<RunningMockApiServer> {
+  const state = createMockApiState(options.seed);
+  const host = options.host || '127.0.0.1';
+
+  const httpServer = createHttpServer((req, res) => {
+    route(state, options.pageSize || 25, req, res).catch((error) => {
+      if (!res.headersSent) sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const port = (httpServer.address() as AddressInfo).port;
+
+  return {
+    port,
+    url: `http://${host}:${port}`,
+    httpServer,
+    state,
+    async close() {
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections?.();
+      });
+    }
+  };
+}
@@ -0,0 +1,356 @@
+/**
+ * In-memory state for the mock BitBadges API (see mockApiServer.ts).
+ *
+ * Seeded from a JSON document:
+ *
+ *   {
+ *     "collections": [{ "collectionId": "1", ... }],
+ *     "balances": { "1": { "bb1...": [{ "amount": "10", "tokenIds": [{ "start": "1", "end": "5" }] }] } },
+ *     "accounts": [{ "address": "bb1...", "username": "alice" }],
+ *     "plugins": [{ "pluginId": "password", "metadata": { ... } }]
+ *   }
+ *
+ * Balances are tracked per token ID; ownership times are not modelled (every balance
+ * is reported as owned for all time). Simulated MsgTransferTokens messages move
+ * balances, so build → simulate → query loops see their own transfers. A simulated
+ * MsgUniversalUpdateCollection with collectionId "0" registers a provisional collection
+ * under the next free ID, and later messages in the same tx that use "0" resolve to
+ * it (as on chain), so a new-collection build can be simulated end to end.
+ */
+
+const MAX_UINT64 = 18446744073709551615n;
+const FOREVER = [{ start: '1', end: MAX_UINT64.toString() }];
+const TRANSFER_TYPE_URL = '/tokenization.MsgTransferTokens';
+const COLLECTION_TYPE_URL = '/tokenization.MsgUniversalUpdateCollection';
+
+export interface UintRange {
+  start: string;
+  end: string;
+}
+
+export interface MockBalance {
+  amount: string;
+  tokenIds: UintRange[];
+  ownershipTimes?: UintRange[];
+}
+
+export interface MockApiSeed {
+  collections?: Array<Record<string, any>>;
+  /** collectionId → address → balances */
+  balances?: Record<string, Record<string, MockBalance[]>>;
+  accounts?: Array<Record<string, any>>;
+  plugins?: Array<Record<string, any>>;
+}
+
+/** A contiguous run of token IDs holding the same amount */
+interface Segment {
+  start: bigint;
+  end: bigint;
+  amount: bigint;
+}
+
+/**
+ * Token amounts held by one address in one collection, as sorted non-overlapping
+ * segments (token IDs outside every segment hold 0).
+ */
+class TokenBalances {
+  private segments: Segment[] = [];
+
+  clone(): TokenBalances {
+    const copy = new TokenBalances();
+    copy.segments = this.segments.map((seg) => ({ ...seg }));
+    return copy;
+  }
+
+  /** Add `delta` (may be negative) to every token in [start, end] */
+  add(start: bigint, end: bigint, delta: bigint): void {
+    const next: Segment[] = [];
+    let cursor = start;
+    for (const seg of this.segments) {
+      if (seg.end < start || seg.start > end) {
+        next.push(seg);
+        continue;
+      }
+      // Pieces of the segment outside the range keep their amount
+      if (seg.start < start) next.push({ start: seg.start, end: start - 1n, amount: seg.amount });
+      const overlapStart = seg.start > start ? seg.start : start;
+      const overlapEnd = seg.end < end ? seg.end : end;
+      if (cursor < overlapStart) next.push({ start: cursor, end: overlapStart - 1n, amount: delta });
+      next.push({ start: overlapStart, end: overlapEnd, amount: seg.amount + delta });
+      cursor = overlapEnd + 1n;
+      if (seg.end > end) next.push({ start: end + 1n, end: seg.end, amount: seg.amount });
+    }
+    if (cursor <= end) next.push({ start: cursor, end, amount: delta });
+    this.segments = merge(next.sort((a, b) => (a.start < b.start ? -1 : 1)));
+  }
+
+  /** Smallest and largest amount held across [start, end] */
+  range(start: bigint, end: bigint): { min: bigint; max: bigint } {
+    let min: bigint | undefined;
+    let max: bigint | undefined;
+    let covered = 0n;
+    for (const seg of this.segments) {
+      if (seg.end < start || seg.start > end) continue;
+      const overlapStart = seg.start > start ? seg.start : start;
+      const overlapEnd = seg.end < end ? seg.end : end;
+      covered += overlapEnd - overlapStart + 1n;
+      min = min === undefined || seg.amount < min ? seg.amount : min;
+      max = max === undefined || seg.amount > max ? seg.amount : max;
+    }
+    // Tokens in no segment hold 0
+    if (covered < end - start + 1n) {
+      min = min === undefined || min > 0n ? 0n : min;
+      max = max === undefined || max < 0n ? 0n : max;
+    }
+    return { min: min!, max: max! };
+  }
+
+  toBalances(): MockBalance[] {
+    const byAmount = new Map<bigint, UintRange[]>();
+    for (const seg of this.segments) {
+      if (seg.amount === 0n) continue;
+      const ranges = byAmount.get(seg.amount) || [];
+      ranges.push({ start: seg.start.toString(), end: seg.end.toString() });
+      byAmount.set(seg.amount, ranges);
+    }
+    return [...byAmount].map(([amount, tokenIds]) => ({ amount: amount.toString(), tokenIds, ownershipTimes: FOREVER }));
+  }
+}
+
+function merge(segments: Segment[]): Segment[] {
+  const merged: Segment[] = [];
+  for (const seg of segments) {
+    if (seg.amount === 0n) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.end + 1n === seg.start && last.amount === seg.amount) {
+      last.end = seg.end;
+    } else {
+      merged.push({ ...seg });
+    }
+  }
+  return merged;
+}
+
+function toRanges(ranges: UintRange[] | undefined): Array<{ start: bigint; end: bigint }> {
+  return (ranges || []).map((r) => ({ start: BigInt(r.start), end: BigInt(r.end) }));
+}
+
+export interface MockTransferResult {
+  /** Chain-style error when the transfer can't be applied (nothing is changed) */
+  error?: string;
+  events: Array<Record<string, unknown>>;
+}
+
+export interface MockApiState {
+  getCollection(collectionId: string): Record<string, any> | undefined;
+  getBalances(collectionId: string, address: string): MockBalance[];
+  getTokenBalance(collectionId: string, tokenId: string, address: string): string;
+  /** Addresses holding a nonzero amount of the token, sorted, with their full balances */
+  getOwners(collectionId: string, tokenId: string): Array<{ address: string; balances: MockBalance[] }>;
+  /**
+   * Apply a simulated tx, all-or-nothing: new collections (collectionId "0") are
+   * registered and MsgTransferTokens messages move balances
+   */
+  applyTransfers(messages: unknown[]): MockTransferResult;
+  verifyOwnership(address: string, requirements: Record<string, any>): boolean;
+  search(value: string): { collections: Array<Record<string, any>>; accounts: Array<Record<string, any>> };
+  getPlugins(pluginIds: string[]): Array<Record<string, any>>;
+  searchPlugins(value: string): Array<Record<string, any>>;
+}
+
+function collectionName(collection: Record<string, any>): string {
+  return collection.collectionMetadata?.metadata?.name
+    ?? collection.collectionMetadataTimeline?.[0]?.collectionMetadata?.metadata?.name
+    ?? '';
+}
+
+/**
+ * Build mock API state from a seed document. The seed is copied, not referenced.
+ */
+export function createMockApiState(seed: MockApiSeed = {}): MockApiState {
+  const collections = new Map((seed.collections || []).map((c) => [String(c.collectionId), structuredClone(c)]));
+  const accounts = structuredClone(seed.accounts || []);
+  const plugins = structuredClone(seed.plugins || []);
+  // collectionId → address → balances
+  const balances = new Map<string, Map<string, TokenBalances>>();
+
+  /** Read-only view of an address's balances; unknown addresses get an empty, unstored one */
+  function holdings(collectionId: string, address: string): TokenBalances {
+    return balances.get(collectionId)?.get(address) || new TokenBalances();
+  }
+
+  function storeHoldings(collectionId: string, address: string, held: TokenBalances): void {
+    let byAddress = balances.get(collectionId);
+    if (!byAddress) {
+      byAddress = new Map();
+      balances.set(collectionId, byAddress);
+    }
+    byAddress.set(address, held);
+  }
+
+  function nextCollectionId(): string {
+    let max = 0n;
+    for (const id of collections.keys()) {
+      if (/^\d+$/.test(id) && BigInt(id) > max) max = BigInt(id);
+    }
+    return (max + 1n).toString();
+  }
+
+  for (const [collectionId, byAddress] of Object.entries(seed.balances || {})) {
+    for (const [address, entries] of Object.entries(byAddress)) {
+      const held = new TokenBalances();
+      for (const entry of entries) {
+        for (const range of toRanges(entry.tokenIds)) {
+          held.add(range.start, range.end, BigInt(entry.amount));
+        }
+      }
+      storeHoldings(collectionId, address, held);
+    }
+  }
+
+  /**
+   * The collection document a simulated create registers: the message's fields minus
+   * the update flags and creator.
+   */
+  function provisionalCollection(collectionId: string, value: Record<string, any>): Record<string, any> {
+    const collection: Record<string, any> = { collectionId, createdBy: value.creator || '' };
+    for (const [key, field] of Object.entries(value)) {
+      if (key === 'creator' || key === 'collectionId' || /^update[A-Z]/.test(key)) continue;
+      collection[key] = structuredClone(field);
+    }
+    return collection;
+  }
+
+  function checkRequirement(address: string, requirement: Record<string, any>): boolean {
+    if (Array.isArray(requirement.$and)) return requirement.$and.every((r: any) => checkRequirement(address, r));
+    if (Array.isArray(requirement.$or)) return requirement.$or.some((r: any) => checkRequirement(address, r));
+    if (requirement.$not) return !checkRequirement(address, requirement.$not);
+    return (requirement.assets || []).every((asset: any) => {
+      const held = holdings(String(asset.collectionId), address);
+      const min = BigInt(asset.amountRange?.start ?? '1');
+      const max = BigInt(asset.amountRange?.end ?? MAX_UINT64);
+      return toRanges(asset.tokenIds).every((range) => {
+        const amounts = held.range(range.start, range.end);
+        return amounts.min >= min && amounts.max <= max;
+      });
+    });
+  }
+
+  return {
+    getCollection: (collectionId) => structuredClone(collections.get(collectionId)),
+
+    getBalances: (collectionId, address) => holdings(collectionId, address).toBalances(),
+
+    getTokenBalance: (collectionId, tokenId, address) => {
+      const id = BigInt(tokenId);
+      return holdings(collectionId, address).range(id, id).min.toString();
+    },
+
+    getOwners(collectionId, tokenId) {
+      const id = BigInt(tokenId);
+      return [...(balances.get(collectionId) || [])]
+        .filter(([, held]) => held.range(id, id).max > 0n)
+        .map(([address, held]) => ({ address, balances: held.toBalances() }))
+        .sort((a, b) => a.address.localeCompare(b.address));
+    },
+
+    applyTransfers(messages) {
+      // Collections created by this tx; "0" refers to the most recent one
+      const created = new Map<string, Record<string, any>>();
+      let latestCreated: string | undefined;
+      const resolveId = (collectionId: unknown) => {
+        const id = String(collectionId ?? '0');
+        return id === '0' && latestCreated ? latestCreated : id;
+      };
+
+      const transfers: Array<Record<string, any>> = [];
+      for (const message of messages as any[]) {
+        if (message?.typeUrl === COLLECTION_TYPE_URL && String(message.value?.collectionId ?? '0') === '0') {
+          latestCreated = (BigInt(nextCollectionId()) + BigInt(created.size)).toString();
+          created.set(latestCreated, provisionalCollection(latestCreated, message.value || {}));
+        } else if (message?.typeUrl === TRANSFER_TYPE_URL) {
+          const collectionId = resolveId(message.value?.collectionId);
+          transfers.push(...(message.value?.transfers || []).map((t: any) => ({ collectionId, ...t })));
+        }
+      }
+
+      const changes: Array<{ collectionId: string; address: string; start: bigint; end: bigint; delta: bigint }> = [];
+      for (const transfer of transfers) {
+        if (!collections.has(transfer.collectionId) && !created.has(transfer.collectionId)) {
+          return { error: `collection ${transfer.collectionId} does not exist`, events: [] };
+        }
+        const recipients: string[] = transfer.toAddresses || [];
+        for (const balance of transfer.balances || []) {
+          const amount = BigInt(balance.amount);
+          for (const range of toRanges(balance.tokenIds ?? balance.badgeIds)) {
+            if (transfer.from !== 'Mint') {
+              changes.push({ collectionId: transfer.collectionId, address: transfer.from, ...range, delta: -amount * BigInt(recipients.length) });
+            }
+            for (const to of recipients) {
+              changes.push({ collectionId: transfer.collectionId, address: to, ...range, delta: amount });
+            }
+          }
+        }
+      }
+
+      // Apply to copies and commit only if no balance goes negative
+      const working = new Map<string, { collectionId: string; address: string; held: TokenBalances }>();
+      for (const change of changes) {
+        const key = `${change.collectionId}/${change.address}`;
+        let entry = working.get(key);
+        if (!entry) {
+          entry = { collectionId: change.collectionId, address: change.address, held: holdings(change.collectionId, change.address).clone() };
+          working.set(key, entry);
+        }
+        entry.held.add(change.start, change.end, change.delta);
+        if (entry.held.range(change.start, change.end).min < 0n) {
+          return { error: `insufficient balance: ${change.address} in collection ${change.collectionId}`, events: [] };
+        }
+      }
+      for (const [collectionId, collection] of created) collections.set(collectionId, collection);
+      for (const { collectionId, address, held } of working.values()) {
+        storeHoldings(collectionId, address, held);
+      }
+
+      return {
+        events: [
+          ...[...created.keys()].map((collectionId) => ({
+            type: 'create_collection',
+            attributes: [{ key: 'collectionId', value: collectionId }]
+          })),
+          ...transfers.map((t) => ({
+            type: 'transfer',
+            attributes: [
+              { key: 'collectionId', value: t.collectionId },
+              { key: 'from', value: t.from },
+              { key: 'to', value: (t.toAddresses || []).join(',') },
+              { key: 'balances', value: JSON.stringify(t.balances || []) }
+            ]
+          }))
+        ]
+      };
+    },
+
+    verifyOwnership: (address, requirements) => checkRequirement(address, requirements),
+
+    search(value) {
+      const needle = value.toLowerCase();
+      return {
+        collections: [...collections.values()]
+          .filter((c) => String(c.collectionId) === value || collectionName(c).toLowerCase().includes(needle))
+          .map((c) => structuredClone(c)),
+        accounts: accounts.filter((a) => a.address === value || String(a.username || '').toLowerCase().includes(needle))
+      };
+    },
+
+    getPlugins: (pluginIds) => plugins.filter((p) => pluginIds.includes(p.pluginId)),
+
+    searchPlugins(value) {
+      const needle = value.toLowerCase();
+      return plugins.filter((p) => !needle
+        || String(p.pluginId).toLowerCase().includes(needle)
+        || String(p.metadata?.name || '').toLowerCase().includes(needle)
+        || String(p.metadata?.description || '').toLowerCase().includes(needle));
+    }
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Prompts index — skill build plans and workflow chains for the MCP prompts capability.
+ */
+
+import { getSkillPrompts } from './skillPrompts.js';
+import { getWorkflowPrompts } from './workflowPrompts.js';
+import type { PromptDefinition } from './types.js';
+
+export * from './types.js';
+export { getSkillPrompts } from './skillPrompts.js';
+export { getWorkflowPrompts } from './workflowPrompts.js';
+
+export function getAllPrompts(): PromptDefinition[] {
+  return [...getSkillPrompts(), ...getWorkflowPrompts()];
+}
+
+/**
+ * prompts/list entries (everything but the renderer).
+ */
+export function listPrompts() {
+  return getAllPrompts().map(({ name, title, description, arguments: args }) => ({
+    name,
+    title,
+    description,
+    arguments: args
+  }));
+}
+
+/**
+ * prompts/get: render a prompt as a single user message. Throws for unknown prompts
+ * and missing required arguments.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = getAllPrompts().find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]).map((a) => a.name);
+  if (missing.length > 0) {
+    throw new Error(`Prompt "${name}" is missing required arguments: ${missing.join(', ')}`);
+  }
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text: prompt.render(args) }
+      }
+    ]
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * One prompt per skill: the caller's parameters (denom, price, supply, ...) filled into
+ * a ready-to-run build plan that walks the per-field session tools, followed by the
+ * skill's rules summary. The full instructions stay behind get_skill_instructions so
+ * the prompt itself stays short.
+ */
+
+import { getAllSkillInstructions, type SkillInstruction } from '../resources/skillInstructions.js';
+import type { PromptArgument, PromptDefinition } from './types.js';
+
+const COMMON_ARGUMENTS: PromptArgument[] = [
+  { name: 'name', description: 'Collection name.' },
+  { name: 'denom', description: 'Coin used for payments or backing, by symbol (e.g. "USDC", "BADGE", "ATOM").' },
+  { name: 'price', description: 'Price per token in display units of the denom (e.g. "10" for 10 USDC).' },
+  { name: 'supply', description: 'Maximum number of tokens that can be minted.' },
+  { name: 'creator', description: 'Creator address (bb1... or 0x...).' }
+];
+
+/** Extra parameters for skills whose build depends on more than the common ones */
+const SKILL_ARGUMENTS: Record<string, PromptArgument[]> = {
+  subscription: [
+    { name: 'duration', description: 'Subscription period: "daily", "monthly", "annual" or a duration in ms. Default monthly.' }
+  ],
+  crowdfund: [
+    { name: 'goal', description: 'Funding goal in display units of the denom.' },
+    { name: 'deadline', description: 'When contributions close and refunds open (date/time).' }
+  ],
+  'prediction-market': [
+    { name: 'question', description: 'The yes/no question the market settles (e.g. "Will X happen by Y?").' },
+    { name: 'verifier', description: 'Address that votes to settle the outcome.' },
+    { name: 'deadline', description: 'When trading ends and settlement opens (date/time).' }
+  ],
+  auction: [
+    { name: 'deadline', description: 'Bid deadline (date/time).' }
+  ],
+  bounty: [
+    { name: 'verifier', description: 'Address that accepts or denies submissions.' },
+    { name: 'deadline', description: 'Expiry if no decision is made (date/time).' }
+  ]
+};
+
+const DURATIONS_MS: Record<string, string> = {
+  daily: '86400000',
+  monthly: '2592000000',
+  annual: '31536000000'
+};
+
+function describeParameter(arg: PromptArgument, value: string | undefined): string {
+  if (value === undefined || value.trim() === '') {
+    return `- ${arg.name}: not given — ask the user, or choose a sensible default for this design and say which you chose.`;
+  }
+  if (arg.name === 'duration' && DURATIONS_MS[value.toLowerCase()]) {
+    return `- ${arg.name}: ${value} (durationFromTimestamp "${DURATIONS_MS[value.toLowerCase()]}")`;
+  }
+  return `- ${arg.name}: ${value}`;
+}
+
+function renderSkillPrompt(skill: SkillInstruction, promptArgs: PromptArgument[], args: Record<string, string>): string {
+  const steps = [
+    `get_skill_instructions("${skill.id}") — read the full rules before building; follow the required standards and approvals exactly.`,
+    ...(args.denom
+      ? [`lookup_token_info("${args.denom}") — get the base denom and decimals, then convert every price and goal to base units (amount × 10^decimals) as strings.`]
+      : []),
+    'generate_unique_id — one ID per new approval (also used as its amountTrackerId).',
+    'Build in the session with the per-field tools: set_standards, set_valid_token_ids, set_collection_metadata, set_token_metadata, set_default_balances, add_approval (one call per approval the skill requires), set_permissions and set_invariants; add_alias_path, add_cosmos_wrapper_path or set_mint_escrow_coins only where the skill calls for them. Each call reports the validation errors it introduced — fix them as you go.',
+    'list_approvals — check the approval order matches the skill.',
+    'get_transaction, then validate_transaction, verify_standards and audit_collection on the result. Fix every error and critical finding.',
+    'Return the transaction JSON for the user to sign and broadcast with their wallet.'
+  ];
+
+  return [
+    `Build a ${skill.name} collection on BitBadges.`,
+    '',
+    skill.description,
+    '',
+    '## Parameters',
+    ...promptArgs.map((arg) => describeParameter(arg, args[arg.name])),
+    '',
+    '## Build plan',
+    ...steps.map((step, i) => `${i + 1}. ${step}`),
+    '',
+    `## ${skill.name} rules (summary)`,
+    skill.summary
+  ].join('\n');
+}
+
+/**
+ * Prompts for every skill. Skill IDs are unique prompt names; if SKILL_INSTRUCTIONS
+ * lists an ID twice, the first entry wins (as in getSkillInstructions).
+ */
+export function getSkillPrompts(): PromptDefinition[] {
+  const seen = new Set<string>();
+  const prompts: PromptDefinition[] = [];
+  for (const skill of getAllSkillInstructions()) {
+    if (seen.has(skill.id)) continue;
+    seen.add(skill.id);
+
+    const promptArgs = [...COMMON_ARGUMENTS, ...(SKILL_ARGUMENTS[skill.id] || [])];
+    prompts.push({
+      name: skill.id,
+      title: skill.name,
+      description: skill.description,
+      arguments: promptArgs,
+      render: (args) => renderSkillPrompt(skill, promptArgs, args)
+    });
+  }
+  return prompts;
+}
@@ -0,0 +1,19 @@
+/**
+ * Prompt definitions served through the MCP prompts capability.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  /** Prompt name clients request (e.g. "subscription", "workflow-debug-transfer") */
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Render the prompt text with the caller's arguments filled in */
+  render(args: Record<string, string>): string;
+}
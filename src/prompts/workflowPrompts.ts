@@ -0,0 +1,23 @@
+/**
+ * One prompt per workflow chain in workflows.ts, named "workflow-<id>".
+ */
+
+import { getWorkflows } from '../resources/workflows.js';
+import type { PromptDefinition } from './types.js';
+
+export function getWorkflowPrompts(): PromptDefinition[] {
+  return getWorkflows().map((workflow) => ({
+    name: `workflow-${workflow.id}`,
+    title: workflow.title,
+    description: `Step-by-step tool chain: ${workflow.title}`,
+    arguments: [
+      { name: 'context', description: 'What you are working on — collection ID, error message, addresses, goal.' }
+    ],
+    render: (args) => [
+      'Follow this workflow, calling the listed tools in order.',
+      ...(args.context ? ['', `Context: ${args.context}`] : []),
+      '',
+      workflow.content
+    ].join('\n')
+  }));
+}
@@ -222,13 +222,7 @@ export const errorPatternsResourceInfo = {
   mimeType: 'text/markdown'
 };
 
-/**
- * Get all error patterns as markdown
- */
-export function getErrorPatternsContent(): string {
-  let content = '# BitBadges Error Patterns\n\n';
-  content += 'Common errors and how to fix them.\n\n';
-
+function groupByCategory(): Record<string, ErrorPattern[]> {
   const byCategory: Record<string, ErrorPattern[]> = {};
   for (const pattern of ERROR_PATTERNS) {
     if (!byCategory[pattern.category]) {
@@ -236,19 +230,48 @@ export function getErrorPatternsContent(): string {
     }
     byCategory[pattern.category].push(pattern);
   }
+  return byCategory;
+}
 
-  for (const [category, patterns] of Object.entries(byCategory)) {
-    content += `## ${category.charAt(0).toUpperCase() + category.slice(1)}\n\n`;
-    for (const pattern of patterns) {
-      content += `### ${pattern.name}\n\n`;
-      content += `**Triggers:** ${pattern.triggers.join(', ')}\n\n`;
-      content += `${pattern.explanation}\n\n`;
-      content += `**Fix:** ${pattern.fix}\n\n`;
-      if (pattern.example) {
-        content += `**Example:** \`${pattern.example}\`\n\n`;
-      }
+function formatCategory(category: string, patterns: ErrorPattern[]): string {
+  let content = `## ${category.charAt(0).toUpperCase() + category.slice(1)}\n\n`;
+  for (const pattern of patterns) {
+    content += `### ${pattern.name}\n\n`;
+    content += `**Triggers:** ${pattern.triggers.join(', ')}\n\n`;
+    content += `${pattern.explanation}\n\n`;
+    content += `**Fix:** ${pattern.fix}\n\n`;
+    if (pattern.example) {
+      content += `**Example:** \`${pattern.example}\`\n\n`;
     }
   }
+  return content;
+}
+
+/**
+ * Get all error patterns as markdown
+ */
+export function getErrorPatternsContent(): string {
+  let content = '# BitBadges Error Patterns\n\n';
+  content += 'Common errors and how to fix them.\n\n';
+
+  for (const [category, patterns] of Object.entries(groupByCategory())) {
+    content += formatCategory(category, patterns);
+  }
 
   return content;
 }
+
+/**
+ * Error pattern categories, in first-appearance order
+ */
+export function getErrorPatternCategories(): string[] {
+  return Object.keys(groupByCategory());
+}
+
+/**
+ * Get the error patterns of one category as markdown, or null if the category is unknown
+ */
+export function getErrorPatternsContentForCategory(category: string): string | null {
+  const patterns = groupByCategory()[category];
+  return patterns ? formatCategory(category, patterns) : null;
+}
@@ -3362,6 +3362,13 @@ export function getSkillsByCategory(category: SkillInstruction['category']): Ski
   return SKILL_INSTRUCTIONS.filter(s => s.category === category);
 }
 
+/**
+ * Format a single skill as markdown (one section of formatSkillInstructionsForDisplay).
+ */
+export function formatSkillForDisplay(skill: SkillInstruction): string {
+  return `## ${skill.name}\n\n${skill.description}\n\n${skill.instructions}\n\n`;
+}
+
 export function formatSkillInstructionsForDisplay(): string {
   let output = '# BitBadges Builder Skills\n\n';
 
@@ -3379,9 +3386,7 @@ export function formatSkillInstructionsForDisplay(): string {
     if (skills.length > 0) {
       output += `# ${categoryNames[category]}\n\n`;
       for (const skill of skills) {
-        output += `## ${skill.name}\n\n`;
-        output += `${skill.description}\n\n`;
-        output += `${skill.instructions}\n\n`;
+        output += formatSkillForDisplay(skill);
         output += '---\n\n';
       }
     }
@@ -0,0 +1,181 @@
+/**
+ * Resource templates — parameterised resources, so clients can fetch one skill, one
+ * error category, one collection or one session instead of the full documents.
+ *
+ *   bitbadges://skills/{id}                  One skill's instructions (markdown)
+ *   bitbadges://errors/{category}            Error patterns in one category (markdown)
+ *   bitbadges://collections/{collectionId}   On-chain collection via the API (JSON, needs BITBADGES_API_KEY)
+ *   bitbadges://session/{sessionId}          A builder session as an export document (JSON, secrets redacted)
+ *
+ * Session resources are subscribable: the server sends notifications/resources/updated
+ * whenever the session changes (see server.ts). Over HTTP a client only sees its own
+ * session (the one named after its MCP transport session).
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { getSkillInstructions, getAllSkillInstructions, formatSkillForDisplay } from './skillInstructions.js';
+import { getErrorPatternCategories, getErrorPatternsContentForCategory } from './errorPatterns.js';
+import { getCollections } from '../sdk/apiClient.js';
+import { exportSession, hasSession, listSessionIds } from '../session/sessionState.js';
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/** Who is asking for a resource */
+export interface ResourceContext {
+  /** The caller's MCP transport session (HTTP mode) — session resources are limited to it */
+  transportSessionId?: string;
+}
+
+interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  /** Concrete resources to include in resources/list (omitted when they can't be enumerated) */
+  list?: (context: ResourceContext) => Array<{ uri: string; name: string }>;
+  read: (params: Record<string, string>, context: ResourceContext) => Promise<string> | string;
+}
+
+const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: 'bitbadges://skills/{id}',
+    name: 'Skill Instructions (single skill)',
+    description: 'Instructions for one builder skill, e.g. bitbadges://skills/subscription',
+    mimeType: 'text/markdown',
+    list: () => {
+      const ids = [...new Set(getAllSkillInstructions().map((s) => s.id))];
+      return ids.map((id) => ({ uri: `bitbadges://skills/${id}`, name: `Skill: ${getSkillInstructions(id)!.name}` }));
+    },
+    read: ({ id }) => {
+      const skill = getSkillInstructions(id);
+      if (!skill) {
+        const available = [...new Set(getAllSkillInstructions().map((s) => s.id))];
+        throw new Error(`Unknown skill "${id}". Available skills: ${available.join(', ')}`);
+      }
+      return formatSkillForDisplay(skill);
+    }
+  },
+  {
+    uriTemplate: 'bitbadges://errors/{category}',
+    name: 'Error Patterns (single category)',
+    description: 'Error patterns for one category, e.g. bitbadges://errors/transfer',
+    mimeType: 'text/markdown',
+    list: () => getErrorPatternCategories().map((category) => ({
+      uri: `bitbadges://errors/${category}`,
+      name: `Error Patterns: ${category}`
+    })),
+    read: ({ category }) => {
+      const content = getErrorPatternsContentForCategory(category);
+      if (content === null) {
+        throw new Error(`Unknown error category "${category}". Categories: ${getErrorPatternCategories().join(', ')}`);
+      }
+      return content;
+    }
+  },
+  {
+    uriTemplate: 'bitbadges://collections/{collectionId}',
+    name: 'On-chain Collection',
+    description: 'A collection fetched from the BitBadges API, e.g. bitbadges://collections/1. Requires BITBADGES_API_KEY.',
+    mimeType: 'application/json',
+    read: async ({ collectionId }) => {
+      const response = await getCollections({
+        collectionsToFetch: [{ collectionId, metadataToFetch: { uris: [] }, fetchTotalAndMintBalances: true }]
+      });
+      if (!response.success) {
+        throw new Error(response.error || `Failed to fetch collection ${collectionId}`);
+      }
+      const collection = response.data?.collections?.[0];
+      if (!collection) {
+        throw new Error(`Collection ${collectionId} not found`);
+      }
+      return JSON.stringify(collection, null, 2);
+    }
+  },
+  {
+    uriTemplate: 'bitbadges://session/{sessionId}',
+    name: 'Builder Session',
+    description: 'A builder session as an export_session document (claim secrets redacted), e.g. bitbadges://session/my-session',
+    mimeType: 'application/json',
+    list: ({ transportSessionId }) => {
+      const sessionIds = transportSessionId === undefined
+        ? listSessionIds()
+        : [transportSessionId].filter((sessionId) => hasSession(sessionId));
+      return sessionIds.map((sessionId) => ({
+        uri: sessionResourceUri(sessionId),
+        name: `Session: ${sessionId}`
+      }));
+    },
+    read: ({ sessionId }, context) => {
+      assertSessionResourceAccess(sessionId, context);
+      return JSON.stringify(exportSession(sessionId), null, 2);
+    }
+  }
+];
+
+const compiled = RESOURCE_TEMPLATES.map((template) => ({ template, matcher: new UriTemplate(template.uriTemplate) }));
+const sessionMatcher = new UriTemplate('bitbadges://session/{sessionId}');
+
+/**
+ * The resource URI of a builder session (what clients subscribe to for live updates).
+ */
+export function sessionResourceUri(sessionId: string): string {
+  return `bitbadges://session/${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * The session ID in a bitbadges://session/{sessionId} URI, or null for other URIs.
+ */
+export function sessionIdFromUri(uri: string): string | null {
+  const match = sessionMatcher.match(uri);
+  if (!match) return null;
+  const sessionId = Array.isArray(match.sessionId) ? match.sessionId.join(',') : match.sessionId;
+  return decodeURIComponent(sessionId);
+}
+
+/**
+ * Throw unless the caller may read or subscribe to this session's resource. Without a
+ * transport session (stdio) every session is visible.
+ */
+export function assertSessionResourceAccess(sessionId: string, context: ResourceContext): void {
+  if (context.transportSessionId !== undefined && sessionId !== context.transportSessionId) {
+    throw new Error(`Session "${sessionId}" is not available on this connection. HTTP clients can only read their own session.`);
+  }
+}
+
+/**
+ * resources/templates/list entries.
+ */
+export function listResourceTemplates() {
+  return RESOURCE_TEMPLATES.map(({ uriTemplate, name, description, mimeType }) => ({ uriTemplate, name, description, mimeType }));
+}
+
+/**
+ * Concrete resources for the templates that can be enumerated (for resources/list).
+ */
+export function listTemplatedResources(context: ResourceContext = {}) {
+  return RESOURCE_TEMPLATES.flatMap((template) =>
+    (template.list?.(context) || []).map((resource) => ({ ...resource, mimeType: template.mimeType }))
+  );
+}
+
+/**
+ * Read a URI that matches one of the templates. Returns null if none match; throws
+ * if a template matches but the resource can't be read (unknown skill, API error, ...).
+ */
+export async function readResourceTemplate(uri: string, context: ResourceContext = {}): Promise<ResourceContents | null> {
+  for (const { template, matcher } of compiled) {
+    const variables = matcher.match(uri);
+    if (!variables) continue;
+
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(variables)) {
+      params[key] = decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+    }
+    return { uri, mimeType: template.mimeType, text: await template.read(params, context) };
+  }
+  return null;
+}
@@ -243,3 +243,23 @@ Step 3: → Present findings to user
 export function getWorkflowsContent(): string {
   return Object.values(WORKFLOWS_CONTENT).join('\n\n');
 }
+
+export interface Workflow {
+  /** Kebab-case ID, e.g. "bb402-acquire" */
+  id: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * The individual workflow chains (without the overview).
+ */
+export function getWorkflows(): Workflow[] {
+  return Object.entries(WORKFLOWS_CONTENT)
+    .filter(([key]) => key !== 'overview')
+    .map(([key, content]) => ({
+      id: key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase(),
+      title: content.split('\n')[0].replace(/^#+\s*/, ''),
+      content
+    }));
+}
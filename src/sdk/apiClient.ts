@@ -1,20 +1,115 @@
 /**
  * BitBadges API Client
  * Lightweight wrapper for BitBadges API calls
+ *
+ * Requests time out (BITBADGES_API_TIMEOUT_MS, default 15s) and are retried with
+ * exponential backoff on network errors, timeouts, 429 and 5xx (BITBADGES_API_RETRIES,
+ * default 2), honouring Retry-After. Failures carry a typed ApiError alongside the
+ * error string. Requests made inside withApiSignal() are aborted with its signal
+ * (the server uses this for MCP cancellation).
+ *
+ * Successful responses are cached in-process, keyed by endpoint and body, with a TTL
+ * per endpoint and an LRU cap (BITBADGES_API_CACHE_MAX, default 200; BITBADGES_API_CACHE=off
+ * disables it). Simulation and ownership checks are never cached.
+ *
+ * BITBADGES_API_FIXTURES=record|replay saves responses to, or serves them from, a
+ * fixtures directory (see apiFixtures.ts).
+ *
+ * Paginated endpoints have getAll* helpers that follow bookmarks up to a maximum item
+ * count (see paginate).
+ *
+ * Responses are checked against a zod schema per endpoint. A mismatch fails the request
+ * with a 'schema' ApiError naming the offending paths; BITBADGES_API_VALIDATION=lenient
+ * logs it and returns the data anyway, =off skips the check.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { getFixtureMode, getFixturesDir, readFixture, writeFixture, type FixtureMode } from './apiFixtures.js';
+
 export interface ApiClientConfig {
   apiKey?: string;
   apiUrl?: string;
   testnet?: boolean;
+  /** Per-attempt timeout in ms (default: BITBADGES_API_TIMEOUT_MS or 15000, 0 = none) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (default: BITBADGES_API_RETRIES or 2) */
+  retries?: number;
+  /** Base backoff delay in ms, doubled per retry (default 500) */
+  retryDelayMs?: number;
+  /** Abort the request (and any pending retry) */
+  signal?: AbortSignal;
+  /** Skip the response cache lookup (a fresh response still refreshes the cache) */
+  bypassCache?: boolean;
+  /** Response schema checking (default: BITBADGES_API_VALIDATION or 'strict') */
+  validation?: ApiValidationMode;
+}
+
+/**
+ * strict: a response that doesn't match its schema fails the request
+ * lenient: the mismatch is logged and the response returned as-is
+ * off: responses aren't checked
+ */
+export type ApiValidationMode = 'strict' | 'lenient' | 'off';
+
+export type ApiErrorKind =
+  | 'auth'        // Missing/invalid API key (no key, 401, 403)
+  | 'validation'  // The API rejected the request (400, 422)
+  | 'not-found'   // 404
+  | 'rate-limit'  // 429 after retries
+  | 'server'      // 5xx after retries
+  | 'timeout'     // No response within timeoutMs, after retries
+  | 'network'     // fetch failed (DNS, connection reset, ...), after retries
+  | 'cancelled'   // Aborted by the caller
+  | 'schema'      // The response didn't match its schema (strict validation)
+  | 'fixture'     // Replay mode has no recorded fixture for the request
+  | 'config';     // The client is misconfigured (e.g. unknown BITBADGES_API_VALIDATION mode)
+
+/** One way a response differs from its schema */
+export interface ApiSchemaIssue {
+  /** Dotted path into the response body, e.g. collections.0.manager ('' for the body itself) */
+  path: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, when the API responded */
+  readonly status?: number;
+  /** Attempts made, retries included */
+  readonly attempts: number;
+  /** Schema mismatches (kind 'schema') */
+  readonly issues?: ApiSchemaIssue[];
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; attempts?: number; issues?: ApiSchemaIssue[] } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.attempts = options.attempts ?? 1;
+    this.issues = options.issues;
+  }
+
+  /** Worth retrying: the same request may succeed later */
+  get retryable(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'server' || this.kind === 'timeout' || this.kind === 'network';
+  }
 }
 
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  /** Typed failure (set whenever success is false) */
+  apiError?: ApiError;
 }
 
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+/** Don't wait longer than this between attempts, even if Retry-After asks for it */
+const MAX_RETRY_WAIT_MS = 30_000;
+
 /**
  * Get the API key from environment variable
  */
@@ -32,57 +127,374 @@ export function getApiUrl(testnet: boolean = false): string {
   return testnet ? `${base}/testnet` : base;
 }
 
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const requestSignal = new AsyncLocalStorage<AbortSignal>();
+
 /**
- * Make an API request to BitBadges
+ * Run `fn` with every API request it makes (without its own config.signal) bound to
+ * `signal`, so aborting the signal cancels in-flight requests and pending retries.
  */
-export async function apiRequest<T>(
-  endpoint: string,
-  method: 'GET' | 'POST' = 'POST',
-  body?: unknown,
-  config: ApiClientConfig = {}
-): Promise<ApiResponse<T>> {
-  const apiKey = config.apiKey || getApiKey();
-  const apiUrl = config.apiUrl || getApiUrl(config.testnet);
+export function withApiSignal<T>(signal: AbortSignal | undefined, fn: () => T): T {
+  return signal ? requestSignal.run(signal, fn) : fn();
+}
 
-  if (!apiKey) {
-    return {
-      success: false,
-      error: 'BITBADGES_API_KEY environment variable not set. Set it to use API query tools.'
-    };
+// ============================================
+// Response cache
+// ============================================
+
+/** Endpoints whose responses depend on chain state at call time — never cached */
+const UNCACHED_ENDPOINTS = ['/api/v0/simulate', '/api/v0/verifyOwnershipRequirements'];
+
+/** TTL by endpoint prefix, first match wins */
+const CACHE_TTLS: Array<{ prefix: string; ttlMs: number }> = [
+  { prefix: '/api/v0/plugins', ttlMs: 5 * 60_000 },
+  { prefix: '/api/v0/collections/', ttlMs: 15_000 }, // balances
+  { prefix: '/api/v0/collection/', ttlMs: 15_000 }, // per-token balances
+  { prefix: '/api/v0/collections', ttlMs: 60_000 },
+  { prefix: '/api/v0/search', ttlMs: 60_000 }
+];
+const DEFAULT_CACHE_TTL_MS = 30_000;
+const DEFAULT_CACHE_MAX_ENTRIES = 200;
+
+interface CacheEntry {
+  endpoint: string;
+  data: unknown;
+  expiresAt: number;
+}
+
+// Map iteration order is insertion order; hits are re-inserted, so the first key is least recently used
+const responseCache = new Map<string, CacheEntry>();
+
+function cacheTtl(endpoint: string): number {
+  if (UNCACHED_ENDPOINTS.some((prefix) => endpoint.startsWith(prefix))) return 0;
+  if (process.env.BITBADGES_API_CACHE === 'off') return 0;
+  return CACHE_TTLS.find((entry) => endpoint.startsWith(entry.prefix))?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+}
+
+function cacheKey(method: string, url: string, body: unknown): string {
+  return `${method} ${url} ${body === undefined ? '' : JSON.stringify(body)}`;
+}
+
+function readCache(key: string): unknown {
+  const entry = responseCache.get(key);
+  if (!entry) return undefined;
+  responseCache.delete(key);
+  if (entry.expiresAt <= Date.now()) return undefined;
+  responseCache.set(key, entry);
+  // Callers may mutate what they get back; the cached copy must stay pristine
+  return structuredClone(entry.data);
+}
+
+function writeCache(key: string, endpoint: string, data: unknown, ttlMs: number): void {
+  responseCache.delete(key);
+  responseCache.set(key, { endpoint, data: structuredClone(data), expiresAt: Date.now() + ttlMs });
+  const maxEntries = envNumber('BITBADGES_API_CACHE_MAX', DEFAULT_CACHE_MAX_ENTRIES);
+  while (responseCache.size > maxEntries) {
+    responseCache.delete(responseCache.keys().next().value!);
   }
+}
 
-  try {
-    const url = `${apiUrl}${endpoint}`;
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey
+/**
+ * Drop cached API responses — all of them, or those whose endpoint starts with
+ * `endpointPrefix`. Returns how many entries were removed.
+ */
+export function clearApiCache(endpointPrefix?: string): number {
+  if (!endpointPrefix) {
+    const count = responseCache.size;
+    responseCache.clear();
+    return count;
+  }
+  let count = 0;
+  for (const [key, entry] of [...responseCache]) {
+    if (entry.endpoint.startsWith(endpointPrefix)) {
+      responseCache.delete(key);
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Number of cached API responses (expired entries included until they're evicted).
+ */
+export function getApiCacheSize(): number {
+  return responseCache.size;
+}
+
+function errorKindForStatus(status: number): ApiErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not-found';
+  if (status === 429) return 'rate-limit';
+  if (status >= 500) return 'server';
+  return 'validation';
+}
+
+/**
+ * Retry-After as a delay in ms (delta-seconds or an HTTP date), or undefined.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
     };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface AttemptFailure {
+  error: ApiError;
+  /** Server-requested wait before the next attempt */
+  retryAfterMs?: number;
+}
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined
-    });
+async function attemptRequest<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  attempt: number
+): Promise<{ data: T } | AttemptFailure> {
+  // One controller per attempt: aborted by the caller's signal or by the timeout
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : undefined;
 
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
     if (!response.ok) {
       const errorText = await response.text();
       return {
-        success: false,
-        error: `API Error ${response.status}: ${errorText}`
+        error: new ApiError(errorKindForStatus(response.status), `API Error ${response.status}: ${errorText}`, { status: response.status, attempts: attempt }),
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
       };
     }
-
-    const data = await response.json() as T;
-    return {
-      success: true,
-      data
-    };
+    return { data: await response.json() as T };
   } catch (error) {
+    if (signal?.aborted) {
+      return { error: new ApiError('cancelled', 'Request cancelled', { attempts: attempt }) };
+    }
+    if (timedOut) {
+      return { error: new ApiError('timeout', `Request timed out after ${timeoutMs}ms`, { attempts: attempt }) };
+    }
     return {
-      success: false,
-      error: `Request failed: ${error instanceof Error ? error.message : String(error)}`
+      error: new ApiError('network', `Request failed: ${error instanceof Error ? error.message : String(error)}`, { attempts: attempt })
     };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+interface RetryOptions {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+  signal?: AbortSignal;
+}
+
+async function requestWithRetries<T>(url: string, init: RequestInit, options: RetryOptions): Promise<ApiResponse<T>> {
+  const { timeoutMs, retries, retryDelayMs, signal } = options;
+  for (let attempt = 1; ; attempt++) {
+    const result = await attemptRequest<T>(url, init, timeoutMs, signal, attempt);
+    if ('data' in result) {
+      return { success: true, data: result.data };
+    }
+
+    const { error, retryAfterMs } = result;
+    const wait = retryAfterMs ?? retryDelayMs * 2 ** (attempt - 1);
+    if (!error.retryable || attempt > retries || wait > MAX_RETRY_WAIT_MS) {
+      return { success: false, error: error.message, apiError: error };
+    }
+    try {
+      await sleep(wait, signal);
+    } catch {
+      const cancelled = new ApiError('cancelled', 'Request cancelled', { attempts: attempt });
+      return { success: false, error: cancelled.message, apiError: cancelled };
+    }
+  }
+}
+
+/**
+ * Serve a request from its recorded fixture (replay mode).
+ */
+function replayRequest<T>(method: string, endpoint: string, body: unknown): ApiResponse<T> {
+  let fixture: ReturnType<typeof readFixture>;
+  try {
+    fixture = readFixture(method, endpoint, body);
+  } catch (err: any) {
+    const error = err.message as string;
+    return { success: false, error, apiError: new ApiError('fixture', error, { attempts: 0 }) };
   }
+  if (!fixture) {
+    const error = `No recorded fixture for ${method} ${endpoint} in ${getFixturesDir()}. Record one with BITBADGES_API_FIXTURES=record.`;
+    return { success: false, error, apiError: new ApiError('fixture', error, { attempts: 0 }) };
+  }
+  if (fixture.status >= 200 && fixture.status < 300) {
+    return { success: true, data: fixture.data as T };
+  }
+  const error = fixture.error || `API Error ${fixture.status}`;
+  return { success: false, error, apiError: new ApiError(errorKindForStatus(fixture.status), error, { status: fixture.status, attempts: 0 }) };
+}
+
+// ============================================
+// Response validation
+// ============================================
+
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * The validation mode to use, or a 'config' ApiError when it isn't one of the known modes.
+ */
+function getValidationMode(config: ApiClientConfig): ApiValidationMode | ApiError {
+  const mode = config.validation ?? (process.env.BITBADGES_API_VALIDATION || 'strict');
+  if (mode !== 'strict' && mode !== 'lenient' && mode !== 'off') {
+    return new ApiError('config', `Unknown BITBADGES_API_VALIDATION mode "${mode}". Use "strict", "lenient" or "off".`, { attempts: 0 });
+  }
+  return mode;
+}
+
+/**
+ * Check the API client env settings (BITBADGES_API_VALIDATION, BITBADGES_API_FIXTURES)
+ * up front, so a typo stops startup instead of failing every request. Throws on the first bad one.
+ */
+export function checkApiClientEnv(): void {
+  const validation = getValidationMode({});
+  if (validation instanceof ApiError) throw validation;
+  getFixtureMode();
+}
+
+/**
+ * Check a successful response against its schema. Strict mode turns a mismatch into a
+ * 'schema' failure; lenient mode logs it (to stderr — stdout is the MCP transport).
+ */
+function checkResponse<T>(
+  method: string,
+  endpoint: string,
+  response: ApiResponse<T>,
+  schema: z.ZodType<T> | undefined,
+  mode: ApiValidationMode
+): ApiResponse<T> {
+  if (!response.success || !schema || mode === 'off') return response;
+  const parsed = schema.safeParse(response.data);
+  if (parsed.success) return response;
+
+  const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  const listed = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `${issue.path || '(body)'}: ${issue.message}`);
+  if (issues.length > MAX_REPORTED_ISSUES) listed.push(`and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  const error = `Unexpected API response from ${method} ${endpoint}: ${listed.join('; ')}`;
+
+  if (mode === 'lenient') {
+    console.warn(`${error} (BITBADGES_API_VALIDATION=lenient, using it anyway)`);
+    return response;
+  }
+  return { success: false, error, apiError: new ApiError('schema', error, { issues }) };
+}
+
+/**
+ * Make an API request to BitBadges. With a `schema`, the response body is checked
+ * against it (see ApiValidationMode).
+ */
+export async function apiRequest<T>(
+  endpoint: string,
+  method: 'GET' | 'POST' = 'POST',
+  body?: unknown,
+  config: ApiClientConfig = {},
+  schema?: z.ZodType<T>
+): Promise<ApiResponse<T>> {
+  const validation = getValidationMode(config);
+  if (validation instanceof ApiError) {
+    return { success: false, error: validation.message, apiError: validation };
+  }
+  let fixtureMode: FixtureMode | undefined;
+  try {
+    fixtureMode = getFixtureMode();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message, apiError: new ApiError('config', message, { attempts: 0 }) };
+  }
+  if (fixtureMode === 'replay') {
+    return checkResponse(method, endpoint, replayRequest<T>(method, endpoint, body), schema, validation);
+  }
+
+  const apiKey = config.apiKey || getApiKey();
+  const apiUrl = config.apiUrl || getApiUrl(config.testnet);
+
+  if (!apiKey) {
+    const error = 'BITBADGES_API_KEY environment variable not set. Set it to use API query tools.';
+    return { success: false, error, apiError: new ApiError('auth', error, { attempts: 0 }) };
+  }
+
+  const url = `${apiUrl}${endpoint}`;
+  const ttlMs = fixtureMode === 'record' ? 0 : cacheTtl(endpoint);
+  const key = cacheKey(method, url, body);
+  if (ttlMs > 0 && !config.bypassCache) {
+    const cached = readCache(key);
+    if (cached !== undefined) return { success: true, data: cached as T };
+  }
+
+  const init: RequestInit = {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey
+    },
+    body: body ? JSON.stringify(body) : undefined
+  };
+  const raw = await requestWithRetries<T>(url, init, {
+    timeoutMs: config.timeoutMs ?? envNumber('BITBADGES_API_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    retries: config.retries ?? envNumber('BITBADGES_API_RETRIES', DEFAULT_RETRIES),
+    retryDelayMs: config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    signal: config.signal ?? requestSignal.getStore()
+  });
+
+  // Record what the API answered, errors and off-schema bodies included; network failures have nothing to replay
+  if (fixtureMode === 'record' && (raw.success || raw.apiError?.status !== undefined)) {
+    try {
+      writeFixture({
+        method,
+        endpoint,
+        body,
+        status: raw.apiError?.status ?? 200,
+        ...(raw.success ? { data: raw.data } : { error: raw.error })
+      });
+    } catch (error: any) {
+      // The request itself went through — a fixture that can't be saved shouldn't fail it
+      console.warn(`Could not record fixture for ${method} ${endpoint}: ${error.message}`);
+    }
+  }
+  const response = checkResponse(method, endpoint, raw, schema, validation);
+  if (response.success && ttlMs > 0) {
+    writeCache(key, endpoint, response.data, ttlMs);
+  }
+  return response;
 }
 
 // ============================================
@@ -100,66 +512,80 @@ export interface GetCollectionsRequest {
   bookmark?: string;
 }
 
-export interface CollectionResponse {
-  collections: Array<{
-    collectionId: string;
-    collectionMetadataTimeline: Array<{
-      collectionMetadata: {
-        uri: string;
-        metadata?: {
-          name?: string;
-          description?: string;
-          image?: string;
-        };
-      };
-    }>;
-    validBadgeIds: Array<{ start: string; end: string }>;
-    manager: string;
-    standards: string[];
-    [key: string]: unknown;
-  }>;
-  bookmark?: string;
-  hasMore?: boolean;
-}
+const uintRangeSchema = z.object({ start: z.string(), end: z.string() });
+
+const collectionMetadataSchema = z.object({
+  uri: z.string(),
+  metadata: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    image: z.string().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+// Collections come back either with flat fields (manager, collectionMetadata, validTokenIds)
+// or in the older timeline format (managerTimeline, collectionMetadataTimeline, validBadgeIds)
+export const collectionResponseSchema = z.object({
+  collections: z.array(z.object({
+    collectionId: z.string(),
+    manager: z.string().optional(),
+    managerTimeline: z.array(z.object({ manager: z.string() }).passthrough()).optional(),
+    collectionMetadata: collectionMetadataSchema.optional(),
+    collectionMetadataTimeline: z.array(z.object({ collectionMetadata: collectionMetadataSchema }).passthrough()).optional(),
+    validTokenIds: z.array(uintRangeSchema).optional(),
+    validBadgeIds: z.array(uintRangeSchema).optional(),
+    standards: z.array(z.string()).optional()
+  }).passthrough()),
+  bookmark: z.string().optional(),
+  hasMore: z.boolean().optional()
+});
+
+export type CollectionResponse = z.infer<typeof collectionResponseSchema>;
 
 export async function getCollections(
   request: GetCollectionsRequest,
   config?: ApiClientConfig
 ): Promise<ApiResponse<CollectionResponse>> {
-  return apiRequest<CollectionResponse>('/api/v0/collections', 'POST', request, config);
+  return apiRequest('/api/v0/collections', 'POST', request, config, collectionResponseSchema);
 }
 
 // ============================================
 // Balance APIs
 // ============================================
 
-export interface BalanceResponse {
-  balance: {
-    balances: Array<{
-      amount: string;
-      badgeIds: Array<{ start: string; end: string }>;
-      ownershipTimes: Array<{ start: string; end: string }>;
-    }>;
-    [key: string]: unknown;
-  };
-}
+export const balanceResponseSchema = z.object({
+  balance: z.object({
+    balances: z.array(z.object({
+      amount: z.string(),
+      // tokenIds on current API versions, badgeIds on older ones
+      tokenIds: z.array(uintRangeSchema).optional(),
+      badgeIds: z.array(uintRangeSchema).optional(),
+      ownershipTimes: z.array(uintRangeSchema)
+    }))
+  }).passthrough()
+});
+
+export type BalanceResponse = z.infer<typeof balanceResponseSchema>;
 
 export async function getBalance(
   collectionId: string,
   address: string,
   config?: ApiClientConfig
 ): Promise<ApiResponse<BalanceResponse>> {
-  return apiRequest<BalanceResponse>(
+  return apiRequest(
     `/api/v0/collections/${collectionId}/balance/${address}`,
     'POST',
     {},
-    config
+    config,
+    balanceResponseSchema
   );
 }
 
-export interface TokenBalanceResponse {
-  balance: string;
-}
+export const tokenBalanceResponseSchema = z.object({
+  balance: z.string()
+});
+
+export type TokenBalanceResponse = z.infer<typeof tokenBalanceResponseSchema>;
 
 export async function getBalanceForToken(
   collectionId: string,
@@ -167,11 +593,49 @@ export async function getBalanceForToken(
   address: string,
   config?: ApiClientConfig
 ): Promise<ApiResponse<TokenBalanceResponse>> {
-  return apiRequest<TokenBalanceResponse>(
+  return apiRequest(
     `/api/v0/collection/${collectionId}/${tokenId}/balance/${address}`,
     'GET',
     undefined,
-    config
+    config,
+    tokenBalanceResponseSchema
+  );
+}
+
+// ============================================
+// Owner APIs
+// ============================================
+
+export interface GetTokenOwnersRequest {
+  bookmark?: string;
+}
+
+export const tokenOwnersResponseSchema = z.object({
+  owners: z.array(z.object({
+    address: z.string(),
+    balances: balanceResponseSchema.shape.balance.shape.balances
+  }).passthrough()),
+  pagination: z.object({
+    bookmark: z.string().optional(),
+    hasMore: z.boolean().optional()
+  }).optional()
+});
+
+export type TokenOwnersResponse = z.infer<typeof tokenOwnersResponseSchema>;
+
+export async function getTokenOwners(
+  collectionId: string,
+  tokenId: string,
+  request: GetTokenOwnersRequest = {},
+  config?: ApiClientConfig
+): Promise<ApiResponse<TokenOwnersResponse>> {
+  const query = request.bookmark ? `?bookmark=${encodeURIComponent(request.bookmark)}` : '';
+  return apiRequest(
+    `/api/v0/collection/${collectionId}/${tokenId}/owners${query}`,
+    'GET',
+    undefined,
+    config,
+    tokenOwnersResponseSchema
   );
 }
 
@@ -194,19 +658,21 @@ export interface SimulateRequest {
   }>;
 }
 
-export interface SimulateResponse {
-  results: Array<{
-    gasUsed?: string;
-    events?: unknown[];
-    error?: string;
-  }>;
-}
+export const simulateResponseSchema = z.object({
+  results: z.array(z.object({
+    gasUsed: z.string().optional(),
+    events: z.array(z.unknown()).optional(),
+    error: z.string().optional()
+  }))
+});
+
+export type SimulateResponse = z.infer<typeof simulateResponseSchema>;
 
 export async function simulateTx(
   request: SimulateRequest,
   config?: ApiClientConfig
 ): Promise<ApiResponse<SimulateResponse>> {
-  return apiRequest<SimulateResponse>('/api/v0/simulate', 'POST', request, config);
+  return apiRequest('/api/v0/simulate', 'POST', request, config, simulateResponseSchema);
 }
 
 // ============================================
@@ -228,17 +694,19 @@ export interface VerifyOwnershipRequest {
   };
 }
 
-export interface VerifyOwnershipResponse {
-  success: boolean;
-  verified: boolean;
-  details?: unknown;
-}
+export const verifyOwnershipResponseSchema = z.object({
+  success: z.boolean(),
+  verified: z.boolean(),
+  details: z.unknown().optional()
+});
+
+export type VerifyOwnershipResponse = z.infer<typeof verifyOwnershipResponseSchema>;
 
 export async function verifyOwnership(
   request: VerifyOwnershipRequest,
   config?: ApiClientConfig
 ): Promise<ApiResponse<VerifyOwnershipResponse>> {
-  return apiRequest<VerifyOwnershipResponse>('/api/v0/verifyOwnershipRequirements', 'POST', request, config);
+  return apiRequest('/api/v0/verifyOwnershipRequirements', 'POST', request, config, verifyOwnershipResponseSchema);
 }
 
 // ============================================
@@ -248,25 +716,23 @@ export async function verifyOwnership(
 export interface SearchRequest {
   searchValue: string;
   specificCollectionId?: string;
+  bookmark?: string;
 }
 
-export interface SearchResponse {
-  collections?: Array<{
-    collectionId: string;
-    [key: string]: unknown;
-  }>;
-  accounts?: Array<{
-    address: string;
-    [key: string]: unknown;
-  }>;
-  [key: string]: unknown;
-}
+export const searchResponseSchema = z.object({
+  collections: z.array(z.object({ collectionId: z.string() }).passthrough()).optional(),
+  accounts: z.array(z.object({ address: z.string() }).passthrough()).optional(),
+  bookmark: z.string().optional(),
+  hasMore: z.boolean().optional()
+}).passthrough();
+
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
 
 export async function search(
   request: SearchRequest,
   config?: ApiClientConfig
 ): Promise<ApiResponse<SearchResponse>> {
-  return apiRequest<SearchResponse>('/api/v0/search', 'POST', request, config);
+  return apiRequest('/api/v0/search', 'POST', request, config, searchResponseSchema);
 }
 
 // ============================================
@@ -280,42 +746,43 @@ export interface SearchPluginsRequest {
   creatorAddress?: string;
 }
 
-export interface PluginDoc {
-  pluginId: string;
-  metadata: {
-    name: string;
-    description: string;
-    image: string;
-  };
-  stateFunctionPreset?: string;
-  duplicatesAllowed?: boolean;
-  requiresUserInputs?: boolean;
-  reuseForNonIndexed?: boolean;
-  receiveStatusWebhook?: boolean;
-  skipProcessingWebhook?: boolean;
-  ignoreSimulations?: boolean;
-  requireSignIn?: boolean;
-  verificationCall?: {
-    uri: string;
-  };
-  userInputsSchema?: Array<Record<string, any>>;
-  publicParamsSchema?: Array<Record<string, any>>;
-  privateParamsSchema?: Array<Record<string, any>>;
-  customDetailsDisplay?: string;
-  [key: string]: unknown;
-}
-
-export interface SearchPluginsResponse {
-  plugins: PluginDoc[];
-  bookmark?: string;
-}
+export const pluginDocSchema = z.object({
+  pluginId: z.string(),
+  metadata: z.object({
+    name: z.string(),
+    description: z.string(),
+    image: z.string()
+  }),
+  stateFunctionPreset: z.string().optional(),
+  duplicatesAllowed: z.boolean().optional(),
+  requiresUserInputs: z.boolean().optional(),
+  reuseForNonIndexed: z.boolean().optional(),
+  receiveStatusWebhook: z.boolean().optional(),
+  skipProcessingWebhook: z.boolean().optional(),
+  ignoreSimulations: z.boolean().optional(),
+  requireSignIn: z.boolean().optional(),
+  verificationCall: z.object({ uri: z.string() }).optional(),
+  userInputsSchema: z.array(z.record(z.any())).optional(),
+  publicParamsSchema: z.array(z.record(z.any())).optional(),
+  privateParamsSchema: z.array(z.record(z.any())).optional(),
+  customDetailsDisplay: z.string().optional()
+}).passthrough();
+
+export type PluginDoc = z.infer<typeof pluginDocSchema>;
+
+export const searchPluginsResponseSchema = z.object({
+  plugins: z.array(pluginDocSchema),
+  bookmark: z.string().optional()
+});
+
+export type SearchPluginsResponse = z.infer<typeof searchPluginsResponseSchema>;
 
 export async function searchPlugins(
   request: SearchPluginsRequest,
   config?: ApiClientConfig
 ): Promise<ApiResponse<SearchPluginsResponse>> {
   if (request.pluginIds && request.pluginIds.length > 0) {
-    return apiRequest<SearchPluginsResponse>('/api/v0/plugins', 'POST', { pluginIds: request.pluginIds }, config);
+    return apiRequest('/api/v0/plugins', 'POST', { pluginIds: request.pluginIds }, config, searchPluginsResponseSchema);
   }
   const params = new URLSearchParams();
   if (request.searchValue) params.set('searchValue', request.searchValue);
@@ -323,5 +790,153 @@ export async function searchPlugins(
   if (request.creatorAddress) params.set('creatorAddress', request.creatorAddress);
   const queryString = params.toString();
   const endpoint = `/api/v0/plugins/search${queryString ? `?${queryString}` : ''}`;
-  return apiRequest<SearchPluginsResponse>(endpoint, 'GET', undefined, config);
+  return apiRequest(endpoint, 'GET', undefined, config, searchPluginsResponseSchema);
+}
+
+// ============================================
+// Pagination
+// ============================================
+
+const DEFAULT_MAX_ITEMS = 1000;
+
+export interface PaginateOptions {
+  /** Stop once this many items are collected (default 1000) */
+  maxItems?: number;
+}
+
+/** One page of a paginated response, normalised */
+export interface Page<T> {
+  items: T[];
+  bookmark?: string;
+  /** Defaults to whether a bookmark was returned */
+  hasMore?: boolean;
+}
+
+export interface PaginatedItems<T> {
+  items: T[];
+  /** Pages fetched */
+  pages: number;
+  /** More items exist than were returned (maxItems was reached) */
+  truncated: boolean;
+}
+
+/**
+ * Fetch page after page, passing each response's bookmark to the next request, until
+ * the API reports no more pages or `maxItems` items are collected. Stops on an empty
+ * page or a repeated bookmark, so a misbehaving endpoint can't loop forever. A failed
+ * page fails the whole call.
+ */
+export async function paginate<P, T>(
+  fetchPage: (bookmark: string | undefined) => Promise<ApiResponse<P>>,
+  toPage: (data: P) => Page<T>,
+  options: PaginateOptions = {}
+): Promise<ApiResponse<PaginatedItems<T>>> {
+  const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+  const items: T[] = [];
+  const seen = new Set<string>();
+  let bookmark: string | undefined;
+
+  for (let pages = 1; ; pages++) {
+    const response = await fetchPage(bookmark);
+    if (!response.success || response.data === undefined) {
+      return { success: false, error: response.error, apiError: response.apiError };
+    }
+    const page = toPage(response.data);
+    items.push(...page.items);
+
+    const next = page.bookmark || undefined;
+    const hasMore = page.hasMore ?? next !== undefined;
+    const exhausted = !hasMore || next === undefined || page.items.length === 0 || seen.has(next);
+    if (exhausted || items.length >= maxItems) {
+      return {
+        success: true,
+        data: { items: items.slice(0, maxItems), pages, truncated: items.length > maxItems || !exhausted }
+      };
+    }
+    seen.add(next);
+    bookmark = next;
+  }
+}
+
+export async function getAllCollections(
+  request: GetCollectionsRequest,
+  config?: ApiClientConfig,
+  options?: PaginateOptions
+): Promise<ApiResponse<PaginatedItems<CollectionResponse['collections'][number]>>> {
+  return paginate(
+    (bookmark) => getCollections({ ...request, bookmark }, config),
+    (data) => ({ items: data.collections, bookmark: data.bookmark, hasMore: data.hasMore }),
+    options
+  );
+}
+
+export async function getAllTokenOwners(
+  collectionId: string,
+  tokenId: string,
+  config?: ApiClientConfig,
+  options?: PaginateOptions
+): Promise<ApiResponse<PaginatedItems<TokenOwnersResponse['owners'][number]>>> {
+  return paginate(
+    (bookmark) => getTokenOwners(collectionId, tokenId, { bookmark }, config),
+    (data) => ({ items: data.owners, bookmark: data.pagination?.bookmark, hasMore: data.pagination?.hasMore }),
+    options
+  );
+}
+
+export async function searchAllPlugins(
+  request: Omit<SearchPluginsRequest, 'bookmark'>,
+  config?: ApiClientConfig,
+  options?: PaginateOptions
+): Promise<ApiResponse<PaginatedItems<PluginDoc>>> {
+  return paginate(
+    (bookmark) => searchPlugins({ ...request, bookmark }, config),
+    (data) => ({ items: data.plugins, bookmark: data.bookmark }),
+    options
+  );
+}
+
+type SearchHit =
+  | { collection: NonNullable<SearchResponse['collections']>[number] }
+  | { account: NonNullable<SearchResponse['accounts']>[number] };
+
+export interface SearchAllResult {
+  collections: NonNullable<SearchResponse['collections']>;
+  accounts: NonNullable<SearchResponse['accounts']>;
+  pages: number;
+  truncated: boolean;
+}
+
+/**
+ * Every page of a search. maxItems counts collections and accounts together.
+ */
+export async function searchAll(
+  request: Omit<SearchRequest, 'bookmark'>,
+  config?: ApiClientConfig,
+  options?: PaginateOptions
+): Promise<ApiResponse<SearchAllResult>> {
+  const response = await paginate<SearchResponse, SearchHit>(
+    (bookmark) => search({ ...request, bookmark }, config),
+    (data) => ({
+      items: [
+        ...(data.collections || []).map((collection) => ({ collection })),
+        ...(data.accounts || []).map((account) => ({ account }))
+      ],
+      bookmark: data.bookmark,
+      hasMore: data.hasMore
+    }),
+    options
+  );
+  if (!response.success || !response.data) {
+    return { success: false, error: response.error, apiError: response.apiError };
+  }
+  const { items, pages, truncated } = response.data;
+  return {
+    success: true,
+    data: {
+      collections: items.flatMap((hit) => ('collection' in hit ? [hit.collection] : [])),
+      accounts: items.flatMap((hit) => ('account' in hit ? [hit.account] : [])),
+      pages,
+      truncated
+    }
+  };
 }
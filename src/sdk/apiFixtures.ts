@@ -0,0 +1,103 @@
+/**
+ * Record/replay fixtures for BitBadges API requests — for CI and sandboxed runs
+ * without network access.
+ *
+ * - record: requests go to the API as usual and every response (errors included)
+ *   is saved as one JSON file per request
+ * - replay: responses are served from those files; no API key or network needed
+ *
+ * Fixtures are keyed by method, endpoint and the request body with its object keys
+ * sorted, so logically identical requests share a fixture regardless of key order.
+ *
+ * Selected via env:
+ *   BITBADGES_API_FIXTURES      record | replay (default: off)
+ *   BITBADGES_API_FIXTURES_DIR  fixtures directory (default: ./fixtures/api)
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface ApiFixture {
+  method: string;
+  endpoint: string;
+  body?: unknown;
+  /** HTTP status the API answered with */
+  status: number;
+  /** Parsed response body (2xx) */
+  data?: unknown;
+  /** Error message (non-2xx) */
+  error?: string;
+  recordedAt: string;
+}
+
+/**
+ * The configured fixture mode, or undefined when fixtures are off.
+ */
+export function getFixtureMode(): FixtureMode | undefined {
+  const mode = process.env.BITBADGES_API_FIXTURES;
+  if (!mode || mode === 'off') return undefined;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown BITBADGES_API_FIXTURES mode "${mode}". Use "record" or "replay".`);
+  }
+  return mode;
+}
+
+export function getFixturesDir(): string {
+  return resolve(process.env.BITBADGES_API_FIXTURES_DIR || join('fixtures', 'api'));
+}
+
+/**
+ * Sort object keys recursively and drop undefined values (as JSON.stringify would).
+ */
+export function normalizeBody(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalizeBody);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const child = (value as Record<string, unknown>)[key];
+      if (child !== undefined) sorted[key] = normalizeBody(child);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Fixture file name: readable method/endpoint prefix plus a hash of the full request.
+ */
+export function fixtureFileName(method: string, endpoint: string, body: unknown): string {
+  const key = JSON.stringify([method, endpoint, normalizeBody(body) ?? null]);
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 16);
+  const slug = endpoint.split('?')[0].replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '_').slice(0, 80);
+  return `${method}_${slug}_${hash}.json`;
+}
+
+/**
+ * The recorded fixture for a request, or undefined when none was recorded.
+ * Throws when the fixture file can't be read or isn't valid JSON.
+ */
+export function readFixture(method: string, endpoint: string, body: unknown): ApiFixture | undefined {
+  const path = join(getFixturesDir(), fixtureFileName(method, endpoint, body));
+  if (!existsSync(path)) return undefined;
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Could not read fixture ${path}: ${error.message}`);
+  }
+  try {
+    return JSON.parse(text) as ApiFixture;
+  } catch {
+    throw new Error(`Fixture ${path} is not valid JSON. Delete it and record it again.`);
+  }
+}
+
+export function writeFixture(fixture: Omit<ApiFixture, 'recordedAt'>): void {
+  const dir = getFixturesDir();
+  mkdirSync(dir, { recursive: true });
+  const doc: ApiFixture = { ...fixture, body: normalizeBody(fixture.body), recordedAt: new Date().toISOString() };
+  writeFileSync(join(dir, fixtureFileName(fixture.method, fixture.endpoint, fixture.body)), JSON.stringify(doc, null, 2), 'utf-8');
+}
@@ -1,4 +1,5 @@
 export * from './addressGenerator.js';
 export * from './addressUtils.js';
 export * from './apiClient.js';
+export * from './apiFixtures.js';
 export * from './coinRegistry.js';
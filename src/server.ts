@@ -3,98 +3,24 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-
-// Import tool definitions and handlers
 import {
-  lookupTokenInfoTool,
-  handleLookupTokenInfo,
-  validateTransactionTool,
-  handleValidateTransaction,
-  getCurrentTimestampTool,
-  handleGetCurrentTimestamp,
-  generateBackingAddressTool,
-  handleGenerateBackingAddress,
-  generateApprovalTool,
-  handleGenerateApproval,
-  generatePermissionsTool,
-  handleGeneratePermissions,
-  generateAliasPathTool,
-  handleGenerateAliasPath,
-  // Address utilities
-  convertAddressTool,
-  handleConvertAddress,
-  validateAddressTool,
-  handleValidateAddress,
-  // Documentation
-  fetchDocsTool,
-  handleFetchDocs,
-  // Query tools
-  queryCollectionTool,
-  handleQueryCollection,
-  queryBalanceTool,
-  handleQueryBalance,
-  simulateTransactionTool,
-  handleSimulateTransaction,
-  verifyOwnershipTool,
-  handleVerifyOwnership,
-  searchTool,
-  handleSearch,
-  searchPluginsTool,
-  handleSearchPlugins,
-  // Knowledge base tools
-  searchKnowledgeBaseTool,
-  handleSearchKnowledgeBase,
-  diagnoseErrorTool,
-  handleDiagnoseError,
-  // Collection analysis tools
-  analyzeCollectionTool,
-  handleAnalyzeCollection,
-  buildTransferTool,
-  handleBuildTransfer,
-  // Dynamic store tools
-  buildDynamicStoreTool,
-  handleBuildDynamicStore,
-  queryDynamicStoreTool,
-  handleQueryDynamicStore,
-  // Audit tool
-  auditCollectionTool,
-  handleAuditCollection,
-  // Explain tool
-  explainCollectionTool,
-  handleExplainCollection,
-  // Claim builder
-  buildClaimTool,
-  handleBuildClaim,
-  // Standards compliance
-  verifyStandardsCompliance,
-  formatVerificationResult,
-  // Session-based per-field tools (v2)
-  setStandardsTool, handleSetStandards,
-  setValidTokenIdsTool, handleSetValidTokenIds,
-  setDefaultBalancesTool, handleSetDefaultBalances,
-  setPermissionsTool, handleSetPermissions,
-  setInvariantsTool, handleSetInvariants,
-  setManagerTool, handleSetManager,
-  setCollectionMetadataTool, handleSetCollectionMetadata,
-  setTokenMetadataTool, handleSetTokenMetadata,
-  setCustomDataTool, handleSetCustomData,
-  setMintEscrowCoinsTool, handleSetMintEscrowCoins,
-  addApprovalTool, handleAddApproval,
-  removeApprovalTool, handleRemoveApproval,
-  setApprovalMetadataTool, handleSetApprovalMetadata,
-  addAliasPathTool, handleAddAliasPath,
-  removeAliasPathTool, handleRemoveAliasPath,
-  addCosmosWrapperPathTool, handleAddCosmosWrapperPath,
-  removeCosmosWrapperPathTool, handleRemoveCosmosWrapperPath,
-  addTransferTool, handleAddTransfer,
-  removeTransferTool, handleRemoveTransfer,
-  getTransactionTool, handleGetTransaction,
-  // New tools
-  setIsArchivedTool, handleSetIsArchived,
-  generateUniqueIdTool, handleGenerateUniqueId,
-  generateWrapperAddressTool, handleGenerateWrapperAddress
-} from './tools/index.js';
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+// Import tool registry
+import { callTool, getTool } from './tools/registry.js';
+import { getToolProfile, type ToolProfile } from './tools/profiles.js';
+
+// Import prompts
+import { listPrompts, getPrompt } from './prompts/index.js';
 
 // Import resources
 import {
@@ -103,8 +29,6 @@ import {
   formatTokenRegistryForDisplay,
   masterPromptResourceInfo,
   getMasterPromptContent,
-  getSkillInstructions,
-  getAllSkillInstructions,
   formatSkillInstructionsForDisplay,
   // Documentation resources
   conceptsDocsResourceInfo,
@@ -125,11 +49,29 @@ import {
   tokenSchemaResourceInfo,
   getTokenSchemaContent
 } from './resources/index.js';
+import {
+  listResourceTemplates,
+  listTemplatedResources,
+  readResourceTemplate,
+  assertSessionResourceAccess,
+  sessionIdFromUri,
+  sessionResourceUri
+} from './resources/templates.js';
+import { onSessionChange } from './session/sessionState.js';
+import { withApiSignal } from './sdk/apiClient.js';
+
+export interface ServerOptions {
+  /** Tools to expose (default: the full profile) */
+  toolProfile?: ToolProfile;
+}
 
 /**
  * Create and configure the MCP server
  */
-export function createServer(): Server {
+export function createServer(options: ServerOptions = {}): Server {
+  const toolProfile = options.toolProfile || getToolProfile('full');
+  const profileToolNames = new Set(toolProfile.tools.map((tool) => tool.name));
+
   const server = new Server(
     {
       name: 'bitbadges-builder-mcp',
@@ -138,434 +80,46 @@ export function createServer(): Server {
     {
       capabilities: {
         tools: {},
-        resources: {}
+        resources: { subscribe: true, listChanged: true },
+        prompts: {}
       }
     }
   );
 
+  // Tools that take a sessionId. Over HTTP the MCP transport session ID is used when the caller omits it.
+  const sessionScopedTools = new Set(
+    toolProfile.tools.filter((tool) => 'sessionId' in (tool.inputSchema.properties || {})).map((tool) => tool.name)
+  );
+
   // Register tool list handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        // Utilities
-        lookupTokenInfoTool,
-        validateTransactionTool,
-        getCurrentTimestampTool,
-
-        // Components
-        generateBackingAddressTool,
-        generateApprovalTool,
-        generatePermissionsTool,
-        generateAliasPathTool,
-
-        // Skill instructions tool
-        {
-          name: 'get_skill_instructions',
-          description: 'Get detailed instructions for a specific skill. Skills: smart-token, fungible-token, nft-collection, quest, subscription, bb-402, ai-criteria-gate, minting, custom-2fa, immutability, liquidity-pools, payment-protocol, verified, tradable, address-list, burnable, multi-sig-voting, credit-token. Decision matrices are in bitbadges://recipes/all.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              skillId: {
-                type: 'string',
-                description: 'Skill ID: smart-token, minting, liquidity-pools, fungible-token, nft-collection, quest, subscription, immutability, custom-2fa, address-list, bb-402, burnable, multi-sig-voting, ai-criteria-gate, verified, payment-protocol, tradable, credit-token'
-              }
-            },
-            required: ['skillId']
-          }
-        },
-
-        // Address utilities
-        convertAddressTool,
-        validateAddressTool,
-
-        // Documentation
-        fetchDocsTool,
-
-        // Knowledge base tools
-        searchKnowledgeBaseTool,
-        diagnoseErrorTool,
-
-        // Query tools (require API key)
-        queryCollectionTool,
-        queryBalanceTool,
-        simulateTransactionTool,
-        verifyOwnershipTool,
-        searchTool,
-        searchPluginsTool,
-
-        // Collection analysis (require API key)
-        analyzeCollectionTool,
-        buildTransferTool,
-
-        // Dynamic store tools
-        buildDynamicStoreTool,
-        queryDynamicStoreTool,
-
-        // Audit tool
-        auditCollectionTool,
-
-        // Explain tool
-        explainCollectionTool,
-
-        // Claim builder
-        buildClaimTool,
-
-        // Standards compliance
-        {
-          name: 'verify_standards',
-          description: 'Verify that a collection transaction complies with BitBadges protocol standards (subscription, credit token, smart token, etc.). Returns violations with severity levels. Complements audit_collection which covers security — this covers standards compliance.',
-          inputSchema: {
-            type: 'object' as const,
-            properties: {
-              transaction: { type: 'object', description: 'The transaction object to verify (MsgUniversalUpdateCollection or similar)' },
-              transactionJson: { type: 'string', description: 'The transaction as a JSON string (alternative to transaction object)' }
-            }
-          }
-        },
-        // Session-based per-field tools (v2)
-        setStandardsTool,
-        setValidTokenIdsTool,
-        setDefaultBalancesTool,
-        setPermissionsTool,
-        setInvariantsTool,
-        setManagerTool,
-        setCollectionMetadataTool,
-        setTokenMetadataTool,
-        setCustomDataTool,
-        setMintEscrowCoinsTool,
-        addApprovalTool,
-        removeApprovalTool,
-        setApprovalMetadataTool,
-        addAliasPathTool,
-        removeAliasPathTool,
-        addCosmosWrapperPathTool,
-        removeCosmosWrapperPathTool,
-        addTransferTool,
-        removeTransferTool,
-        getTransactionTool,
-        setIsArchivedTool,
-        generateUniqueIdTool,
-        generateWrapperAddressTool
-      ]
+      tools: toolProfile.tools.map(({ name, description, inputSchema, outputSchema }) => ({ name, description, inputSchema, outputSchema }))
     };
   });
 
   // Register tool call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    let args = request.params.arguments;
+    if (extra.sessionId && sessionScopedTools.has(name) && args?.sessionId === undefined) {
+      args = { ...args, sessionId: extra.sessionId };
+    }
 
     try {
-      switch (name) {
-        // Utilities
-        case 'lookup_token_info': {
-          const result = handleLookupTokenInfo(args as { query: string });
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'validate_transaction': {
-          const result = handleValidateTransaction(args as { transactionJson: string });
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'get_current_timestamp': {
-          const result = handleGetCurrentTimestamp(args as { offsetMs?: number; offsetDays?: number; offsetHours?: number });
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Components
-        case 'generate_backing_address': {
-          const result = handleGenerateBackingAddress(args as { ibcDenom: string });
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'generate_approval': {
-          const result = handleGenerateApproval(args as Parameters<typeof handleGenerateApproval>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'generate_permissions': {
-          const result = handleGeneratePermissions(args as Parameters<typeof handleGeneratePermissions>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'generate_alias_path': {
-          const result = handleGenerateAliasPath(args as Parameters<typeof handleGenerateAliasPath>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'audit_collection': {
-          const result = handleAuditCollection(args as Parameters<typeof handleAuditCollection>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'explain_collection': {
-          const result = handleExplainCollection(args as Parameters<typeof handleExplainCollection>[0]);
-          return {
-            content: [{ type: 'text', text: result.success ? result.explanation : JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Skill instructions
-        case 'get_skill_instructions': {
-          const skillId = (args as { skillId: string }).skillId;
-          const instruction = getSkillInstructions(skillId);
-          if (instruction) {
-            return {
-              content: [{ type: 'text', text: JSON.stringify(instruction, null, 2) }]
-            };
-          } else {
-            const allSkills = getAllSkillInstructions();
-            return {
-              content: [{
-                type: 'text',
-                text: `Skill "${skillId}" not found. Available skills: ${allSkills.map(s => s.id).join(', ')}`
-              }]
-            };
-          }
-        }
-
-        // Address utilities
-        case 'convert_address': {
-          const result = handleConvertAddress(args as Parameters<typeof handleConvertAddress>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'validate_address': {
-          const result = handleValidateAddress(args as Parameters<typeof handleValidateAddress>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Documentation
-        case 'fetch_docs': {
-          const result = await handleFetchDocs(args as Parameters<typeof handleFetchDocs>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Knowledge base tools
-        case 'search_knowledge_base': {
-          const result = handleSearchKnowledgeBase(args as Parameters<typeof handleSearchKnowledgeBase>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'diagnose_error': {
-          const result = handleDiagnoseError(args as Parameters<typeof handleDiagnoseError>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Query tools
-        case 'query_collection': {
-          const result = await handleQueryCollection(args as Parameters<typeof handleQueryCollection>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'query_balance': {
-          const result = await handleQueryBalance(args as Parameters<typeof handleQueryBalance>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'simulate_transaction': {
-          const result = await handleSimulateTransaction(args as Parameters<typeof handleSimulateTransaction>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'verify_ownership': {
-          const result = await handleVerifyOwnership(args as Parameters<typeof handleVerifyOwnership>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'search': {
-          const result = await handleSearch(args as Parameters<typeof handleSearch>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'search_plugins': {
-          const result = await handleSearchPlugins(args as Parameters<typeof handleSearchPlugins>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Collection analysis tools
-        case 'analyze_collection': {
-          const result = await handleAnalyzeCollection(args as Parameters<typeof handleAnalyzeCollection>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'build_transfer': {
-          const result = await handleBuildTransfer(args as Parameters<typeof handleBuildTransfer>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Dynamic store tools
-        case 'build_dynamic_store': {
-          const result = handleBuildDynamicStore(args as Parameters<typeof handleBuildDynamicStore>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'query_dynamic_store': {
-          const result = await handleQueryDynamicStore(args as Parameters<typeof handleQueryDynamicStore>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        case 'build_claim': {
-          const result = handleBuildClaim(args as Parameters<typeof handleBuildClaim>[0]);
-          return {
-            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
-          };
-        }
-
-        // Standards compliance
-        case 'verify_standards': {
-          let tx = args;
-          if (typeof (args as any).transactionJson === 'string') {
-            tx = JSON.parse((args as any).transactionJson);
-          } else if ((args as any).transaction) {
-            tx = (args as any).transaction;
-          }
-          const result = verifyStandardsCompliance(tx);
-          return { content: [{ type: 'text', text: formatVerificationResult(result) }] };
-        }
-        // Session-based per-field tools (v2)
-        case 'set_standards': {
-          const result = handleSetStandards(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_valid_token_ids': {
-          const result = handleSetValidTokenIds(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_default_balances': {
-          const result = handleSetDefaultBalances(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_permissions': {
-          const result = handleSetPermissions(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_invariants': {
-          const result = handleSetInvariants(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_manager': {
-          const result = handleSetManager(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_collection_metadata': {
-          const result = handleSetCollectionMetadata(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_token_metadata': {
-          const result = handleSetTokenMetadata(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_custom_data': {
-          const result = handleSetCustomData(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_mint_escrow_coins': {
-          const result = handleSetMintEscrowCoins(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'add_approval': {
-          const result = handleAddApproval(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'remove_approval': {
-          const result = handleRemoveApproval(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_approval_metadata': {
-          const result = handleSetApprovalMetadata(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'add_alias_path': {
-          const result = handleAddAliasPath(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'remove_alias_path': {
-          const result = handleRemoveAliasPath(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'add_cosmos_wrapper_path': {
-          const result = handleAddCosmosWrapperPath(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'remove_cosmos_wrapper_path': {
-          const result = handleRemoveCosmosWrapperPath(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'add_transfer': {
-          const result = handleAddTransfer(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'remove_transfer': {
-          const result = handleRemoveTransfer(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'get_transaction': {
-          const result = handleGetTransaction(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'set_is_archived': {
-          const result = handleSetIsArchived(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'generate_unique_id': {
-          const result = handleGenerateUniqueId(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-        }
-        case 'generate_wrapper_address': {
-          const result = handleGenerateWrapperAddress(args as any);
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      if (!profileToolNames.has(name) && getTool(name)) {
+        throw new Error(`Tool ${name} is not available in the "${toolProfile.name}" tool profile`);
+      }
+      // A batch must not reach tools the profile hides
+      if (name === 'batch_session_ops' && Array.isArray(args?.operations)) {
+        const hidden = (args.operations as Array<{ tool?: unknown }>)
+          .map((op) => String(op?.tool))
+          .filter((tool) => !profileToolNames.has(tool) && getTool(tool));
+        if (hidden.length > 0) {
+          throw new Error(`Tools ${hidden.join(', ')} are not available in the "${toolProfile.name}" tool profile`);
         }
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
       }
+      return await callTool(name, args, { signal: extra.signal });
     } catch (error) {
       return {
         content: [{
@@ -577,8 +131,18 @@ export function createServer(): Server {
     }
   });
 
+  // Register prompt handlers (skill build plans and workflow chains)
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return getPrompt(name, args);
+  });
+
   // Register resource list handler
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
     return {
       resources: [
         tokenRegistryResourceInfo,
@@ -598,13 +162,52 @@ export function createServer(): Server {
         errorPatternsResourceInfo,
         frontendDocsResourceInfo,
         workflowsResourceInfo,
-        tokenSchemaResourceInfo
+        tokenSchemaResourceInfo,
+        // Individual skills, error categories and sessions (see resource templates)
+        ...listTemplatedResources({ transportSessionId: extra.sessionId })
       ]
     };
   });
 
+  // Resource subscriptions — clients subscribe to bitbadges://session/{sessionId} and get
+  // notifications/resources/updated after every change to that session
+  const subscribedSessions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const sessionId = sessionIdFromUri(request.params.uri);
+    if (sessionId !== null) {
+      assertSessionResourceAccess(sessionId, { transportSessionId: extra.sessionId });
+      subscribedSessions.add(sessionId);
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const sessionId = sessionIdFromUri(request.params.uri);
+    if (sessionId !== null) subscribedSessions.delete(sessionId);
+    return {};
+  });
+
+  const stopWatchingSessions = onSessionChange((sessionId, kind) => {
+    // Notifications are best-effort: the client may have disconnected
+    if (kind !== 'updated') {
+      server.sendResourceListChanged().catch(() => {});
+    }
+    if (subscribedSessions.has(sessionId)) {
+      server.sendResourceUpdated({ uri: sessionResourceUri(sessionId) }).catch(() => {});
+    }
+  });
+  server.onclose = () => {
+    stopWatchingSessions();
+  };
+
+  // Register resource template list handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: listResourceTemplates() };
+  });
+
   // Register resource read handler
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
     const { uri } = request.params;
 
     switch (uri) {
@@ -721,8 +324,13 @@ export function createServer(): Server {
         };
       }
 
-      default:
+      default: {
+        const templated = await withApiSignal(extra.signal, () => readResourceTemplate(uri, { transportSessionId: extra.sessionId }));
+        if (templated) {
+          return { contents: [templated] };
+        }
         throw new Error(`Unknown resource: ${uri}`);
+      }
     }
   });
 
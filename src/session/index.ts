@@ -1 +1,6 @@
 export * from './sessionState.js';
+export * from './sessionStore.js';
+export * from './sessionDiff.js';
+export * from './sessionExport.js';
+export * from './sessionMessages.js';
+export * from './sessionPatch.js';
@@ -0,0 +1,377 @@
+/**
+ * Structural diffs between MsgUniversalUpdateCollection values.
+ *
+ * Used by get_transaction's minimal mode to emit only the fields that changed
+ * relative to a baseline (e.g. the on-chain collection loaded into the session),
+ * with their update* flags set and everything else flagged false and omitted, and by
+ * compare_sessions to diff two sessions (e.g. two forks of the same design).
+ */
+
+export type MetadataPlaceholders = Record<string, { name: string; description: string; image: string }>;
+
+export interface CollectionSnapshot {
+  value: Record<string, any>;
+  metadataPlaceholders: MetadataPlaceholders;
+}
+
+/** update* flag → the field it gates on MsgUniversalUpdateCollection */
+export const UPDATE_FLAG_FIELDS: Record<string, string> = {
+  updateCollectionApprovals: 'collectionApprovals',
+  updateStandards: 'standards',
+  updateValidTokenIds: 'validTokenIds',
+  updateCollectionMetadata: 'collectionMetadata',
+  updateTokenMetadata: 'tokenMetadata',
+  updateCollectionPermissions: 'collectionPermissions',
+  updateInvariants: 'invariants',
+  updateDefaultBalances: 'defaultBalances',
+  updateManager: 'manager',
+  updateCustomData: 'customData',
+  updateIsArchived: 'isArchived'
+};
+
+/** Fields that are additive or identify the target — always emitted as-is */
+const PASSTHROUGH_FIELDS = ['creator', 'collectionId', 'mintEscrowCoinsToTransfer', 'aliasPathsToAdd', 'cosmosCoinWrapperPathsToAdd'];
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Collect placeholder URIs referenced anywhere inside a field value.
+ */
+function referencedPlaceholders(fieldValue: unknown, placeholders: MetadataPlaceholders, out: Set<string> = new Set()): Set<string> {
+  if (typeof fieldValue === 'string') {
+    // Token metadata URIs carry a /{id} suffix on top of the placeholder key
+    const key = fieldValue.endsWith('/{id}') ? fieldValue.slice(0, -'/{id}'.length) : fieldValue;
+    if (key in placeholders) out.add(key);
+  } else if (Array.isArray(fieldValue)) {
+    for (const item of fieldValue) referencedPlaceholders(item, placeholders, out);
+  } else if (fieldValue && typeof fieldValue === 'object') {
+    for (const item of Object.values(fieldValue)) referencedPlaceholders(item, placeholders, out);
+  }
+  return out;
+}
+
+/**
+ * A field is changed if its JSON differs, or if it references a metadata placeholder
+ * whose content differs (e.g. set_collection_metadata keeps the same placeholder URI).
+ */
+function isFieldChanged(field: string, current: CollectionSnapshot, baseline: CollectionSnapshot): boolean {
+  const a = current.value[field];
+  const b = baseline.value[field];
+  if (!sameJson(a, b)) return true;
+  const uris = referencedPlaceholders(a, current.metadataPlaceholders);
+  referencedPlaceholders(b, baseline.metadataPlaceholders, uris);
+  for (const uri of uris) {
+    if (!sameJson(current.metadataPlaceholders[uri], baseline.metadataPlaceholders[uri])) return true;
+  }
+  return false;
+}
+
+function formatScalar(v: unknown): string {
+  if (v === undefined) return '(unset)';
+  if (typeof v === 'string') return v === '' ? '""' : v;
+  return JSON.stringify(v);
+}
+
+function changedKeys(a: Record<string, any> | null | undefined, b: Record<string, any> | null | undefined): string[] {
+  const keys = new Set([...Object.keys(a || {}), ...Object.keys(b || {})]);
+  return [...keys].filter((k) => !sameJson(a?.[k], b?.[k]));
+}
+
+export interface KeyedListDiff {
+  added: string[];
+  removed: string[];
+  /** Items present on both sides whose content differs, with the differing keys */
+  modified: Array<{ key: string; fields: string[] }>;
+  /** Items present on both sides appear in a different relative order */
+  reordered: boolean;
+}
+
+/**
+ * Key list items by identity rather than position. Duplicate keys get a #N suffix
+ * so they still line up one-to-one.
+ */
+function keyItems(items: any[] | undefined, keyOf: (item: any) => string): Map<string, any> {
+  const map = new Map<string, any>();
+  for (const item of items || []) {
+    const key = keyOf(item);
+    let unique = key;
+    for (let n = 2; map.has(unique); n++) unique = `${key}#${n}`;
+    map.set(unique, item);
+  }
+  return map;
+}
+
+/**
+ * Structural diff of two lists keyed by identity (approvalId, denom, token range, ...).
+ */
+export function diffKeyedList(
+  current: any[] | undefined,
+  baseline: any[] | undefined,
+  keyOf: (item: any) => string
+): KeyedListDiff {
+  const cur = keyItems(current, keyOf);
+  const base = keyItems(baseline, keyOf);
+  const diff: KeyedListDiff = { added: [], removed: [], modified: [], reordered: false };
+  for (const [key, item] of cur) {
+    if (!base.has(key)) {
+      diff.added.push(key);
+    } else if (!sameJson(item, base.get(key))) {
+      diff.modified.push({ key, fields: changedKeys(item, base.get(key)) });
+    }
+  }
+  for (const key of base.keys()) {
+    if (!cur.has(key)) diff.removed.push(key);
+  }
+  const sharedOrderCur = [...cur.keys()].filter((k) => base.has(k));
+  const sharedOrderBase = [...base.keys()].filter((k) => cur.has(k));
+  diff.reordered = !sameJson(sharedOrderCur, sharedOrderBase);
+  return diff;
+}
+
+function isEmptyListDiff(diff: KeyedListDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.modified.length === 0 && !diff.reordered;
+}
+
+function formatKeyedListDiff(label: string, diff: KeyedListDiff, current: any[] | undefined, keyOf: (item: any) => string): string[] {
+  const lines: string[] = [];
+  const added = new Set(diff.added);
+  const modified = new Map(diff.modified.map((m) => [m.key, m.fields]));
+  const currentKeys = [...keyItems(current, keyOf).keys()];
+  for (const key of currentKeys) {
+    if (added.has(key)) lines.push(`${label}: added "${key}"`);
+    else if (modified.has(key)) lines.push(`${label}: modified "${key}" (${modified.get(key)!.join(', ')})`);
+  }
+  for (const key of diff.removed) lines.push(`${label}: removed "${key}"`);
+  if (diff.reordered) {
+    const removed = new Set(diff.removed);
+    const order = currentKeys.filter((k) => !added.has(k) && !removed.has(k));
+    lines.push(`${label}: reordered (${order.join(' → ')})`);
+  }
+  return lines;
+}
+
+/**
+ * Describe keyed list changes (added / removed / modified / reordered).
+ */
+export function describeKeyedListChanges(
+  label: string,
+  current: any[] | undefined,
+  baseline: any[] | undefined,
+  keyOf: (item: any) => string
+): string[] {
+  return formatKeyedListDiff(label, diffKeyedList(current, baseline, keyOf), current, keyOf);
+}
+
+/** Token range key, e.g. "1-10,20-20" */
+export function tokenRangeKey(item: { tokenIds?: Array<{ start: any; end: any }> }): string {
+  return (item.tokenIds || []).map((r) => `${r.start}-${r.end}`).join(',');
+}
+
+/**
+ * Human-readable lines for one changed field.
+ */
+function describeFieldChange(field: string, current: CollectionSnapshot, baseline: CollectionSnapshot): string[] {
+  const a = current.value[field];
+  const b = baseline.value[field];
+
+  if (field === 'collectionApprovals') {
+    const lines = describeKeyedListChanges('collectionApprovals', a, b, (x) => x.approvalId);
+    for (const approval of a || []) {
+      const uri = approval.uri;
+      if (uri && !sameJson(current.metadataPlaceholders[uri], baseline.metadataPlaceholders[uri]) && (b || []).some((x: any) => x.approvalId === approval.approvalId)) {
+        lines.push(`collectionApprovals: metadata changed for "${approval.approvalId}"`);
+      }
+    }
+    return lines.length > 0 ? lines : ['collectionApprovals: changed'];
+  }
+
+  if (field === 'tokenMetadata') {
+    const lines = describeKeyedListChanges('tokenMetadata', a, b, tokenRangeKey);
+    return lines.length > 0 ? lines : ['tokenMetadata: metadata content changed'];
+  }
+
+  if (field === 'collectionMetadata') {
+    const uri = a?.uri;
+    if (sameJson(a, b) && uri) {
+      const fields = changedKeys(current.metadataPlaceholders[uri], baseline.metadataPlaceholders[uri]);
+      return [`collectionMetadata: ${fields.join(', ')} changed`];
+    }
+  }
+
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    return [`${field}: changed ${changedKeys(a, b).join(', ')}`];
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return [`${field}: ${JSON.stringify(b ?? [])} → ${JSON.stringify(a ?? [])}`];
+  }
+
+  return [`${field}: ${formatScalar(b)} → ${formatScalar(a)}`];
+}
+
+export interface MinimalUpdateResult {
+  value: Record<string, any>;
+  metadataPlaceholders: MetadataPlaceholders;
+  changedFields: string[];
+  summary: string[];
+}
+
+/**
+ * Build a MsgUniversalUpdateCollection value containing only the fields that differ from
+ * the baseline. Changed fields get update*=true; unchanged fields get update*=false and are omitted.
+ * Only placeholders referenced by emitted fields are kept.
+ */
+export function computeMinimalUpdate(current: CollectionSnapshot, baseline: CollectionSnapshot): MinimalUpdateResult {
+  const value: Record<string, any> = {};
+  for (const field of PASSTHROUGH_FIELDS) {
+    if (current.value[field] !== undefined) value[field] = current.value[field];
+  }
+
+  const changedFields: string[] = [];
+  const summary: string[] = [];
+  for (const [flag, field] of Object.entries(UPDATE_FLAG_FIELDS)) {
+    if (isFieldChanged(field, current, baseline)) {
+      value[flag] = true;
+      value[field] = current.value[field];
+      changedFields.push(field);
+      summary.push(...describeFieldChange(field, current, baseline));
+    } else {
+      value[flag] = false;
+    }
+  }
+
+  for (const field of ['mintEscrowCoinsToTransfer', 'aliasPathsToAdd', 'cosmosCoinWrapperPathsToAdd']) {
+    const items = current.value[field];
+    if (Array.isArray(items) && items.length > 0) {
+      summary.push(`${field}: ${items.length} item(s) added`);
+    }
+  }
+
+  const metadataPlaceholders: MetadataPlaceholders = {};
+  for (const uri of referencedPlaceholders(value, current.metadataPlaceholders)) {
+    metadataPlaceholders[uri] = current.metadataPlaceholders[uri];
+  }
+
+  return { value, metadataPlaceholders, changedFields, summary };
+}
+
+export interface CollectionComparison {
+  identical: boolean;
+  /** collectionApprovals keyed by approvalId */
+  approvals: KeyedListDiff;
+  /** Per permission type (only types that differ), entries keyed by approvalId or token range */
+  permissions: Record<string, KeyedListDiff>;
+  /** Changed invariant keys */
+  invariants: string[];
+  metadata: {
+    /** Changed keys of the resolved collection metadata (uri, customData, name, description, image) */
+    collection: string[];
+    /** tokenMetadata keyed by token range, with placeholder content resolved */
+    tokens: KeyedListDiff;
+    /** approvalIds present on both sides whose metadata content differs */
+    approvals: string[];
+  };
+  /** Additive paths keyed by denom */
+  paths: {
+    aliasPaths: KeyedListDiff;
+    cosmosCoinWrapperPaths: KeyedListDiff;
+    mintEscrowCoins: KeyedListDiff;
+  };
+  /** Remaining collection fields whose values differ (standards, manager, defaultBalances, ...) */
+  otherFields: string[];
+  summary: string[];
+}
+
+const COMPARED_FIELDS = new Set([
+  'collectionApprovals', 'collectionPermissions', 'invariants', 'collectionMetadata', 'tokenMetadata',
+  'aliasPathsToAdd', 'cosmosCoinWrapperPathsToAdd', 'mintEscrowCoinsToTransfer'
+]);
+
+const byDenom = (item: any) => String(item?.denom ?? '');
+
+/** Permission entries have no ID — key by approvalId where present, otherwise by token range. */
+const permissionKey = (entry: any) => entry?.approvalId || tokenRangeKey(entry || {}) || 'all';
+
+function resolveMetadata(entry: Record<string, any> | undefined, placeholders: MetadataPlaceholders): Record<string, any> {
+  if (!entry) return {};
+  const uri: string = entry.uri || '';
+  const key = uri.endsWith('/{id}') ? uri.slice(0, -'/{id}'.length) : uri;
+  return { ...entry, ...(placeholders[key] || {}) };
+}
+
+/**
+ * Structural comparison of two collection values. Lists are matched by identity
+ * (approvalId, denom, token range) rather than array position, so reordering or
+ * inserting one approval doesn't show every later approval as changed.
+ * "added" means present in `current` but not in `baseline`.
+ */
+export function compareCollections(current: CollectionSnapshot, baseline: CollectionSnapshot): CollectionComparison {
+  const a = current.value;
+  const b = baseline.value;
+  const summary: string[] = [];
+
+  const approvals = diffKeyedList(a.collectionApprovals, b.collectionApprovals, (x) => x.approvalId);
+  summary.push(...formatKeyedListDiff('collectionApprovals', approvals, a.collectionApprovals, (x) => x.approvalId));
+
+  const permissions: Record<string, KeyedListDiff> = {};
+  const permA = a.collectionPermissions || {};
+  const permB = b.collectionPermissions || {};
+  for (const type of new Set([...Object.keys(permA), ...Object.keys(permB)])) {
+    const diff = diffKeyedList(permA[type], permB[type], permissionKey);
+    if (!isEmptyListDiff(diff)) {
+      permissions[type] = diff;
+      summary.push(...formatKeyedListDiff(`collectionPermissions.${type}`, diff, permA[type], permissionKey));
+    }
+  }
+
+  const invariants = changedKeys(a.invariants, b.invariants);
+  if (invariants.length > 0) summary.push(`invariants: changed ${invariants.join(', ')}`);
+
+  const collectionMetadata = changedKeys(
+    resolveMetadata(a.collectionMetadata, current.metadataPlaceholders),
+    resolveMetadata(b.collectionMetadata, baseline.metadataPlaceholders)
+  );
+  if (collectionMetadata.length > 0) summary.push(`collectionMetadata: ${collectionMetadata.join(', ')} changed`);
+
+  const resolvedTokensA = (a.tokenMetadata || []).map((tm: any) => resolveMetadata(tm, current.metadataPlaceholders));
+  const resolvedTokensB = (b.tokenMetadata || []).map((tm: any) => resolveMetadata(tm, baseline.metadataPlaceholders));
+  const tokens = diffKeyedList(resolvedTokensA, resolvedTokensB, tokenRangeKey);
+  summary.push(...formatKeyedListDiff('tokenMetadata', tokens, resolvedTokensA, tokenRangeKey));
+
+  const approvalMetadata: string[] = [];
+  const approvalsB = keyItems(b.collectionApprovals, (x) => x.approvalId);
+  for (const approval of a.collectionApprovals || []) {
+    const other = approvalsB.get(approval.approvalId);
+    if (other && !sameJson(current.metadataPlaceholders[approval.uri], baseline.metadataPlaceholders[other.uri])) {
+      approvalMetadata.push(approval.approvalId);
+      summary.push(`collectionApprovals: metadata changed for "${approval.approvalId}"`);
+    }
+  }
+
+  const paths = {
+    aliasPaths: diffKeyedList(a.aliasPathsToAdd, b.aliasPathsToAdd, byDenom),
+    cosmosCoinWrapperPaths: diffKeyedList(a.cosmosCoinWrapperPathsToAdd, b.cosmosCoinWrapperPathsToAdd, byDenom),
+    mintEscrowCoins: diffKeyedList(a.mintEscrowCoinsToTransfer, b.mintEscrowCoinsToTransfer, byDenom)
+  };
+  summary.push(...formatKeyedListDiff('aliasPathsToAdd', paths.aliasPaths, a.aliasPathsToAdd, byDenom));
+  summary.push(...formatKeyedListDiff('cosmosCoinWrapperPathsToAdd', paths.cosmosCoinWrapperPaths, a.cosmosCoinWrapperPathsToAdd, byDenom));
+  summary.push(...formatKeyedListDiff('mintEscrowCoinsToTransfer', paths.mintEscrowCoins, a.mintEscrowCoinsToTransfer, byDenom));
+
+  const otherFields = changedKeys(a, b).filter((field) => !COMPARED_FIELDS.has(field));
+  for (const field of otherFields) {
+    summary.push(...describeFieldChange(field, current, baseline));
+  }
+
+  return {
+    identical: summary.length === 0,
+    approvals,
+    permissions,
+    invariants,
+    metadata: { collection: collectionMetadata, tokens, approvals: approvalMetadata },
+    paths,
+    otherFields,
+    summary
+  };
+}
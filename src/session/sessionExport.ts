@@ -0,0 +1,208 @@
+/**
+ * Portable session file format for export_session / import_session.
+ *
+ * A versioned JSON document carrying the session's messages, metadata placeholders
+ * and update-flow state, so a half-built collection can move between machines or
+ * teammates. Claim secrets (privateParams on claim plugins, e.g. the codes seedCode
+ * generated by add_approval) are redacted unless explicitly requested.
+ */
+
+import { z } from 'zod';
+import { realpathSync } from 'fs';
+import { isAbsolute, relative, resolve } from 'path';
+import type { SessionTransaction } from './sessionState.js';
+import { COLLECTION_TYPE_URL, getCollectionMessageValue } from './sessionMessages.js';
+
+export const SESSION_DOCUMENT_FORMAT = 'bitbadges-builder-session';
+export const SESSION_DOCUMENT_VERSION = 1;
+
+/** Stands in for claim plugin privateParams in redacted exports */
+export const REDACTED_SECRET = '[REDACTED]';
+
+export interface ClaimSecret {
+  approvalId: string;
+  pluginId: string;
+  label?: string;
+  /** Absent when the export is redacted */
+  privateParams?: Record<string, any>;
+}
+
+const PlaceholderSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  image: z.string()
+});
+
+const MessageSchema = z.object({
+  typeUrl: z.string().min(1),
+  value: z.record(z.any())
+});
+
+export const sessionDocumentSchema = z.object({
+  format: z.literal(SESSION_DOCUMENT_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string().optional(),
+  sessionId: z.string().optional(),
+  messages: z.array(MessageSchema).min(1).refine(
+    (messages) => messages.filter((m) => m.typeUrl === COLLECTION_TYPE_URL).length === 1,
+    { message: `messages must contain exactly one ${COLLECTION_TYPE_URL}` }
+  ),
+  metadataPlaceholders: z.record(PlaceholderSchema),
+  originalApprovalIds: z.array(z.string()).optional(),
+  baseline: z.object({
+    value: z.record(z.any()),
+    metadataPlaceholders: z.record(PlaceholderSchema)
+  }).optional(),
+  secretsRedacted: z.boolean(),
+  claimSecrets: z.array(z.object({
+    approvalId: z.string(),
+    pluginId: z.string(),
+    label: z.string().optional(),
+    privateParams: z.record(z.any()).optional()
+  }))
+});
+
+export type SessionDocument = z.infer<typeof sessionDocumentSchema>;
+
+/**
+ * Resolve an export_session / import_session `path` inside BITBADGES_SESSION_EXPORT_DIR,
+ * the only directory those tools may touch. Throws when no directory is configured or
+ * the path resolves outside it.
+ */
+export function resolveSessionFilePath(path: string): string {
+  const configured = process.env.BITBADGES_SESSION_EXPORT_DIR;
+  if (!configured) {
+    throw new Error('Session files are disabled. Set BITBADGES_SESSION_EXPORT_DIR to allow path, or pass the document inline.');
+  }
+  let dir = resolve(configured);
+  try {
+    dir = realpathSync(dir);
+  } catch {
+    // Created on first export
+  }
+  const file = resolve(dir, path);
+  const rel = relative(dir, file);
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`path "${path}" is outside BITBADGES_SESSION_EXPORT_DIR.`);
+  }
+  return file;
+}
+
+/**
+ * Visit every claim plugin in the session's collection approvals.
+ */
+function forEachClaimPlugin(
+  messages: SessionTransaction['messages'],
+  visit: (plugin: Record<string, any>, approvalId: string, label: string | undefined) => void
+): void {
+  for (const approval of getCollectionMessageValue(messages).collectionApprovals || []) {
+    for (const mc of approval.approvalCriteria?.merkleChallenges || []) {
+      for (const plugin of mc.claimConfig?.plugins || []) {
+        visit(plugin, approval.approvalId, mc.claimConfig?.label || undefined);
+      }
+    }
+  }
+}
+
+/**
+ * Deep-copy a value with every `privateParams` replaced by REDACTED_SECRET, wherever
+ * it appears (tool args carry approvals outside a session's messages).
+ */
+export function redactClaimSecrets<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((item) => redactClaimSecrets(item)) as T;
+  if (!value || typeof value !== 'object') return value;
+  const copy: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    copy[key] = key === 'privateParams' && child !== undefined ? REDACTED_SECRET : redactClaimSecrets(child);
+  }
+  return copy as T;
+}
+
+/**
+ * Build an export document from a session. Secrets are replaced with REDACTED_SECRET
+ * in both the messages and the claimSecrets list unless includeSecrets is set.
+ */
+export function toSessionDocument(
+  session: SessionTransaction,
+  options: { sessionId?: string; includeSecrets?: boolean } = {}
+): SessionDocument {
+  const includeSecrets = !!options.includeSecrets;
+  const messages = structuredClone(session.messages);
+  const claimSecrets: ClaimSecret[] = [];
+
+  forEachClaimPlugin(messages, (plugin, approvalId, label) => {
+    if (plugin.privateParams === undefined) return;
+    claimSecrets.push({
+      approvalId,
+      pluginId: plugin.pluginId,
+      ...(label ? { label } : {}),
+      ...(includeSecrets ? { privateParams: structuredClone(plugin.privateParams) } : {})
+    });
+    if (!includeSecrets) plugin.privateParams = REDACTED_SECRET;
+  });
+
+  return {
+    format: SESSION_DOCUMENT_FORMAT,
+    version: SESSION_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+    messages,
+    metadataPlaceholders: structuredClone(session.metadataPlaceholders),
+    ...(session.originalApprovalIds ? { originalApprovalIds: [...session.originalApprovalIds] } : {}),
+    ...(session.baseline ? { baseline: structuredClone(session.baseline) } : {}),
+    secretsRedacted: !includeSecrets,
+    claimSecrets
+  };
+}
+
+export type SessionDocumentParseResult =
+  | { success: true; session: SessionTransaction; warnings: string[] }
+  | { success: false; error: string };
+
+/**
+ * Validate an export document (object or JSON string) and convert it back into a session.
+ * Redacted secrets are dropped; the affected plugins are listed in warnings.
+ */
+export function fromSessionDocument(input: unknown): SessionDocumentParseResult {
+  let raw = input;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return { success: false, error: 'Session document is not valid JSON.' };
+    }
+  }
+
+  const parsed = sessionDocumentSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    return { success: false, error: `Invalid session document:\n${issues.join('\n')}` };
+  }
+
+  const doc = parsed.data;
+  if (doc.version > SESSION_DOCUMENT_VERSION) {
+    return {
+      success: false,
+      error: `Session document version ${doc.version} is newer than supported version ${SESSION_DOCUMENT_VERSION}. Upgrade the builder to import it.`
+    };
+  }
+
+  const messages = structuredClone(doc.messages);
+  const warnings: string[] = [];
+  forEachClaimPlugin(messages, (plugin, approvalId, label) => {
+    if (plugin.privateParams !== REDACTED_SECRET) return;
+    delete plugin.privateParams;
+    warnings.push(
+      `Claim secrets for plugin "${plugin.pluginId}" on approval "${approvalId}"${label ? ` (${label})` : ''} were redacted in the export. ` +
+      'Re-add the approval to generate new secrets, or import an export made with includeSecrets.'
+    );
+  });
+
+  const session: SessionTransaction = {
+    messages,
+    metadataPlaceholders: structuredClone(doc.metadataPlaceholders),
+    ...(doc.originalApprovalIds ? { originalApprovalIds: new Set(doc.originalApprovalIds) } : {}),
+    ...(doc.baseline ? { baseline: structuredClone(doc.baseline) } : {})
+  };
+  return { success: true, session, warnings };
+}
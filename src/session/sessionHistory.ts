@@ -0,0 +1,225 @@
+/**
+ * Undo/redo history for session mutations.
+ *
+ * Every mutation routed through sessionState's mutateSession() is recorded as a
+ * reversible step holding before/after snapshots of the session. Steps before the
+ * cursor are applied; steps at or after it can be redone. Recording a new step
+ * discards the redo tail.
+ *
+ * History is held in-process per sessionId, capped at MAX_HISTORY_STEPS per session and
+ * MAX_HISTORIES sessions (least recently recorded dropped first). Step args have claim
+ * secrets redacted, like a default export.
+ */
+
+import type { SessionTransaction } from './sessionState.js';
+import { COLLECTION_TYPE_URL, getCollectionMessageValue } from './sessionMessages.js';
+import { redactClaimSecrets } from './sessionExport.js';
+
+const MAX_HISTORY_STEPS = 50;
+const MAX_HISTORIES = 500;
+
+export interface SessionStep {
+  /** Monotonic step number within the session */
+  id: number;
+  /** Tool (or operation) that made the change, e.g. "add_approval" */
+  tool: string;
+  args: Record<string, any>;
+  /** Collection fields (collection message value keys), "messages[N]" or "metadataPlaceholders" */
+  changedFields: string[];
+  timestamp: number;
+  before: SessionTransaction;
+  after: SessionTransaction;
+}
+
+export interface SessionStepSummary {
+  id: number;
+  tool: string;
+  args: Record<string, any>;
+  changedFields: string[];
+  timestamp: number;
+  /** false when the step has been undone and is waiting on the redo stack */
+  applied: boolean;
+}
+
+interface SessionHistory {
+  steps: SessionStep[];
+  cursor: number;
+  nextId: number;
+}
+
+const histories = new Map<string, SessionHistory>();
+
+/**
+ * Get (or start) a session's history and mark it most recently used. Map order is
+ * LRU order, so going over MAX_HISTORIES drops the oldest.
+ */
+function getHistory(sessionId: string): SessionHistory {
+  const history = histories.get(sessionId) || { steps: [], cursor: 0, nextId: 1 };
+  histories.delete(sessionId);
+  histories.set(sessionId, history);
+  for (const id of histories.keys()) {
+    if (histories.size <= MAX_HISTORIES) break;
+    histories.delete(id);
+  }
+  return history;
+}
+
+/**
+ * Deep-copy a session (structuredClone keeps the originalApprovalIds Set intact).
+ */
+export function cloneSession(session: SessionTransaction): SessionTransaction {
+  return structuredClone(session);
+}
+
+/**
+ * Overwrite a session in place with a snapshot, keeping the object reference stable
+ * for anything that already holds it.
+ */
+export function restoreSession(session: SessionTransaction, snapshot: SessionTransaction): void {
+  const copy = cloneSession(snapshot);
+  for (const key of Object.keys(session)) {
+    delete (session as any)[key];
+  }
+  Object.assign(session, copy);
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * List which parts of the session differ between two snapshots.
+ */
+export function diffChangedFields(before: SessionTransaction, after: SessionTransaction): string[] {
+  const fields: string[] = [];
+  const beforeValue = getCollectionMessageValue(before.messages);
+  const afterValue = getCollectionMessageValue(after.messages);
+  const keys = new Set([...Object.keys(beforeValue), ...Object.keys(afterValue)]);
+  for (const key of keys) {
+    if (!sameJson(beforeValue[key], afterValue[key])) fields.push(key);
+  }
+
+  const messageCount = Math.max(before.messages.length, after.messages.length);
+  for (let i = 0; i < messageCount; i++) {
+    const a = before.messages[i];
+    const b = after.messages[i];
+    // Collection edits are reported by field above; only moves/other messages land here
+    if (a?.typeUrl === COLLECTION_TYPE_URL && b?.typeUrl === COLLECTION_TYPE_URL) continue;
+    if (!sameJson(a, b)) fields.push(`messages[${i}]`);
+  }
+
+  if (!sameJson(before.metadataPlaceholders, after.metadataPlaceholders)) {
+    fields.push('metadataPlaceholders');
+  }
+  return fields;
+}
+
+/**
+ * Record a mutation. No-op mutations (nothing changed) are not recorded.
+ */
+export function recordStep(
+  sessionId: string,
+  tool: string,
+  args: Record<string, any>,
+  before: SessionTransaction,
+  after: SessionTransaction
+): SessionStep | undefined {
+  const changedFields = diffChangedFields(before, after);
+  if (changedFields.length === 0) return undefined;
+
+  const history = getHistory(sessionId);
+  history.steps.splice(history.cursor);
+  const step: SessionStep = {
+    id: history.nextId++,
+    tool,
+    args: redactClaimSecrets(args),
+    changedFields,
+    timestamp: Date.now(),
+    before: cloneSession(before),
+    after: cloneSession(after)
+  };
+  history.steps.push(step);
+  if (history.steps.length > MAX_HISTORY_STEPS) {
+    history.steps.splice(0, history.steps.length - MAX_HISTORY_STEPS);
+  }
+  history.cursor = history.steps.length;
+  return step;
+}
+
+/**
+ * Pop the most recently applied step (moves it to the redo stack).
+ */
+export function takeUndoStep(sessionId: string): SessionStep | undefined {
+  const history = histories.get(sessionId);
+  if (!history || history.cursor === 0) return undefined;
+  history.cursor--;
+  return history.steps[history.cursor];
+}
+
+/**
+ * Re-apply the next undone step.
+ */
+export function takeRedoStep(sessionId: string): SessionStep | undefined {
+  const history = histories.get(sessionId);
+  if (!history || history.cursor >= history.steps.length) return undefined;
+  const step = history.steps[history.cursor];
+  history.cursor++;
+  return step;
+}
+
+export function listSessionSteps(sessionId: string): SessionStepSummary[] {
+  const history = histories.get(sessionId);
+  if (!history) return [];
+  return history.steps.map((step, idx) => ({
+    id: step.id,
+    tool: step.tool,
+    args: step.args,
+    changedFields: step.changedFields,
+    timestamp: step.timestamp,
+    applied: idx < history.cursor
+  }));
+}
+
+export function canUndo(sessionId: string): boolean {
+  return (histories.get(sessionId)?.cursor ?? 0) > 0;
+}
+
+export function canRedo(sessionId: string): boolean {
+  const history = histories.get(sessionId);
+  return !!history && history.cursor < history.steps.length;
+}
+
+/** A session's history at a point in time (see checkpointHistory). */
+export interface HistoryCheckpoint {
+  steps: SessionStep[];
+  cursor: number;
+  nextId: number;
+}
+
+/**
+ * Capture a session's history so it can be put back with restoreHistory. Recorded
+ * steps are never modified, so a shallow copy of the list is enough.
+ */
+export function checkpointHistory(sessionId: string): HistoryCheckpoint | undefined {
+  const history = histories.get(sessionId);
+  return history ? { steps: [...history.steps], cursor: history.cursor, nextId: history.nextId } : undefined;
+}
+
+/**
+ * Put a session's history back to a checkpoint (undefined = no history).
+ */
+export function restoreHistory(sessionId: string, checkpoint: HistoryCheckpoint | undefined): void {
+  if (!checkpoint) {
+    histories.delete(sessionId);
+    return;
+  }
+  histories.set(sessionId, { steps: [...checkpoint.steps], cursor: checkpoint.cursor, nextId: checkpoint.nextId });
+}
+
+export function clearSessionHistory(sessionId: string): void {
+  histories.delete(sessionId);
+}
+
+export function clearAllSessionHistory(): void {
+  histories.clear();
+}
@@ -0,0 +1,88 @@
+/**
+ * Helpers for multi-message sessions.
+ *
+ * A session holds an ordered batch of messages — e.g. create the collection, create a
+ * dynamic store, then mint transfers. Exactly one of them is the
+ * MsgUniversalUpdateCollection that the per-field tools edit; it is found by typeUrl
+ * rather than assumed to be messages[0], so messages can be reordered freely.
+ */
+
+export const COLLECTION_TYPE_URL = '/tokenization.MsgUniversalUpdateCollection';
+
+export interface SessionMessage {
+  typeUrl: string;
+  value: Record<string, any>;
+}
+
+/**
+ * Index of the collection message, or -1 if the batch has none.
+ */
+export function getCollectionMessageIndex(messages: SessionMessage[]): number {
+  return messages.findIndex((m) => m.typeUrl === COLLECTION_TYPE_URL);
+}
+
+/**
+ * The collection message's value, or an empty object if the batch has none.
+ */
+export function getCollectionMessageValue(messages: SessionMessage[]): Record<string, any> {
+  return messages[getCollectionMessageIndex(messages)]?.value || {};
+}
+
+/**
+ * The messages other than the collection message, with their batch indices.
+ */
+export function getOtherMessages(messages: SessionMessage[]): Array<{ index: number; message: SessionMessage }> {
+  return messages
+    .map((message, index) => ({ index, message }))
+    .filter(({ message }) => message.typeUrl !== COLLECTION_TYPE_URL);
+}
+
+const FULLY_QUALIFIED_PREFIX = '/bitbadges.bitbadgeschain.tokenization.';
+
+function shortenTypeUrl(typeUrl: string): string {
+  return typeUrl.startsWith(FULLY_QUALIFIED_PREFIX)
+    ? `/tokenization.${typeUrl.slice(FULLY_QUALIFIED_PREFIX.length)}`
+    : typeUrl;
+}
+
+/**
+ * Accept builder output in either { typeUrl, value } or amino-style { '@type', ...fields }
+ * shape (build_dynamic_store) and convert to the session's { typeUrl, value } shape.
+ * Fully-qualified type URLs (/bitbadges.bitbadgeschain.tokenization.X) become /tokenization.X
+ * in both shapes; other typeUrls are kept as given.
+ */
+export function normalizeMessage(raw: Record<string, any>): SessionMessage {
+  if (typeof raw.typeUrl === 'string' && raw.value && typeof raw.value === 'object') {
+    return { typeUrl: shortenTypeUrl(raw.typeUrl), value: raw.value };
+  }
+  const { '@type': type, ...value } = raw;
+  if (typeof type !== 'string' || !type) {
+    throw new Error('Message must have a typeUrl + value, or an "@type" field.');
+  }
+  return { typeUrl: shortenTypeUrl(type), value };
+}
+
+/**
+ * One-line description of a message for list_messages.
+ */
+export function summarizeMessage(message: SessionMessage): string {
+  const v = message.value || {};
+  const type = message.typeUrl.split('.').pop();
+  switch (type) {
+    case 'MsgUniversalUpdateCollection':
+      return `collection ${v.collectionId === '0' || !v.collectionId ? '(new)' : v.collectionId}, ${(v.collectionApprovals || []).length} approval(s)`;
+    case 'MsgTransferTokens': {
+      const recipients = (v.transfers || []).reduce((n: number, t: any) => n + (t.toAddresses || []).length, 0);
+      return `${(v.transfers || []).length} transfer(s) to ${recipients} recipient(s) in collection ${v.collectionId ?? '0'}`;
+    }
+    case 'MsgCreateDynamicStore':
+      return `create dynamic store (defaultValue=${v.defaultValue})`;
+    case 'MsgUpdateDynamicStore':
+    case 'MsgDeleteDynamicStore':
+      return `${type === 'MsgDeleteDynamicStore' ? 'delete' : 'update'} dynamic store ${v.storeId}`;
+    case 'MsgSetDynamicStoreValue':
+      return `store ${v.storeId}: ${v.address} → ${v.value}`;
+    default:
+      return type || message.typeUrl;
+  }
+}
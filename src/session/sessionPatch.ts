@@ -0,0 +1,223 @@
+/**
+ * RFC 6902 JSON Patch for the session's collection value (apply_session_patch).
+ *
+ * Paths are RFC 6901 JSON Pointers with one extension: inside an array, a segment
+ * can address an item by ID instead of position, so patches don't break when
+ * approvals are reordered:
+ *
+ *   /collectionApprovals/public-mint/approvalCriteria/maxNumTransfers/overallMaxNumTransfers
+ *   /collectionApprovals/approvalId=123/uri      (explicit form, for numeric IDs)
+ *   /aliasPathsToAdd/uvault/symbol               (denom)
+ *   /tokenMetadata/1-100/uri                     (token range)
+ *
+ * A plain integer segment is always an array index, and "-" is the end of the array.
+ * The patch is all-or-nothing: any failing operation leaves the value untouched.
+ */
+
+import { ensureBb1, ensureBb1ListId } from '../sdk/addressUtils.js';
+import { tokenRangeKey } from './sessionDiff.js';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: any;
+  from?: string;
+}
+
+/** Fields an array item can be addressed by, in lookup order */
+const ID_FIELDS = ['approvalId', 'denom', 'amountTrackerId', 'storeId'];
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid path "${pointer}": must be "" or start with "/"`);
+  }
+  return pointer.slice(1).split('/').map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function describeItem(item: any): string | undefined {
+  for (const field of ID_FIELDS) {
+    if (item && typeof item[field] === 'string') return item[field];
+  }
+  if (item && Array.isArray(item.tokenIds)) return tokenRangeKey(item);
+  return undefined;
+}
+
+/**
+ * Resolve an array segment to an index. `forInsert` allows "-" and index === length.
+ */
+function resolveArrayIndex(array: any[], segment: string, pointer: string, forInsert: boolean): number {
+  if (segment === '-') {
+    if (forInsert) return array.length;
+    throw new Error(`Path "${pointer}": "-" can only be used to add to the end of an array`);
+  }
+
+  if (/^(0|[1-9]\d*)$/.test(segment)) {
+    const index = Number(segment);
+    if (index > array.length || (!forInsert && index === array.length)) {
+      throw new Error(`Path "${pointer}": index ${index} is out of bounds (length ${array.length})`);
+    }
+    return index;
+  }
+
+  const eq = segment.indexOf('=');
+  const matches: number[] = [];
+  array.forEach((item, index) => {
+    if (eq > 0) {
+      const field = segment.slice(0, eq);
+      const wanted = segment.slice(eq + 1);
+      const actual = field === 'tokenIds' ? tokenRangeKey(item || {}) : item?.[field];
+      if (String(actual) === wanted) matches.push(index);
+    } else if (describeItem(item) === segment) {
+      matches.push(index);
+    }
+  });
+
+  if (matches.length === 0) {
+    const known = array.map(describeItem).filter(Boolean);
+    throw new Error(`Path "${pointer}": no item "${segment}"${known.length > 0 ? `. Known: ${known.join(', ')}` : ''}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Path "${pointer}": "${segment}" matches ${matches.length} items — use an index instead`);
+  }
+  return matches[0];
+}
+
+/**
+ * Walk to the parent of the pointer's last segment.
+ */
+function resolveParent(doc: any, pointer: string): { parent: any; key: string } {
+  const segments = parsePointer(pointer);
+  if (segments.length === 0) {
+    throw new Error('The root value cannot be added to, removed or moved — patch its fields instead');
+  }
+  let node = doc;
+  for (const segment of segments.slice(0, -1)) {
+    if (Array.isArray(node)) {
+      node = node[resolveArrayIndex(node, segment, pointer, false)];
+    } else if (node && typeof node === 'object' && segment in node) {
+      node = node[segment];
+    } else {
+      throw new Error(`Path "${pointer}": "${segment}" does not exist`);
+    }
+  }
+  if (!node || typeof node !== 'object') {
+    throw new Error(`Path "${pointer}": parent is not an object or array`);
+  }
+  return { parent: node, key: segments[segments.length - 1] };
+}
+
+function getValue(doc: any, pointer: string): any {
+  if (pointer === '') return doc;
+  const { parent, key } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) return parent[resolveArrayIndex(parent, key, pointer, false)];
+  if (!(key in parent)) throw new Error(`Path "${pointer}" does not exist`);
+  return parent[key];
+}
+
+function addValue(doc: any, pointer: string, value: any): void {
+  const { parent, key } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(resolveArrayIndex(parent, key, pointer, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeValue(doc: any, pointer: string): any {
+  const { parent, key } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) {
+    return parent.splice(resolveArrayIndex(parent, key, pointer, false), 1)[0];
+  }
+  if (!(key in parent)) throw new Error(`Path "${pointer}" does not exist`);
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+}
+
+function replaceValue(doc: any, pointer: string, value: any): void {
+  const { parent, key } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent[resolveArrayIndex(parent, key, pointer, false)] = value;
+  } else {
+    if (!(key in parent)) throw new Error(`Path "${pointer}" does not exist — use "add"`);
+    parent[key] = value;
+  }
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((k) => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k]));
+}
+
+/**
+ * Apply a JSON Patch to a copy of `doc`. Throws (naming the failing operation) on the
+ * first error; the input is never modified.
+ */
+export function applyJsonPatch<T>(doc: T, operations: JsonPatchOperation[]): T {
+  const result = structuredClone(doc);
+  operations.forEach((operation, i) => {
+    try {
+      switch (operation.op) {
+        case 'add':
+          addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case 'remove':
+          removeValue(result, operation.path);
+          break;
+        case 'replace':
+          replaceValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case 'move': {
+          if (operation.from === undefined) throw new Error('"from" is required');
+          if (operation.path.startsWith(`${operation.from}/`)) throw new Error('cannot move a value into one of its children');
+          addValue(result, operation.path, removeValue(result, operation.from));
+          break;
+        }
+        case 'copy':
+          if (operation.from === undefined) throw new Error('"from" is required');
+          addValue(result, operation.path, structuredClone(getValue(result, operation.from)));
+          break;
+        case 'test':
+          if (!deepEqual(getValue(result, operation.path), operation.value)) {
+            throw new Error(`test failed: value at "${operation.path}" does not match`);
+          }
+          break;
+        default:
+          throw new Error(`unknown op "${(operation as any).op}"`);
+      }
+    } catch (error: any) {
+      throw new Error(`Patch operation ${i} (${operation.op} ${operation.path}) failed: ${error.message}`);
+    }
+  });
+  return result;
+}
+
+const ADDRESS_FIELDS = new Set(['creator', 'manager', 'to', 'from', 'address', 'approverAddress']);
+
+/**
+ * Convert 0x addresses to bb1 in address and list ID fields anywhere in the value
+ * (same rules the per-field tools apply to their inputs).
+ */
+export function normalizeAddresses(value: any): any {
+  if (Array.isArray(value)) return value.map(normalizeAddresses);
+  if (!value || typeof value !== 'object') return value;
+  const out: Record<string, any> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v === 'string' && ADDRESS_FIELDS.has(key)) {
+      out[key] = ensureBb1(v);
+    } else if (typeof v === 'string' && key.endsWith('ListId')) {
+      out[key] = ensureBb1ListId(v);
+    } else if (key === 'toAddresses' && Array.isArray(v)) {
+      out[key] = v.map((a) => (typeof a === 'string' ? ensureBb1(a) : a));
+    } else {
+      out[key] = normalizeAddresses(v);
+    }
+  }
+  return out;
+}
@@ -1,9 +1,12 @@
 /**
  * In-memory session state for the MCP builder v2.
  *
- * Uses a Map keyed by sessionId for per-request isolation.
- * Each session holds a blank MsgUniversalUpdateCollection template that per-field tools mutate.
- * Auto-creates on first mutation. State is ephemeral — scoped to the MCP process lifetime.
+ * Sessions are keyed by sessionId for per-request isolation and held in a pluggable
+ * SessionStore (see sessionStore.ts) — in-memory by default, or on-disk so a restart
+ * doesn't throw away a half-built collection.
+ * Each session holds a blank MsgUniversalUpdateCollection template that per-field tools mutate,
+ * plus any other messages appended to the batch (transfers, dynamic store ops).
+ * Auto-creates on first mutation.
  *
  * Design principles:
  * - Set tools replace the entire field
@@ -12,7 +15,35 @@
  * - Metadata placeholders are managed alongside their fields
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { ensureBb1 } from '../sdk/addressUtils.js';
+import { createSessionStoreFromEnv, type SessionStore } from './sessionStore.js';
+import { compareCollections, type CollectionSnapshot, type CollectionComparison } from './sessionDiff.js';
+import { toSessionDocument, type SessionDocument } from './sessionExport.js';
+import {
+  COLLECTION_TYPE_URL,
+  getCollectionMessageIndex,
+  getCollectionMessageValue,
+  getOtherMessages,
+  normalizeMessage,
+  summarizeMessage
+} from './sessionMessages.js';
+import { applyJsonPatch, normalizeAddresses, type JsonPatchOperation } from './sessionPatch.js';
+import {
+  cloneSession,
+  restoreSession,
+  recordStep,
+  takeUndoStep,
+  takeRedoStep,
+  listSessionSteps,
+  canUndo,
+  canRedo,
+  clearSessionHistory,
+  clearAllSessionHistory,
+  checkpointHistory,
+  restoreHistory,
+  type SessionStepSummary
+} from './sessionHistory.js';
 
 const MAX_UINT64 = '18446744073709551615';
 const DEFAULT_IMAGE = 'ipfs://QmNTpizCkY5tcMpPMf1kkn7Y5YxFQo3oT54A9oKP5ijP9E';
@@ -36,10 +67,59 @@ export interface SessionTransaction {
   metadataPlaceholders: Record<string, { name: string; description: string; image: string }>;
   /** Approval IDs that existed when the session was initialized (for update flows) */
   originalApprovalIds?: Set<string>;
+  /** Collection value + placeholders at load time, for minimal-update diffs (update flows) */
+  baseline?: CollectionSnapshot;
 }
 
-// Per-session state keyed by sessionId
-const sessions = new Map<string, SessionTransaction>();
+// Per-session state keyed by sessionId. Created lazily so env config is read at first use.
+let store: SessionStore | undefined;
+
+function getStore(): SessionStore {
+  if (!store) store = createSessionStoreFromEnv({ onEvict: handleSessionEvicted, isPinned: isSnapshotId });
+  return store;
+}
+
+/**
+ * Drop per-session state kept outside the store once the store evicts a session, and
+ * tell listeners it is gone. Pass as `onEvict` when building a store for setSessionStore.
+ */
+export function handleSessionEvicted(sessionId: string): void {
+  clearSessionHistory(sessionId);
+  notifySessionChange(sessionId, 'deleted');
+}
+
+/**
+ * Replace the session storage backend (e.g. a file store, or a fresh store in tests).
+ */
+export function setSessionStore(next: SessionStore): void {
+  store = next;
+}
+
+export type SessionChangeKind = 'created' | 'updated' | 'deleted';
+export type SessionChangeListener = (sessionId: string, kind: SessionChangeKind) => void;
+
+const changeListeners = new Set<SessionChangeListener>();
+
+/**
+ * Listen for session changes (e.g. to push resource update notifications). Fires after
+ * the change is written to the store; no-op mutations don't fire. Returns an unsubscribe function.
+ */
+export function onSessionChange(listener: SessionChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifySessionChange(sessionId: string, kind: SessionChangeKind): void {
+  for (const listener of changeListeners) {
+    try {
+      listener(sessionId, kind);
+    } catch {
+      // A failing listener must not break the mutation that triggered it
+    }
+  }
+}
 
 // Default sessionId when none is provided (MCP-direct / single-user mode)
 const DEFAULT_SESSION_ID = '__default__';
@@ -48,92 +128,235 @@ function resolveSessionId(sessionId?: string): string {
   return sessionId || DEFAULT_SESSION_ID;
 }
 
+/**
+ * The blank template a new session starts from.
+ */
+export function blankSession(creator: string, manager: string): SessionTransaction {
+  return {
+    messages: [{
+      typeUrl: COLLECTION_TYPE_URL,
+      value: {
+        creator,
+        collectionId: '0',
+        updateCollectionApprovals: true,
+        collectionApprovals: [],
+        updateStandards: true,
+        standards: [],
+        updateValidTokenIds: true,
+        validTokenIds: [],
+        updateCollectionMetadata: true,
+        collectionMetadata: { uri: '', customData: '' },
+        updateTokenMetadata: true,
+        tokenMetadata: [],
+        updateCollectionPermissions: true,
+        collectionPermissions: {},
+        updateInvariants: true,
+        invariants: null,
+        updateDefaultBalances: true,
+        defaultBalances: {
+          balances: [],
+          outgoingApprovals: [],
+          incomingApprovals: [],
+          autoApproveAllIncomingTransfers: true,
+          autoApproveSelfInitiatedOutgoingTransfers: true,
+          autoApproveSelfInitiatedIncomingTransfers: true,
+          userPermissions: {
+            canUpdateOutgoingApprovals: [],
+            canUpdateIncomingApprovals: [],
+            canUpdateAutoApproveSelfInitiatedOutgoingTransfers: [],
+            canUpdateAutoApproveSelfInitiatedIncomingTransfers: [],
+            canUpdateAutoApproveAllIncomingTransfers: []
+          }
+        },
+        updateManager: true,
+        manager,
+        updateCustomData: false,
+        customData: '',
+        mintEscrowCoinsToTransfer: [],
+        aliasPathsToAdd: [],
+        cosmosCoinWrapperPathsToAdd: []
+      }
+    }],
+    metadataPlaceholders: {}
+  };
+}
+
 /**
  * Get or auto-create a session. First call initializes with a blank template.
  */
 export function getOrCreateSession(sessionId?: string, creatorAddress?: string): SessionTransaction {
   const sid = resolveSessionId(sessionId);
   const resolvedCreator = creatorAddress ? ensureBb1(creatorAddress) : creatorAddress;
-  let session = sessions.get(sid);
+  let session = getStore().get(sid);
   if (!session) {
-    session = {
-      messages: [{
-        typeUrl: '/tokenization.MsgUniversalUpdateCollection',
-        value: {
-          creator: resolvedCreator || '',
-          collectionId: '0',
-          updateCollectionApprovals: true,
-          collectionApprovals: [],
-          updateStandards: true,
-          standards: [],
-          updateValidTokenIds: true,
-          validTokenIds: [],
-          updateCollectionMetadata: true,
-          collectionMetadata: { uri: '', customData: '' },
-          updateTokenMetadata: true,
-          tokenMetadata: [],
-          updateCollectionPermissions: true,
-          collectionPermissions: {},
-          updateInvariants: true,
-          invariants: null,
-          updateDefaultBalances: true,
-          defaultBalances: {
-            balances: [],
-            outgoingApprovals: [],
-            incomingApprovals: [],
-            autoApproveAllIncomingTransfers: true,
-            autoApproveSelfInitiatedOutgoingTransfers: true,
-            autoApproveSelfInitiatedIncomingTransfers: true,
-            userPermissions: {
-              canUpdateOutgoingApprovals: [],
-              canUpdateIncomingApprovals: [],
-              canUpdateAutoApproveSelfInitiatedOutgoingTransfers: [],
-              canUpdateAutoApproveSelfInitiatedIncomingTransfers: [],
-              canUpdateAutoApproveAllIncomingTransfers: []
-            }
-          },
-          updateManager: true,
-          manager: creatorAddress || '',
-          updateCustomData: false,
-          customData: '',
-          mintEscrowCoinsToTransfer: [],
-          aliasPathsToAdd: [],
-          cosmosCoinWrapperPathsToAdd: []
-        }
-      }],
-      metadataPlaceholders: {}
-    };
-    sessions.set(sid, session);
+    session = blankSession(resolvedCreator || '', creatorAddress || '');
+    getStore().set(sid, session);
+    notifySessionChange(sid, 'created');
   }
   return session;
 }
 
+// Per-session queue of async operations (tool calls, transactions). Each entry settles
+// when its holder finishes; heldLocks marks the sessions the current async context holds.
+const sessionLocks = new Map<string, Promise<void>>();
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+/**
+ * Run `run` once every earlier operation on the session has finished, and keep later
+ * ones waiting until it does. Re-entrant: nested calls for a session the caller
+ * already holds run immediately.
+ */
+export async function withSessionLock<T>(sessionId: string | undefined, run: () => Promise<T>): Promise<T> {
+  const sid = resolveSessionId(sessionId);
+  const held = heldLocks.getStore();
+  if (held?.has(sid)) return run();
+
+  const previous = sessionLocks.get(sid) ?? Promise.resolve();
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => done);
+  sessionLocks.set(sid, tail);
+  await previous;
+  try {
+    return await heldLocks.run(new Set([...(held ?? []), sid]), run);
+  } finally {
+    release();
+    if (sessionLocks.get(sid) === tail) sessionLocks.delete(sid);
+  }
+}
+
+/**
+ * Snapshots are frozen, so mutating one is refused. Synchronous mutations also can't
+ * wait their turn, so one made while another context holds the session (e.g. mid
+ * batch_session_ops) is refused rather than interleaved.
+ */
+function assertSessionWritable(sid: string): void {
+  if (isSnapshotId(sid)) {
+    throw new Error(`Session "${sid}" is a snapshot and can't be changed. Fork it (fork_session) to build on it.`);
+  }
+  if (sessionLocks.has(sid) && !heldLocks.getStore()?.has(sid)) {
+    throw new Error(`Session "${sid}" is busy with another operation (e.g. batch_session_ops). Retry once it finishes.`);
+  }
+}
+
+/** Which tool made a mutation, recorded in the undo history. */
+export interface MutationStep {
+  tool: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Run a mutation against a session, record it as an undoable step and write it
+ * back to the store. Every session mutation goes through here so durable stores
+ * and the history see each change.
+ */
+function mutateSession<T>(sessionId: string | undefined, step: MutationStep, mutate: (session: SessionTransaction) => T): T {
+  const sid = resolveSessionId(sessionId);
+  assertSessionWritable(sid);
+  const session = getOrCreateSession(sid);
+  const before = cloneSession(session);
+  const result = mutate(session);
+  const recorded = recordStep(sid, step.tool, step.args, before, session);
+  getStore().set(sid, session);
+  if (recorded) notifySessionChange(sid, 'updated');
+  return result;
+}
+
+/**
+ * Run several mutations as one transaction. If `run` throws, the session and its
+ * history are put back exactly as they were (a session the transaction created is
+ * deleted) and the error is rethrown. On success the individual steps are replaced
+ * by a single history step, so one undo reverts the whole transaction. The session is
+ * locked (see withSessionLock) throughout, so a rollback can't overwrite anyone else's changes.
+ */
+export async function runSessionTransaction<T>(
+  sessionId: string | undefined,
+  step: MutationStep,
+  run: () => Promise<T>
+): Promise<T> {
+  return withSessionLock(sessionId, () => runLockedTransaction(resolveSessionId(sessionId), step, run));
+}
+
+async function runLockedTransaction<T>(sid: string, step: MutationStep, run: () => Promise<T>): Promise<T> {
+  assertSessionWritable(sid);
+  const existing = getStore().get(sid);
+  // A session the transaction creates is diffed (and undone) against the blank template
+  const before = existing ? cloneSession(existing) : blankSession('', '');
+  const checkpoint = checkpointHistory(sid);
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    if (existing) {
+      const session = getOrCreateSession(sid);
+      restoreSession(session, before);
+      getStore().set(sid, session);
+      restoreHistory(sid, checkpoint);
+      notifySessionChange(sid, 'updated');
+    } else if (getStore().has(sid)) {
+      getStore().delete(sid);
+      clearSessionHistory(sid);
+      notifySessionChange(sid, 'deleted');
+    }
+    throw error;
+  }
+
+  restoreHistory(sid, checkpoint);
+  recordStep(sid, step.tool, step.args, before, getOrCreateSession(sid));
+  return result;
+}
+
+/**
+ * The session's MsgUniversalUpdateCollection value. It is usually, but not necessarily,
+ * messages[0] — messages can be reordered with move_message.
+ */
+function collectionValue(session: SessionTransaction): Record<string, any> {
+  return getCollectionMessageValue(session.messages);
+}
+
 /**
- * Get the collection value (messages[0].value) from a session.
+ * Get the collection value (the MsgUniversalUpdateCollection's value) from a session.
  */
 export function getCollectionValue(sessionId?: string, creatorAddress?: string): Record<string, any> {
-  return getOrCreateSession(sessionId, creatorAddress).messages[0].value;
+  return collectionValue(getOrCreateSession(sessionId, creatorAddress));
 }
 
 /**
  * Reset a specific session (or the default session).
  */
 export function resetSession(sessionId?: string): void {
-  sessions.delete(resolveSessionId(sessionId));
+  const sid = resolveSessionId(sessionId);
+  const existed = getStore().has(sid);
+  getStore().delete(sid);
+  clearSessionHistory(sid);
+  if (existed) notifySessionChange(sid, 'deleted');
 }
 
 /**
  * Reset all sessions (for testing).
  */
 export function resetAllSessions(): void {
-  sessions.clear();
+  const sessionIds = getStore().keys();
+  getStore().clear();
+  clearAllSessionHistory();
+  for (const sid of sessionIds) notifySessionChange(sid, 'deleted');
 }
 
 /**
  * Check if a session exists.
  */
 export function hasSession(sessionId?: string): boolean {
-  return sessions.has(resolveSessionId(sessionId));
+  return getStore().has(resolveSessionId(sessionId));
+}
+
+/**
+ * IDs of all stored sessions, snapshots included (as "<sessionId>@<name>").
+ */
+export function listSessionIds(): string[] {
+  return getStore().keys();
 }
 
 // ============================================================
@@ -141,18 +364,23 @@ export function hasSession(sessionId?: string): boolean {
 // ============================================================
 
 export function setStandards(sessionId: string | undefined, standards: string[]): void {
-  const value = getCollectionValue(sessionId);
-  value.standards = standards;
-  value.updateStandards = true;
+  mutateSession(sessionId, { tool: 'set_standards', args: { standards } }, (s) => {
+    const value = collectionValue(s);
+    value.standards = standards;
+    value.updateStandards = true;
+  });
 }
 
 export function setValidTokenIds(sessionId: string | undefined, tokenIds: Array<{ start: string; end: string }>): void {
-  const value = getCollectionValue(sessionId);
-  value.validTokenIds = tokenIds;
-  value.updateValidTokenIds = true;
+  mutateSession(sessionId, { tool: 'set_valid_token_ids', args: { tokenIds } }, (s) => {
+    const value = collectionValue(s);
+    value.validTokenIds = tokenIds;
+    value.updateValidTokenIds = true;
+  });
 }
 
-const DEFAULT_USER_PERMISSIONS = {
+/** userPermissions fields the SDK requires on defaultBalances, all empty */
+export const DEFAULT_USER_PERMISSIONS = {
   canUpdateOutgoingApprovals: [],
   canUpdateIncomingApprovals: [],
   canUpdateAutoApproveSelfInitiatedOutgoingTransfers: [],
@@ -161,56 +389,70 @@ const DEFAULT_USER_PERMISSIONS = {
 };
 
 export function setDefaultBalances(sessionId: string | undefined, defaultBalances: Record<string, any>): void {
-  const value = getCollectionValue(sessionId);
-  // Auto-fill required userPermissions fields that the SDK needs
-  const userPerms = defaultBalances.userPermissions || {};
-  defaultBalances.userPermissions = { ...DEFAULT_USER_PERMISSIONS, ...userPerms };
-  value.defaultBalances = defaultBalances;
-  value.updateDefaultBalances = true;
+  mutateSession(sessionId, { tool: 'set_default_balances', args: { defaultBalances } }, (s) => {
+    const value = collectionValue(s);
+    // Auto-fill required userPermissions fields that the SDK needs
+    const userPerms = defaultBalances.userPermissions || {};
+    defaultBalances.userPermissions = { ...DEFAULT_USER_PERMISSIONS, ...userPerms };
+    value.defaultBalances = defaultBalances;
+    value.updateDefaultBalances = true;
+  });
 }
 
 export function setPermissions(sessionId: string | undefined, permissions: Record<string, any>): void {
-  const value = getCollectionValue(sessionId);
-  value.collectionPermissions = permissions;
-  value.updateCollectionPermissions = true;
+  mutateSession(sessionId, { tool: 'set_permissions', args: { permissions } }, (s) => {
+    const value = collectionValue(s);
+    value.collectionPermissions = permissions;
+    value.updateCollectionPermissions = true;
+  });
 }
 
 export function setInvariants(sessionId: string | undefined, invariants: Record<string, any> | null): void {
-  const value = getCollectionValue(sessionId);
-  value.invariants = invariants;
-  value.updateInvariants = true;
+  mutateSession(sessionId, { tool: 'set_invariants', args: { invariants } }, (s) => {
+    const value = collectionValue(s);
+    value.invariants = invariants;
+    value.updateInvariants = true;
+  });
 }
 
 export function setManager(sessionId: string | undefined, manager: string): void {
-  const value = getCollectionValue(sessionId);
-  value.manager = manager;
-  value.updateManager = true;
+  mutateSession(sessionId, { tool: 'set_manager', args: { manager } }, (s) => {
+    const value = collectionValue(s);
+    value.manager = manager;
+    value.updateManager = true;
+  });
 }
 
 export function setCustomData(sessionId: string | undefined, customData: string): void {
-  const value = getCollectionValue(sessionId);
-  value.customData = customData;
-  value.updateCustomData = true;
+  mutateSession(sessionId, { tool: 'set_custom_data', args: { customData } }, (s) => {
+    const value = collectionValue(s);
+    value.customData = customData;
+    value.updateCustomData = true;
+  });
 }
 
 export function setIsArchived(sessionId: string | undefined, isArchived: boolean): void {
-  const value = getCollectionValue(sessionId);
-  value.isArchived = isArchived;
-  value.updateIsArchived = true;
+  mutateSession(sessionId, { tool: 'set_is_archived', args: { isArchived } }, (s) => {
+    const value = collectionValue(s);
+    value.isArchived = isArchived;
+    value.updateIsArchived = true;
+  });
 }
 
 export function setMintEscrowCoins(sessionId: string | undefined, coins: Array<{ denom: string; amount: string }>): void {
-  const value = getCollectionValue(sessionId);
-  value.mintEscrowCoinsToTransfer = coins;
+  mutateSession(sessionId, { tool: 'set_mint_escrow_coins', args: { coins } }, (s) => {
+    collectionValue(s).mintEscrowCoinsToTransfer = coins;
+  });
 }
 
 export function setCollectionMetadata(sessionId: string | undefined, name: string, description: string, image: string): void {
-  const s = getOrCreateSession(sessionId);
-  const value = s.messages[0].value;
-  const uri = 'ipfs://METADATA_COLLECTION';
-  value.collectionMetadata = { uri, customData: '' };
-  value.updateCollectionMetadata = true;
-  s.metadataPlaceholders[uri] = { name, description, image: sanitizeImage(image) };
+  mutateSession(sessionId, { tool: 'set_collection_metadata', args: { name, description, image } }, (s) => {
+    const value = collectionValue(s);
+    const uri = 'ipfs://METADATA_COLLECTION';
+    value.collectionMetadata = { uri, customData: '' };
+    value.updateCollectionMetadata = true;
+    s.metadataPlaceholders[uri] = { name, description, image: sanitizeImage(image) };
+  });
 }
 
 export function setTokenMetadata(
@@ -220,26 +462,27 @@ export function setTokenMetadata(
   description: string,
   image: string
 ): void {
-  const s = getOrCreateSession(sessionId);
-  const value = s.messages[0].value;
-  const uriKey = tokenIds.length === 1 && tokenIds[0].start === tokenIds[0].end
-    ? `ipfs://METADATA_TOKEN_${tokenIds[0].start}`
-    : `ipfs://METADATA_TOKEN_${tokenIds[0].start}-${tokenIds[tokenIds.length - 1].end}`;
+  mutateSession(sessionId, { tool: 'set_token_metadata', args: { tokenIds, name, description, image } }, (s) => {
+    const value = collectionValue(s);
+    const uriKey = tokenIds.length === 1 && tokenIds[0].start === tokenIds[0].end
+      ? `ipfs://METADATA_TOKEN_${tokenIds[0].start}`
+      : `ipfs://METADATA_TOKEN_${tokenIds[0].start}-${tokenIds[tokenIds.length - 1].end}`;
 
-  const useIdPlaceholder = tokenIds.length === 1 && tokenIds[0].start !== tokenIds[0].end;
-  const uri = useIdPlaceholder ? `${uriKey}/{id}` : uriKey;
+    const useIdPlaceholder = tokenIds.length === 1 && tokenIds[0].start !== tokenIds[0].end;
+    const uri = useIdPlaceholder ? `${uriKey}/{id}` : uriKey;
 
-  const existing = value.tokenMetadata?.findIndex((tm: any) =>
-    JSON.stringify(tm.tokenIds) === JSON.stringify(tokenIds)
-  );
-  const entry = { uri, customData: '', tokenIds };
-  if (existing >= 0) {
-    value.tokenMetadata[existing] = entry;
-  } else {
-    value.tokenMetadata = [...(value.tokenMetadata || []), entry];
-  }
-  value.updateTokenMetadata = true;
-  s.metadataPlaceholders[uriKey] = { name, description, image: sanitizeImage(image) };
+    const existing = value.tokenMetadata?.findIndex((tm: any) =>
+      JSON.stringify(tm.tokenIds) === JSON.stringify(tokenIds)
+    );
+    const entry = { uri, customData: '', tokenIds };
+    if (existing >= 0) {
+      value.tokenMetadata[existing] = entry;
+    } else {
+      value.tokenMetadata = [...(value.tokenMetadata || []), entry];
+    }
+    value.updateTokenMetadata = true;
+    s.metadataPlaceholders[uriKey] = { name, description, image: sanitizeImage(image) };
+  });
 }
 
 // ============================================================
@@ -247,138 +490,520 @@ export function setTokenMetadata(
 // ============================================================
 
 export function addApproval(sessionId: string | undefined, approval: Record<string, any>): void {
-  const s = getOrCreateSession(sessionId);
-  const value = s.messages[0].value;
-  const approvals: any[] = value.collectionApprovals || [];
-  const approvalId = approval.approvalId;
-
-  const existingIdx = approvals.findIndex((a: any) => a.approvalId === approvalId);
-  if (existingIdx >= 0) {
-    approvals[existingIdx] = approval;
-  } else {
-    approvals.push(approval);
-  }
+  mutateSession(sessionId, { tool: 'add_approval', args: { approval } }, (s) => {
+    const value = collectionValue(s);
+    const approvals: any[] = value.collectionApprovals || [];
+    const approvalId = approval.approvalId;
 
-  value.collectionApprovals = approvals;
-  value.updateCollectionApprovals = true;
-
-  // Auto-create approval metadata placeholder
-  const uri = `ipfs://METADATA_APPROVAL_${approvalId}`;
-  const idx = existingIdx >= 0 ? existingIdx : approvals.length - 1;
-  approvals[idx].uri = approvals[idx].uri || uri;
-  approvals[idx].customData = approvals[idx].customData || '';
-  approvals[idx].version = approvals[idx].version || '0';
-  if (!s.metadataPlaceholders[uri]) {
-    const approvalTitle = (approvalId as string).replace(/-/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase());
-    s.metadataPlaceholders[uri] = { name: approvalTitle, description: '', image: '' };
-  }
+    const existingIdx = approvals.findIndex((a: any) => a.approvalId === approvalId);
+    if (existingIdx >= 0) {
+      approvals[existingIdx] = approval;
+    } else {
+      approvals.push(approval);
+    }
+
+    value.collectionApprovals = approvals;
+    value.updateCollectionApprovals = true;
+
+    // Auto-create approval metadata placeholder
+    const uri = `ipfs://METADATA_APPROVAL_${approvalId}`;
+    const idx = existingIdx >= 0 ? existingIdx : approvals.length - 1;
+    approvals[idx].uri = approvals[idx].uri || uri;
+    approvals[idx].customData = approvals[idx].customData || '';
+    approvals[idx].version = approvals[idx].version || '0';
+    if (!s.metadataPlaceholders[uri]) {
+      const approvalTitle = (approvalId as string).replace(/-/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase());
+      s.metadataPlaceholders[uri] = { name: approvalTitle, description: '', image: '' };
+    }
+  });
 }
 
 export function removeApproval(sessionId: string | undefined, approvalId: string): { removed: boolean; position: number } {
-  const value = getCollectionValue(sessionId);
-  const approvals: any[] = value.collectionApprovals || [];
-  const idx = approvals.findIndex((a: any) => a.approvalId === approvalId);
-  if (idx >= 0) {
-    approvals.splice(idx, 1);
-    value.collectionApprovals = approvals;
-    return { removed: true, position: idx };
+  return mutateSession(sessionId, { tool: 'remove_approval', args: { approvalId } }, (s) => {
+    const value = collectionValue(s);
+    const approvals: any[] = value.collectionApprovals || [];
+    const idx = approvals.findIndex((a: any) => a.approvalId === approvalId);
+    if (idx >= 0) {
+      approvals.splice(idx, 1);
+      value.collectionApprovals = approvals;
+      return { removed: true, position: idx };
+    }
+    return { removed: false, position: -1 };
+  });
+}
+
+/** Where to move an approval: relative to another approvalId, or an absolute index */
+export type ApprovalPosition = { before: string } | { after: string } | { index: number };
+
+/**
+ * Move an approval within collectionApprovals. Order matters: the chain auto-scans
+ * approvals in order and uses the first match.
+ */
+export function moveApproval(
+  sessionId: string | undefined,
+  approvalId: string,
+  position: ApprovalPosition
+): { moved: boolean; from: number; to: number; error?: string } {
+  const approvals: any[] = getCollectionValue(sessionId).collectionApprovals || [];
+  const from = approvals.findIndex((a: any) => a.approvalId === approvalId);
+  if (from < 0) return { moved: false, from: -1, to: -1, error: `Approval "${approvalId}" not found.` };
+
+  const rest = approvals.filter((_, i) => i !== from);
+  let to: number;
+  if ('index' in position) {
+    if (position.index < 0 || position.index >= approvals.length) {
+      return { moved: false, from, to: -1, error: `Index ${position.index} is out of range (0-${approvals.length - 1}).` };
+    }
+    to = position.index;
+  } else {
+    const anchorId = 'before' in position ? position.before : position.after;
+    if (anchorId === approvalId) return { moved: false, from, to: -1, error: 'Cannot move an approval relative to itself.' };
+    const anchorIdx = rest.findIndex((a: any) => a.approvalId === anchorId);
+    if (anchorIdx < 0) return { moved: false, from, to: -1, error: `Approval "${anchorId}" not found.` };
+    to = 'before' in position ? anchorIdx : anchorIdx + 1;
   }
-  return { removed: false, position: -1 };
+
+  mutateSession(sessionId, { tool: 'move_approval', args: { approvalId, position } }, (s) => {
+    const value = collectionValue(s);
+    const list: any[] = value.collectionApprovals;
+    const [approval] = list.splice(from, 1);
+    list.splice(to, 0, approval);
+  });
+  return { moved: from !== to, from, to };
+}
+
+function summarizeApproval(approval: Record<string, any>): string {
+  const parts = [`${approval.fromListId ?? '?'} → ${approval.toListId ?? '?'}`];
+  if (approval.initiatedByListId && approval.initiatedByListId !== 'All') parts.push(`initiated by ${approval.initiatedByListId}`);
+
+  const criteria = approval.approvalCriteria || {};
+  const features: string[] = [];
+  const coins = (criteria.coinTransfers || []).flatMap((ct: any) => ct.coins || []);
+  if (coins.length > 0) features.push(`costs ${coins.map((c: any) => `${c.amount} ${c.denom}`).join(' + ')}`);
+  if ((criteria.merkleChallenges || []).length > 0) features.push('claim-gated');
+  if ((criteria.mustOwnTokens || []).length > 0) features.push('requires token ownership');
+  if ((criteria.dynamicStoreChallenges || []).length > 0) features.push('dynamic store gated');
+  const max = criteria.maxNumTransfers || {};
+  if (max.overallMaxNumTransfers && max.overallMaxNumTransfers !== '0') features.push(`max ${max.overallMaxNumTransfers} transfers`);
+  if (max.perInitiatedByAddressMaxNumTransfers && max.perInitiatedByAddressMaxNumTransfers !== '0') features.push(`max ${max.perInitiatedByAddressMaxNumTransfers} per user`);
+  const amounts = criteria.approvalAmounts || {};
+  if (amounts.overallApprovalAmount && amounts.overallApprovalAmount !== '0') features.push(`cap ${amounts.overallApprovalAmount}`);
+  if (criteria.predeterminedBalances && Object.keys(criteria.predeterminedBalances).length > 0) features.push('predetermined balances');
+  if (criteria.allowBackedMinting) features.push('backed minting');
+  if (criteria.overridesFromOutgoingApprovals) features.push('overrides outgoing');
+  if (criteria.overridesToIncomingApprovals) features.push('overrides incoming');
+
+  return features.length > 0 ? `${parts.join(', ')}; ${features.join(', ')}` : parts.join(', ');
+}
+
+/**
+ * Approvals in scan order, with a one-line summary each.
+ */
+export function listApprovals(sessionId?: string): Array<{ index: number; approvalId: string; summary: string }> {
+  const approvals: any[] = getCollectionValue(sessionId).collectionApprovals || [];
+  return approvals.map((approval, index) => ({ index, approvalId: approval.approvalId, summary: summarizeApproval(approval) }));
 }
 
 export function setApprovalMetadata(sessionId: string | undefined, approvalId: string, name: string, description: string, image: string = ''): void {
-  const s = getOrCreateSession(sessionId);
-  const uri = `ipfs://METADATA_APPROVAL_${approvalId}`;
-  s.metadataPlaceholders[uri] = { name, description, image };
-
-  const value = s.messages[0].value;
-  const approvals: any[] = value.collectionApprovals || [];
-  const approval = approvals.find((a: any) => a.approvalId === approvalId);
-  if (approval) {
-    approval.uri = uri;
-  }
+  mutateSession(sessionId, { tool: 'set_approval_metadata', args: { approvalId, name, description, image } }, (s) => {
+    const uri = `ipfs://METADATA_APPROVAL_${approvalId}`;
+    s.metadataPlaceholders[uri] = { name, description, image };
+
+    const value = collectionValue(s);
+    const approvals: any[] = value.collectionApprovals || [];
+    const approval = approvals.find((a: any) => a.approvalId === approvalId);
+    if (approval) {
+      approval.uri = uri;
+    }
+  });
 }
 
 export function addAliasPath(sessionId: string | undefined, aliasPath: Record<string, any>): void {
-  const value = getCollectionValue(sessionId);
-  const paths: any[] = value.aliasPathsToAdd || [];
-  const denom = aliasPath.denom;
+  mutateSession(sessionId, { tool: 'add_alias_path', args: { aliasPath } }, (s) => {
+    const value = collectionValue(s);
+    const paths: any[] = value.aliasPathsToAdd || [];
+    const denom = aliasPath.denom;
 
-  const existingIdx = paths.findIndex((p: any) => p.denom === denom);
-  if (existingIdx >= 0) {
-    paths[existingIdx] = aliasPath;
-  } else {
-    paths.push(aliasPath);
-  }
-  value.aliasPathsToAdd = paths;
+    const existingIdx = paths.findIndex((p: any) => p.denom === denom);
+    if (existingIdx >= 0) {
+      paths[existingIdx] = aliasPath;
+    } else {
+      paths.push(aliasPath);
+    }
+    value.aliasPathsToAdd = paths;
+  });
 }
 
 export function removeAliasPath(sessionId: string | undefined, denom: string): { removed: boolean } {
-  const value = getCollectionValue(sessionId);
-  const paths: any[] = value.aliasPathsToAdd || [];
-  const idx = paths.findIndex((p: any) => p.denom === denom);
-  if (idx >= 0) {
-    paths.splice(idx, 1);
-    value.aliasPathsToAdd = paths;
-    return { removed: true };
-  }
-  return { removed: false };
+  return mutateSession(sessionId, { tool: 'remove_alias_path', args: { denom } }, (s) => {
+    const value = collectionValue(s);
+    const paths: any[] = value.aliasPathsToAdd || [];
+    const idx = paths.findIndex((p: any) => p.denom === denom);
+    if (idx >= 0) {
+      paths.splice(idx, 1);
+      value.aliasPathsToAdd = paths;
+      return { removed: true };
+    }
+    return { removed: false };
+  });
 }
 
 export function addCosmosWrapperPath(sessionId: string | undefined, wrapperPath: Record<string, any>): void {
-  const value = getCollectionValue(sessionId);
-  const paths: any[] = value.cosmosCoinWrapperPathsToAdd || [];
-  const denom = wrapperPath.denom;
+  mutateSession(sessionId, { tool: 'add_cosmos_wrapper_path', args: { wrapperPath } }, (s) => {
+    const value = collectionValue(s);
+    const paths: any[] = value.cosmosCoinWrapperPathsToAdd || [];
+    const denom = wrapperPath.denom;
 
-  const existingIdx = paths.findIndex((p: any) => p.denom === denom);
-  if (existingIdx >= 0) {
-    paths[existingIdx] = wrapperPath;
-  } else {
-    paths.push(wrapperPath);
-  }
-  value.cosmosCoinWrapperPathsToAdd = paths;
+    const existingIdx = paths.findIndex((p: any) => p.denom === denom);
+    if (existingIdx >= 0) {
+      paths[existingIdx] = wrapperPath;
+    } else {
+      paths.push(wrapperPath);
+    }
+    value.cosmosCoinWrapperPathsToAdd = paths;
+  });
 }
 
 export function removeCosmosWrapperPath(sessionId: string | undefined, denom: string): { removed: boolean } {
-  const value = getCollectionValue(sessionId);
-  const paths: any[] = value.cosmosCoinWrapperPathsToAdd || [];
-  const idx = paths.findIndex((p: any) => p.denom === denom);
-  if (idx >= 0) {
-    paths.splice(idx, 1);
-    value.cosmosCoinWrapperPathsToAdd = paths;
-    return { removed: true };
-  }
-  return { removed: false };
+  return mutateSession(sessionId, { tool: 'remove_cosmos_wrapper_path', args: { denom } }, (s) => {
+    const value = collectionValue(s);
+    const paths: any[] = value.cosmosCoinWrapperPathsToAdd || [];
+    const idx = paths.findIndex((p: any) => p.denom === denom);
+    if (idx >= 0) {
+      paths.splice(idx, 1);
+      value.cosmosCoinWrapperPathsToAdd = paths;
+      return { removed: true };
+    }
+    return { removed: false };
+  });
 }
 
 // ============================================================
-// Transfer messages — append/remove MsgTransferTokens
+// Messages — the ordered batch around the collection message
 // ============================================================
 
+export interface SessionMessageSummary {
+  index: number;
+  typeUrl: string;
+  summary: string;
+  /** true for the MsgUniversalUpdateCollection the per-field tools edit */
+  isCollection: boolean;
+}
+
+export function listMessages(sessionId?: string): SessionMessageSummary[] {
+  return getOrCreateSession(sessionId).messages.map((message, index) => ({
+    index,
+    typeUrl: message.typeUrl,
+    summary: summarizeMessage(message),
+    isCollection: message.typeUrl === COLLECTION_TYPE_URL
+  }));
+}
+
+/**
+ * Append messages (e.g. build_dynamic_store / build_transfer output) to the batch.
+ * Accepts { typeUrl, value } or { '@type', ...fields } messages. A second
+ * MsgUniversalUpdateCollection is rejected — the session edits exactly one collection.
+ */
+export function appendMessages(
+  sessionId: string | undefined,
+  messages: Array<Record<string, any>>,
+  tool: string = 'append_messages'
+): { indices: number[] } {
+  const normalized = messages.map(normalizeMessage);
+  if (normalized.some((m) => m.typeUrl === COLLECTION_TYPE_URL)) {
+    throw new Error('The session already has a MsgUniversalUpdateCollection. Edit it with the per-field tools instead of appending another.');
+  }
+  return mutateSession(sessionId, { tool, args: { messages: normalized } }, (s) => {
+    const start = s.messages.length;
+    s.messages.push(...normalized);
+    return { indices: normalized.map((_, i) => start + i) };
+  });
+}
+
+/**
+ * Move the message at `from` to position `to`, shifting the messages in between.
+ */
+export function moveMessage(sessionId: string | undefined, from: number, to: number): { moved: boolean } {
+  return mutateSession(sessionId, { tool: 'move_message', args: { from, to } }, (s) => {
+    const count = s.messages.length;
+    if (from < 0 || from >= count || to < 0 || to >= count) return { moved: false };
+    const [message] = s.messages.splice(from, 1);
+    s.messages.splice(to, 0, message);
+    return { moved: true };
+  });
+}
+
+/**
+ * Remove any message except the collection message.
+ */
+export function removeMessage(sessionId: string | undefined, index: number): { removed: boolean; typeUrl?: string } {
+  return mutateSession(sessionId, { tool: 'remove_message', args: { index } }, (s) => {
+    if (index < 0 || index >= s.messages.length) return { removed: false };
+    if (s.messages[index].typeUrl === COLLECTION_TYPE_URL) return { removed: false, typeUrl: COLLECTION_TYPE_URL };
+    const [message] = s.messages.splice(index, 1);
+    return { removed: true, typeUrl: message.typeUrl };
+  });
+}
+
 export function addTransfer(sessionId: string | undefined, transfer: Record<string, any>): { index: number } {
-  const s = getOrCreateSession(sessionId);
-  const creatorAddress = s.messages[0].value.creator || '';
-
-  const msg = {
-    typeUrl: '/tokenization.MsgTransferTokens',
-    value: {
-      ...transfer,
-      creator: creatorAddress,
-      collectionId: transfer.collectionId || '0'
-    }
-  };
+  return mutateSession(sessionId, { tool: 'add_transfer', args: { transfer } }, (s) => {
+    const creatorAddress = collectionValue(s).creator || '';
 
-  s.messages.push(msg);
-  return { index: s.messages.length - 1 };
+    const msg = {
+      typeUrl: '/tokenization.MsgTransferTokens',
+      value: {
+        ...transfer,
+        creator: creatorAddress,
+        collectionId: transfer.collectionId || '0'
+      }
+    };
+
+    s.messages.push(msg);
+    return { index: s.messages.length - 1 };
+  });
 }
 
 export function removeTransfer(sessionId: string | undefined, index: number): { removed: boolean } {
-  const s = getOrCreateSession(sessionId);
-  // Index 0 is always MsgUniversalUpdateCollection — can't remove it
-  if (index < 1 || index >= s.messages.length) return { removed: false };
-  if (s.messages[index].typeUrl !== '/tokenization.MsgTransferTokens') return { removed: false };
-  s.messages.splice(index, 1);
-  return { removed: true };
+  return mutateSession(sessionId, { tool: 'remove_transfer', args: { index } }, (s) => {
+    if (index < 0 || index >= s.messages.length) return { removed: false };
+    if (s.messages[index].typeUrl !== '/tokenization.MsgTransferTokens') return { removed: false };
+    s.messages.splice(index, 1);
+    return { removed: true };
+  });
+}
+
+// ============================================================
+// JSON Patch — deep edits the per-field tools don't cover
+// ============================================================
+
+/**
+ * Apply an RFC 6902 patch (with ID-addressed paths, see sessionPatch.ts) to the
+ * collection value. The result is run through ensureStringNumbers and bb1 address
+ * normalisation. All-or-nothing: a failing operation throws and changes nothing.
+ */
+export function applySessionPatch(sessionId: string | undefined, operations: JsonPatchOperation[]): { changedFields: string[] } {
+  const sid = resolveSessionId(sessionId);
+  const current = collectionValue(getOrCreateSession(sid));
+  const patched = applyJsonPatch(current, operations);
+  if (!patched || typeof patched !== 'object' || Array.isArray(patched)) {
+    throw new Error('The patched collection value must be an object.');
+  }
+  const next = normalizeAddresses(ensureStringNumbers(patched));
+  const changedFields = [...new Set([...Object.keys(current), ...Object.keys(next)])]
+    .filter((key) => JSON.stringify(current[key]) !== JSON.stringify(next[key]));
+
+  mutateSession(sid, { tool: 'apply_session_patch', args: { operations } }, (s) => {
+    s.messages[getCollectionMessageIndex(s.messages)].value = next;
+  });
+  return { changedFields };
+}
+
+// ============================================================
+// Update flows — seed a session from an existing collection
+// ============================================================
+
+/**
+ * Replace the session with a MsgUniversalUpdateCollection for an existing collection.
+ * Transfer messages are dropped. Approval IDs present at load time are remembered in
+ * originalApprovalIds so update flows can tell edited approvals from new ones, and the
+ * loaded state is kept as the baseline for get_transaction's minimal mode.
+ */
+export function loadCollection(
+  sessionId: string | undefined,
+  value: Record<string, any>,
+  metadataPlaceholders: SessionTransaction['metadataPlaceholders']
+): void {
+  mutateSession(sessionId, { tool: 'load_collection_into_session', args: { collectionId: value.collectionId } }, (s) => {
+    s.messages = [{ typeUrl: COLLECTION_TYPE_URL, value }];
+    s.metadataPlaceholders = metadataPlaceholders;
+    s.originalApprovalIds = new Set((value.collectionApprovals || []).map((a: any) => a.approvalId));
+    s.baseline = structuredClone({ value, metadataPlaceholders });
+  });
+}
+
+// ============================================================
+// Snapshots & forks — branch a session to try alternative designs
+// ============================================================
+
+const SNAPSHOT_SEPARATOR = '@';
+
+/**
+ * Whether a session ID names a snapshot ("<sessionId>@<name>"). Snapshots can't be
+ * mutated and are never evicted.
+ */
+export function isSnapshotId(sessionId: string): boolean {
+  return sessionId.includes(SNAPSHOT_SEPARATOR);
+}
+
+function requireSession(sessionId: string): SessionTransaction {
+  const session = getStore().get(sessionId);
+  if (!session) throw new Error(`Session "${sessionId}" not found.`);
+  return session;
+}
+
+/**
+ * Save a frozen copy of a session as "<sessionId>@<name>". Snapshots live in the store,
+ * so they can be read, forked from and compared like any other session, but mutations
+ * are refused and the store never evicts them. Re-using a name replaces that snapshot.
+ */
+export function snapshotSession(sessionId: string | undefined, name?: string): { snapshotId: string } {
+  const sid = resolveSessionId(sessionId);
+  const session = getOrCreateSession(sid);
+  let label = name;
+  if (!label) {
+    const prefix = `${sid}${SNAPSHOT_SEPARATOR}snapshot-`;
+    const taken = new Set(getStore().keys().filter((k) => k.startsWith(prefix)));
+    let n = 1;
+    while (taken.has(`${prefix}${n}`)) n++;
+    label = `snapshot-${n}`;
+  }
+  const snapshotId = `${sid}${SNAPSHOT_SEPARATOR}${label}`;
+  const replaced = getStore().has(snapshotId);
+  getStore().set(snapshotId, cloneSession(session));
+  clearSessionHistory(snapshotId);
+  notifySessionChange(snapshotId, replaced ? 'updated' : 'created');
+  return { snapshotId };
+}
+
+/**
+ * Copy a session (or snapshot) into a new session. The fork starts with an empty
+ * undo history and evolves independently of its source.
+ */
+export function forkSession(
+  sourceSessionId: string | undefined,
+  targetSessionId?: string,
+  overwrite: boolean = false
+): { sessionId: string } {
+  const source = resolveSessionId(sourceSessionId);
+  const session = requireSession(source);
+  let target = targetSessionId;
+  if (!target) {
+    const base = source.split(SNAPSHOT_SEPARATOR)[0];
+    let n = 1;
+    while (getStore().has(`${base}-fork-${n}`)) n++;
+    target = `${base}-fork-${n}`;
+  }
+  if (target === source) throw new Error('Cannot fork a session onto itself.');
+  if (isSnapshotId(target)) throw new Error(`Session IDs containing "${SNAPSHOT_SEPARATOR}" are reserved for snapshots.`);
+  if (getStore().has(target) && !overwrite) {
+    throw new Error(`Session "${target}" already exists. Pass overwrite to replace it.`);
+  }
+  const replaced = getStore().has(target);
+  getStore().set(target, cloneSession(session));
+  clearSessionHistory(target);
+  notifySessionChange(target, replaced ? 'updated' : 'created');
+  return { sessionId: target };
+}
+
+/**
+ * Structurally compare two sessions (or snapshots). "added" means present in
+ * `otherSessionId` but not in `sessionId`. Messages other than the collection
+ * (transfers, dynamic store ops) are compared as a whole.
+ */
+export function compareSessions(
+  sessionId: string | undefined,
+  otherSessionId: string | undefined
+): CollectionComparison & { messagesChanged: boolean } {
+  const base = requireSession(resolveSessionId(sessionId));
+  const other = requireSession(resolveSessionId(otherSessionId));
+  const comparison = compareCollections(
+    { value: collectionValue(other), metadataPlaceholders: other.metadataPlaceholders },
+    { value: collectionValue(base), metadataPlaceholders: base.metadataPlaceholders }
+  );
+  const baseMessages = getOtherMessages(base.messages).map((m) => m.message);
+  const otherMessages = getOtherMessages(other.messages).map((m) => m.message);
+  const messagesChanged = JSON.stringify(baseMessages) !== JSON.stringify(otherMessages);
+  if (messagesChanged) {
+    comparison.summary.push(`messages: ${baseMessages.length} other message(s) → ${otherMessages.length} other message(s)`);
+    comparison.identical = false;
+  }
+  return { ...comparison, messagesChanged };
+}
+
+// ============================================================
+// Export / import — portable session documents
+// ============================================================
+
+/**
+ * Export a session as a versioned document (see sessionExport.ts).
+ */
+export function exportSession(sessionId: string | undefined, includeSecrets: boolean = false): SessionDocument {
+  const sid = resolveSessionId(sessionId);
+  return toSessionDocument(requireSession(sid), { sessionId: sid, includeSecrets });
+}
+
+/**
+ * Replace a session with an imported one. Recorded as a single undoable step.
+ * Refuses to replace an existing session unless overwrite is set.
+ */
+export function importSession(sessionId: string | undefined, imported: SessionTransaction, overwrite: boolean = false): void {
+  const sid = resolveSessionId(sessionId);
+  if (getStore().has(sid) && !overwrite) {
+    throw new Error(`Session "${sid}" already exists. Pass overwrite to replace it.`);
+  }
+  mutateSession(sid, { tool: 'import_session', args: {} }, (s) => {
+    restoreSession(s, imported);
+  });
+}
+
+// ============================================================
+// History — undo/redo recorded mutations
+// ============================================================
+
+export interface HistoryMoveResult {
+  /** Steps that were undone/redone, most recent first for undo */
+  steps: Array<{ id: number; tool: string; changedFields: string[] }>;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo the last `count` recorded mutations.
+ */
+export function undo(sessionId: string | undefined, count: number = 1): HistoryMoveResult {
+  const sid = resolveSessionId(sessionId);
+  assertSessionWritable(sid);
+  const session = getOrCreateSession(sid);
+  const steps: HistoryMoveResult['steps'] = [];
+  for (let i = 0; i < count; i++) {
+    const step = takeUndoStep(sid);
+    if (!step) break;
+    restoreSession(session, step.before);
+    steps.push({ id: step.id, tool: step.tool, changedFields: step.changedFields });
+  }
+  if (steps.length > 0) {
+    getStore().set(sid, session);
+    notifySessionChange(sid, 'updated');
+  }
+  return { steps, canUndo: canUndo(sid), canRedo: canRedo(sid) };
+}
+
+/**
+ * Re-apply the next `count` undone mutations.
+ */
+export function redo(sessionId: string | undefined, count: number = 1): HistoryMoveResult {
+  const sid = resolveSessionId(sessionId);
+  assertSessionWritable(sid);
+  const session = getOrCreateSession(sid);
+  const steps: HistoryMoveResult['steps'] = [];
+  for (let i = 0; i < count; i++) {
+    const step = takeRedoStep(sid);
+    if (!step) break;
+    restoreSession(session, step.after);
+    steps.push({ id: step.id, tool: step.tool, changedFields: step.changedFields });
+  }
+  if (steps.length > 0) {
+    getStore().set(sid, session);
+    notifySessionChange(sid, 'updated');
+  }
+  return { steps, canUndo: canUndo(sid), canRedo: canRedo(sid) };
+}
+
+/**
+ * List recorded mutations, oldest first. Undone steps have applied: false.
+ */
+export function getSessionHistory(sessionId?: string): SessionStepSummary[] {
+  return listSessionSteps(resolveSessionId(sessionId));
 }
 
 // ============================================================
@@ -0,0 +1,306 @@
+/**
+ * Pluggable storage backends for builder sessions.
+ *
+ * - memory: Map-backed, scoped to the MCP process lifetime (default)
+ * - file: one JSON document per session on local disk, survives restarts
+ *
+ * Both backends evict sessions that have not been touched within the TTL and
+ * cap the number of stored sessions (least recently used evicted first), so
+ * long-running servers don't grow without limit. Pinned sessions (snapshots) are
+ * exempt from both and don't count toward the cap.
+ *
+ * Selected via env:
+ *   BITBADGES_SESSION_STORE   memory | file (default: memory)
+ *   BITBADGES_SESSION_DIR     directory for the file store (default: ~/.bitbadges-builder/sessions)
+ *   BITBADGES_SESSION_TTL_MS  idle TTL in ms, 0 disables (default: 24h)
+ *   BITBADGES_SESSION_MAX     max stored sessions, snapshots not counted, 0 disables (default: 500)
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { SessionTransaction } from './sessionState.js';
+
+export interface SessionStore {
+  get(sessionId: string): SessionTransaction | undefined;
+  set(sessionId: string, session: SessionTransaction): void;
+  delete(sessionId: string): void;
+  has(sessionId: string): boolean;
+  clear(): void;
+  keys(): string[];
+}
+
+export interface SessionStoreOptions {
+  /** Evict sessions idle for longer than this (ms). 0 = never. */
+  ttlMs?: number;
+  /** Max number of stored sessions. 0 = unlimited. */
+  maxSessions?: number;
+  /** Clock override (for testing). */
+  now?: () => number;
+  /** Called for each session dropped by TTL or the cap (not for delete/clear). */
+  onEvict?: (sessionId: string) => void;
+  /** Sessions never dropped by TTL or the cap (snapshots). */
+  isPinned?: (sessionId: string) => boolean;
+}
+
+export const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_SESSIONS = 500;
+
+function resolveOptions(options: SessionStoreOptions) {
+  return {
+    ttlMs: options.ttlMs ?? DEFAULT_SESSION_TTL_MS,
+    maxSessions: options.maxSessions ?? DEFAULT_MAX_SESSIONS,
+    now: options.now ?? Date.now,
+    onEvict: options.onEvict ?? (() => {}),
+    isPinned: options.isPinned ?? (() => false)
+  };
+}
+
+// ============================================================
+// In-memory store
+// ============================================================
+
+export function createMemorySessionStore(options: SessionStoreOptions = {}): SessionStore {
+  const { ttlMs, maxSessions, now, onEvict, isPinned } = resolveOptions(options);
+  // Map iteration order doubles as LRU order — touched entries are re-inserted at the end
+  const entries = new Map<string, { session: SessionTransaction; touchedAt: number }>();
+
+  function isExpired(sessionId: string, touchedAt: number): boolean {
+    return ttlMs > 0 && now() - touchedAt > ttlMs && !isPinned(sessionId);
+  }
+
+  function evict(sessionId: string): void {
+    entries.delete(sessionId);
+    onEvict(sessionId);
+  }
+
+  function pruneExpired(): void {
+    for (const [id, entry] of entries) {
+      if (isExpired(id, entry.touchedAt)) evict(id);
+    }
+  }
+
+  function enforceCap(): void {
+    if (maxSessions <= 0) return;
+    let count = [...entries.keys()].filter((id) => !isPinned(id)).length;
+    for (const id of entries.keys()) {
+      if (count <= maxSessions) break;
+      if (isPinned(id)) continue;
+      evict(id);
+      count--;
+    }
+  }
+
+  return {
+    get(sessionId) {
+      const entry = entries.get(sessionId);
+      if (!entry) return undefined;
+      if (isExpired(sessionId, entry.touchedAt)) {
+        evict(sessionId);
+        return undefined;
+      }
+      entries.delete(sessionId);
+      entries.set(sessionId, { session: entry.session, touchedAt: now() });
+      return entry.session;
+    },
+    set(sessionId, session) {
+      entries.delete(sessionId);
+      entries.set(sessionId, { session, touchedAt: now() });
+      pruneExpired();
+      enforceCap();
+    },
+    delete(sessionId) {
+      entries.delete(sessionId);
+    },
+    has(sessionId) {
+      const entry = entries.get(sessionId);
+      return !!entry && !isExpired(sessionId, entry.touchedAt);
+    },
+    clear() {
+      entries.clear();
+    },
+    keys() {
+      pruneExpired();
+      return [...entries.keys()];
+    }
+  };
+}
+
+// ============================================================
+// File store
+// ============================================================
+
+const FILE_FORMAT_VERSION = 1;
+/** Scanning the directory costs a stat per session file, so writes only prune this often. */
+const PRUNE_EVERY_WRITES = 25;
+
+/**
+ * Sessions hold a Set (originalApprovalIds), which JSON can't round-trip.
+ */
+function serializeSession(session: SessionTransaction): Record<string, any> {
+  return {
+    ...session,
+    originalApprovalIds: session.originalApprovalIds ? [...session.originalApprovalIds] : undefined
+  };
+}
+
+function deserializeSession(raw: Record<string, any>): SessionTransaction {
+  return {
+    ...raw,
+    messages: raw.messages || [],
+    metadataPlaceholders: raw.metadataPlaceholders || {},
+    originalApprovalIds: Array.isArray(raw.originalApprovalIds) ? new Set(raw.originalApprovalIds) : undefined
+  } as SessionTransaction;
+}
+
+/**
+ * File-backed store. Each session is written to `<dir>/<sessionId>.json` on every
+ * mutation; file mtime is the last-touched time used for TTL and LRU eviction.
+ * Expired sessions are dropped when read; the directory-wide TTL/cap sweep runs every
+ * PRUNE_EVERY_WRITES writes and on keys(). Loaded sessions are cached so callers get stable object references in-process.
+ */
+export function createFileSessionStore(dir: string, options: SessionStoreOptions = {}): SessionStore {
+  const { ttlMs, maxSessions, now, onEvict, isPinned } = resolveOptions(options);
+  const cache = new Map<string, SessionTransaction>();
+  let writesSincePrune = 0;
+
+  mkdirSync(dir, { recursive: true });
+
+  function fileFor(sessionId: string): string {
+    return join(dir, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  function idFromFile(file: string): string {
+    return decodeURIComponent(file.slice(0, -'.json'.length));
+  }
+
+  function listFiles(): Array<{ sessionId: string; path: string; touchedAt: number }> {
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => {
+        const path = join(dir, f);
+        return { sessionId: idFromFile(f), path, touchedAt: statSync(path).mtimeMs };
+      });
+  }
+
+  function isExpired(sessionId: string, touchedAt: number): boolean {
+    return ttlMs > 0 && now() - touchedAt > ttlMs && !isPinned(sessionId);
+  }
+
+  function remove(sessionId: string): void {
+    cache.delete(sessionId);
+    rmSync(fileFor(sessionId), { force: true });
+  }
+
+  function evict(sessionId: string): void {
+    remove(sessionId);
+    onEvict(sessionId);
+  }
+
+  function touch(path: string): void {
+    const t = new Date(now());
+    utimesSync(path, t, t);
+  }
+
+  function prune(): void {
+    writesSincePrune = 0;
+    const files = listFiles();
+    const live = files.filter((f) => {
+      if (isPinned(f.sessionId)) return false;
+      if (!isExpired(f.sessionId, f.touchedAt)) return true;
+      evict(f.sessionId);
+      return false;
+    });
+    if (maxSessions > 0 && live.length > maxSessions) {
+      live.sort((a, b) => a.touchedAt - b.touchedAt);
+      for (const f of live.slice(0, live.length - maxSessions)) evict(f.sessionId);
+    }
+  }
+
+  return {
+    get(sessionId) {
+      const path = fileFor(sessionId);
+      if (!existsSync(path)) {
+        cache.delete(sessionId);
+        return undefined;
+      }
+      if (isExpired(sessionId, statSync(path).mtimeMs)) {
+        evict(sessionId);
+        return undefined;
+      }
+      touch(path);
+      const cached = cache.get(sessionId);
+      if (cached) return cached;
+      try {
+        const doc = JSON.parse(readFileSync(path, 'utf-8'));
+        const session = deserializeSession(doc.session || {});
+        cache.set(sessionId, session);
+        return session;
+      } catch {
+        // Corrupt or partially-written file — treat as missing
+        evict(sessionId);
+        return undefined;
+      }
+    },
+    set(sessionId, session) {
+      cache.set(sessionId, session);
+      const path = fileFor(sessionId);
+      const tmp = `${path}.tmp`;
+      const doc = { version: FILE_FORMAT_VERSION, sessionId, session: serializeSession(session) };
+      writeFileSync(tmp, JSON.stringify(doc), 'utf-8');
+      renameSync(tmp, path);
+      touch(path);
+      if (++writesSincePrune >= PRUNE_EVERY_WRITES) prune();
+    },
+    delete(sessionId) {
+      remove(sessionId);
+    },
+    has(sessionId) {
+      const path = fileFor(sessionId);
+      return existsSync(path) && !isExpired(sessionId, statSync(path).mtimeMs);
+    },
+    clear() {
+      for (const f of listFiles()) remove(f.sessionId);
+      cache.clear();
+    },
+    keys() {
+      prune();
+      return listFiles().map((f) => f.sessionId);
+    }
+  };
+}
+
+// ============================================================
+// Env-based selection
+// ============================================================
+
+function readIntEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return undefined;
+  const parsed = parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Build the session store selected by BITBADGES_SESSION_STORE (default: memory).
+ * `extra` supplies options env can't (e.g. onEvict).
+ */
+export function createSessionStoreFromEnv(extra: Pick<SessionStoreOptions, 'onEvict' | 'isPinned'> = {}): SessionStore {
+  const options: SessionStoreOptions = {
+    ...extra,
+    ttlMs: readIntEnv('BITBADGES_SESSION_TTL_MS'),
+    maxSessions: readIntEnv('BITBADGES_SESSION_MAX')
+  };
+  const kind = (process.env.BITBADGES_SESSION_STORE || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      return createMemorySessionStore(options);
+    case 'file': {
+      const dir = process.env.BITBADGES_SESSION_DIR || join(homedir(), '.bitbadges-builder', 'sessions');
+      return createFileSessionStore(dir, options);
+    }
+    default:
+      throw new Error(`Unknown BITBADGES_SESSION_STORE "${kind}". Use "memory" or "file".`);
+  }
+}
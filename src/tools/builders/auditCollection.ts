@@ -6,27 +6,28 @@
  * Logic delegated to bitbadgesjs-sdk's auditCollection().
  */
 
+import { z } from 'zod';
 import { auditCollection, type AuditResult } from 'bitbadgesjs-sdk';
+import { defineTool } from '../defineTool.js';
 
-export const auditCollectionTool = {
+export const auditCollectionSchema = z.object({
+  collection: z.record(z.unknown()).describe('The collection to audit. Can be: (1) A MsgUniversalUpdateCollection message object with typeUrl and value, (2) The value field directly, or (3) A raw collection object from query_collection.'),
+  context: z.string().optional().describe('Optional context about the intended use case (e.g., "NFT art collection", "stablecoin vault", "subscription token"). Helps tailor findings.')
+});
+
+export type AuditCollectionInput = z.infer<typeof auditCollectionSchema>;
+
+/** The SDK's AuditResult — categorized findings with severity levels */
+export const auditCollectionResultSchema = z.object({}).passthrough();
+
+export const auditCollectionTool = defineTool({
   name: 'audit_collection',
   description: 'Audit a collection transaction or on-chain collection for security risks, design flaws, and common gotchas. Pass either a MsgUniversalUpdateCollection message or a raw collection object. Returns categorized findings with severity levels (critical/warning/info).',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      collection: {
-        type: 'object',
-        description: 'The collection to audit. Can be: (1) A MsgUniversalUpdateCollection message object with typeUrl and value, (2) The value field directly, or (3) A raw collection object from query_collection.'
-      },
-      context: {
-        type: 'string',
-        description: 'Optional context about the intended use case (e.g., "NFT art collection", "stablecoin vault", "subscription token"). Helps tailor findings.'
-      }
-    },
-    required: ['collection']
-  }
-};
+  schema: auditCollectionSchema,
+  handler: handleAuditCollection,
+  resultSchema: auditCollectionResultSchema
+});
 
-export function handleAuditCollection(input: { collection: Record<string, unknown>; context?: string }): AuditResult {
+export function handleAuditCollection(input: AuditCollectionInput): AuditResult {
   return auditCollection(input);
 }
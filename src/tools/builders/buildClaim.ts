@@ -7,6 +7,8 @@
 import { z } from 'zod';
 import crypto from 'crypto';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 export const buildClaimSchema = z.object({
   claimType: z.enum(['code-gated', 'password-gated', 'whitelist-gated', 'open']).describe('Type of claim gating'),
@@ -38,61 +40,23 @@ export const buildClaimSchema = z.object({
 
 export type BuildClaimInput = z.infer<typeof buildClaimSchema>;
 
-export interface BuildClaimResult {
-  success: boolean;
-  claim?: object;
-  codes?: string[];
-  apiPayload?: object;
-  nextSteps?: string;
-  error?: string;
-}
+export const buildClaimResultSchema = toolResult({
+  claim: jsonObjectSchema.optional().describe('Claim config with its plugins'),
+  codes: z.array(z.string()).optional().describe('Generated claim codes (code-gated claims)'),
+  apiPayload: jsonObjectSchema.optional().describe('Request body for the claims API'),
+  nextSteps: z.string().optional()
+});
 
-export const buildClaimTool = {
+export type BuildClaimResult = z.infer<typeof buildClaimResultSchema>;
+
+export const buildClaimTool = defineTool({
   name: 'build_claim',
   description:
     'Build a claim document for the BitBadges API. Supports code-gated, password-gated, whitelist-gated, and open claims. Returns JSON ready for POST /api/v0/claims.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      claimType: {
-        type: 'string',
-        enum: ['code-gated', 'password-gated', 'whitelist-gated', 'open'],
-        description: 'Type of claim gating'
-      },
-      name: { type: 'string', description: 'Claim name' },
-      description: { type: 'string', description: 'Claim description' },
-      maxUses: { type: 'number', description: 'Maximum total number of claims allowed' },
-      numCodes: { type: 'number', description: 'Number of codes to generate (defaults to maxUses, code-gated only)' },
-      password: { type: 'string', description: 'Shared password (password-gated only)' },
-      whitelist: {
-        type: 'array',
-        items: { type: 'string' },
-        description: 'Array of addresses (bb1... or 0x..., whitelist-gated only)'
-      },
-      maxUsesPerAddress: { type: 'number', description: 'Max claims per address (default 1, whitelist-gated only)' },
-      action: {
-        type: 'object',
-        description: 'Action object to include in the claim — links to a collection approval. Pass collectionId, badgeIds, ownershipTimes, or any other fields needed. For code-gated claims, seedCode is merged in automatically.',
-        properties: {
-          collectionId: { type: 'string', description: 'Collection ID to link this claim to' },
-          badgeIds: {
-            type: 'array',
-            items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] },
-            description: 'Badge ID ranges for the claim action'
-          },
-          ownershipTimes: {
-            type: 'array',
-            items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] },
-            description: 'Ownership time ranges for the claim action'
-          }
-        }
-      },
-      showInSearchResults: { type: 'boolean', description: 'Whether to show this claim in search results' },
-      categories: { type: 'array', items: { type: 'string' }, description: 'Categories for the claim' }
-    },
-    required: ['claimType', 'name', 'maxUses']
-  }
-};
+  schema: buildClaimSchema,
+  handler: handleBuildClaim,
+  resultSchema: buildClaimResultSchema
+});
 
 function generateSeedCode(): string {
   return crypto.randomBytes(32).toString('hex');
@@ -8,34 +8,35 @@
  * with MCP-specific input normalization and developer/auditor extras on top.
  */
 
+import { z } from 'zod';
 import { interpretCollection, BitBadgesCollection } from 'bitbadgesjs-sdk';
 import type { NumberType } from 'bitbadgesjs-sdk';
+import { defineTool } from '../defineTool.js';
 
 const MAX_UINT64 = '18446744073709551615';
 
-export const explainCollectionTool = {
+export const explainCollectionSchema = z.object({
+  collection: z.record(z.unknown()).describe('The collection to explain. Accepts: (1) A build result with transaction.messages, (2) A MsgUniversalUpdateCollection message, (3) A raw collection object from query_collection.'),
+  question: z.string().optional().describe('Optional specific question to answer about the collection (e.g., "can the manager freeze my tokens?", "how do I mint?", "is the supply fixed?"). If omitted, generates a full overview.'),
+  audience: z.enum(['user', 'developer', 'auditor']).optional().describe('Target audience. "user" = non-technical, "developer" = technical details, "auditor" = security-focused. Default: "user".')
+});
+
+export const explainCollectionResultSchema = z.object({
+  success: z.boolean(),
+  explanation: z.string().describe('Plain-text explanation (empty when success is false)'),
+  error: z.string().optional()
+});
+
+export type ExplainCollectionResult = z.infer<typeof explainCollectionResultSchema>;
+
+export const explainCollectionTool = defineTool({
   name: 'explain_collection',
   description: 'Generate a human-readable explanation of a collection. Works on build results, transaction JSON, or on-chain query results. Covers: what it is, how to get tokens, what the manager can change, trust signals, and risk summary. No API key required.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      collection: {
-        type: 'object',
-        description: 'The collection to explain. Accepts: (1) A build result with transaction.messages, (2) A MsgUniversalUpdateCollection message, (3) A raw collection object from query_collection.'
-      },
-      question: {
-        type: 'string',
-        description: 'Optional specific question to answer about the collection (e.g., "can the manager freeze my tokens?", "how do I mint?", "is the supply fixed?"). If omitted, generates a full overview.'
-      },
-      audience: {
-        type: 'string',
-        enum: ['user', 'developer', 'auditor'],
-        description: 'Target audience. "user" = non-technical, "developer" = technical details, "auditor" = security-focused. Default: "user".'
-      }
-    },
-    required: ['collection']
-  }
-};
+  schema: explainCollectionSchema,
+  handler: handleExplainCollection,
+  resultSchema: explainCollectionResultSchema,
+  formatResult: (result) => (result.success ? result.explanation : JSON.stringify(result, null, 2))
+});
 
 // ---------------------------------------------------------------------------
 // Input normalization — handles multiple input formats
@@ -360,7 +361,7 @@ export function handleExplainCollection(input: {
   collection: Record<string, unknown>;
   question?: string;
   audience?: string;
-}): { success: boolean; explanation: string; error?: string } {
+}): ExplainCollectionResult {
   try {
     const audience = input.audience || 'user';
 
@@ -5,12 +5,51 @@
  * formatVerificationResult().
  *
  * This file re-exports those functions so the rest of the MCP codebase
- * (server.ts, builders/index.ts) can continue importing from this path.
+ * (diagnostics, builders/index.ts) can continue importing from this path.
  */
 
+import { z } from 'zod';
+import { verifyStandardsCompliance, formatVerificationResult } from 'bitbadgesjs-sdk';
+import { defineTool } from '../defineTool.js';
+
 export {
   verifyStandardsCompliance,
   formatVerificationResult,
   type VerificationResult,
   type StandardViolation
 } from 'bitbadgesjs-sdk';
+
+export const verifyStandardsSchema = z.object({
+  transaction: z.record(z.any()).optional().describe('The transaction object to verify (MsgUniversalUpdateCollection or similar)'),
+  transactionJson: z.string().optional().describe('The transaction as a JSON string (alternative to transaction object)')
+}).passthrough();
+
+export type VerifyStandardsInput = z.infer<typeof verifyStandardsSchema>;
+
+/** The SDK's VerificationResult (violations carry the standard, severity and message) */
+export const verifyStandardsResultSchema = z.object({
+  violations: z.array(z.record(z.any()))
+}).passthrough();
+
+export const verifyStandardsTool = defineTool({
+  name: 'verify_standards',
+  description: 'Verify that a collection transaction complies with BitBadges protocol standards (subscription, credit token, smart token, etc.). Returns violations with severity levels. Complements audit_collection which covers security — this covers standards compliance.',
+  schema: verifyStandardsSchema,
+  handler: handleVerifyStandards,
+  resultSchema: verifyStandardsResultSchema,
+  formatResult: formatVerificationResult
+});
+
+/**
+ * Verify the transaction passed as an object, a JSON string, or (for backwards
+ * compatibility) as the arguments themselves.
+ */
+export function handleVerifyStandards(input: VerifyStandardsInput) {
+  let tx: unknown = input;
+  if (typeof input.transactionJson === 'string') {
+    tx = JSON.parse(input.transactionJson);
+  } else if (input.transaction) {
+    tx = input.transaction;
+  }
+  return verifyStandardsCompliance(tx as any);
+}
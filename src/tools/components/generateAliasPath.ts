@@ -4,6 +4,8 @@
  */
 
 import { z } from 'zod';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 const MAX_UINT64 = '18446744073709551615';
 const FOREVER_TIMES = [{ start: '1', end: MAX_UINT64 }];
@@ -45,40 +47,17 @@ export interface GenerateAliasPathResult {
   error?: string;
 }
 
-export const generateAliasPathTool = {
+export const generateAliasPathResultSchema = toolResult({
+  aliasPath: jsonObjectSchema.optional().describe('Alias path for add_alias_path / aliasPathsToAdd')
+});
+
+export const generateAliasPathTool = defineTool({
   name: 'generate_alias_path',
   description: 'Build alias path for liquidity pools and token display. Creates properly formatted alias path for swappable tokens.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      symbol: {
-        type: 'string',
-        description: 'Display symbol (e.g., "wUSDC", "vATOM")'
-      },
-      decimals: {
-        type: 'string',
-        description: 'Number of decimals (e.g., "6" for USDC, "9" for BADGE)'
-      },
-      tokenId: {
-        type: 'string',
-        description: 'Token ID for conversion (defaults to "1")'
-      },
-      metadataUri: {
-        type: 'string',
-        description: 'IPFS URI for metadata (defaults to placeholder)'
-      },
-      name: {
-        type: 'string',
-        description: 'Display name for the token'
-      },
-      description: {
-        type: 'string',
-        description: 'Description for the token'
-      }
-    },
-    required: ['symbol', 'decimals']
-  }
-};
+  schema: generateAliasPathSchema,
+  handler: handleGenerateAliasPath,
+  resultSchema: generateAliasPathResultSchema
+});
 
 export function handleGenerateAliasPath(input: GenerateAliasPathInput): GenerateAliasPathResult {
   try {
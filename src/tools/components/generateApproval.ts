@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { ensureBb1, ensureBb1ListId } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 const MAX_UINT64 = '18446744073709551615';
 const FOREVER_TIMES = [{ start: '1', end: MAX_UINT64 }];
@@ -57,80 +59,17 @@ export interface GenerateApprovalResult {
   error?: string;
 }
 
-export const generateApprovalTool = {
+export const generateApprovalResultSchema = toolResult({
+  approval: jsonObjectSchema.optional().describe('Collection approval for add_approval / collectionApprovals')
+});
+
+export const generateApprovalTool = defineTool({
   name: 'generate_approval',
   description: 'Build approval structures by type. Generates properly formatted approvals for common use cases like minting, Smart Tokens, and transfers.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      approvalType: {
-        type: 'string',
-        enum: [
-          'public-mint',
-          'manager-mint',
-          'smart-token-backing',
-          'smart-token-unbacking',
-          'subscription',
-          'free-transfer',
-          'restricted-transfer'
-        ],
-        description: 'The type of approval to generate'
-      },
-      approvalId: {
-        type: 'string',
-        description: 'Unique identifier for this approval'
-      },
-      tokenIds: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            start: { type: 'string' },
-            end: { type: 'string' }
-          }
-        },
-        description: 'Token ID ranges (defaults to token 1)'
-      },
-      backingAddress: {
-        type: 'string',
-        description: 'For Smart Token approvals: the IBC backing address (bb1... or 0x...)'
-      },
-      paymentAmount: {
-        type: 'string',
-        description: 'Payment amount in base units'
-      },
-      paymentDenom: {
-        type: 'string',
-        description: 'Payment denomination (e.g., "ubadge")'
-      },
-      paymentRecipient: {
-        type: 'string',
-        description: 'Address to receive payment (bb1... or 0x...)'
-      },
-      maxPerUser: {
-        type: 'string',
-        description: 'Maximum mints/transfers per user'
-      },
-      totalMax: {
-        type: 'string',
-        description: 'Total maximum transfers allowed'
-      },
-      fromListId: {
-        type: 'string',
-        description: 'Override from list ID'
-      },
-      toListId: {
-        type: 'string',
-        description: 'Override to list ID'
-      },
-      initiatedByListId: {
-        type: 'string',
-        description: 'Override initiated by list ID'
-      }
-    },
-    required: ['approvalType', 'approvalId']
-  }
-};
+  schema: generateApprovalSchema,
+  handler: handleGenerateApproval,
+  resultSchema: generateApprovalResultSchema
+});
 
 function createBaseApproval(input: GenerateApprovalInput): ApprovalStructure {
   return {
@@ -6,6 +6,8 @@
 import { z } from 'zod';
 import { generateAliasAddressForIBCBackedDenom } from '../../sdk/addressGenerator.js';
 import { lookupTokenInfo, resolveIbcDenom } from '../../sdk/coinRegistry.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const generateBackingAddressSchema = z.object({
   ibcDenom: z.string().describe('Full IBC denom (e.g., "ibc/F082B65...") or symbol (e.g., "USDC")')
@@ -13,35 +15,28 @@ export const generateBackingAddressSchema = z.object({
 
 export type GenerateBackingAddressInput = z.infer<typeof generateBackingAddressSchema>;
 
-export interface GenerateBackingAddressResult {
-  success: boolean;
-  address?: string;
-  ibcDenom?: string;
-  symbol?: string;
-  decimals?: string;
-  approvalListIds?: {
-    backingFromListId: string;
-    backingToListId: string;
-    unbackingFromListId: string;
-    unbackingToListId: string;
-  };
-  error?: string;
-}
+export const generateBackingAddressResultSchema = toolResult({
+  address: z.string().optional().describe('Protocol-controlled backing address'),
+  ibcDenom: z.string().optional(),
+  symbol: z.string().optional(),
+  decimals: z.string().optional(),
+  approvalListIds: z.object({
+    backingFromListId: z.string(),
+    backingToListId: z.string(),
+    unbackingFromListId: z.string(),
+    unbackingToListId: z.string()
+  }).optional()
+});
+
+export type GenerateBackingAddressResult = z.infer<typeof generateBackingAddressResultSchema>;
 
-export const generateBackingAddressTool = {
+export const generateBackingAddressTool = defineTool({
   name: 'generate_backing_address',
   description: 'Compute deterministic backing address for an IBC denom. Returns the backing address and pre-computed list IDs for Smart Token approvals.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      ibcDenom: {
-        type: 'string',
-        description: 'Full IBC denom (e.g., "ibc/F082B65C88E4B6D5EF1DB243CDA1D331D002759E938A0F5CD3FFDC5D53B3E349") or token symbol (e.g., "USDC", "ATOM")'
-      }
-    },
-    required: ['ibcDenom']
-  }
-};
+  schema: generateBackingAddressSchema,
+  handler: handleGenerateBackingAddress,
+  resultSchema: generateBackingAddressResultSchema
+});
 
 export function handleGenerateBackingAddress(input: GenerateBackingAddressInput): GenerateBackingAddressResult {
   try {
@@ -4,6 +4,8 @@
  */
 
 import { z } from 'zod';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 const MAX_UINT64 = '18446744073709551615';
 const FOREVER_TIMES = [{ start: '1', end: MAX_UINT64 }];
@@ -67,29 +69,17 @@ export interface GeneratePermissionsResult {
   error?: string;
 }
 
-export const generatePermissionsTool = {
+export const generatePermissionsResultSchema = toolResult({
+  permissions: jsonObjectSchema.optional().describe('collectionPermissions for set_permissions')
+});
+
+export const generatePermissionsTool = defineTool({
   name: 'generate_permissions',
   description: 'Build permission presets for collections. Generates properly formatted collection permissions for common configurations.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      preset: {
-        type: 'string',
-        enum: ['fully-immutable', 'manager-controlled', 'token-locked', 'custom'],
-        description: 'Permission preset: fully-immutable (all frozen), manager-controlled (all allowed), token-locked (tokens frozen, metadata editable), custom (specify each)'
-      },
-      customPermissions: {
-        type: 'object',
-        additionalProperties: {
-          type: 'string',
-          enum: ['allowed', 'forbidden', 'neutral']
-        },
-        description: 'Custom permission settings. Keys: canDeleteCollection, canArchiveCollection, canUpdateStandards, canUpdateCustomData, canUpdateManager, canUpdateCollectionMetadata, canUpdateValidTokenIds, canUpdateTokenMetadata, canUpdateCollectionApprovals, canAddMoreAliasPaths, canAddMoreCosmosCoinWrapperPaths'
-      }
-    },
-    required: ['preset']
-  }
-};
+  schema: generatePermissionsSchema,
+  handler: handleGeneratePermissions,
+  resultSchema: generatePermissionsResultSchema
+});
 
 function createForbiddenAction(): ActionPermission {
   return {
@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { generateAliasAddressForDenom } from '../../sdk/addressGenerator.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const generateWrapperAddressSchema = z.object({
   denom: z.string().describe('The custom denom used in the wrapper path (e.g., "utoken"). NOT an IBC denom.')
@@ -12,19 +14,22 @@ export const generateWrapperAddressSchema = z.object({
 
 export type GenerateWrapperAddressInput = z.infer<typeof generateWrapperAddressSchema>;
 
-export const generateWrapperAddressTool = {
+export const generateWrapperAddressResultSchema = toolResult({
+  address: z.string().optional().describe('Protocol-controlled wrapper address'),
+  denom: z.string().optional()
+});
+
+export type GenerateWrapperAddressResult = z.infer<typeof generateWrapperAddressResultSchema>;
+
+export const generateWrapperAddressTool = defineTool({
   name: 'generate_wrapper_address',
   description: 'Generate the deterministic wrapper address for a Cosmos coin wrapper path denom. Use this when building wrap/unwrap approvals. The wrapper address has no private key — it is protocol-controlled.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      denom: { type: 'string', description: 'Custom denom from the wrapper path (e.g., "utoken").' }
-    },
-    required: ['denom']
-  }
-};
+  schema: generateWrapperAddressSchema,
+  handler: handleGenerateWrapperAddress,
+  resultSchema: generateWrapperAddressResultSchema
+});
 
-export function handleGenerateWrapperAddress(input: GenerateWrapperAddressInput): { success: boolean; address?: string; denom?: string; error?: string } {
+export function handleGenerateWrapperAddress(input: GenerateWrapperAddressInput): GenerateWrapperAddressResult {
   try {
     const address = generateAliasAddressForDenom(input.denom);
     return {
@@ -0,0 +1,90 @@
+/**
+ * Tool definitions — one per tool module.
+ *
+ * A tool is declared once with its zod schema and handler; the JSON Schema that
+ * MCP clients see is generated from the zod schema, so the two can't drift.
+ * The server validates arguments against the schema before the handler runs
+ * (see registry.ts).
+ *
+ * Tools can also declare a zod `resultSchema`; it is published as the tool's
+ * outputSchema and the handler's result is returned as structuredContent.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { sessionDiagnosticsSchema } from './resultSchemas.js';
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+export type ToolOutputSchema = ToolInputSchema;
+
+export interface ToolSpec<S extends z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  handler(input: z.output<S>): any;
+  /** Mutates the builder session — calls report the validation errors they introduce */
+  mutatesSession?: boolean;
+  /** Calls the BitBadges API or docs site — left out of the offline tool profile */
+  network?: boolean;
+  /** Reads or writes files on the server host — left out of HTTP mode unless allowed */
+  filesystem?: boolean;
+  /** Render the handler's result as text. Default: strings as-is, everything else as JSON */
+  formatResult?(result: any): string;
+  /** Shape of the handler's result (an object schema) — published as outputSchema */
+  resultSchema?: z.ZodTypeAny;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> extends ToolSpec<S> {
+  /** JSON Schema generated from `schema` (what tools/list returns) */
+  inputSchema: ToolInputSchema;
+  /** JSON Schema generated from `resultSchema` (tools/list outputSchema) */
+  outputSchema?: ToolOutputSchema;
+}
+
+function toObjectJsonSchema(schema: z.ZodTypeAny, direction: 'input' | 'output'): ToolInputSchema {
+  const { $schema: _$schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    strictUnions: true,
+    pipeStrategy: direction,
+    // Results may carry fields the schema doesn't list; only reject them on input
+    removeAdditionalStrategy: direction === 'output' ? 'strict' : 'passthrough'
+  }) as Record<string, unknown>;
+  if (jsonSchema.type !== 'object') {
+    throw new Error(`Tool ${direction} schema must be a zod object`);
+  }
+  return jsonSchema as ToolInputSchema;
+}
+
+/**
+ * Convert a zod object schema (optionally wrapped in refine/transform) to the JSON
+ * Schema shape MCP expects for tool input.
+ */
+export function toInputSchema(schema: z.ZodTypeAny): ToolInputSchema {
+  return toObjectJsonSchema(schema, 'input');
+}
+
+/**
+ * Convert a zod result schema to the JSON Schema shape MCP expects for tool output.
+ */
+export function toOutputSchema(schema: z.ZodTypeAny): ToolOutputSchema {
+  return toObjectJsonSchema(schema, 'output');
+}
+
+export function defineTool<S extends z.ZodTypeAny>(spec: ToolSpec<S>): ToolDefinition<S> {
+  // Session mutations get a diagnostics block added by the registry (see withDiagnostics)
+  const resultSchema = spec.mutatesSession && spec.resultSchema instanceof z.ZodObject
+    ? spec.resultSchema.extend({ diagnostics: sessionDiagnosticsSchema.optional() })
+    : spec.resultSchema;
+  return {
+    ...spec,
+    resultSchema,
+    inputSchema: toInputSchema(spec.schema),
+    ...(resultSchema ? { outputSchema: toOutputSchema(resultSchema) } : {})
+  };
+}
@@ -7,3 +7,7 @@ export * from './components/index.js';
 export * from './builders/index.js';
 export * from './queries/index.js';
 export * from './session/index.js';
+export * from './defineTool.js';
+export * from './resultSchemas.js';
+export * from './registry.js';
+export * from './profiles.js';
@@ -0,0 +1,76 @@
+/**
+ * Tool profiles — named subsets of the registry for restricted deployments.
+ *
+ *   full             Every tool (default)
+ *   read-only        query_* tools, explain_collection and search_knowledge_base
+ *   offline-builder  Every tool that doesn't call the BitBadges API or docs site
+ *   custom           An explicit allowlist (names, or prefixes ending in "*")
+ *
+ * The server only advertises, and only runs, the tools in its profile.
+ */
+
+import type { ToolDefinition } from './defineTool.js';
+import { toolRegistry } from './registry.js';
+
+export const TOOL_PROFILE_NAMES = ['full', 'read-only', 'offline-builder', 'custom'] as const;
+
+export type ToolProfileName = (typeof TOOL_PROFILE_NAMES)[number];
+
+export interface ToolProfile {
+  name: ToolProfileName;
+  tools: ToolDefinition[];
+}
+
+const READ_ONLY_TOOLS = ['query_*', 'explain_collection', 'search_knowledge_base'];
+
+function matchesPattern(toolName: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? toolName.startsWith(pattern.slice(0, -1)) : toolName === pattern;
+}
+
+function selectTools(patterns: string[]): ToolDefinition[] {
+  const unmatched = patterns.filter((pattern) => !toolRegistry.some((tool) => matchesPattern(tool.name, pattern)));
+  if (unmatched.length > 0) {
+    throw new Error(`Tool allowlist matches no tools: ${unmatched.join(', ')}`);
+  }
+  return toolRegistry.filter((tool) => patterns.some((pattern) => matchesPattern(tool.name, pattern)));
+}
+
+/**
+ * Resolve a profile by name. The custom profile needs a non-empty allowlist; every
+ * entry must match at least one tool, so typos fail at startup instead of silently
+ * hiding tools.
+ */
+export function getToolProfile(name: string, allowlist: string[] = []): ToolProfile {
+  if (name !== 'custom' && allowlist.length > 0) {
+    throw new Error(`A tool allowlist only applies to the custom profile, not "${name}".`);
+  }
+  switch (name) {
+    case 'full':
+      return { name, tools: toolRegistry };
+    case 'read-only':
+      return { name, tools: selectTools(READ_ONLY_TOOLS) };
+    case 'offline-builder':
+      return { name, tools: toolRegistry.filter((tool) => !tool.network) };
+    case 'custom':
+      if (allowlist.length === 0) {
+        throw new Error('The custom tool profile needs an allowlist (--tools or BITBADGES_MCP_TOOLS).');
+      }
+      return { name, tools: selectTools(allowlist) };
+    default:
+      throw new Error(`Unknown tool profile "${name}". Profiles: ${TOOL_PROFILE_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * The profile minus tools that touch the server's filesystem (for remote clients).
+ */
+export function withoutFilesystemTools(profile: ToolProfile): ToolProfile {
+  return { ...profile, tools: profile.tools.filter((tool) => !tool.filesystem) };
+}
+
+/**
+ * Split a comma-separated allowlist ("query_*, explain_collection") into entries.
+ */
+export function parseToolAllowlist(value: string | undefined): string[] {
+  return (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
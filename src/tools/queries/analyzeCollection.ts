@@ -8,9 +8,12 @@
 
 import { z } from 'zod';
 import { getCollections } from '../../sdk/apiClient.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const analyzeCollectionSchema = z.object({
-  collectionId: z.string().describe('The collection ID to analyze')
+  collectionId: z.string().describe('The collection ID to analyze'),
+  fresh: z.boolean().optional().describe('Bypass the response cache and fetch from the API (e.g. right after a transaction)')
 });
 
 export type AnalyzeCollectionInput = z.infer<typeof analyzeCollectionSchema>;
@@ -18,100 +21,94 @@ export type AnalyzeCollectionInput = z.infer<typeof analyzeCollectionSchema>;
 const MAX_UINT64 = '18446744073709551615';
 
 // ============================================
-// Types for parsed approval data
+// Result schema (published as the tool's outputSchema)
 // ============================================
 
-interface ParsedApproval {
-  approvalId: string;
-  type: 'mint' | 'backing' | 'unbacking' | 'transfer' | 'other';
-  description: string;
-  from: string;
-  to: string;
-  initiatedBy: string;
-  tokenIds: string;
-  transferTimes: string;
-  requirements: ParsedRequirements;
-}
+const coinsSchema = z.array(z.object({ denom: z.string(), amount: z.string() }));
+
+const parsedRequirementsSchema = z.object({
+  payment: z.object({ to: z.string(), coins: coinsSchema }).optional(),
+  maxPerUser: z.string().optional(),
+  totalSupplyCap: z.string().optional(),
+  mustOwnTokens: z.array(z.object({ collectionId: z.string(), tokenIds: z.string(), amount: z.string() })).optional(),
+  overridesOutgoing: z.boolean(),
+  overridesIncoming: z.boolean(),
+  mustPrioritize: z.boolean(),
+  allowBackedMinting: z.boolean(),
+  autoDelete: z.boolean(),
+  predeterminedBalances: z.string().optional()
+});
 
-interface ParsedRequirements {
-  payment?: { to: string; coins: Array<{ denom: string; amount: string }> };
-  maxPerUser?: string;
-  totalSupplyCap?: string;
-  mustOwnTokens?: Array<{ collectionId: string; tokenIds: string; amount: string }>;
-  overridesOutgoing: boolean;
-  overridesIncoming: boolean;
-  mustPrioritize: boolean;
-  allowBackedMinting: boolean;
-  autoDelete: boolean;
-  predeterminedBalances?: string;
-}
+const parsedApprovalSchema = z.object({
+  approvalId: z.string(),
+  type: z.enum(['mint', 'backing', 'unbacking', 'transfer', 'other']),
+  description: z.string(),
+  from: z.string(),
+  to: z.string(),
+  initiatedBy: z.string(),
+  tokenIds: z.string(),
+  transferTimes: z.string(),
+  requirements: parsedRequirementsSchema
+});
 
-interface PermissionStatus {
-  field: string;
-  status: 'locked' | 'unlocked' | 'partially-locked';
-  detail: string;
-}
+const permissionStatusSchema = z.object({
+  field: z.string(),
+  status: z.enum(['locked', 'unlocked', 'partially-locked']),
+  detail: z.string()
+});
 
-export interface AnalyzeCollectionResult {
-  success: boolean;
-  error?: string;
-  analysis?: {
-    collectionId: string;
-    name: string;
-    description: string;
-    type: 'nft' | 'fungible' | 'smart-token' | 'subscription' | 'unknown';
-    manager: string;
-    tokenIds: string;
-    standards: string[];
-
-    transferability: {
-      summary: string;
-      isTransferable: boolean;
-      isMintable: boolean;
-      isSmartToken: boolean;
-    };
+const transferRecipeSchema = z.object({
+  method: z.string(),
+  steps: z.array(z.string()),
+  approvalId: z.string(),
+  prioritizedApprovals: z.array(z.object({ approvalId: z.string(), approvalLevel: z.string(), approverAddress: z.string() }))
+});
 
-    approvals: ParsedApproval[];
-
-    howToObtain: {
-      method: string;
-      steps: string[];
-      approvalId: string;
-      prioritizedApprovals: Array<{ approvalId: string; approvalLevel: string; approverAddress: string }>;
-    }[];
-
-    howToTransfer: {
-      method: string;
-      steps: string[];
-      approvalId: string;
-      prioritizedApprovals: Array<{ approvalId: string; approvalLevel: string; approverAddress: string }>;
-    }[];
-
-    permissions: PermissionStatus[];
-
-    invariants: {
-      maxSupplyPerId: string;
-      noCustomOwnershipTimes: boolean;
-      noForcefulPostMintTransfers: boolean;
-      ibcBacking: { denom: string; backingAddress: string } | null;
-    };
-  };
-}
+type ParsedRequirements = z.infer<typeof parsedRequirementsSchema>;
+type ParsedApproval = z.infer<typeof parsedApprovalSchema>;
+type PermissionStatus = z.infer<typeof permissionStatusSchema>;
+
+export const analyzeCollectionResultSchema = toolResult({
+  analysis: z.object({
+    collectionId: z.string(),
+    name: z.string(),
+    description: z.string(),
+    type: z.enum(['nft', 'fungible', 'smart-token', 'subscription', 'unknown']),
+    manager: z.string(),
+    tokenIds: z.string(),
+    standards: z.array(z.string()),
+
+    transferability: z.object({
+      summary: z.string(),
+      isTransferable: z.boolean(),
+      isMintable: z.boolean(),
+      isSmartToken: z.boolean()
+    }),
+
+    approvals: z.array(parsedApprovalSchema),
+    howToObtain: z.array(transferRecipeSchema),
+    howToTransfer: z.array(transferRecipeSchema),
+    permissions: z.array(permissionStatusSchema),
+
+    invariants: z.object({
+      maxSupplyPerId: z.string(),
+      noCustomOwnershipTimes: z.boolean(),
+      noForcefulPostMintTransfers: z.boolean(),
+      ibcBacking: z.object({ denom: z.string(), backingAddress: z.string() }).nullable()
+    })
+  }).optional()
+});
+
+export type AnalyzeCollectionResult = z.infer<typeof analyzeCollectionResultSchema>;
 
-export const analyzeCollectionTool = {
+export const analyzeCollectionTool = defineTool({
   name: 'analyze_collection',
   description: 'Query a collection and produce a structured analysis of its transferability, approvals, permissions, and how to obtain/transfer tokens. Returns actionable information for constructing MsgTransferTokens. Requires BITBADGES_API_KEY.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      collectionId: {
-        type: 'string',
-        description: 'The collection ID to analyze'
-      }
-    },
-    required: ['collectionId']
-  }
-};
+  schema: analyzeCollectionSchema,
+  handler: handleAnalyzeCollection,
+  resultSchema: analyzeCollectionResultSchema,
+  network: true
+});
 
 // ============================================
 // Helpers
@@ -333,7 +330,7 @@ export async function handleAnalyzeCollection(input: AnalyzeCollectionInput): Pr
         metadataToFetch: { uris: [] },
         fetchTotalAndMintBalances: true
       }]
-    });
+    }, { bypassCache: input.fresh });
 
     if (!response.success || !response.data?.collections?.[0]) {
       return {
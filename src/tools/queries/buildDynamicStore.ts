@@ -10,6 +10,9 @@
 
 import { z } from 'zod';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { appendMessages } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, unsignedTransactionSchema } from '../resultSchemas.js';
 
 export const buildDynamicStoreSchema = z.object({
   action: z.enum(['create', 'update', 'delete', 'set_value', 'batch_set_values'])
@@ -25,85 +28,32 @@ export const buildDynamicStoreSchema = z.object({
   entries: z.array(z.object({
     address: z.string(),
     value: z.boolean()
-  })).optional().describe('Batch entries for batch_set_values')
+  })).optional().describe('Batch entries for batch_set_values'),
+  appendToSession: z.boolean().optional().describe('Also append the built message(s) to the session batch (see list_messages)'),
+  sessionId: z.string().optional().describe('Session to append to when appendToSession is set. Omit for default session.')
 });
 
 export type BuildDynamicStoreInput = z.infer<typeof buildDynamicStoreSchema>;
 
-export interface BuildDynamicStoreResult {
-  success: boolean;
-  error?: string;
-  transaction?: {
-    messages: unknown[];
-    memo: string;
-    fee: { amount: Array<{ denom: string; amount: string }>; gas: string };
-  };
-  explanation?: {
-    action: string;
-    description: string;
-    nextSteps: string[];
-  };
-}
+export const buildDynamicStoreResultSchema = toolResult({
+  transaction: unsignedTransactionSchema.optional(),
+  explanation: z.object({
+    action: z.string(),
+    description: z.string(),
+    nextSteps: z.array(z.string())
+  }).optional(),
+  sessionMessageIndices: z.array(z.number()).optional().describe('Indices of the appended messages in the session batch (appendToSession only)')
+});
+
+export type BuildDynamicStoreResult = z.infer<typeof buildDynamicStoreResultSchema>;
 
-export const buildDynamicStoreTool = {
+export const buildDynamicStoreTool = defineTool({
   name: 'build_dynamic_store',
   description: 'Build transaction JSON for dynamic store operations: create a new boolean address map, update settings, delete, or set values for addresses. Dynamic stores are on-chain allowlists/blocklists usable in approval criteria (dynamicStoreChallenges). Returns ready-to-sign transaction JSON.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      action: {
-        type: 'string',
-        enum: ['create', 'update', 'delete', 'set_value', 'batch_set_values'],
-        description: 'Operation: create, update, delete, set_value, or batch_set_values'
-      },
-      creator: {
-        type: 'string',
-        description: 'Your address (bb1... or 0x...) — must be the store creator'
-      },
-      storeId: {
-        type: 'string',
-        description: 'Store ID (required for update, delete, set_value, batch_set_values)'
-      },
-      defaultValue: {
-        type: 'boolean',
-        description: 'Default value for uninitialized addresses'
-      },
-      globalEnabled: {
-        type: 'boolean',
-        description: 'Kill switch — false disables the store'
-      },
-      uri: {
-        type: 'string',
-        description: 'Metadata URI'
-      },
-      customData: {
-        type: 'string',
-        description: 'Arbitrary custom data JSON'
-      },
-      address: {
-        type: 'string',
-        description: 'Target address for set_value'
-      },
-      value: {
-        type: 'boolean',
-        description: 'Boolean value to set'
-      },
-      entries: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            address: { type: 'string' },
-            value: { type: 'boolean' }
-          },
-          required: ['address', 'value']
-        },
-        description: 'Batch entries for batch_set_values'
-      }
-    },
-    required: ['action', 'creator']
-  }
-};
+  schema: buildDynamicStoreSchema,
+  handler: handleBuildDynamicStore,
+  resultSchema: buildDynamicStoreResultSchema
+});
 
 function buildCreateMsg(input: BuildDynamicStoreInput): BuildDynamicStoreResult {
   if (input.defaultValue === undefined) {
@@ -264,10 +214,7 @@ function buildBatchSetValuesMsg(input: BuildDynamicStoreInput): BuildDynamicStor
   };
 }
 
-export function handleBuildDynamicStore(input: BuildDynamicStoreInput): BuildDynamicStoreResult {
-  input.creator = ensureBb1(input.creator);
-  if (input.address) input.address = ensureBb1(input.address);
-  if (input.entries) input.entries = input.entries.map(e => ({ ...e, address: ensureBb1(e.address) }));
+function buildForAction(input: BuildDynamicStoreInput): BuildDynamicStoreResult {
   switch (input.action) {
     case 'create': return buildCreateMsg(input);
     case 'update': return buildUpdateMsg(input);
@@ -278,3 +225,15 @@ export function handleBuildDynamicStore(input: BuildDynamicStoreInput): BuildDyn
       return { success: false, error: `Unknown action: ${input.action}. Use: create, update, delete, set_value, batch_set_values` };
   }
 }
+
+export function handleBuildDynamicStore(input: BuildDynamicStoreInput): BuildDynamicStoreResult {
+  input.creator = ensureBb1(input.creator);
+  if (input.address) input.address = ensureBb1(input.address);
+  if (input.entries) input.entries = input.entries.map(e => ({ ...e, address: ensureBb1(e.address) }));
+  const result = buildForAction(input);
+  if (result.success && result.transaction && input.appendToSession) {
+    const { indices } = appendMessages(input.sessionId, result.transaction.messages as Array<Record<string, any>>, 'build_dynamic_store');
+    result.sessionMessageIndices = indices;
+  }
+  return result;
+}
@@ -10,6 +10,9 @@
 import { z } from 'zod';
 import { getCollections } from '../../sdk/apiClient.js';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { appendMessages } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, unsignedTransactionSchema } from '../resultSchemas.js';
 
 export const buildTransferSchema = z.object({
   collectionId: z.string().describe('The collection ID'),
@@ -21,7 +24,9 @@ export const buildTransferSchema = z.object({
   })).optional().describe('Token ID ranges to transfer (default: all valid token IDs)'),
   amount: z.string().optional().describe('Amount to transfer (default: "1")'),
   intent: z.enum(['mint', 'transfer', 'deposit', 'withdraw']).optional()
-    .describe('Transfer intent — helps select the right approval. Auto-detected if not specified.')
+    .describe('Transfer intent — helps select the right approval. Auto-detected if not specified.'),
+  appendToSession: z.boolean().optional().describe('Also append the built MsgTransferTokens to the session batch (see list_messages)'),
+  sessionId: z.string().optional().describe('Session to append to when appendToSession is set. Omit for default session.')
 });
 
 export type BuildTransferInput = z.infer<typeof buildTransferSchema>;
@@ -29,65 +34,27 @@ export type BuildTransferInput = z.infer<typeof buildTransferSchema>;
 const MAX_UINT64 = '18446744073709551615';
 const FOREVER = [{ start: '1', end: MAX_UINT64 }];
 
-export interface BuildTransferResult {
-  success: boolean;
-  error?: string;
-  transaction?: {
-    messages: unknown[];
-    memo: string;
-    fee: { amount: Array<{ denom: string; amount: string }>; gas: string };
-  };
-  explanation?: {
-    approvalUsed: string;
-    intent: string;
-    steps: string[];
-    warnings: string[];
-  };
-}
+export const buildTransferResultSchema = toolResult({
+  transaction: unsignedTransactionSchema.optional(),
+  explanation: z.object({
+    approvalUsed: z.string(),
+    intent: z.string(),
+    steps: z.array(z.string()),
+    warnings: z.array(z.string())
+  }).optional(),
+  sessionMessageIndices: z.array(z.number()).optional().describe('Indices of the appended messages in the session batch (appendToSession only)')
+});
 
-export const buildTransferTool = {
+export type BuildTransferResult = z.infer<typeof buildTransferResultSchema>;
+
+export const buildTransferTool = defineTool({
   name: 'build_transfer',
   description: 'Build a MsgTransferTokens by auto-querying the collection, analyzing its approvals, and constructing the correct transaction with proper prioritizedApprovals, coinTransfers, etc. Supports mint, transfer, deposit (IBC→token), and withdraw (token→IBC). Requires BITBADGES_API_KEY.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      collectionId: {
-        type: 'string',
-        description: 'The collection ID'
-      },
-      fromAddress: {
-        type: 'string',
-        description: 'Sender address (bb1... or 0x...) — use "Mint" for minting'
-      },
-      toAddress: {
-        type: 'string',
-        description: 'Recipient address (bb1... or 0x...) — for unbacking, use the backing address'
-      },
-      tokenIds: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            start: { type: 'string' },
-            end: { type: 'string' }
-          },
-          required: ['start', 'end']
-        },
-        description: 'Token ID ranges (default: all valid IDs)'
-      },
-      amount: {
-        type: 'string',
-        description: 'Amount to transfer (default: "1")'
-      },
-      intent: {
-        type: 'string',
-        enum: ['mint', 'transfer', 'deposit', 'withdraw'],
-        description: 'Transfer intent (auto-detected if not specified)'
-      }
-    },
-    required: ['collectionId', 'fromAddress', 'toAddress']
-  }
-};
+  schema: buildTransferSchema,
+  handler: handleBuildTransfer,
+  resultSchema: buildTransferResultSchema,
+  network: true
+});
 
 function detectIntent(from: string, to: string, collection: Record<string, unknown>): string {
   if (from === 'Mint') return 'mint';
@@ -292,6 +259,10 @@ export async function handleBuildTransfer(input: BuildTransferInput): Promise<Bu
       }
     };
 
+    const sessionMessageIndices = input.appendToSession
+      ? appendMessages(input.sessionId, transaction.messages, 'build_transfer').indices
+      : undefined;
+
     return {
       success: true,
       transaction,
@@ -300,7 +271,8 @@ export async function handleBuildTransfer(input: BuildTransferInput): Promise<Bu
         intent,
         steps,
         warnings
-      }
+      },
+      ...(sessionMessageIndices ? { sessionMessageIndices } : {})
     };
   } catch (error) {
     return {
@@ -0,0 +1,33 @@
+/**
+ * Tool: clear_cache
+ * Drop cached BitBadges API responses so the next query refetches
+ */
+
+import { z } from 'zod';
+import { clearApiCache } from '../../sdk/apiClient.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const clearCacheSchema = z.object({
+  endpointPrefix: z.string().optional().describe('Only clear responses for endpoints starting with this, e.g. "/api/v0/collections". Omit to clear everything.')
+});
+
+export type ClearCacheInput = z.infer<typeof clearCacheSchema>;
+
+export const clearCacheResultSchema = toolResult({
+  cleared: z.number().describe('Cached responses removed')
+});
+
+export type ClearCacheResult = z.infer<typeof clearCacheResultSchema>;
+
+export const clearCacheTool = defineTool({
+  name: 'clear_cache',
+  description: 'Clear cached BitBadges API responses (collections, balances, search, plugins). Query results are cached for up to a few minutes; call this after broadcasting a transaction to see fresh on-chain state.',
+  schema: clearCacheSchema,
+  handler: handleClearCache,
+  resultSchema: clearCacheResultSchema
+});
+
+export function handleClearCache(input: ClearCacheInput): ClearCacheResult {
+  return { success: true, cleared: clearApiCache(input.endpointPrefix) };
+}
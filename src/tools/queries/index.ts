@@ -4,6 +4,7 @@
 
 export * from './queryCollection.js';
 export * from './queryBalance.js';
+export * from './queryOwners.js';
 export * from './simulateTransaction.js';
 export * from './verifyOwnership.js';
 export * from './search.js';
@@ -12,3 +13,4 @@ export * from './buildTransfer.js';
 export * from './buildDynamicStore.js';
 export * from './queryDynamicStore.js';
 export * from './searchPlugins.js';
+export * from './clearCache.js';
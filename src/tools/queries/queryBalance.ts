@@ -9,11 +9,14 @@
 import { z } from 'zod';
 import { getBalance, getBalanceForToken, type BalanceResponse } from '../../sdk/apiClient.js';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 export const queryBalanceSchema = z.object({
   collectionId: z.string().describe('The collection ID'),
   address: z.string().describe('The address to check (bb1... or 0x...)'),
-  tokenId: z.string().optional().describe('Optional. If provided, returns just the balance amount for this specific token ID at the current time, instead of the full balance array.')
+  tokenId: z.string().optional().describe('Optional. If provided, returns just the balance amount for this specific token ID at the current time, instead of the full balance array.'),
+  fresh: z.boolean().optional().describe('Bypass the response cache and fetch from the API (e.g. right after a transaction)')
 });
 
 export type QueryBalanceInput = z.infer<typeof queryBalanceSchema>;
@@ -27,28 +30,21 @@ export interface QueryBalanceResult {
   error?: string;
 }
 
-export const queryBalanceTool = {
+export const queryBalanceResultSchema = toolResult({
+  balance: z.union([z.string(), jsonObjectSchema]).optional().describe('Amount for tokenId (string), or the full balance document'),
+  tokenId: z.string().optional(),
+  collectionId: z.string().optional(),
+  address: z.string().optional()
+});
+
+export const queryBalanceTool = defineTool({
   name: 'query_balance',
   description: 'Check token balance for an address in a collection. Without tokenId, returns the full balance array with amounts, token ID ranges, and ownership time ranges. With tokenId, returns just the balance amount for the specified token at the current time. Requires BITBADGES_API_KEY environment variable.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      collectionId: {
-        type: 'string',
-        description: 'The collection ID'
-      },
-      address: {
-        type: 'string',
-        description: 'The address to check (bb1... or 0x...)'
-      },
-      tokenId: {
-        type: 'string',
-        description: 'Optional. If provided, returns just the balance amount for this specific token ID at the current time, instead of the full balance array.'
-      }
-    },
-    required: ['collectionId', 'address']
-  }
-};
+  schema: queryBalanceSchema,
+  handler: handleQueryBalance,
+  resultSchema: queryBalanceResultSchema,
+  network: true
+});
 
 export async function handleQueryBalance(input: QueryBalanceInput): Promise<QueryBalanceResult> {
   try {
@@ -57,7 +53,7 @@ export async function handleQueryBalance(input: QueryBalanceInput): Promise<Quer
 
     // If tokenId is provided, use the specific-token endpoint for a single balance amount
     if (tokenId) {
-      const response = await getBalanceForToken(collectionId, tokenId, address);
+      const response = await getBalanceForToken(collectionId, tokenId, address, { bypassCache: input.fresh });
 
       if (!response.success) {
         return {
@@ -76,7 +72,7 @@ export async function handleQueryBalance(input: QueryBalanceInput): Promise<Quer
     }
 
     // Default: return full balance array
-    const response = await getBalance(collectionId, address);
+    const response = await getBalance(collectionId, address, { bypassCache: input.fresh });
 
     if (!response.success) {
       return {
@@ -5,11 +5,14 @@
 
 import { z } from 'zod';
 import { getCollections, type CollectionResponse } from '../../sdk/apiClient.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 export const queryCollectionSchema = z.object({
   collectionId: z.string().describe('The collection ID to fetch'),
   includeMetadata: z.boolean().optional().default(true).describe('Whether to include metadata (default: true)'),
-  fields: z.array(z.string()).optional().describe('Optional list of top-level fields to return (e.g. ["collectionApprovals", "collectionPermissions"]). If omitted, returns the full collection.')
+  fields: z.array(z.string()).optional().describe('Optional list of top-level fields to return (e.g. ["collectionApprovals", "collectionPermissions"]). If omitted, returns the full collection.'),
+  fresh: z.boolean().optional().describe('Bypass the response cache and fetch from the API (e.g. right after a transaction)')
 });
 
 export type QueryCollectionInput = z.infer<typeof queryCollectionSchema>;
@@ -20,29 +23,18 @@ export interface QueryCollectionResult {
   error?: string;
 }
 
-export const queryCollectionTool = {
+export const queryCollectionResultSchema = toolResult({
+  collection: jsonObjectSchema.optional().describe('Collection document (only the requested fields when "fields" is set)')
+});
+
+export const queryCollectionTool = defineTool({
   name: 'query_collection',
   description: 'Fetch collection details from BitBadges API. Requires BITBADGES_API_KEY environment variable. Use the "fields" parameter to return only specific top-level fields and reduce response size.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      collectionId: {
-        type: 'string',
-        description: 'The collection ID to fetch'
-      },
-      includeMetadata: {
-        type: 'boolean',
-        description: 'Whether to include metadata (default: true)'
-      },
-      fields: {
-        type: 'array',
-        items: { type: 'string' },
-        description: 'Optional list of top-level fields to return (e.g. ["collectionApprovals", "collectionPermissions"]). If omitted, returns the full collection.'
-      }
-    },
-    required: ['collectionId']
-  }
-};
+  schema: queryCollectionSchema,
+  handler: handleQueryCollection,
+  resultSchema: queryCollectionResultSchema,
+  network: true
+});
 
 export async function handleQueryCollection(input: QueryCollectionInput): Promise<QueryCollectionResult> {
   try {
@@ -54,7 +46,7 @@ export async function handleQueryCollection(input: QueryCollectionInput): Promis
         metadataToFetch: includeMetadata ? { uris: [] } : undefined,
         fetchTotalAndMintBalances: true
       }]
-    });
+    }, { bypassCache: input.fresh });
 
     if (!response.success) {
       return {
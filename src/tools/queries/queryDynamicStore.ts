@@ -4,14 +4,18 @@
  */
 
 import { z } from 'zod';
-import { apiRequest } from '../../sdk/apiClient.js';
+import { apiRequest, paginate } from '../../sdk/apiClient.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema, truncatedSchema } from '../resultSchemas.js';
 
 export const queryDynamicStoreSchema = z.object({
   action: z.enum(['get_store', 'get_value', 'list_values', 'list_by_creator'])
     .describe('Query type'),
   storeId: z.string().optional().describe('Store ID (required for get_store, get_value, list_values)'),
   address: z.string().optional().describe('Address to check (required for get_value, list_by_creator)'),
-  bookmark: z.string().optional().describe('Pagination bookmark for list_values')
+  bookmark: z.string().optional().describe('Pagination bookmark for list_values'),
+  all: z.boolean().optional().describe('list_values: follow bookmarks and return every value in one call (up to maxItems)'),
+  maxItems: z.number().int().positive().optional().describe('list_values with all: stop after this many values (default 1000)')
 });
 
 export type QueryDynamicStoreInput = z.infer<typeof queryDynamicStoreSchema>;
@@ -40,35 +44,41 @@ export interface QueryDynamicStoreResult {
   value?: DynamicStoreValue;
   values?: DynamicStoreValue[];
   pagination?: { bookmark?: string; hasMore?: boolean };
+  truncated?: boolean;
 }
 
-export const queryDynamicStoreTool = {
+export const dynamicStoreValuesResponseSchema = z.object({
+  values: z.array(z.object({
+    storeId: z.string(),
+    address: z.string(),
+    value: z.boolean()
+  }).passthrough()),
+  pagination: z.object({
+    bookmark: z.string().optional(),
+    hasMore: z.boolean().optional()
+  }).optional()
+});
+
+type DynamicStoreValuesPage = z.infer<typeof dynamicStoreValuesResponseSchema>;
+
+export const queryDynamicStoreResultSchema = toolResult({
+  store: jsonObjectSchema.optional().describe('get_store'),
+  stores: z.array(jsonObjectSchema).optional().describe('list_by_creator'),
+  value: jsonObjectSchema.optional().describe('get_value: { storeId, address, value }'),
+  values: z.array(jsonObjectSchema).optional().describe('list_values'),
+  pagination: z.object({ bookmark: z.string().optional(), hasMore: z.boolean().optional() }).optional()
+    .describe('list_values: next-page bookmark (one page at a time)'),
+  truncated: truncatedSchema
+});
+
+export const queryDynamicStoreTool = defineTool({
   name: 'query_dynamic_store',
-  description: 'Query on-chain dynamic store data. Actions: get_store (store details), get_value (check if an address is true/false), list_values (paginated list of all set values), list_by_creator (all stores created by an address). Requires BITBADGES_API_KEY.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      action: {
-        type: 'string',
-        enum: ['get_store', 'get_value', 'list_values', 'list_by_creator'],
-        description: 'Query type'
-      },
-      storeId: {
-        type: 'string',
-        description: 'Store ID (required for get_store, get_value, list_values)'
-      },
-      address: {
-        type: 'string',
-        description: 'Address (required for get_value, list_by_creator)'
-      },
-      bookmark: {
-        type: 'string',
-        description: 'Pagination bookmark for list_values'
-      }
-    },
-    required: ['action']
-  }
-};
+  description: 'Query on-chain dynamic store data. Actions: get_store (store details), get_value (check if an address is true/false), list_values (paginated list of all set values; all: true fetches every page), list_by_creator (all stores created by an address). Requires BITBADGES_API_KEY.',
+  schema: queryDynamicStoreSchema,
+  handler: handleQueryDynamicStore,
+  resultSchema: queryDynamicStoreResultSchema,
+  network: true
+});
 
 export async function handleQueryDynamicStore(input: QueryDynamicStoreInput): Promise<QueryDynamicStoreResult> {
   switch (input.action) {
@@ -98,13 +108,28 @@ export async function handleQueryDynamicStore(input: QueryDynamicStoreInput): Pr
 
     case 'list_values': {
       if (!input.storeId) return { success: false, error: 'storeId is required for list_values' };
-      const url = input.bookmark
-        ? `/api/v0/onChainDynamicStore/${input.storeId}/values?bookmark=${encodeURIComponent(input.bookmark)}`
-        : `/api/v0/onChainDynamicStore/${input.storeId}/values`;
-      const res = await apiRequest<{ values: DynamicStoreValue[]; pagination: { bookmark?: string; hasMore?: boolean } }>(
-        url,
-        'GET'
+      const storeId = input.storeId;
+      const fetchPage = (bookmark: string | undefined) => apiRequest<DynamicStoreValuesPage>(
+        bookmark
+          ? `/api/v0/onChainDynamicStore/${storeId}/values?bookmark=${encodeURIComponent(bookmark)}`
+          : `/api/v0/onChainDynamicStore/${storeId}/values`,
+        'GET',
+        undefined,
+        undefined,
+        dynamicStoreValuesResponseSchema
       );
+
+      if (input.all) {
+        const res = await paginate(
+          fetchPage,
+          (page) => ({ items: page.values, bookmark: page.pagination?.bookmark, hasMore: page.pagination?.hasMore }),
+          { maxItems: input.maxItems }
+        );
+        if (!res.success || !res.data) return { success: false, error: res.error || 'Failed to list values' };
+        return { success: true, values: res.data.items, truncated: res.data.truncated };
+      }
+
+      const res = await fetchPage(input.bookmark);
       if (!res.success || !res.data) return { success: false, error: res.error || 'Failed to list values' };
       return {
         success: true,
@@ -0,0 +1,83 @@
+/**
+ * Tool: query_owners
+ * List the addresses holding a token in a collection, one page at a time or all at once.
+ */
+
+import { z } from 'zod';
+import { getTokenOwners, getAllTokenOwners, type TokenOwnersResponse } from '../../sdk/apiClient.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema, truncatedSchema } from '../resultSchemas.js';
+
+export const queryOwnersSchema = z.object({
+  collectionId: z.string().describe('The collection ID'),
+  tokenId: z.string().describe('The token ID whose owners to list'),
+  bookmark: z.string().optional().describe('Pagination bookmark from a previous call'),
+  all: z.boolean().optional().describe('Follow bookmarks and return every owner in one call (up to maxItems)'),
+  maxItems: z.number().int().positive().optional().describe('With all: stop after this many owners (default 1000)')
+});
+
+export type QueryOwnersInput = z.infer<typeof queryOwnersSchema>;
+
+export interface QueryOwnersResult {
+  success: boolean;
+  error?: string;
+  owners?: TokenOwnersResponse['owners'];
+  pagination?: { bookmark?: string; hasMore?: boolean };
+  truncated?: boolean;
+}
+
+export const queryOwnersResultSchema = toolResult({
+  owners: z.array(jsonObjectSchema).optional().describe('Balance documents: { address, balances, ... }'),
+  pagination: z.object({ bookmark: z.string().optional(), hasMore: z.boolean().optional() }).optional()
+    .describe('Next-page bookmark (one page at a time)'),
+  truncated: truncatedSchema
+});
+
+export const queryOwnersTool = defineTool({
+  name: 'query_owners',
+  description: 'List the owners of a token in a collection with their balances. Paginated by bookmark; pass all: true to collect every owner in one call. Requires BITBADGES_API_KEY environment variable.',
+  schema: queryOwnersSchema,
+  handler: handleQueryOwners,
+  resultSchema: queryOwnersResultSchema,
+  network: true
+});
+
+export async function handleQueryOwners(input: QueryOwnersInput): Promise<QueryOwnersResult> {
+  try {
+    const { collectionId, tokenId } = input;
+
+    if (input.all) {
+      const response = await getAllTokenOwners(collectionId, tokenId, undefined, { maxItems: input.maxItems });
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error
+        };
+      }
+      return {
+        success: true,
+        owners: response.data.items,
+        truncated: response.data.truncated
+      };
+    }
+
+    const response = await getTokenOwners(collectionId, tokenId, { bookmark: input.bookmark });
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error
+      };
+    }
+
+    return {
+      success: true,
+      owners: response.data.owners,
+      pagination: response.data.pagination
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to query owners: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
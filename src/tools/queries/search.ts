@@ -4,34 +4,38 @@
  */
 
 import { z } from 'zod';
-import { search, type SearchResponse } from '../../sdk/apiClient.js';
+import { search, searchAll, type SearchAllResult, type SearchResponse } from '../../sdk/apiClient.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema, truncatedSchema } from '../resultSchemas.js';
 
 export const searchSchema = z.object({
-  query: z.string().describe('The search query')
+  query: z.string().describe('The search query'),
+  all: z.boolean().optional().describe('Follow bookmarks and return matches from every page'),
+  maxItems: z.number().int().positive().optional().describe('With all: stop after this many collections and accounts combined (default 1000)')
 });
 
 export type SearchInput = z.infer<typeof searchSchema>;
 
 export interface SearchResult {
   success: boolean;
-  results?: SearchResponse;
+  results?: SearchResponse | Omit<SearchAllResult, 'truncated'>;
+  truncated?: boolean;
   error?: string;
 }
 
-export const searchTool = {
+export const searchResultSchema = toolResult({
+  results: jsonObjectSchema.optional().describe('Matching collections, accounts and tokens (with all: collections, accounts and pages)'),
+  truncated: truncatedSchema
+});
+
+export const searchTool = defineTool({
   name: 'search',
   description: 'Search collections, accounts, and tokens. Requires BITBADGES_API_KEY environment variable.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      query: {
-        type: 'string',
-        description: 'The search query'
-      }
-    },
-    required: ['query']
-  }
-};
+  schema: searchSchema,
+  handler: handleSearch,
+  resultSchema: searchResultSchema,
+  network: true
+});
 
 export async function handleSearch(input: SearchInput): Promise<SearchResult> {
   try {
@@ -44,9 +48,23 @@ export async function handleSearch(input: SearchInput): Promise<SearchResult> {
       };
     }
 
-    const response = await search({
-      searchValue: query
-    });
+    if (input.all) {
+      const response = await searchAll({ searchValue: query }, undefined, { maxItems: input.maxItems });
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error
+        };
+      }
+      const { truncated, ...results } = response.data;
+      return {
+        success: true,
+        results,
+        truncated
+      };
+    }
+
+    const response = await search({ searchValue: query });
 
     if (!response.success) {
       return {
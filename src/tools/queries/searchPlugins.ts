@@ -4,14 +4,18 @@
  */
 
 import { z } from 'zod';
-import { searchPlugins, type SearchPluginsResponse } from '../../sdk/apiClient.js';
+import { searchPlugins, searchAllPlugins, type SearchPluginsResponse } from '../../sdk/apiClient.js';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema, truncatedSchema } from '../resultSchemas.js';
 
 export const searchPluginsSchema = z.object({
   searchValue: z.string().optional().describe('Search query to find plugins by name or description'),
   pluginIds: z.array(z.string()).optional().describe('Specific plugin IDs to fetch directly'),
   creatorAddress: z.string().optional().describe('Creator address to list their public plugins. Returns only reviewCompleted plugins by this creator. Does not require session auth.'),
-  bookmark: z.string().optional().describe('Pagination bookmark from previous search')
+  bookmark: z.string().optional().describe('Pagination bookmark from previous search'),
+  all: z.boolean().optional().describe('Fetch every page of results instead of one (ignores bookmark)'),
+  maxItems: z.number().int().positive().optional().describe('With all: maximum number of plugins to return (default 1000)')
 });
 
 export type SearchPluginsInput = z.infer<typeof searchPluginsSchema>;
@@ -19,35 +23,26 @@ export type SearchPluginsInput = z.infer<typeof searchPluginsSchema>;
 export interface SearchPluginsResult {
   success: boolean;
   results?: SearchPluginsResponse;
+  truncated?: boolean;
   error?: string;
 }
 
-export const searchPluginsTool = {
+export const searchPluginsResultSchema = toolResult({
+  results: z.object({
+    plugins: z.array(jsonObjectSchema),
+    bookmark: z.string().optional()
+  }).optional(),
+  truncated: truncatedSchema
+});
+
+export const searchPluginsTool = defineTool({
   name: 'search_plugins',
   description: 'Search for off-chain claim plugins or fetch specific plugins by ID. Can also list public plugins by a specific creator address. Plugins are flat configs (no versioning) — returns plugin metadata, params schema, and configuration. Any plugin is fetchable by ID without auth. Use this to find custom plugins to integrate into claims.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      searchValue: {
-        type: 'string',
-        description: 'Search query to find plugins by name or description'
-      },
-      pluginIds: {
-        type: 'array',
-        items: { type: 'string' },
-        description: 'Specific plugin IDs to fetch directly'
-      },
-      creatorAddress: {
-        type: 'string',
-        description: 'Creator address to list their public plugins. Returns only reviewed/published plugins by this creator.'
-      },
-      bookmark: {
-        type: 'string',
-        description: 'Pagination bookmark from previous search'
-      }
-    }
-  }
-};
+  schema: searchPluginsSchema,
+  handler: handleSearchPlugins,
+  resultSchema: searchPluginsResultSchema,
+  network: true
+});
 
 export async function handleSearchPlugins(input: SearchPluginsInput): Promise<SearchPluginsResult> {
   try {
@@ -58,12 +53,28 @@ export async function handleSearchPlugins(input: SearchPluginsInput): Promise<Se
       };
     }
 
-    const response = await searchPlugins({
+    const request = {
       searchValue: input.searchValue,
       pluginIds: input.pluginIds,
-      creatorAddress: input.creatorAddress ? ensureBb1(input.creatorAddress) : input.creatorAddress,
-      bookmark: input.bookmark
-    });
+      creatorAddress: input.creatorAddress ? ensureBb1(input.creatorAddress) : input.creatorAddress
+    };
+
+    if (input.all) {
+      const response = await searchAllPlugins(request, undefined, { maxItems: input.maxItems });
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error
+        };
+      }
+      return {
+        success: true,
+        results: { plugins: response.data.items },
+        truncated: response.data.truncated
+      };
+    }
+
+    const response = await searchPlugins({ ...request, bookmark: input.bookmark });
 
     if (!response.success) {
       return {
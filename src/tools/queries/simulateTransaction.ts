@@ -8,6 +8,8 @@ import { z } from 'zod';
 import { simulateTx } from '../../sdk/apiClient.js';
 import { parseSimulationEvents, calculateNetChanges } from 'bitbadgesjs-sdk';
 import type { SimulationEvent, ParsedSimulationEvents, NetBalanceChanges } from 'bitbadgesjs-sdk';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const simulateTransactionSchema = z.object({
   transactionJson: z.string().optional().describe('The full transaction JSON to simulate (as a string). Either this or transaction must be provided.'),
@@ -29,23 +31,23 @@ export interface SimulateTransactionResult {
   error?: string;
 }
 
-export const simulateTransactionTool = {
+export const simulateTransactionResultSchema = toolResult({
+  valid: z.boolean().optional(),
+  gasUsed: z.string().optional(),
+  events: z.array(z.unknown()).optional().describe('Raw simulation events'),
+  parsedEvents: z.unknown().optional().describe('Coin, badge and IBC transfer events'),
+  netChanges: z.unknown().optional().describe('Net balance change per address'),
+  simulationError: z.string().optional().describe('Chain error when the simulation failed')
+});
+
+export const simulateTransactionTool = defineTool({
   name: 'simulate_transaction',
   description: 'Dry-run a transaction to check validity and estimate gas. Returns raw events, parsed transfer events (coin, badge, IBC), and per-address net balance changes. Requires BITBADGES_API_KEY environment variable.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      transactionJson: {
-        type: 'string',
-        description: 'The full transaction JSON to simulate (as a string). Either this or transaction must be provided.'
-      },
-      transaction: {
-        type: 'object',
-        description: 'The transaction object to simulate (alternative to transactionJson — pass the object directly without JSON.stringify).'
-      }
-    }
-  }
-};
+  schema: simulateTransactionSchema,
+  handler: handleSimulateTransaction,
+  resultSchema: simulateTransactionResultSchema,
+  network: true
+});
 
 /**
  * Recursively converts all bigint values to strings for JSON serialization.
@@ -6,6 +6,8 @@
 import { z } from 'zod';
 import { verifyOwnership } from '../../sdk/apiClient.js';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const verifyOwnershipSchema = z.object({
   address: z.string().describe('The address to verify (bb1... or 0x...)'),
@@ -21,24 +23,19 @@ export interface VerifyOwnershipResult {
   error?: string;
 }
 
-export const verifyOwnershipTool = {
+export const verifyOwnershipResultSchema = toolResult({
+  verified: z.boolean().optional(),
+  details: z.unknown().optional()
+});
+
+export const verifyOwnershipTool = defineTool({
   name: 'verify_ownership',
   description: 'Verify if an address meets ownership requirements (AND/OR/NOT). Requires BITBADGES_API_KEY environment variable.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      address: {
-        type: 'string',
-        description: 'The address to verify (bb1... or 0x...)'
-      },
-      requirements: {
-        type: 'string',
-        description: 'AssetConditionGroup structure as JSON string'
-      }
-    },
-    required: ['address', 'requirements']
-  }
-};
+  schema: verifyOwnershipSchema,
+  handler: handleVerifyOwnership,
+  resultSchema: verifyOwnershipResultSchema,
+  network: true
+});
 
 export async function handleVerifyOwnership(input: VerifyOwnershipInput): Promise<VerifyOwnershipResult> {
   try {
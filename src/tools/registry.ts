@@ -0,0 +1,224 @@
+/**
+ * Tool registry — every tool the server exposes, in tools/list order.
+ *
+ * To add a tool, export a defineTool() definition from its module and list it here.
+ */
+
+import type { ToolDefinition } from './defineTool.js';
+import { withDiagnostics } from './session/diagnostics.js';
+import { withApiSignal } from '../sdk/apiClient.js';
+import { withSessionLock } from '../session/sessionState.js';
+
+// Utilities
+import { lookupTokenInfoTool } from './utilities/lookupTokenInfo.js';
+import { validateTransactionTool } from './utilities/validateTransaction.js';
+import { getCurrentTimestampTool } from './utilities/getCurrentTimestamp.js';
+import { getSkillInstructionsTool } from './utilities/getSkillInstructions.js';
+import { convertAddressTool } from './utilities/convertAddress.js';
+import { validateAddressTool } from './utilities/validateAddress.js';
+import { fetchDocsTool } from './utilities/fetchDocs.js';
+import { searchKnowledgeBaseTool } from './utilities/searchKnowledgeBase.js';
+import { diagnoseErrorTool } from './utilities/diagnoseError.js';
+import { generateUniqueIdTool } from './utilities/generateUniqueId.js';
+// Components
+import { generateBackingAddressTool } from './components/generateBackingAddress.js';
+import { generateApprovalTool } from './components/generateApproval.js';
+import { generatePermissionsTool } from './components/generatePermissions.js';
+import { generateAliasPathTool } from './components/generateAliasPath.js';
+import { generateWrapperAddressTool } from './components/generateWrapperAddress.js';
+// Queries
+import { queryCollectionTool } from './queries/queryCollection.js';
+import { queryBalanceTool } from './queries/queryBalance.js';
+import { queryOwnersTool } from './queries/queryOwners.js';
+import { simulateTransactionTool } from './queries/simulateTransaction.js';
+import { verifyOwnershipTool } from './queries/verifyOwnership.js';
+import { searchTool } from './queries/search.js';
+import { searchPluginsTool } from './queries/searchPlugins.js';
+import { analyzeCollectionTool } from './queries/analyzeCollection.js';
+import { buildTransferTool } from './queries/buildTransfer.js';
+import { buildDynamicStoreTool } from './queries/buildDynamicStore.js';
+import { queryDynamicStoreTool } from './queries/queryDynamicStore.js';
+import { clearCacheTool } from './queries/clearCache.js';
+// Builders
+import { auditCollectionTool } from './builders/auditCollection.js';
+import { explainCollectionTool } from './builders/explainCollection.js';
+import { buildClaimTool } from './builders/buildClaim.js';
+import { verifyStandardsTool } from './builders/verifyStandards.js';
+// Session-based per-field tools (v2)
+import { setStandardsTool } from './session/setStandards.js';
+import { setValidTokenIdsTool } from './session/setValidTokenIds.js';
+import { setDefaultBalancesTool } from './session/setDefaultBalances.js';
+import { setPermissionsTool } from './session/setPermissions.js';
+import { setInvariantsTool } from './session/setInvariants.js';
+import { setManagerTool } from './session/setManager.js';
+import { setCollectionMetadataTool } from './session/setCollectionMetadata.js';
+import { setTokenMetadataTool } from './session/setTokenMetadata.js';
+import { setCustomDataTool } from './session/setCustomData.js';
+import { setMintEscrowCoinsTool } from './session/setMintEscrowCoins.js';
+import { addApprovalTool } from './session/addApproval.js';
+import { removeApprovalTool } from './session/removeApproval.js';
+import { setApprovalMetadataTool } from './session/setApprovalMetadata.js';
+import { moveApprovalTool } from './session/moveApproval.js';
+import { listApprovalsTool } from './session/listApprovals.js';
+import { addAliasPathTool } from './session/addAliasPath.js';
+import { removeAliasPathTool } from './session/removeAliasPath.js';
+import { addCosmosWrapperPathTool } from './session/addCosmosWrapperPath.js';
+import { removeCosmosWrapperPathTool } from './session/removeCosmosWrapperPath.js';
+import { addTransferTool } from './session/addTransfer.js';
+import { removeTransferTool } from './session/removeTransfer.js';
+import { listMessagesTool } from './session/listMessages.js';
+import { moveMessageTool } from './session/moveMessage.js';
+import { removeMessageTool } from './session/removeMessage.js';
+import { applySessionPatchTool } from './session/applySessionPatch.js';
+import { getTransactionTool } from './session/getTransaction.js';
+import { undoTool } from './session/undo.js';
+import { redoTool } from './session/redo.js';
+import { listSessionHistoryTool } from './session/listSessionHistory.js';
+import { loadCollectionIntoSessionTool } from './session/loadCollectionIntoSession.js';
+import { snapshotSessionTool } from './session/snapshotSession.js';
+import { forkSessionTool } from './session/forkSession.js';
+import { compareSessionsTool } from './session/compareSessions.js';
+import { exportSessionTool } from './session/exportSession.js';
+import { importSessionTool } from './session/importSession.js';
+import { createBatchSessionOpsTool } from './session/batchSessionOps.js';
+import { setIsArchivedTool } from './session/setIsArchived.js';
+
+// Dispatches to the other session tools, so it looks them up lazily through getTool
+const batchSessionOpsTool = createBatchSessionOpsTool((name) => getTool(name));
+
+export const toolRegistry: ToolDefinition[] = [
+  // Utilities
+  lookupTokenInfoTool,
+  validateTransactionTool,
+  getCurrentTimestampTool,
+
+  // Components
+  generateBackingAddressTool,
+  generateApprovalTool,
+  generatePermissionsTool,
+  generateAliasPathTool,
+
+  // Skill instructions
+  getSkillInstructionsTool,
+
+  // Address utilities
+  convertAddressTool,
+  validateAddressTool,
+
+  // Documentation
+  fetchDocsTool,
+
+  // Knowledge base tools
+  searchKnowledgeBaseTool,
+  diagnoseErrorTool,
+
+  // Query tools (require API key)
+  queryCollectionTool,
+  queryBalanceTool,
+  queryOwnersTool,
+  simulateTransactionTool,
+  verifyOwnershipTool,
+  searchTool,
+  searchPluginsTool,
+  clearCacheTool,
+
+  // Collection analysis (require API key)
+  analyzeCollectionTool,
+  buildTransferTool,
+
+  // Dynamic store tools
+  buildDynamicStoreTool,
+  queryDynamicStoreTool,
+
+  // Audit, explain, claims, standards
+  auditCollectionTool,
+  explainCollectionTool,
+  buildClaimTool,
+  verifyStandardsTool,
+
+  // Session-based per-field tools (v2)
+  setStandardsTool,
+  setValidTokenIdsTool,
+  setDefaultBalancesTool,
+  setPermissionsTool,
+  setInvariantsTool,
+  setManagerTool,
+  setCollectionMetadataTool,
+  setTokenMetadataTool,
+  setCustomDataTool,
+  setMintEscrowCoinsTool,
+  addApprovalTool,
+  removeApprovalTool,
+  setApprovalMetadataTool,
+  moveApprovalTool,
+  listApprovalsTool,
+  addAliasPathTool,
+  removeAliasPathTool,
+  addCosmosWrapperPathTool,
+  removeCosmosWrapperPathTool,
+  addTransferTool,
+  removeTransferTool,
+  listMessagesTool,
+  moveMessageTool,
+  removeMessageTool,
+  applySessionPatchTool,
+  batchSessionOpsTool,
+  getTransactionTool,
+  undoTool,
+  redoTool,
+  listSessionHistoryTool,
+  loadCollectionIntoSessionTool,
+  snapshotSessionTool,
+  forkSessionTool,
+  compareSessionsTool,
+  exportSessionTool,
+  importSessionTool,
+  setIsArchivedTool,
+  generateUniqueIdTool,
+  generateWrapperAddressTool
+];
+
+const toolsByName = new Map(toolRegistry.map((tool) => [tool.name, tool]));
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return toolsByName.get(name);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate arguments against the tool's schema, run its handler and render the
+ * result as MCP text content — plus structuredContent for tools that declare a
+ * result schema. Throws for unknown tools and invalid arguments. Aborting
+ * `options.signal` cancels the BitBadges API requests the handler makes. Session
+ * mutations wait for earlier operations on the same session (see withSessionLock).
+ */
+export async function callTool(name: string, args: Record<string, unknown> = {}, options: { signal?: AbortSignal } = {}) {
+  const tool = getTool(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Invalid arguments for ${name}:\n${issues.join('\n')}`);
+  }
+
+  const run = async () => withApiSignal(options.signal, () => tool.handler(parsed.data));
+  const sessionId = args.sessionId as string | undefined;
+  const result = tool.mutatesSession
+    ? await withSessionLock(sessionId, async () => withDiagnostics(sessionId, run))
+    : await run();
+
+  const text = tool.formatResult
+    ? tool.formatResult(result)
+    : typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+  const content = [{ type: 'text' as const, text }];
+  if (tool.outputSchema && isPlainObject(result)) {
+    return { content, structuredContent: result };
+  }
+  return { content };
+}
@@ -0,0 +1,60 @@
+/**
+ * Result schema building blocks shared by several tools (see defineTool's resultSchema).
+ */
+
+import { z } from 'zod';
+
+/**
+ * The `{ success, error }` envelope most tools return, plus the tool's own fields.
+ * Those fields are usually only present on success, so declare them optional.
+ */
+export function toolResult<T extends z.ZodRawShape>(shape: T) {
+  return z.object({
+    success: z.boolean(),
+    error: z.string().optional().describe('Why the call failed (when success is false)'),
+    ...shape
+  });
+}
+
+/** A uintRange as the chain encodes it: string bounds, inclusive */
+export const uintRangeSchema = z.object({ start: z.string(), end: z.string() });
+
+/** `truncated` on results of paginated queries called with all: true */
+export const truncatedSchema = z.boolean().optional()
+  .describe('With all: true — more results exist than were returned (maxItems cut the list short)');
+
+/** Loosely-typed JSON object (approvals, permissions, messages, ...) */
+export const jsonObjectSchema = z.record(z.any());
+
+/** An unsigned transaction body: messages plus memo and fee, ready to sign */
+export const unsignedTransactionSchema = z.object({
+  messages: z.array(z.unknown()),
+  memo: z.string(),
+  fee: z.object({
+    amount: z.array(z.object({ denom: z.string(), amount: z.string() })),
+    gas: z.string()
+  })
+});
+
+/** One entry of a session's message batch (list_messages) */
+export const sessionMessageSummarySchema = z.object({
+  index: z.number(),
+  typeUrl: z.string(),
+  summary: z.string(),
+  isCollection: z.boolean().describe('true for the MsgUniversalUpdateCollection the per-field tools edit')
+});
+
+/** A recorded session mutation, as reported by undo/redo */
+export const historyStepSchema = z.object({
+  id: z.number(),
+  tool: z.string(),
+  changedFields: z.array(z.string())
+});
+
+/** Added to session mutation results by withDiagnostics */
+export const sessionDiagnosticsSchema = z.object({
+  newErrors: z.array(z.string()).describe('Validation errors present after the call that weren\'t there before'),
+  newStandardsViolations: z.array(jsonObjectSchema).describe('Standards violations present after the call that weren\'t there before'),
+  resolved: z.number().describe('Errors and violations from before the call that are now gone'),
+  totals: z.object({ errors: z.number(), standardsViolations: z.number() })
+}).describe('Validation errors and standards violations introduced (or fixed) by this call');
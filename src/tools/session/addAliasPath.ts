@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { addAliasPath as addAliasPathToSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const addAliasPathSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -8,13 +10,13 @@ export const addAliasPathSchema = z.object({
     denom: z.string().describe('Base denom symbol (e.g., "uvatom", "uwusdc"). Must only contain a-zA-Z, _, {, }, -. NEVER use raw IBC denom (ibc/...).'),
     symbol: z.string().describe('Same as denom for the base unit.'),
     conversion: z.object({
-      sideA: z.object({ amount: z.string() }).describe('IBC coin side. Usually {"amount":"1"}.'),
+      sideA: z.object({ amount: z.string().describe('Amount of IBC coin per conversion unit. Usually "1".') }).describe('IBC coin side. Usually {"amount":"1"}.'),
       sideB: z.array(z.any()).describe('Token side. Usually [{"amount":"1","tokenIds":[{"start":"1","end":"1"}],"ownershipTimes":[{"start":"1","end":"max"}]}].')
-    }),
+    }).describe('Conversion between IBC coin and token.'),
     denomUnits: z.array(z.object({
       decimals: z.string().describe('Decimal places as string. Must match IBC denom decimals (e.g., "6" for ATOM/USDC).'),
       symbol: z.string().describe('Display symbol (e.g., "vATOM", "wUSDC"). Do NOT reuse reserved symbols.'),
-      isDefaultDisplay: z.boolean().optional(),
+      isDefaultDisplay: z.boolean().optional().describe('Whether this is the default display unit.'),
       metadata: z.object({
         uri: z.string().optional().default(''),
         customData: z.string().optional().default(''),
@@ -25,89 +27,24 @@ export const addAliasPathSchema = z.object({
       uri: z.string().optional().default(''),
       customData: z.string().optional().default(''),
       image: z.string().describe('Token logo URL. REQUIRED for alias paths.')
-    }).optional()
-  })
+    }).optional().describe('Path-level metadata.')
+  }).describe('Alias path configuration for ICS20-backed tokens.')
 });
 
 export type AddAliasPathInput = z.infer<typeof addAliasPathSchema>;
 
-export const addAliasPathTool = {
+export const addAliasPathResultSchema = toolResult({
+  denom: z.string().optional()
+});
+
+export const addAliasPathTool = defineTool({
   name: 'add_alias_path',
   description: 'Add an alias path for ICS20-backed tokens or liquidity pools. Required for smart tokens. Decimals must match the IBC denom decimals. All metadata MUST include an image field.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      aliasPath: {
-        type: 'object',
-        description: 'Alias path configuration for ICS20-backed tokens.',
-        properties: {
-          denom: { type: 'string', description: 'Base denom symbol (e.g., "uvatom", "uwusdc"). Must only contain a-zA-Z, _, {, }. NEVER use raw IBC denom (ibc/...).' },
-          symbol: { type: 'string', description: 'Same as denom for the base unit.' },
-          conversion: {
-            type: 'object',
-            description: 'Conversion between IBC coin and token.',
-            properties: {
-              sideA: {
-                type: 'object',
-                description: 'IBC coin side.',
-                properties: { amount: { type: 'string', description: 'Amount of IBC coin per conversion unit. Usually "1".' } },
-                required: ['amount']
-              },
-              sideB: {
-                type: 'array',
-                description: 'Token side. Array of Balance objects.',
-                items: {
-                  type: 'object',
-                  properties: {
-                    amount: { type: 'string', description: 'Token amount per conversion. Usually "1".' },
-                    tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                    ownershipTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] }, description: 'Usually FOREVER: [{"start":"1","end":"18446744073709551615"}]' }
-                  },
-                  required: ['amount', 'tokenIds', 'ownershipTimes']
-                }
-              }
-            },
-            required: ['sideA', 'sideB']
-          },
-          denomUnits: {
-            type: 'array',
-            description: 'Display units with decimals > 0 ONLY. Base decimals (0) is implicit.',
-            items: {
-              type: 'object',
-              properties: {
-                decimals: { type: 'string', description: 'Decimal places as string. Must match IBC denom decimals (e.g., "6" for ATOM/USDC).' },
-                symbol: { type: 'string', description: 'Display symbol (e.g., "vATOM", "wUSDC"). Do NOT reuse reserved symbols.' },
-                isDefaultDisplay: { type: 'boolean', description: 'Whether this is the default display unit.' },
-                metadata: {
-                  type: 'object',
-                  properties: {
-                    uri: { type: 'string' },
-                    customData: { type: 'string' },
-                    image: { type: 'string', description: 'Token logo URL. REQUIRED.' }
-                  }
-                }
-              },
-              required: ['decimals', 'symbol']
-            }
-          },
-          metadata: {
-            type: 'object',
-            description: 'Path-level metadata.',
-            properties: {
-              uri: { type: 'string' },
-              customData: { type: 'string' },
-              image: { type: 'string', description: 'Token logo URL. REQUIRED for alias paths.' }
-            }
-          }
-        },
-        required: ['denom', 'symbol', 'conversion', 'denomUnits']
-      }
-    },
-    required: ['aliasPath']
-  }
-};
+  schema: addAliasPathSchema,
+  handler: handleAddAliasPath,
+  resultSchema: addAliasPathResultSchema,
+  mutatesSession: true
+});
 
 export function handleAddAliasPath(input: AddAliasPathInput) {
   // Validate denom and symbol characters
@@ -12,6 +12,9 @@ import { randomBytes } from 'crypto';
 import { addApproval as addApprovalToSession, getOrCreateSession } from '../../session/sessionState.js';
 import { ensureBb1, ensureBb1ListId } from '../../sdk/addressUtils.js';
 import { getCoinDetails } from '../../sdk/coinRegistry.js';
+import { getCollectionMessageValue } from '../../session/sessionMessages.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 const MAX_UINT64 = '18446744073709551615';
 const FOREVER_TIMES = [{ start: '1', end: MAX_UINT64 }];
@@ -102,29 +105,29 @@ const MaxNumTransfersSchema = z.object({
   perFromAddressMaxNumTransfers: z.string().optional().default('0').describe('Max transfers per sender. "0" = unlimited. Used for restricted-transfer pattern.'),
   amountTrackerId: z.string().optional().default('').describe('Unique ID for tracking. Required if any limit is non-zero. Must be unique per approval.'),
   resetTimeIntervals: z.object({
-    startTime: z.string().optional().default('0'),
+    startTime: z.string().optional().default('0').describe('Start time in ms. "0" for genesis.'),
     intervalLength: z.string().optional().default('0').describe('"0" = no reset (permanent). "86400000" = daily reset (24h in ms).')
-  }).optional()
+  }).optional().describe('Reset schedule for counters.')
 });
 
 const ApprovalAmountsSchema = z.object({
   overallApprovalAmount: z.string().optional().default('0').describe('Total amount limit. "0" = unlimited.'),
   perInitiatedByAddressApprovalAmount: z.string().optional().default('0').describe('Amount limit per initiator.'),
-  perToAddressApprovalAmount: z.string().optional().default('0'),
-  perFromAddressApprovalAmount: z.string().optional().default('0'),
+  perToAddressApprovalAmount: z.string().optional().default('0').describe('Amount limit per recipient. "0" = unlimited.'),
+  perFromAddressApprovalAmount: z.string().optional().default('0').describe('Amount limit per sender. "0" = unlimited.'),
   amountTrackerId: z.string().optional().default('').describe('Unique tracking ID. Required if any amount is non-zero.'),
   resetTimeIntervals: z.object({
-    startTime: z.string().optional().default('0'),
+    startTime: z.string().optional().default('0').describe('"0" for genesis.'),
     intervalLength: z.string().optional().default('0').describe('"0" = no reset. "86400000" = daily reset.')
   }).optional()
 });
 
 const PredeterminedBalancesSchema = z.object({
-  manualBalances: z.array(BalanceSchema).optional().default([]),
+  manualBalances: z.array(BalanceSchema).optional().default([]).describe('Fixed balance sets. Usually empty [].'),
   incrementedBalances: z.object({
     startBalances: z.array(BalanceSchema).describe('Starting balances for the first transfer.'),
     incrementTokenIdsBy: z.string().describe('"1" for NFTs (sequential IDs). "0" for subscriptions/fungible.'),
-    incrementOwnershipTimesBy: z.string().optional().default('0'),
+    incrementOwnershipTimesBy: z.string().optional().default('0').describe('Usually "0". Non-zero is MUTUALLY EXCLUSIVE with durationFromTimestamp.'),
     durationFromTimestamp: z.string().optional().default('0')
       .describe('Subscription duration in ms. "0" = disabled. "2592000000" = 30 days. MUST be non-zero for subscriptions. MUTUALLY EXCLUSIVE with recurringOwnershipTimes and incrementOwnershipTimesBy.'),
     allowOverrideTimestamp: z.boolean().optional().default(false)
@@ -134,12 +137,12 @@ const PredeterminedBalancesSchema = z.object({
       intervalLength: z.string().optional().default('0'),
       chargePeriodLength: z.string().optional().default('0')
     }).optional().describe('MUST be all zeros if using durationFromTimestamp. Mutually exclusive.'),
-    allowOverrideWithAnyValidToken: z.boolean().optional().default(false),
+    allowOverrideWithAnyValidToken: z.boolean().optional().default(false).describe('Allow any valid token ID. Default false.'),
     allowAmountScaling: z.boolean().optional().default(false)
       .describe('When true, transfers can be any integer multiple of startBalances. ALL other increment/override fields MUST be "0"/false. coinTransfers scale proportionally.'),
     maxScalingMultiplier: z.string().optional().default('0')
       .describe('MUST be > "0" when allowAmountScaling is true. Caps the multiplier per transfer. Use large value (e.g. "18446744073709551615") for effectively unlimited.')
-  }).optional(),
+  }).passthrough().optional().describe('Sequential/incremented balance config.'),
   orderCalculationMethod: z.object({
     useOverallNumTransfers: z.boolean().optional().default(true).describe('Most common. Sequential based on overall count.'),
     usePerToAddressNumTransfers: z.boolean().optional().default(false),
@@ -156,7 +159,7 @@ const MustOwnTokensSchema = z.object({
   ownershipTimes: z.array(UintRangeSchema).describe('When ownership must be valid.'),
   tokenIds: z.array(UintRangeSchema).describe('Which token IDs to check.'),
   overrideWithCurrentTime: z.boolean().optional().default(true).describe('Use current block time for ownership check. true for expiring tokens (2FA).'),
-  mustSatisfyForAllAssets: z.boolean().optional().default(false),
+  mustSatisfyForAllAssets: z.boolean().optional().default(false).describe('Must own all vs any. Default false.'),
   ownershipCheckParty: z.enum(['initiator', 'sender', 'recipient']).optional().default('initiator')
     .describe('"initiator" = person starting the transfer. Most common for token gating.')
 });
@@ -203,15 +206,15 @@ export const addApprovalSchema = z.object({
     requireFromDoesNotEqualInitiatedBy: z.boolean().optional().default(false)
       .describe('Sender must NOT equal initiator.'),
     autoDeletionOptions: z.object({
-      afterOneUse: z.boolean().optional().default(false),
+      afterOneUse: z.boolean().optional().default(false).describe('Delete approval after one use.'),
       allowPurgeIfExpired: z.boolean().optional().default(false).describe('MUST be true for Custom-2FA tokens.')
-    }).optional(),
-    userRoyalties: z.any().optional().describe('Royalty requirements. Advanced — use search_knowledge_base for details.'),
+    }).optional().describe('Auto-deletion rules.'),
+    userRoyalties: z.record(z.any()).optional().describe('Royalty requirements. Advanced — use search_knowledge_base for details.'),
     dynamicStoreChallenges: z.array(z.any()).optional().describe('Dynamic store checks. Advanced — use search_knowledge_base for details.'),
     evmQueryChallenges: z.array(z.any()).optional().describe('EVM contract query requirements. Advanced — use search_knowledge_base for details.'),
     votingChallenges: z.array(z.any()).optional().describe('Multi-sig voting requirements. Supports resetAfterExecution (bool, resets votes after quorum met) and delayAfterQuorum (Uint ms, delay before execution). Advanced — use search_knowledge_base for details.'),
     ethSignatureChallenges: z.array(z.any()).optional().describe('ETH signature requirements. Advanced — use search_knowledge_base for details.'),
-    altTimeChecks: z.any().optional().describe('Offline time blocking. Supports offlineHours (0-23), offlineDays (0=Sun-6=Sat), offlineMonths (1-12), offlineDaysOfMonth (1-31), offlineWeeksOfYear (ISO 1-52), timezoneOffsetMinutes (Uint), timezoneOffsetNegative (bool). Advanced — use search_knowledge_base for details.'),
+    altTimeChecks: z.record(z.any()).optional().describe('Offline time blocking. Supports offlineHours (0-23), offlineDays (0=Sun-6=Sat), offlineMonths (1-12), offlineDaysOfMonth (1-31), offlineWeeksOfYear (ISO 1-52), timezoneOffsetMinutes (Uint), timezoneOffsetNegative (bool). Advanced — use search_knowledge_base for details.'),
     userApprovalSettings: z.object({
       allowedDenoms: z.array(z.string()).optional().describe('Restrict which coin denominations can be used in user-level coinTransfers.'),
       disableUserCoinTransfers: z.boolean().optional().describe('If true, disable user-level coin transfers entirely for this approval.'),
@@ -219,204 +222,30 @@ export const addApprovalSchema = z.object({
     senderChecks: z.any().optional().describe('Sender address validation. Advanced — use search_knowledge_base for details.'),
     recipientChecks: z.any().optional().describe('Recipient address validation. Advanced — use search_knowledge_base for details.'),
     initiatorChecks: z.any().optional().describe('Initiator address validation. Advanced — use search_knowledge_base for details.')
-  }).optional().describe('Conditions for this approval. Only include non-default fields — omit anything that is false, "0", or [].')
+  }).passthrough().optional().describe('Conditions for this approval. Only include non-default fields — omit anything that is false, "0", or [].')
 });
 
 export type AddApprovalInput = z.infer<typeof addApprovalSchema>;
 
-export const addApprovalTool = {
+export const addApprovalResultSchema = toolResult({
+  approvalId: z.string().optional(),
+  message: z.string().optional(),
+  claimSecrets: z.array(z.object({
+    pluginId: z.string(),
+    label: z.string().optional(),
+    seedCode: z.string().optional(),
+    numCodes: z.number().optional()
+  })).optional().describe('Secrets generated for claim plugins — store them, they are needed to distribute codes')
+});
+
+export const addApprovalTool = defineTool({
   name: 'add_approval',
   description: 'Add a collection approval to the session. Each approval defines WHO can transfer WHAT tokens WHEN and under WHAT conditions. Use one approval per purpose with clear approvalIds. Remove + re-add with same approvalId = replace in-place (preserves order). Only include non-default fields in approvalCriteria.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string', description: 'Creator address (bb1... or 0x...).' },
-      approvalId: { type: 'string', description: 'Unique approval ID. Use descriptive names: "public-mint", "manager-mint", "subscription-mint", "transferable", "smart-token-backing", "smart-token-unbacking".' },
-      fromListId: { type: 'string', description: 'Who can send. "Mint" for minting. "!Mint" for post-mint transfers. bb1... or 0x... for specific address.' },
-      toListId: { type: 'string', description: 'Who can receive. Default "All".' },
-      initiatedByListId: { type: 'string', description: 'Who can initiate. "All" for public, bb1... or 0x... for manager-only.' },
-      tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] }, description: 'Token ID ranges.' },
-      transferTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-      ownershipTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-      approvalCriteria: {
-        type: 'object',
-        description: 'Conditions. Only include non-default fields. overridesFromOutgoingApprovals MUST be true for Mint approvals. predeterminedBalances and approvalAmounts are INCOMPATIBLE.',
-        properties: {
-          overridesFromOutgoingApprovals: { type: 'boolean', description: 'MUST be true for Mint approvals (Mint has no outgoing approvals to check).' },
-          overridesToIncomingApprovals: { type: 'boolean', description: 'Bypass recipient incoming approvals. Almost always false. Only true for forced transfers.' },
-          coinTransfers: {
-            type: 'array',
-            description: 'Payment requirements per transfer.',
-            items: {
-              type: 'object',
-              properties: {
-                to: { type: 'string', description: 'Recipient address (bb1... or 0x...). Who receives the payment.' },
-                coins: {
-                  type: 'array',
-                  description: 'Coins to transfer as payment.',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      denom: { type: 'string', description: 'Token denomination. Use full IBC denom (e.g., "ibc/A4DB..." for ATOM). "ubadge" for BADGE. Use lookup_token_info to resolve symbols.' },
-                      amount: { type: 'string', description: 'Amount in base units as string (e.g., 5 ATOM = "5000000" with 6 decimals).' }
-                    },
-                    required: ['denom', 'amount']
-                  }
-                },
-                overrideFromWithApproverAddress: { type: 'boolean', description: 'If true, payment comes from the mint escrow address (escrow payout pattern). Default false.' },
-                overrideToWithInitiator: { type: 'boolean', description: 'If true, payment goes to the person initiating the transfer (escrow refund pattern). Default false.' }
-              },
-              required: ['to', 'coins']
-            }
-          },
-          maxNumTransfers: {
-            type: 'object',
-            description: 'Limit transfer count. Use for NFT minting caps, one-per-user limits.',
-            properties: {
-              overallMaxNumTransfers: { type: 'string', description: 'Total transfer count limit across all users. "0" = unlimited.' },
-              perInitiatedByAddressMaxNumTransfers: { type: 'string', description: 'Max transfers per initiator. "0" = unlimited. "1" for one-per-user mints.' },
-              perToAddressMaxNumTransfers: { type: 'string', description: 'Max transfers per recipient. "0" = unlimited.' },
-              perFromAddressMaxNumTransfers: { type: 'string', description: 'Max transfers per sender. "0" = unlimited. Used for restricted-transfer pattern.' },
-              amountTrackerId: { type: 'string', description: 'Unique ID for tracking. Required if any limit is non-zero. Must be unique per approval.' },
-              resetTimeIntervals: {
-                type: 'object',
-                description: 'Reset schedule for counters.',
-                properties: {
-                  startTime: { type: 'string', description: 'Start time in ms. "0" for genesis.' },
-                  intervalLength: { type: 'string', description: '"0" = no reset (permanent). "86400000" = daily reset (24h in ms).' }
-                }
-              }
-            }
-          },
-          approvalAmounts: {
-            type: 'object',
-            description: 'Limit total amount transferred. For fungible token supply caps. INCOMPATIBLE with predeterminedBalances — use one or the other.',
-            properties: {
-              overallApprovalAmount: { type: 'string', description: 'Total amount limit. "0" = unlimited.' },
-              perInitiatedByAddressApprovalAmount: { type: 'string', description: 'Amount limit per initiator. "0" = unlimited.' },
-              perToAddressApprovalAmount: { type: 'string', description: 'Amount limit per recipient. "0" = unlimited.' },
-              perFromAddressApprovalAmount: { type: 'string', description: 'Amount limit per sender. "0" = unlimited.' },
-              amountTrackerId: { type: 'string', description: 'Unique tracking ID. Required if any amount is non-zero.' },
-              resetTimeIntervals: {
-                type: 'object',
-                properties: {
-                  startTime: { type: 'string', description: '"0" for genesis.' },
-                  intervalLength: { type: 'string', description: '"0" = no reset. "86400000" = daily.' }
-                }
-              }
-            }
-          },
-          predeterminedBalances: {
-            type: 'object',
-            description: 'Pre-define exact tokens per transfer. For NFT sequential minting and subscriptions. INCOMPATIBLE with approvalAmounts — use one or the other.',
-            properties: {
-              manualBalances: { type: 'array', description: 'Fixed balance sets. Usually empty [].' },
-              incrementedBalances: {
-                type: 'object',
-                description: 'Sequential/incremented balance config.',
-                properties: {
-                  startBalances: {
-                    type: 'array',
-                    description: 'Starting balances for the first transfer.',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        amount: { type: 'string' },
-                        tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                        ownershipTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } }
-                      },
-                      required: ['amount', 'tokenIds', 'ownershipTimes']
-                    }
-                  },
-                  incrementTokenIdsBy: { type: 'string', description: '"1" for NFTs (sequential IDs). "0" for subscriptions/fungible.' },
-                  incrementOwnershipTimesBy: { type: 'string', description: 'Usually "0". Non-zero is MUTUALLY EXCLUSIVE with durationFromTimestamp.' },
-                  durationFromTimestamp: { type: 'string', description: 'Subscription duration in ms. "0" = disabled. "2592000000" = 30 days. MUST be non-zero for subscriptions. MUTUALLY EXCLUSIVE with incrementOwnershipTimesBy and non-zero recurringOwnershipTimes.' },
-                  allowOverrideTimestamp: { type: 'boolean', description: 'MUST be true for subscriptions (each mint gets its own start time).' },
-                  recurringOwnershipTimes: {
-                    type: 'object',
-                    description: 'MUST be all zeros if using durationFromTimestamp. Mutually exclusive.',
-                    properties: {
-                      startTime: { type: 'string' },
-                      intervalLength: { type: 'string' },
-                      chargePeriodLength: { type: 'string' }
-                    }
-                  },
-                  allowOverrideWithAnyValidToken: { type: 'boolean', description: 'Allow any valid token ID. Default false.' }
-                }
-              },
-              orderCalculationMethod: {
-                type: 'object',
-                description: 'EXACTLY ONE method must be true. Default: useOverallNumTransfers.',
-                properties: {
-                  useOverallNumTransfers: { type: 'boolean', description: 'Most common. Sequential based on overall count.' },
-                  usePerToAddressNumTransfers: { type: 'boolean' },
-                  usePerFromAddressNumTransfers: { type: 'boolean' },
-                  usePerInitiatedByAddressNumTransfers: { type: 'boolean' },
-                  useMerkleChallengeLeafIndex: { type: 'boolean' },
-                  challengeTrackerId: { type: 'string' }
-                }
-              }
-            }
-          },
-          mustOwnTokens: {
-            type: 'array',
-            description: 'Token gating — require ownership of specific tokens. Used for 2FA on unbacking, whitelist badges, etc.',
-            items: {
-              type: 'object',
-              properties: {
-                collectionId: { type: 'string', description: 'Collection ID to check ownership of.' },
-                amountRange: {
-                  type: 'object',
-                  description: 'Required amount range. Usually {"start":"1","end":"18446744073709551615"}.',
-                  properties: { start: { type: 'string' }, end: { type: 'string' } },
-                  required: ['start', 'end']
-                },
-                ownershipTimes: { type: 'array', description: 'When ownership must be valid.', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                tokenIds: { type: 'array', description: 'Which token IDs to check.', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                overrideWithCurrentTime: { type: 'boolean', description: 'Use current block time for ownership check. true for expiring tokens (2FA).' },
-                mustSatisfyForAllAssets: { type: 'boolean', description: 'Must own all vs any. Default false.' },
-                ownershipCheckParty: { type: 'string', description: '"initiator" (most common for token gating), "sender", or "recipient".' }
-              },
-              required: ['collectionId', 'amountRange', 'ownershipTimes', 'tokenIds']
-            }
-          },
-          merkleChallenges: { type: 'array', description: 'Merkle proof requirements for claim-based distribution. Use lookup_claim_plugins for schema.' },
-          mustPrioritize: { type: 'boolean', description: 'MUST be true for IBC backed/unbacking and cosmos wrapper operations.' },
-          allowBackedMinting: { type: 'boolean', description: 'MUST be true for IBC backed/unbacking operations (smart tokens).' },
-          allowSpecialWrapping: { type: 'boolean', description: 'MUST be true for cosmos wrapper path approvals.' },
-          requireToEqualsInitiatedBy: { type: 'boolean', description: 'Recipient must equal initiator. Used for self-mint patterns.' },
-          requireFromEqualsInitiatedBy: { type: 'boolean', description: 'Sender must equal initiator.' },
-          requireToDoesNotEqualInitiatedBy: { type: 'boolean', description: 'Recipient must NOT equal initiator.' },
-          requireFromDoesNotEqualInitiatedBy: { type: 'boolean', description: 'Sender must NOT equal initiator.' },
-          autoDeletionOptions: {
-            type: 'object',
-            description: 'Auto-deletion rules.',
-            properties: {
-              afterOneUse: { type: 'boolean', description: 'Delete approval after one use.' },
-              allowPurgeIfExpired: { type: 'boolean', description: 'MUST be true for Custom-2FA tokens.' }
-            }
-          },
-          userRoyalties: { type: 'object', description: 'Royalty requirements. Advanced — use search_knowledge_base for details.' },
-          dynamicStoreChallenges: { type: 'array', description: 'Dynamic store checks. Advanced — use search_knowledge_base for details.' },
-          evmQueryChallenges: { type: 'array', description: 'EVM contract query requirements. Advanced — use search_knowledge_base for details.' },
-          votingChallenges: { type: 'array', description: 'Multi-sig voting requirements. Supports resetAfterExecution and delayAfterQuorum. Advanced — use search_knowledge_base for details.' },
-          ethSignatureChallenges: { type: 'array', description: 'ETH signature requirements. Advanced — use search_knowledge_base for details.' },
-          altTimeChecks: { type: 'object', description: 'Offline time blocking. Supports offlineHours, offlineDays, offlineMonths, offlineDaysOfMonth, offlineWeeksOfYear, timezoneOffsetMinutes, timezoneOffsetNegative. Advanced — use search_knowledge_base for details.' },
-          userApprovalSettings: {
-            type: 'object',
-            description: 'User-level approval settings (v29). Controls allowed denoms and user coin transfer behavior.',
-            properties: {
-              allowedDenoms: { type: 'array', items: { type: 'string' }, description: 'Restrict which coin denominations can be used in user-level coinTransfers.' },
-              disableUserCoinTransfers: { type: 'boolean', description: 'If true, disable user-level coin transfers entirely for this approval.' }
-            }
-          }
-        }
-      }
-    },
-    required: ['approvalId', 'fromListId']
-  }
-};
+  schema: addApprovalSchema,
+  handler: handleAddApproval,
+  resultSchema: addApprovalResultSchema,
+  mutatesSession: true
+});
 
 export function handleAddApproval(input: AddApprovalInput) {
   try {
@@ -435,7 +264,7 @@ export function handleAddApproval(input: AddApprovalInput) {
     const session = getOrCreateSession(input.sessionId, input.creatorAddress);
 
     // Capture existing approval's claim secrets before replacement (for seedCode stability on refine)
-    const existingApprovals: any[] = session.messages[0].value.collectionApprovals || [];
+    const existingApprovals: any[] = getCollectionMessageValue(session.messages).collectionApprovals || [];
     const existingApproval = existingApprovals.find((a: any) => a.approvalId === input.approvalId);
 
     // The LLM is responsible for generating unique IDs using the generate_unique_id tool.
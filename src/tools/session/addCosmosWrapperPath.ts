@@ -20,6 +20,8 @@
 
 import { z } from 'zod';
 import { addCosmosWrapperPath as addCosmosWrapperPathToSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 const VALID_CHARS = /^[a-zA-Z_{}-]+$/;
 
@@ -32,9 +34,9 @@ export const addCosmosWrapperPathSchema = z.object({
     conversion: z.object({
       sideA: z.object({
         amount: z.string().describe('Amount of wrapped coin per conversion unit. Usually "1".')
-      }),
+      }).describe('Wrapped ICS20 coin side.'),
       sideB: z.array(z.any()).describe('Balances[] defining which tokens participate. Each: { amount: "1", tokenIds: [{start,end}], ownershipTimes: [{start,end}] }.')
-    }),
+    }).describe('Conversion between wrapped ICS20 coin and token.'),
     denomUnits: z.array(z.object({
       decimals: z.string().describe('Display decimals for this unit (e.g., "6"). Min 1, max 18.'),
       symbol: z.string().describe('Display symbol (e.g., "TOKEN"). Must only contain a-zA-Z, _, {, }, -.'),
@@ -50,90 +52,25 @@ export const addCosmosWrapperPathSchema = z.object({
       uri: z.string().optional().default(''),
       customData: z.string().optional().default(''),
       image: z.string().optional().describe('Token logo URL. Recommended for display.')
-    }).optional()
-  })
+    }).optional().describe('Path-level metadata.')
+  }).describe('Wrapper path config. Denom creates a NEW ICS20 coin. Wrapper address is auto-generated from denom.')
 });
 
 export type AddCosmosWrapperPathInput = z.infer<typeof addCosmosWrapperPathSchema>;
 
-export const addCosmosWrapperPathTool = {
+export const addCosmosWrapperPathResultSchema = toolResult({
+  denom: z.string().optional(),
+  note: z.string().optional()
+});
+
+export const addCosmosWrapperPathTool = defineTool({
   name: 'add_cosmos_wrapper_path',
   description: 'Add a Cosmos coin wrapper path for wrapping BitBadges tokens to a NEW ICS20 denomination. This mints/burns a custom ICS20 coin — NOT wrapping to an existing coin like USDC. ADVANCED: most use cases should use smart tokens (backed by existing coins), liquidity pools, or coinTransfers instead. Approvals for the wrapper address need allowSpecialWrapping: true and mustPrioritize: true.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      wrapperPath: {
-        type: 'object',
-        description: 'Wrapper path config. Denom creates a NEW ICS20 coin. Wrapper address is auto-generated from denom.',
-        properties: {
-          denom: { type: 'string', description: 'Custom denom (e.g., "utoken"). Creates NEW ICS20 coin — NOT an existing one. Must only contain a-zA-Z, _, {, }, -.' },
-          symbol: { type: 'string', description: 'Base unit symbol. Usually same as denom.' },
-          conversion: {
-            type: 'object',
-            description: 'Conversion between wrapped ICS20 coin and token.',
-            properties: {
-              sideA: {
-                type: 'object',
-                description: 'Wrapped ICS20 coin side.',
-                properties: { amount: { type: 'string', description: 'Amount of wrapped coin per conversion unit. Usually "1".' } },
-                required: ['amount']
-              },
-              sideB: {
-                type: 'array',
-                description: 'Token side. Array of Balance objects defining which tokens participate.',
-                items: {
-                  type: 'object',
-                  properties: {
-                    amount: { type: 'string', description: 'Token amount. Usually "1".' },
-                    tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                    ownershipTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] }, description: 'Usually FOREVER: [{"start":"1","end":"18446744073709551615"}]' }
-                  },
-                  required: ['amount', 'tokenIds', 'ownershipTimes']
-                }
-              }
-            },
-            required: ['sideA', 'sideB']
-          },
-          denomUnits: {
-            type: 'array',
-            description: 'Display units. At least one with isDefaultDisplay: true recommended.',
-            items: {
-              type: 'object',
-              properties: {
-                decimals: { type: 'string', description: 'Display decimals (e.g., "6"). Min 1, max 18.' },
-                symbol: { type: 'string', description: 'Display symbol (e.g., "TOKEN"). Must only contain a-zA-Z, _, {, }, -.' },
-                isDefaultDisplay: { type: 'boolean', description: 'Whether this is the default display unit.' },
-                metadata: {
-                  type: 'object',
-                  properties: {
-                    uri: { type: 'string' },
-                    customData: { type: 'string' },
-                    image: { type: 'string', description: 'Token logo URL. REQUIRED.' }
-                  }
-                }
-              },
-              required: ['decimals', 'symbol']
-            }
-          },
-          allowOverrideWithAnyValidToken: { type: 'boolean', description: 'If true, users can choose any valid token ID to wrap. Default false.' },
-          metadata: {
-            type: 'object',
-            description: 'Path-level metadata.',
-            properties: {
-              uri: { type: 'string' },
-              customData: { type: 'string' },
-              image: { type: 'string', description: 'Token logo URL. Recommended for display.' }
-            }
-          }
-        },
-        required: ['denom', 'symbol', 'conversion', 'denomUnits']
-      }
-    },
-    required: ['wrapperPath']
-  }
-};
+  schema: addCosmosWrapperPathSchema,
+  handler: handleAddCosmosWrapperPath,
+  resultSchema: addCosmosWrapperPathResultSchema,
+  mutatesSession: true
+});
 
 export function handleAddCosmosWrapperPath(input: AddCosmosWrapperPathInput) {
   const denom = input.wrapperPath.denom;
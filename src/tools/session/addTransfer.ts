@@ -1,8 +1,8 @@
 /**
  * add_transfer — Append a MsgTransferTokens to the session.
  *
- * Used for auto-mint flows: after building the collection (messages[0]),
- * append transfer messages to mint tokens to specific addresses on creation.
+ * Used for auto-mint flows: after building the collection, append transfer
+ * messages to the end of the batch to mint tokens to specific addresses on creation.
  *
  * The transfer's collectionId is set to "0" (references the just-created collection).
  * The creator is automatically set from the session's creator address.
@@ -10,6 +10,8 @@
 import { z } from 'zod';
 import { addTransfer } from '../../session/sessionState.js';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 const MAX_UINT64 = '18446744073709551615';
 
@@ -46,62 +48,25 @@ export const addTransferSchema = z.object({
 
 export type AddTransferInput = z.infer<typeof addTransferSchema>;
 
-export const addTransferTool = {
+export const addTransferResultSchema = toolResult({
+  messageIndex: z.number().optional().describe('Index of the new MsgTransferTokens in the session batch'),
+  note: z.string().optional()
+});
+
+export const addTransferTool = defineTool({
   name: 'add_transfer',
-  description: 'Append a MsgTransferTokens to the session (after the collection message). Use this for auto-mint: mint tokens to specific addresses at creation time. The collectionId is automatically set to "0" (the just-created collection). Requires a matching mint approval in the collection.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID. Omit for default session.' },
-      transfers: {
-        type: 'array',
-        description: 'Array of transfers. Each specifies from/to/balances and which approval to use.',
-        items: {
-          type: 'object',
-          properties: {
-            from: { type: 'string', description: 'Sender. Use "Mint" to mint new tokens.' },
-            toAddresses: { type: 'array', items: { type: 'string' }, description: 'Recipient addresses (bb1... or 0x...).' },
-            balances: {
-              type: 'array',
-              description: 'What to transfer: amount × tokenIds × ownershipTimes.',
-              items: {
-                type: 'object',
-                properties: {
-                  amount: { type: 'string' },
-                  tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                  ownershipTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } }
-                },
-                required: ['amount', 'tokenIds']
-              }
-            },
-            prioritizedApprovals: {
-              type: 'array',
-              description: 'Which approval(s) authorize this transfer. For minting, reference the mint approval ID.',
-              items: {
-                type: 'object',
-                properties: {
-                  approvalId: { type: 'string' },
-                  approverAddress: { type: 'string' }
-                },
-                required: ['approvalId']
-              }
-            },
-            memo: { type: 'string' }
-          },
-          required: ['from', 'toAddresses', 'balances']
-        }
-      }
-    },
-    required: ['transfers']
-  }
-};
+  description: 'Append a MsgTransferTokens to the end of the session batch (reorder with move_message). Use this for auto-mint: mint tokens to specific addresses at creation time. The collectionId is automatically set to "0" (the just-created collection). Requires a matching mint approval in the collection.',
+  schema: addTransferSchema,
+  handler: handleAddTransfer,
+  resultSchema: addTransferResultSchema,
+  mutatesSession: true
+});
 
-export function handleAddTransfer(input: Record<string, any>): Record<string, any> {
+export function handleAddTransfer(input: AddTransferInput): Record<string, any> {
   try {
-    const parsed = addTransferSchema.parse(input);
 
     const transferValue = {
-      transfers: parsed.transfers.map((t) => ({
+      transfers: input.transfers.map((t) => ({
         from: t.from === 'Mint' ? 'Mint' : ensureBb1(t.from),
         toAddresses: t.toAddresses.map((a: string) => ensureBb1(a)),
         balances: t.balances,
@@ -111,12 +76,12 @@ export function handleAddTransfer(input: Record<string, any>): Record<string, an
       }))
     };
 
-    const { index } = addTransfer(parsed.sessionId, transferValue);
+    const { index } = addTransfer(input.sessionId, transferValue);
 
     return {
       success: true,
       messageIndex: index,
-      note: `Added MsgTransferTokens at messages[${index}]. CollectionId set to "0" (references the collection being created in messages[0]).`
+      note: `Added MsgTransferTokens at messages[${index}]. CollectionId set to "0" (references the collection being created in this batch).`
     };
   } catch (error: any) {
     return { success: false, error: error.message };
@@ -0,0 +1,53 @@
+/**
+ * apply_session_patch — Edit the collection with RFC 6902 JSON Patch operations.
+ *
+ * For deep tweaks (one approvalCriteria field, one permission entry) that would
+ * otherwise need a remove_approval + add_approval round trip.
+ */
+import { z } from 'zod';
+import { applySessionPatch } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+const PatchOperationSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+  path: z.string().describe('JSON Pointer into the collection value. Array items can be addressed by ID, e.g. /collectionApprovals/<approvalId>/...'),
+  value: z.any().optional().describe('Value for add / replace / test.'),
+  from: z.string().optional().describe('Source pointer for move / copy.')
+});
+
+export const applySessionPatchSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  operations: z.array(PatchOperationSchema).min(1).describe('RFC 6902 operations, applied in order, all-or-nothing.')
+});
+
+export type ApplySessionPatchInput = z.infer<typeof applySessionPatchSchema>;
+
+export const applySessionPatchResultSchema = toolResult({
+  changedFields: z.array(z.string()).optional(),
+  note: z.string().optional()
+});
+
+export const applySessionPatchTool = defineTool({
+  name: 'apply_session_patch',
+  description: 'Apply RFC 6902 JSON Patch operations (add, remove, replace, move, copy, test) to the session\'s collection value (MsgUniversalUpdateCollection). Use for deep edits like one approvalCriteria field instead of remove_approval + add_approval. Array items can be addressed by ID instead of index: /collectionApprovals/<approvalId>/..., /aliasPathsToAdd/<denom>/..., /tokenMetadata/<start-end>/... (use approvalId=<id> for numeric IDs). All-or-nothing; numbers are stringified and 0x addresses converted to bb1. Undoable.',
+  schema: applySessionPatchSchema,
+  handler: handleApplySessionPatch,
+  resultSchema: applySessionPatchResultSchema,
+  mutatesSession: true
+});
+
+export function handleApplySessionPatch(input: ApplySessionPatchInput): Record<string, any> {
+  try {
+    const { changedFields } = applySessionPatch(input.sessionId, input.operations);
+    return {
+      success: true,
+      changedFields,
+      note: changedFields.length > 0
+        ? `Patched ${changedFields.join(', ')}.`
+        : 'Patch applied but nothing changed.'
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
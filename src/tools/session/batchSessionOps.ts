@@ -0,0 +1,145 @@
+/**
+ * batch_session_ops — Run several session tool calls as one all-or-nothing transaction.
+ *
+ * Every operation is validated before any of them runs; if one fails while running,
+ * the session (and its undo history) is rolled back to where it was before the batch.
+ */
+import { z } from 'zod';
+import { runSessionTransaction } from '../../session/sessionState.js';
+import { defineTool, type ToolDefinition } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
+
+/** Session tools that can't run inside a batch (history moves and nested batches) */
+const EXCLUDED_TOOLS = new Set(['undo', 'redo', 'batch_session_ops']);
+
+const BatchOperationSchema = z.object({
+  tool: z.string().describe('Session tool to call, e.g. "set_standards" or "add_approval".'),
+  args: z.record(z.any()).optional().describe('The tool\'s arguments. sessionId is taken from the batch.')
+});
+
+export const batchSessionOpsSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  operations: z.array(BatchOperationSchema).min(1).describe('Session tool calls, run in order.')
+});
+
+export type BatchSessionOpsInput = z.infer<typeof batchSessionOpsSchema>;
+
+const operationResultSchema = z.object({
+  index: z.number(),
+  tool: z.string(),
+  status: z.enum(['applied', 'failed', 'rolled_back', 'skipped'])
+    .describe('rolled_back: ran, then undone because a later operation failed; skipped: never ran'),
+  result: jsonObjectSchema.optional().describe('The tool\'s own result'),
+  error: z.string().optional()
+});
+
+export const batchSessionOpsResultSchema = toolResult({
+  rolledBack: z.boolean().optional().describe('true when an operation failed and the session was restored'),
+  failedIndex: z.number().optional().describe('Index of the operation that failed'),
+  operations: z.array(operationResultSchema).optional()
+});
+
+type OperationResult = z.infer<typeof operationResultSchema>;
+
+type ToolLookup = (name: string) => ToolDefinition | undefined;
+
+/**
+ * Check every operation up front, so a typo in operation 7 fails before operation 1 runs.
+ * Returns the first problem found, or null.
+ */
+function findInvalidOperation(
+  operations: BatchSessionOpsInput['operations'],
+  sessionId: string | undefined,
+  lookup: ToolLookup
+): { index: number; error: string } | null {
+  for (const [index, op] of operations.entries()) {
+    const tool = lookup(op.tool);
+    if (!tool) {
+      return { index, error: `Unknown tool: ${op.tool}` };
+    }
+    if (!tool.mutatesSession || EXCLUDED_TOOLS.has(tool.name)) {
+      return { index, error: `${op.tool} can't be batched — only session mutation tools (set_*, add_*, remove_*, ...) other than undo/redo.` };
+    }
+    const opSessionId = op.args?.sessionId;
+    if (opSessionId !== undefined && opSessionId !== sessionId) {
+      return { index, error: `Operation targets session "${opSessionId}" but the batch targets "${sessionId ?? 'default'}". Set sessionId on the batch only.` };
+    }
+    const parsed = tool.schema.safeParse({ ...op.args, sessionId });
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+      return { index, error: `Invalid arguments for ${op.tool}: ${issues.join('; ')}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the batch tool. It dispatches to other registry tools, so the registry passes
+ * in its lookup rather than this module importing the registry.
+ */
+export function createBatchSessionOpsTool(lookup: ToolLookup) {
+  async function handleBatchSessionOps(input: BatchSessionOpsInput): Promise<Record<string, any>> {
+    try {
+      const { sessionId, operations } = input;
+      const results: OperationResult[] = operations.map((op, index) => ({ index, tool: op.tool, status: 'skipped' }));
+
+      const invalid = findInvalidOperation(operations, sessionId, lookup);
+      if (invalid) {
+        results[invalid.index] = { ...results[invalid.index], status: 'failed', error: invalid.error };
+        return {
+          success: false,
+          error: `Operation ${invalid.index} (${operations[invalid.index].tool}): ${invalid.error}`,
+          rolledBack: false,
+          failedIndex: invalid.index,
+          operations: results
+        };
+      }
+
+      const step = { tool: 'batch_session_ops', args: { operations: operations.map((op) => op.tool) } };
+      try {
+        await runSessionTransaction(sessionId, step, async () => {
+          for (const [index, op] of operations.entries()) {
+            const tool = lookup(op.tool)!;
+            let result: any;
+            try {
+              result = await tool.handler(tool.schema.parse({ ...op.args, sessionId }));
+            } catch (error: any) {
+              result = { success: false, error: error.message };
+            }
+            if (result?.success === false) {
+              results[index] = { ...results[index], status: 'failed', result, error: result.error || 'Operation failed' };
+              throw new Error(`Operation ${index} (${op.tool}): ${results[index].error}`);
+            }
+            results[index] = { ...results[index], status: 'applied', result };
+          }
+        });
+      } catch (error: any) {
+        // The transaction has restored the session; report what ran as rolled back
+        for (const r of results) {
+          if (r.status === 'applied') r.status = 'rolled_back';
+        }
+        const failedIndex = results.findIndex((r) => r.status === 'failed');
+        return {
+          success: false,
+          error: `Batch rolled back. ${error.message}`,
+          rolledBack: true,
+          ...(failedIndex >= 0 ? { failedIndex } : {}),
+          operations: results
+        };
+      }
+
+      return { success: true, rolledBack: false, operations: results };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  return defineTool({
+    name: 'batch_session_ops',
+    description: 'Run several session tool calls (set_*, add_*, remove_*, move_*, apply_session_patch, ...) in order as one transaction. Every operation is validated first; if any operation fails, the session is rolled back to its state before the batch. Returns per-operation results. A successful batch is a single undo step. sessionId goes on the batch, not on each operation; undo and redo can\'t be batched.',
+    schema: batchSessionOpsSchema,
+    handler: handleBatchSessionOps,
+    resultSchema: batchSessionOpsResultSchema,
+    mutatesSession: true
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * compare_sessions — Structural diff between two sessions or snapshots.
+ */
+import { z } from 'zod';
+import { compareSessions } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
+
+export const compareSessionsSchema = z.object({
+  sessionId: z.string().describe('Base session or snapshot ID.'),
+  otherSessionId: z.string().describe('Session or snapshot ID to compare against the base.')
+});
+
+export type CompareSessionsInput = z.infer<typeof compareSessionsSchema>;
+
+export const compareSessionsResultSchema = toolResult({
+  identical: z.boolean().optional(),
+  approvals: jsonObjectSchema.optional().describe('collectionApprovals diff keyed by approvalId'),
+  permissions: jsonObjectSchema.optional().describe('Per permission type (only types that differ)'),
+  invariants: z.array(z.string()).optional(),
+  metadata: jsonObjectSchema.optional(),
+  paths: jsonObjectSchema.optional(),
+  otherFields: z.array(z.string()).optional(),
+  messagesChanged: z.boolean().optional(),
+  summary: z.array(z.string()).optional()
+});
+
+export const compareSessionsTool = defineTool({
+  name: 'compare_sessions',
+  description: 'Structurally compare two sessions or snapshots: approvals (keyed by approvalId), permissions (keyed by approvalId / token range), invariants, metadata (keyed by token range), and alias/wrapper paths (keyed by denom). "added" means present in otherSessionId but not in sessionId. Returns a readable summary plus the structured diff.',
+  schema: compareSessionsSchema,
+  handler: handleCompareSessions,
+  resultSchema: compareSessionsResultSchema
+});
+
+export function handleCompareSessions(input: CompareSessionsInput): Record<string, any> {
+  try {
+    const comparison = compareSessions(input.sessionId, input.otherSessionId);
+    return { success: true, ...comparison };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Live diagnostics for session mutations.
+ *
+ * Runs validate_transaction and verify_standards against the session before and
+ * after a session tool call and reports only what that call introduced (or fixed),
+ * so mistakes surface on the call that made them instead of at the end of a build.
+ */
+import { validateTransaction } from 'bitbadgesjs-sdk';
+import { verifyStandardsCompliance, type StandardViolation } from '../builders/verifyStandards.js';
+import { blankSession, getTransaction, hasSession, ensureStringNumbers } from '../../session/sessionState.js';
+
+export interface SessionDiagnostics {
+  /** Validation errors present after the call that weren't there before */
+  newErrors: string[];
+  /** Standards violations present after the call that weren't there before */
+  newStandardsViolations: StandardViolation[];
+  /** Errors + violations from before the call that are now gone */
+  resolved: number;
+  totals: { errors: number; standardsViolations: number };
+}
+
+interface DiagnosticsSnapshot {
+  errors: Map<string, string>;
+  violations: Map<string, StandardViolation>;
+}
+
+function snapshotDiagnostics(sessionId: string | undefined): DiagnosticsSnapshot {
+  const snapshot: DiagnosticsSnapshot = { errors: new Map(), violations: new Map() };
+  // A call that creates the session is compared against the blank template it starts from
+  const { baseline: _baseline, ...transaction } = hasSession(sessionId) ? getTransaction(sessionId) : blankSession('', '');
+  const tx = ensureStringNumbers(transaction);
+
+  for (const issue of validateTransaction(tx).issues) {
+    if (issue.severity !== 'error') continue;
+    snapshot.errors.set(JSON.stringify(issue), issue.message);
+  }
+  for (const violation of verifyStandardsCompliance(tx).violations) {
+    snapshot.violations.set(JSON.stringify(violation), violation);
+  }
+  return snapshot;
+}
+
+function diffDiagnostics(before: DiagnosticsSnapshot, after: DiagnosticsSnapshot): SessionDiagnostics {
+  const resolvedErrors = [...before.errors.keys()].filter((k) => !after.errors.has(k)).length;
+  const resolvedViolations = [...before.violations.keys()].filter((k) => !after.violations.has(k)).length;
+  return {
+    newErrors: [...after.errors].filter(([k]) => !before.errors.has(k)).map(([, message]) => message),
+    newStandardsViolations: [...after.violations].filter(([k]) => !before.violations.has(k)).map(([, v]) => v),
+    resolved: resolvedErrors + resolvedViolations,
+    totals: { errors: after.errors.size, standardsViolations: after.violations.size }
+  };
+}
+
+function attach(result: Record<string, any>, sessionId: string | undefined, before: DiagnosticsSnapshot | undefined): Record<string, any> {
+  // Failed calls don't change the session — nothing to report
+  if (!before || result?.success === false) return result;
+  try {
+    return { ...result, diagnostics: diffDiagnostics(before, snapshotDiagnostics(sessionId)) };
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Run a session tool handler and add a `diagnostics` block describing the validation
+ * errors and standards violations the call introduced. Diagnostics are best-effort:
+ * if validation itself throws, the handler's result is returned unchanged.
+ */
+export function withDiagnostics(sessionId: string | undefined, run: () => Record<string, any>): Record<string, any>;
+export function withDiagnostics(sessionId: string | undefined, run: () => Promise<Record<string, any>>): Promise<Record<string, any>>;
+export function withDiagnostics(
+  sessionId: string | undefined,
+  run: () => Record<string, any> | Promise<Record<string, any>>
+): Record<string, any> | Promise<Record<string, any>> {
+  let before: DiagnosticsSnapshot | undefined;
+  try {
+    before = snapshotDiagnostics(sessionId);
+  } catch {
+    before = undefined;
+  }
+  const result = run();
+  if (result instanceof Promise) {
+    return result.then((r) => attach(r, sessionId, before));
+  }
+  return attach(result, sessionId, before);
+}
@@ -0,0 +1,58 @@
+/**
+ * export_session — Write the session to a portable, versioned JSON document.
+ */
+import { z } from 'zod';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { exportSession } from '../../session/sessionState.js';
+import { sessionDocumentSchema, resolveSessionFilePath } from '../../session/sessionExport.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const exportSessionSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  includeSecrets: z.boolean().optional().default(false)
+    .describe('Include claim secrets (e.g. codes seedCode). Default false — secrets are redacted.'),
+  path: z.string().optional()
+    .describe('Write the document to this file (relative to BITBADGES_SESSION_EXPORT_DIR) instead of returning it inline.')
+});
+
+export type ExportSessionInput = z.infer<typeof exportSessionSchema>;
+
+export const exportSessionResultSchema = toolResult({
+  document: sessionDocumentSchema.optional().describe('The export document (when no path was given)'),
+  path: z.string().optional().describe('File the document was written to'),
+  secretsRedacted: z.boolean().optional(),
+  claimSecretCount: z.number().optional()
+});
+
+export const exportSessionTool = defineTool({
+  name: 'export_session',
+  description: 'Export the session (messages, metadataPlaceholders, update-flow state) as a versioned JSON document that import_session can load on another machine. Claim secrets generated by add_approval are redacted unless includeSecrets is true — only include them when the recipient needs to distribute the codes.',
+  schema: exportSessionSchema,
+  handler: handleExportSession,
+  resultSchema: exportSessionResultSchema,
+  filesystem: true
+});
+
+export function handleExportSession(input: ExportSessionInput): Record<string, any> {
+  try {
+    const document = exportSession(input.sessionId, input.includeSecrets);
+
+    if (input.path) {
+      const path = resolveSessionFilePath(input.path);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(document, null, 2), 'utf-8');
+      return {
+        success: true,
+        path,
+        secretsRedacted: document.secretsRedacted,
+        claimSecretCount: document.claimSecrets.length
+      };
+    }
+
+    return { success: true, document };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
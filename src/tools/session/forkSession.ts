@@ -0,0 +1,37 @@
+/**
+ * fork_session — Copy a session or snapshot into a new, independent session.
+ */
+import { z } from 'zod';
+import { forkSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const forkSessionSchema = z.object({
+  sourceSessionId: z.string().optional().describe('Session or snapshot ID to copy. Omit for default session.'),
+  newSessionId: z.string().min(1).optional().describe('ID for the fork (default "<source>-fork-N").'),
+  overwrite: z.boolean().optional().default(false).describe('Replace newSessionId if it already exists.')
+});
+
+export type ForkSessionInput = z.infer<typeof forkSessionSchema>;
+
+export const forkSessionResultSchema = toolResult({
+  sessionId: z.string().optional(),
+  note: z.string().optional()
+});
+
+export const forkSessionTool = defineTool({
+  name: 'fork_session',
+  description: 'Copy a session (or a snapshot from snapshot_session) into a new session that evolves independently, e.g. to build a claim-gated and a paid-mint variant side by side. The fork starts with an empty undo history. Compare variants with compare_sessions.',
+  schema: forkSessionSchema,
+  handler: handleForkSession,
+  resultSchema: forkSessionResultSchema
+});
+
+export function handleForkSession(input: ForkSessionInput): Record<string, any> {
+  try {
+    const { sessionId } = forkSession(input.sourceSessionId, input.newSessionId, input.overwrite);
+    return { success: true, sessionId, note: `Use sessionId "${sessionId}" with the per-field tools to edit the fork.` };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -1,24 +1,34 @@
 import { z } from 'zod';
 import { getTransaction as getTransactionFromSession, getOrCreateSession, ensureStringNumbers } from '../../session/sessionState.js';
+import { computeMinimalUpdate, type CollectionSnapshot } from '../../session/sessionDiff.js';
+import { getCollectionMessageIndex, getCollectionMessageValue } from '../../session/sessionMessages.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, jsonObjectSchema } from '../resultSchemas.js';
 
 export const getTransactionSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
-  creatorAddress: z.string().optional().describe('Creator bb1... address.')
+  creatorAddress: z.string().optional().describe('Creator bb1... address.'),
+  mode: z.enum(['full', 'minimal']).optional().default('full')
+    .describe('"full" (default): every field with update flags as set. "minimal": only fields changed vs the baseline, with their update* flags set and the rest flagged false.'),
+  baseline: z.record(z.any()).optional()
+    .describe('Baseline for minimal mode — a MsgUniversalUpdateCollection value, { typeUrl, value } message, or { messages, metadataPlaceholders } transaction. Defaults to the collection loaded via load_collection_into_session.')
 });
 
 export type GetTransactionInput = z.infer<typeof getTransactionSchema>;
 
-export const getTransactionTool = {
+export const getTransactionResultSchema = toolResult({
+  transaction: jsonObjectSchema.optional().describe('{ messages, metadataPlaceholders } ready to sign'),
+  changedFields: z.array(z.string()).optional().describe('minimal mode: fields that differ from the baseline'),
+  summary: z.array(z.string()).optional().describe('minimal mode: human-readable changes')
+});
+
+export const getTransactionTool = defineTool({
   name: 'get_transaction',
-  description: 'Get the assembled transaction JSON with metadataPlaceholders. Call this after building to retrieve the final output. Numbers are auto-converted to strings.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string', description: 'Creator address (bb1... or 0x...).' }
-    }
-  }
-};
+  description: 'Get the assembled transaction JSON with metadataPlaceholders. Call this after building to retrieve the final output — the whole batch of messages in order (collection, dynamic store ops, transfers). Numbers are auto-converted to strings. For updates to an existing collection, use mode "minimal" to emit only changed fields.',
+  schema: getTransactionSchema,
+  handler: handleGetTransaction,
+  resultSchema: getTransactionResultSchema
+});
 
 const DEFAULT_IMAGE = 'ipfs://QmNTpizCkY5tcMpPMf1kkn7Y5YxFQo3oT54A9oKP5ijP9E';
 const IMAGE_PLACEHOLDER_REGEX = /^IMAGE_\d+$/;
@@ -44,8 +54,48 @@ function replaceUnresolvedImagePlaceholders(obj: any): any {
   return obj;
 }
 
+/**
+ * Accept a baseline as a bare collection value, a { typeUrl, value } message,
+ * or a { messages, metadataPlaceholders } transaction.
+ */
+function toBaselineSnapshot(raw: Record<string, any>): CollectionSnapshot {
+  if (Array.isArray(raw.messages)) {
+    return { value: getCollectionMessageValue(raw.messages), metadataPlaceholders: raw.metadataPlaceholders || {} };
+  }
+  if (raw.typeUrl && raw.value) {
+    return { value: raw.value, metadataPlaceholders: {} };
+  }
+  return { value: raw, metadataPlaceholders: {} };
+}
+
 export function handleGetTransaction(input: GetTransactionInput) {
-  const transaction = getTransactionFromSession(input.sessionId, input.creatorAddress);
+  const { baseline: loadedBaseline, ...transaction } = getTransactionFromSession(input.sessionId, input.creatorAddress);
+
+  if (input.mode === 'minimal') {
+    const baseline = input.baseline ? toBaselineSnapshot(input.baseline) : loadedBaseline;
+    if (!baseline) {
+      return {
+        success: false,
+        error: 'Minimal mode needs a baseline. Load the on-chain collection with load_collection_into_session first, or pass a baseline.'
+      };
+    }
+    const collectionIndex = getCollectionMessageIndex(transaction.messages);
+    const minimal = computeMinimalUpdate(
+      { value: transaction.messages[collectionIndex].value, metadataPlaceholders: transaction.metadataPlaceholders },
+      { value: ensureStringNumbers(baseline.value), metadataPlaceholders: baseline.metadataPlaceholders }
+    );
+    const minimalTransaction = {
+      messages: transaction.messages.map((m, i) => (i === collectionIndex ? { ...m, value: minimal.value } : m)),
+      metadataPlaceholders: minimal.metadataPlaceholders
+    };
+    return {
+      success: true,
+      transaction: replaceUnresolvedImagePlaceholders(ensureStringNumbers(minimalTransaction)),
+      changedFields: minimal.changedFields,
+      summary: minimal.summary.length > 0 ? minimal.summary : ['No changes vs baseline.']
+    };
+  }
+
   // Ensure all numbers are strings (common LLM mistake)
   const sanitized = ensureStringNumbers(transaction);
   // Replace any unreplaced IMAGE_N placeholders with default logo
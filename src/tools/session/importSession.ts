@@ -0,0 +1,78 @@
+/**
+ * import_session — Load a session from an export_session document.
+ */
+import { z } from 'zod';
+import { readFileSync } from 'fs';
+import { importSession } from '../../session/sessionState.js';
+import { fromSessionDocument, resolveSessionFilePath } from '../../session/sessionExport.js';
+import { getCollectionMessageValue } from '../../session/sessionMessages.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const importSessionSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID to import into. Omit for default session.'),
+  document: z.union([z.record(z.any()), z.string()]).optional().describe('The export_session document (object or JSON string).'),
+  path: z.string().optional().describe('Read the document from this file (relative to BITBADGES_SESSION_EXPORT_DIR) instead.'),
+  overwrite: z.boolean().optional().default(false).describe('Replace the session if it already exists.')
+});
+
+export type ImportSessionInput = z.infer<typeof importSessionSchema>;
+
+export const importSessionResultSchema = toolResult({
+  messageCount: z.number().optional(),
+  approvalIds: z.array(z.string()).optional(),
+  warnings: z.array(z.string()).optional()
+});
+
+export const importSessionTool = defineTool({
+  name: 'import_session',
+  description: 'Import a session from an export_session document (inline or from a file). The document is validated before anything is changed. Refuses to replace an existing session unless overwrite is true; the import can be reverted with undo.',
+  schema: importSessionSchema,
+  handler: handleImportSession,
+  resultSchema: importSessionResultSchema,
+  mutatesSession: true,
+  filesystem: true
+});
+
+/**
+ * Read and parse a session file. Errors never quote the file's content.
+ */
+function readSessionFile(path: string): unknown {
+  const file = resolveSessionFilePath(path);
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch {
+    throw new Error(`Could not read session file "${path}".`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`Session file "${path}" is not valid JSON.`);
+  }
+}
+
+export function handleImportSession(input: ImportSessionInput): Record<string, any> {
+  try {
+    if (!input.document && !input.path) {
+      return { success: false, error: 'Provide either document or path.' };
+    }
+
+    const raw = input.path ? readSessionFile(input.path) : input.document;
+    const result = fromSessionDocument(raw);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    importSession(input.sessionId, result.session, input.overwrite);
+
+    return {
+      success: true,
+      messageCount: result.session.messages.length,
+      approvalIds: (getCollectionMessageValue(result.session.messages).collectionApprovals || []).map((a: any) => a.approvalId),
+      ...(result.warnings.length > 0 ? { warnings: result.warnings } : {})
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
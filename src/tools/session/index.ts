@@ -12,11 +12,28 @@ export * from './setMintEscrowCoins.js';
 export * from './addApproval.js';
 export * from './removeApproval.js';
 export * from './setApprovalMetadata.js';
+export * from './moveApproval.js';
+export * from './listApprovals.js';
 export * from './addAliasPath.js';
 export * from './removeAliasPath.js';
 export * from './addCosmosWrapperPath.js';
 export * from './removeCosmosWrapperPath.js';
 export * from './addTransfer.js';
 export * from './removeTransfer.js';
+export * from './listMessages.js';
+export * from './moveMessage.js';
+export * from './removeMessage.js';
+export * from './applySessionPatch.js';
+export * from './batchSessionOps.js';
 export * from './getTransaction.js';
+export * from './diagnostics.js';
+export * from './undo.js';
+export * from './redo.js';
+export * from './listSessionHistory.js';
+export * from './loadCollectionIntoSession.js';
+export * from './snapshotSession.js';
+export * from './forkSession.js';
+export * from './compareSessions.js';
+export * from './exportSession.js';
+export * from './importSession.js';
 export { resetSession, getOrCreateSession } from '../../session/sessionState.js';
@@ -0,0 +1,33 @@
+/**
+ * list_approvals — Show collection approvals in scan order.
+ */
+import { z } from 'zod';
+import { listApprovals } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const listApprovalsSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.')
+});
+
+export type ListApprovalsInput = z.infer<typeof listApprovalsSchema>;
+
+export const listApprovalsResultSchema = toolResult({
+  approvals: z.array(z.object({ index: z.number(), approvalId: z.string(), summary: z.string() })).optional()
+});
+
+export const listApprovalsTool = defineTool({
+  name: 'list_approvals',
+  description: 'List the session\'s collection approvals in order (the order the chain scans them), each with a one-line summary: from → to lists, initiator, and key criteria (price, claim gate, limits, overrides). Reorder with move_approval.',
+  schema: listApprovalsSchema,
+  handler: handleListApprovals,
+  resultSchema: listApprovalsResultSchema
+});
+
+export function handleListApprovals(input: ListApprovalsInput): Record<string, any> {
+  try {
+    return { success: true, approvals: listApprovals(input.sessionId) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * list_messages — Show the ordered batch of messages in the session.
+ */
+import { z } from 'zod';
+import { listMessages } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, sessionMessageSummarySchema } from '../resultSchemas.js';
+
+export const listMessagesSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.')
+});
+
+export type ListMessagesInput = z.infer<typeof listMessagesSchema>;
+
+export const listMessagesResultSchema = toolResult({
+  messages: z.array(sessionMessageSummarySchema).optional()
+});
+
+export const listMessagesTool = defineTool({
+  name: 'list_messages',
+  description: 'List the messages in the session batch in execution order, with index, typeUrl and a one-line summary. The MsgUniversalUpdateCollection edited by the per-field tools is marked isCollection. Use the indices with move_message and remove_message.',
+  schema: listMessagesSchema,
+  handler: handleListMessages,
+  resultSchema: listMessagesResultSchema
+});
+
+export function handleListMessages(input: ListMessagesInput): Record<string, any> {
+  try {
+    return { success: true, messages: listMessages(input.sessionId) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
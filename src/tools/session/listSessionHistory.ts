@@ -0,0 +1,52 @@
+/**
+ * list_session_history — Show the recorded mutation steps for a session.
+ */
+import { z } from 'zod';
+import { getSessionHistory } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const listSessionHistorySchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  includeArgs: z.boolean().optional().default(true).describe('Include each step\'s arguments (default true). Set false for a compact list.')
+});
+
+export type ListSessionHistoryInput = z.infer<typeof listSessionHistorySchema>;
+
+export const listSessionHistoryResultSchema = toolResult({
+  steps: z.array(z.object({
+    id: z.number(),
+    tool: z.string(),
+    args: z.record(z.any()).optional().describe('Only with includeArgs'),
+    changedFields: z.array(z.string()),
+    timestamp: z.number(),
+    applied: z.boolean().describe('false when the step has been undone and can be redone')
+  })).optional(),
+  canUndo: z.boolean().optional(),
+  canRedo: z.boolean().optional()
+});
+
+export const listSessionHistoryTool = defineTool({
+  name: 'list_session_history',
+  description: 'List the session mutation history, oldest first: each step\'s tool name, arguments and the fields it changed. Steps with applied: false have been undone and can be redone.',
+  schema: listSessionHistorySchema,
+  handler: handleListSessionHistory,
+  resultSchema: listSessionHistoryResultSchema
+});
+
+export function handleListSessionHistory(input: ListSessionHistoryInput): Record<string, any> {
+  try {
+    const history = getSessionHistory(input.sessionId);
+    const steps = input.includeArgs
+      ? history
+      : history.map(({ args: _args, ...rest }) => rest);
+    return {
+      success: true,
+      steps,
+      canUndo: history.some((s) => s.applied),
+      canRedo: history.some((s) => !s.applied)
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * load_collection_into_session — Seed the session from an on-chain collection.
+ *
+ * Fetches the collection via the API and converts it into a MsgUniversalUpdateCollection
+ * targeting its collectionId, so per-field tools (set_*, add_*, remove_*) can edit a live
+ * collection instead of rebuilding it by hand.
+ *
+ * Collection and approval metadata are converted to the same placeholder URIs the
+ * per-field tools use (ipfs://METADATA_COLLECTION, ipfs://METADATA_APPROVAL_<id>) when the
+ * API returns fetched metadata; otherwise the on-chain URI is kept as-is.
+ */
+import { z } from 'zod';
+import { getCollections } from '../../sdk/apiClient.js';
+import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { loadCollection, ensureStringNumbers, DEFAULT_USER_PERMISSIONS, type SessionTransaction } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const loadCollectionIntoSessionSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  collectionId: z.string().describe('The on-chain collection ID to load.'),
+  creatorAddress: z.string().optional().describe('Address that will sign the update (bb1... or 0x...). Defaults to the collection manager.')
+});
+
+export type LoadCollectionIntoSessionInput = z.infer<typeof loadCollectionIntoSessionSchema>;
+
+export const loadCollectionIntoSessionResultSchema = toolResult({
+  collectionId: z.string().optional(),
+  creator: z.string().optional(),
+  originalApprovalIds: z.array(z.string()).optional(),
+  metadataPlaceholders: z.array(z.string()).optional().describe('Placeholder URIs holding the loaded metadata'),
+  note: z.string().optional()
+});
+
+export const loadCollectionIntoSessionTool = defineTool({
+  name: 'load_collection_into_session',
+  description: 'Load an existing on-chain collection into the session as a MsgUniversalUpdateCollection (with its collectionId), replacing any in-progress build. Use this to UPDATE a live collection: load it, edit with the per-field tools, then get_transaction. Records the original approval IDs and fills metadata placeholders from the fetched metadata. Requires BITBADGES_API_KEY.',
+  schema: loadCollectionIntoSessionSchema,
+  handler: handleLoadCollectionIntoSession,
+  resultSchema: loadCollectionIntoSessionResultSchema,
+  mutatesSession: true,
+  network: true
+});
+
+const COLLECTION_METADATA_URI = 'ipfs://METADATA_COLLECTION';
+
+/**
+ * Read a field that the API may return either flat or as a timeline (older indexer format).
+ */
+function flatOrTimeline(collection: Record<string, any>, field: string): any {
+  if (collection[field] !== undefined) return collection[field];
+  const timeline = collection[`${field}Timeline`];
+  if (Array.isArray(timeline) && timeline.length > 0) return timeline[0][field];
+  return undefined;
+}
+
+function toPlaceholder(metadata: Record<string, any> | undefined): { name: string; description: string; image: string } | undefined {
+  if (!metadata || (!metadata.name && !metadata.description && !metadata.image)) return undefined;
+  return { name: metadata.name || '', description: metadata.description || '', image: metadata.image || '' };
+}
+
+/**
+ * Convert an API collection document into MsgUniversalUpdateCollection value + metadata placeholders.
+ */
+export function collectionToSessionValue(
+  collection: Record<string, any>,
+  creatorAddress?: string
+): { value: Record<string, any>; metadataPlaceholders: SessionTransaction['metadataPlaceholders'] } {
+  const metadataPlaceholders: SessionTransaction['metadataPlaceholders'] = {};
+  const manager = flatOrTimeline(collection, 'manager') || '';
+
+  // Collection metadata
+  const rawCollectionMetadata = flatOrTimeline(collection, 'collectionMetadata') || { uri: '', customData: '' };
+  let collectionMetadata = { uri: rawCollectionMetadata.uri || '', customData: rawCollectionMetadata.customData || '' };
+  const collectionPlaceholder = toPlaceholder(rawCollectionMetadata.metadata);
+  if (collectionPlaceholder) {
+    collectionMetadata = { uri: COLLECTION_METADATA_URI, customData: collectionMetadata.customData };
+    metadataPlaceholders[COLLECTION_METADATA_URI] = collectionPlaceholder;
+  }
+
+  // Token metadata — kept as on-chain URIs (per-token {id} URIs can't be collapsed into one placeholder)
+  const tokenMetadata = (flatOrTimeline(collection, 'tokenMetadata') || []).map((tm: any) => ({
+    uri: tm.uri || '',
+    customData: tm.customData || '',
+    tokenIds: tm.tokenIds || tm.badgeIds || []
+  }));
+
+  // Approvals — drop API-expanded list objects, the Msg only takes list IDs
+  const collectionApprovals = (collection.collectionApprovals || []).map((approval: any) => {
+    const { fromList: _fromList, toList: _toList, initiatedByList: _initiatedByList, details, ...rest } = approval;
+    const placeholder = toPlaceholder(details);
+    if (placeholder) {
+      const uri = `ipfs://METADATA_APPROVAL_${approval.approvalId}`;
+      metadataPlaceholders[uri] = placeholder;
+      return { ...rest, uri, customData: rest.customData || '', version: rest.version || '0' };
+    }
+    return { ...rest, uri: rest.uri || '', customData: rest.customData || '', version: rest.version || '0' };
+  });
+
+  const defaultBalances = collection.defaultBalances || {};
+
+  const value = ensureStringNumbers({
+    creator: creatorAddress || manager,
+    collectionId: String(collection.collectionId),
+    updateCollectionApprovals: true,
+    collectionApprovals,
+    updateStandards: true,
+    standards: flatOrTimeline(collection, 'standards') || [],
+    updateValidTokenIds: true,
+    validTokenIds: collection.validTokenIds || collection.validBadgeIds || [],
+    updateCollectionMetadata: true,
+    collectionMetadata,
+    updateTokenMetadata: true,
+    tokenMetadata,
+    updateCollectionPermissions: true,
+    collectionPermissions: collection.collectionPermissions || {},
+    updateInvariants: true,
+    invariants: collection.invariants || null,
+    updateDefaultBalances: true,
+    defaultBalances: {
+      balances: defaultBalances.balances || [],
+      outgoingApprovals: defaultBalances.outgoingApprovals || [],
+      incomingApprovals: defaultBalances.incomingApprovals || [],
+      autoApproveAllIncomingTransfers: defaultBalances.autoApproveAllIncomingTransfers ?? true,
+      autoApproveSelfInitiatedOutgoingTransfers: defaultBalances.autoApproveSelfInitiatedOutgoingTransfers ?? true,
+      autoApproveSelfInitiatedIncomingTransfers: defaultBalances.autoApproveSelfInitiatedIncomingTransfers ?? true,
+      userPermissions: { ...DEFAULT_USER_PERMISSIONS, ...(defaultBalances.userPermissions || {}) }
+    },
+    updateManager: true,
+    manager,
+    updateCustomData: true,
+    customData: flatOrTimeline(collection, 'customData') || '',
+    updateIsArchived: true,
+    isArchived: flatOrTimeline(collection, 'isArchived') || false,
+    // Existing alias/wrapper paths already live on-chain — these fields only add new ones
+    mintEscrowCoinsToTransfer: [],
+    aliasPathsToAdd: [],
+    cosmosCoinWrapperPathsToAdd: []
+  });
+
+  return { value, metadataPlaceholders };
+}
+
+export async function handleLoadCollectionIntoSession(input: LoadCollectionIntoSessionInput): Promise<Record<string, any>> {
+  try {
+    const response = await getCollections({
+      collectionsToFetch: [{
+        collectionId: input.collectionId,
+        metadataToFetch: { uris: [] },
+        fetchTotalAndMintBalances: false
+      }]
+    });
+
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+
+    const collection = response.data?.collections?.[0];
+    if (!collection) {
+      return { success: false, error: `Collection ${input.collectionId} not found` };
+    }
+
+    const creatorAddress = input.creatorAddress ? ensureBb1(input.creatorAddress) : undefined;
+    const { value, metadataPlaceholders } = collectionToSessionValue(collection as Record<string, any>, creatorAddress);
+    loadCollection(input.sessionId, value, metadataPlaceholders);
+
+    return {
+      success: true,
+      collectionId: value.collectionId,
+      creator: value.creator,
+      originalApprovalIds: value.collectionApprovals.map((a: any) => a.approvalId),
+      metadataPlaceholders: Object.keys(metadataPlaceholders),
+      note: `Loaded collection ${value.collectionId} into the session as a MsgUniversalUpdateCollection. Edit with the per-field tools, then call get_transaction.`
+    };
+  } catch (error: any) {
+    return { success: false, error: `Failed to load collection: ${error.message}` };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * move_approval — Reorder a collection approval.
+ *
+ * The chain auto-scans collectionApprovals in order and uses the first match, so
+ * e.g. a specific paid-mint approval must come before a broader one.
+ */
+import { z } from 'zod';
+import { moveApproval, listApprovals, type ApprovalPosition } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const moveApprovalSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  approvalId: z.string().describe('The approval to move.'),
+  before: z.string().optional().describe('Place it immediately before this approvalId.'),
+  after: z.string().optional().describe('Place it immediately after this approvalId.'),
+  index: z.number().int().min(0).optional().describe('Absolute position (0 = first).')
+}).refine((d) => [d.before, d.after, d.index].filter((v) => v !== undefined).length === 1, {
+  message: 'Provide exactly one of before, after or index.'
+});
+
+export type MoveApprovalInput = z.infer<typeof moveApprovalSchema>;
+
+export const moveApprovalResultSchema = toolResult({
+  from: z.number().optional(),
+  to: z.number().optional(),
+  order: z.array(z.string()).optional().describe('Approval IDs in their new order')
+});
+
+export const moveApprovalTool = defineTool({
+  name: 'move_approval',
+  description: 'Move a collection approval before/after another approval or to an absolute index. Approval order matters: transfers are matched against approvals in order (auto-scan picks the first match). Use list_approvals to see the current order.',
+  schema: moveApprovalSchema,
+  handler: handleMoveApproval,
+  resultSchema: moveApprovalResultSchema,
+  mutatesSession: true
+});
+
+export function handleMoveApproval(input: MoveApprovalInput): Record<string, any> {
+  try {
+    const position: ApprovalPosition = input.before !== undefined
+      ? { before: input.before }
+      : input.after !== undefined
+        ? { after: input.after }
+        : { index: input.index! };
+
+    const result = moveApproval(input.sessionId, input.approvalId, position);
+    if (result.error) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      from: result.from,
+      to: result.to,
+      order: listApprovals(input.sessionId).map((a) => a.approvalId)
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
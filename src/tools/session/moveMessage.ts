@@ -0,0 +1,41 @@
+/**
+ * move_message — Reorder a message within the session batch.
+ */
+import { z } from 'zod';
+import { moveMessage, listMessages } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, sessionMessageSummarySchema } from '../resultSchemas.js';
+
+export const moveMessageSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  from: z.number().int().min(0).describe('Current index of the message.'),
+  to: z.number().int().min(0).describe('Index to move it to. Messages in between shift by one.')
+});
+
+export type MoveMessageInput = z.infer<typeof moveMessageSchema>;
+
+export const moveMessageResultSchema = toolResult({
+  messages: z.array(sessionMessageSummarySchema).optional()
+});
+
+export const moveMessageTool = defineTool({
+  name: 'move_message',
+  description: 'Move a message to a new position in the session batch. Messages execute in order, so e.g. a dynamic store must be created before a transfer that depends on it. Any message, including the collection, can be moved.',
+  schema: moveMessageSchema,
+  handler: handleMoveMessage,
+  resultSchema: moveMessageResultSchema,
+  mutatesSession: true
+});
+
+export function handleMoveMessage(input: MoveMessageInput): Record<string, any> {
+  try {
+    const { moved } = moveMessage(input.sessionId, input.from, input.to);
+    const messages = listMessages(input.sessionId);
+    if (!moved) {
+      return { success: false, error: `Indices must be between 0 and ${messages.length - 1}.` };
+    }
+    return { success: true, messages };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
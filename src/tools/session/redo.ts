@@ -0,0 +1,42 @@
+/**
+ * redo — Re-apply session mutation(s) reverted by undo.
+ */
+import { z } from 'zod';
+import { redo } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, historyStepSchema } from '../resultSchemas.js';
+
+export const redoSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  steps: z.number().int().min(1).optional().default(1).describe('How many steps to redo (default 1).')
+});
+
+export type RedoInput = z.infer<typeof redoSchema>;
+
+export const redoResultSchema = toolResult({
+  redone: z.array(historyStepSchema).optional(),
+  steps: z.array(historyStepSchema).optional(),
+  canUndo: z.boolean().optional(),
+  canRedo: z.boolean().optional()
+});
+
+export const redoTool = defineTool({
+  name: 'redo',
+  description: 'Re-apply session mutation(s) that were reverted by undo. Only available until the next set_*/add_*/remove_* call, which clears the redo stack.',
+  schema: redoSchema,
+  handler: handleRedo,
+  resultSchema: redoResultSchema,
+  mutatesSession: true
+});
+
+export function handleRedo(input: RedoInput): Record<string, any> {
+  try {
+    const result = redo(input.sessionId, input.steps);
+    if (result.steps.length === 0) {
+      return { success: false, error: 'Nothing to redo.', ...result };
+    }
+    return { success: true, redone: result.steps, canUndo: result.canUndo, canRedo: result.canRedo };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
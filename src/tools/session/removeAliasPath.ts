@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { removeAliasPath as removeAliasPathFromSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const removeAliasPathSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -9,19 +11,18 @@ export const removeAliasPathSchema = z.object({
 
 export type RemoveAliasPathInput = z.infer<typeof removeAliasPathSchema>;
 
-export const removeAliasPathTool = {
+export const removeAliasPathResultSchema = toolResult({
+  removed: z.boolean()
+});
+
+export const removeAliasPathTool = defineTool({
   name: 'remove_alias_path',
   description: 'Remove an alias path by denom.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      denom: { type: 'string', description: 'Denom to remove.' }
-    },
-    required: ['denom']
-  }
-};
+  schema: removeAliasPathSchema,
+  handler: handleRemoveAliasPath,
+  resultSchema: removeAliasPathResultSchema,
+  mutatesSession: true
+});
 
 export function handleRemoveAliasPath(input: RemoveAliasPathInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
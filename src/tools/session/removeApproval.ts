@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { removeApproval as removeApprovalFromSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const removeApprovalSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -9,19 +11,19 @@ export const removeApprovalSchema = z.object({
 
 export type RemoveApprovalInput = z.infer<typeof removeApprovalSchema>;
 
-export const removeApprovalTool = {
+export const removeApprovalResultSchema = toolResult({
+  removed: z.boolean(),
+  position: z.number().describe('Index the approval was removed from (-1 if not found)')
+});
+
+export const removeApprovalTool = defineTool({
   name: 'remove_approval',
   description: 'Remove an approval by approvalId. To replace an approval, remove then re-add with the same approvalId — it will be inserted at the same position (order preserved).',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      approvalId: { type: 'string', description: 'The approvalId to remove.' }
-    },
-    required: ['approvalId']
-  }
-};
+  schema: removeApprovalSchema,
+  handler: handleRemoveApproval,
+  resultSchema: removeApprovalResultSchema,
+  mutatesSession: true
+});
 
 export function handleRemoveApproval(input: RemoveApprovalInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
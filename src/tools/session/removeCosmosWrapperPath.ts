@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { removeCosmosWrapperPath as removeCosmosWrapperPathFromSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const removeCosmosWrapperPathSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -9,19 +11,18 @@ export const removeCosmosWrapperPathSchema = z.object({
 
 export type RemoveCosmosWrapperPathInput = z.infer<typeof removeCosmosWrapperPathSchema>;
 
-export const removeCosmosWrapperPathTool = {
+export const removeCosmosWrapperPathResultSchema = toolResult({
+  removed: z.boolean()
+});
+
+export const removeCosmosWrapperPathTool = defineTool({
   name: 'remove_cosmos_wrapper_path',
   description: 'Remove a Cosmos wrapper path by denom.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      denom: { type: 'string', description: 'Denom to remove.' }
-    },
-    required: ['denom']
-  }
-};
+  schema: removeCosmosWrapperPathSchema,
+  handler: handleRemoveCosmosWrapperPath,
+  resultSchema: removeCosmosWrapperPathResultSchema,
+  mutatesSession: true
+});
 
 export function handleRemoveCosmosWrapperPath(input: RemoveCosmosWrapperPathInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
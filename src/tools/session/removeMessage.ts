@@ -0,0 +1,45 @@
+/**
+ * remove_message — Remove any non-collection message from the session batch.
+ */
+import { z } from 'zod';
+import { removeMessage } from '../../session/sessionState.js';
+import { COLLECTION_TYPE_URL } from '../../session/sessionMessages.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const removeMessageSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  index: z.number().int().min(0).describe('Index of the message to remove (see list_messages).')
+});
+
+export type RemoveMessageInput = z.infer<typeof removeMessageSchema>;
+
+export const removeMessageResultSchema = toolResult({
+  note: z.string().optional()
+});
+
+export const removeMessageTool = defineTool({
+  name: 'remove_message',
+  description: 'Remove a message (transfer, dynamic store op, ...) from the session batch by index. The collection message cannot be removed — use reset or the per-field tools instead.',
+  schema: removeMessageSchema,
+  handler: handleRemoveMessage,
+  resultSchema: removeMessageResultSchema,
+  mutatesSession: true
+});
+
+export function handleRemoveMessage(input: RemoveMessageInput): Record<string, any> {
+  try {
+    const { removed, typeUrl } = removeMessage(input.sessionId, input.index);
+    if (!removed) {
+      return {
+        success: false,
+        error: typeUrl === COLLECTION_TYPE_URL
+          ? `messages[${input.index}] is the collection message and cannot be removed.`
+          : `No message at index ${input.index}.`
+      };
+    }
+    return { success: true, note: `Removed ${typeUrl} at index ${input.index}.` };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -3,37 +3,38 @@
  */
 import { z } from 'zod';
 import { removeTransfer } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const removeTransferSchema = z.object({
   sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
-  index: z.number().int().min(1).describe('Message index to remove (1-based, since messages[0] is always the collection).')
+  index: z.number().int().min(0).describe('Message index of the MsgTransferTokens to remove (see list_messages).')
 });
 
 export type RemoveTransferInput = z.infer<typeof removeTransferSchema>;
 
-export const removeTransferTool = {
+export const removeTransferResultSchema = toolResult({
+  note: z.string().optional()
+});
+
+export const removeTransferTool = defineTool({
   name: 'remove_transfer',
-  description: 'Remove a MsgTransferTokens from the session by message index. Index must be >= 1 (messages[0] is always the collection and cannot be removed).',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID. Omit for default session.' },
-      index: { type: 'number', description: 'Message index to remove (>= 1).' }
-    },
-    required: ['index']
-  }
-};
+  description: 'Remove a MsgTransferTokens from the session by message index (see list_messages). Only transfer messages can be removed here; use remove_message for other message types.',
+  schema: removeTransferSchema,
+  handler: handleRemoveTransfer,
+  resultSchema: removeTransferResultSchema,
+  mutatesSession: true
+});
 
-export function handleRemoveTransfer(input: Record<string, any>): Record<string, any> {
+export function handleRemoveTransfer(input: RemoveTransferInput): Record<string, any> {
   try {
-    const parsed = removeTransferSchema.parse(input);
-    const { removed } = removeTransfer(parsed.sessionId, parsed.index);
+    const { removed } = removeTransfer(input.sessionId, input.index);
 
     if (!removed) {
-      return { success: false, error: `No MsgTransferTokens found at messages[${parsed.index}].` };
+      return { success: false, error: `No MsgTransferTokens found at messages[${input.index}].` };
     }
 
-    return { success: true, note: `Removed transfer message at index ${parsed.index}.` };
+    return { success: true, note: `Removed transfer message at index ${input.index}.` };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
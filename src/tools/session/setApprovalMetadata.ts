@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setApprovalMetadata as setApprovalMetadataInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setApprovalMetadataSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -11,21 +13,16 @@ export const setApprovalMetadataSchema = z.object({
 
 export type SetApprovalMetadataInput = z.infer<typeof setApprovalMetadataSchema>;
 
-export const setApprovalMetadataTool = {
+export const setApprovalMetadataResultSchema = toolResult({});
+
+export const setApprovalMetadataTool = defineTool({
   name: 'set_approval_metadata',
   description: 'Set metadata for an approval. Image is always empty string for approvals. Call this after add_approval to set descriptive names.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      approvalId: { type: 'string', description: 'Approval ID to set metadata for.' },
-      name: { type: 'string', description: 'Approval name.' },
-      description: { type: 'string', description: 'What this approval does.' }
-    },
-    required: ['approvalId', 'name', 'description']
-  }
-};
+  schema: setApprovalMetadataSchema,
+  handler: handleSetApprovalMetadata,
+  resultSchema: setApprovalMetadataResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetApprovalMetadata(input: SetApprovalMetadataInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setCollectionMetadata as setCollectionMetadataInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setCollectionMetadataSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -11,21 +13,16 @@ export const setCollectionMetadataSchema = z.object({
 
 export type SetCollectionMetadataInput = z.infer<typeof setCollectionMetadataSchema>;
 
-export const setCollectionMetadataTool = {
+export const setCollectionMetadataResultSchema = toolResult({});
+
+export const setCollectionMetadataTool = defineTool({
   name: 'set_collection_metadata',
   description: 'Set collection metadata (name, description, image). Auto-creates a metadata placeholder URI. Names and descriptions must be specific and user-facing.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      name: { type: 'string', description: 'Collection name. Specific and user-facing.' },
-      description: { type: 'string', description: '1-2 sentences, ends with period.' },
-      image: { type: 'string', description: 'Image URL or IMAGE_N placeholder.' }
-    },
-    required: ['name', 'description', 'image']
-  }
-};
+  schema: setCollectionMetadataSchema,
+  handler: handleSetCollectionMetadata,
+  resultSchema: setCollectionMetadataResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetCollectionMetadata(input: SetCollectionMetadataInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setCustomData as setCustomDataInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setCustomDataSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -9,19 +11,16 @@ export const setCustomDataSchema = z.object({
 
 export type SetCustomDataInput = z.infer<typeof setCustomDataSchema>;
 
-export const setCustomDataTool = {
+export const setCustomDataResultSchema = toolResult({});
+
+export const setCustomDataTool = defineTool({
   name: 'set_custom_data',
   description: 'Set custom data string on the collection. Can be any JSON or text, stored on-chain.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      customData: { type: 'string', description: 'Custom data string.' }
-    },
-    required: ['customData']
-  }
-};
+  schema: setCustomDataSchema,
+  handler: handleSetCustomData,
+  resultSchema: setCustomDataResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetCustomData(input: SetCustomDataInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
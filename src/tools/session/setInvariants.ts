@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setInvariants as setInvariantsInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setInvariantsSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -34,66 +36,16 @@ export const setInvariantsSchema = z.object({
 
 export type SetInvariantsInput = z.infer<typeof setInvariantsSchema>;
 
-export const setInvariantsTool = {
+export const setInvariantsResultSchema = toolResult({});
+
+export const setInvariantsTool = defineTool({
   name: 'set_invariants',
   description: 'Set collection invariants (on-chain constraints). Cannot be removed after creation. Key: noCustomOwnershipTimes (false for subscriptions, true for most others), maxSupplyPerId, cosmosCoinBackedPath (required for smart tokens).',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      invariants: {
-        type: 'object',
-        nullable: true,
-        description: 'Invariants object or null to clear.',
-        properties: {
-          noCustomOwnershipTimes: { type: 'boolean', description: 'If true, all ownership times must be forever. MUST be false for subscriptions. True for most other token types.' },
-          maxSupplyPerId: { type: 'string', description: 'Maximum supply per token ID. "0" = unlimited. "1" for unique NFTs.' },
-          noForcefulPostMintTransfers: { type: 'boolean', description: 'If true, cannot use overridesFromOutgoingApprovals or overridesToIncomingApprovals on non-Mint approvals.' },
-          disablePoolCreation: { type: 'boolean', description: 'If true, cannot create liquidity pools for this token.' },
-          cosmosCoinBackedPath: {
-            type: 'object',
-            description: 'IBC backing configuration. REQUIRED for smart tokens. Use generate_backing_address to get the backing address.',
-            properties: {
-              conversion: {
-                type: 'object',
-                description: 'Conversion between IBC coin and token.',
-                properties: {
-                  sideA: {
-                    type: 'object',
-                    description: 'IBC coin side.',
-                    properties: {
-                      amount: { type: 'string', description: 'Usually "1".' },
-                      denom: { type: 'string', description: 'The IBC denom from generate_backing_address (e.g., "ibc/F082B65C88E4B6D5EF1DB243CDA1D331D002759E938A0F5CD3FFDC5D53B3E349").' }
-                    },
-                    required: ['amount', 'denom']
-                  },
-                  sideB: {
-                    type: 'array',
-                    description: 'Token side.',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        amount: { type: 'string' },
-                        tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-                        ownershipTimes: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } }
-                      },
-                      required: ['amount', 'tokenIds', 'ownershipTimes']
-                    }
-                  }
-                },
-                required: ['sideA', 'sideB']
-              }
-            },
-            required: ['conversion']
-          },
-          evmQueryChallenges: { type: 'array', description: 'EVM query invariants. Advanced — use search_knowledge_base for details.' }
-        }
-      }
-    },
-    required: ['invariants']
-  }
-};
+  schema: setInvariantsSchema,
+  handler: handleSetInvariants,
+  resultSchema: setInvariantsResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetInvariants(input: SetInvariantsInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setIsArchived as setIsArchivedInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setIsArchivedSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -7,19 +9,16 @@ export const setIsArchivedSchema = z.object({
   isArchived: z.boolean().describe('Whether the collection should be archived (true) or unarchived (false).')
 });
 
-export const setIsArchivedTool = {
+export const setIsArchivedResultSchema = toolResult({});
+
+export const setIsArchivedTool = defineTool({
   name: 'set_is_archived',
   description: 'Archive or unarchive a collection. Archived collections are hidden from browsing but still exist on-chain.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      isArchived: { type: 'boolean', description: 'true to archive, false to unarchive.' }
-    },
-    required: ['isArchived']
-  }
-};
+  schema: setIsArchivedSchema,
+  handler: handleSetIsArchived,
+  resultSchema: setIsArchivedResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetIsArchived(input: z.infer<typeof setIsArchivedSchema>) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { setManager as setManagerInSession, getOrCreateSession } from '../../session/sessionState.js';
 import { ensureBb1 } from '../../sdk/addressUtils.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setManagerSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -10,19 +12,18 @@ export const setManagerSchema = z.object({
 
 export type SetManagerInput = z.infer<typeof setManagerSchema>;
 
-export const setManagerTool = {
+export const setManagerResultSchema = toolResult({
+  manager: z.string().optional().describe('Manager address (bb1...)')
+});
+
+export const setManagerTool = defineTool({
   name: 'set_manager',
   description: 'Set the collection manager address. Manager controls collection updates within permission bounds. Defaults to creator address.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      manager: { type: 'string', description: 'Manager address (bb1... or 0x...).' }
-    },
-    required: ['manager']
-  }
-};
+  schema: setManagerSchema,
+  handler: handleSetManager,
+  resultSchema: setManagerResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetManager(input: SetManagerInput) {
   const creatorAddress = input.creatorAddress ? ensureBb1(input.creatorAddress) : input.creatorAddress;
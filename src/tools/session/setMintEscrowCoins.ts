@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setMintEscrowCoins as setMintEscrowCoinsInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setMintEscrowCoinsSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -12,30 +14,18 @@ export const setMintEscrowCoinsSchema = z.object({
 
 export type SetMintEscrowCoinsInput = z.infer<typeof setMintEscrowCoinsSchema>;
 
-export const setMintEscrowCoinsTool = {
+export const setMintEscrowCoinsResultSchema = toolResult({
+  coins: z.unknown().optional()
+});
+
+export const setMintEscrowCoinsTool = defineTool({
   name: 'set_mint_escrow_coins',
   description: 'Set coins to fund the mint escrow address on collection creation. Required for quest rewards and escrow payouts where coinTransfers use overrideFromWithApproverAddress.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      coins: {
-        type: 'array',
-        items: {
-          type: 'object',
-          properties: {
-            denom: { type: 'string', description: 'Coin denomination (e.g. "ubadge", "ibc/...")' },
-            amount: { type: 'string', description: 'Amount in base units' }
-          },
-          required: ['denom', 'amount']
-        },
-        description: 'Coins to fund the escrow. For quests: rewardAmount * maxClaims.'
-      }
-    },
-    required: ['coins']
-  }
-};
+  schema: setMintEscrowCoinsSchema,
+  handler: handleSetMintEscrowCoins,
+  resultSchema: setMintEscrowCoinsResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetMintEscrowCoins(input: SetMintEscrowCoinsInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
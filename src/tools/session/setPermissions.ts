@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setPermissions as setPermissionsInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 const MAX_UINT64 = '18446744073709551615';
 const FOREVER_TIMES = [{ start: '1', end: MAX_UINT64 }];
@@ -74,39 +76,18 @@ export const setPermissionsSchema = z.object({
 
 export type SetPermissionsInput = z.infer<typeof setPermissionsSchema>;
 
-export const setPermissionsTool = {
+export const setPermissionsResultSchema = toolResult({
+  preset: z.string().optional().describe('Preset applied, or "custom"')
+});
+
+export const setPermissionsTool = defineTool({
   name: 'set_permissions',
   description: 'Set collection permissions. Use a preset ("locked-approvals" recommended) or provide custom permissions. Fields are either FROZEN (permanentlyForbiddenTimes: FOREVER) or NEUTRAL (empty []). Use NEUTRAL for editable fields — this preserves flexibility to lock them later. Avoid permanentlyPermittedTimes unless absolutely necessary. Security: freeze canUpdateCollectionApprovals by default.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      preset: {
-        type: 'string',
-        enum: ['fully-immutable', 'manager-controlled', 'locked-approvals'],
-        description: '"locked-approvals" (default): approvals+supply frozen, metadata editable. "fully-immutable": everything frozen. "manager-controlled": everything allowed except delete.'
-      },
-      permissions: {
-        type: 'object',
-        description: 'Custom permissions. Overrides preset. Each value is an array: [] = neutral (unlocked), or [{permanentlyPermittedTimes: [], permanentlyForbiddenTimes: [{start:"1",end:"18446744073709551615"}]}] = frozen.',
-        properties: {
-          canDeleteCollection: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canArchiveCollection: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateStandards: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateCustomData: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateManager: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateCollectionMetadata: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateValidTokenIds: { type: 'array', description: 'TokenIdsActionPermission[]. Items: {tokenIds, permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateTokenMetadata: { type: 'array', description: 'TokenIdsActionPermission[]. Items: {tokenIds, permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canUpdateCollectionApprovals: { type: 'array', description: 'CollectionApprovalPermission[]. Items: {fromListId, toListId, initiatedByListId, transferTimes, tokenIds, ownershipTimes, approvalId, permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canAddMoreAliasPaths: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' },
-          canAddMoreCosmosCoinWrapperPaths: { type: 'array', description: 'ActionPermission[]. Items: {permanentlyPermittedTimes, permanentlyForbiddenTimes}. [] = neutral.' }
-        }
-      }
-    }
-  }
-};
+  schema: setPermissionsSchema,
+  handler: handleSetPermissions,
+  resultSchema: setPermissionsResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetPermissions(input: SetPermissionsInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
@@ -1,27 +1,29 @@
 import { z } from 'zod';
 import { setStandards as setStandardsInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setStandardsSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
-  creatorAddress: z.string().optional(),
+  creatorAddress: z.string().optional().describe('Creator address (bb1... or 0x...).'),
   standards: z.array(z.string()).describe('Standards array. Common: ["Fungible Tokens"], ["NFTs"], ["Subscriptions"], ["Smart Token"], ["Address List"], ["Custom-2FA"]. For tradable NFTs: ["NFTs", "NFTMarketplace", "NFTPricingDenom:ubadge"]. For AI vaults: ["Smart Token", "AI Agent Vault"].')
 });
 
 export type SetStandardsInput = z.infer<typeof setStandardsSchema>;
 
-export const setStandardsTool = {
+export const setStandardsResultSchema = toolResult({
+  standards: z.array(z.string()).optional(),
+  warnings: z.array(z.string()).optional()
+});
+
+export const setStandardsTool = defineTool({
   name: 'set_standards',
   description: 'Set the standards array for the collection. Standards signal to the frontend which dedicated views to show and define structural conventions.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string', description: 'Creator address (bb1... or 0x...).' },
-      standards: { type: 'array', items: { type: 'string' }, description: 'Standards array. E.g., ["Subscriptions"], ["NFTs"], ["Smart Token"].' }
-    },
-    required: ['standards']
-  }
-};
+  schema: setStandardsSchema,
+  handler: handleSetStandards,
+  resultSchema: setStandardsResultSchema,
+  mutatesSession: true
+});
 
 const KNOWN_STANDARDS = new Set([
   'Subscriptions', 'Quests', 'Products', 'IBC Token Factory', 'Smart Token',
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setTokenMetadata as setTokenMetadataInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const setTokenMetadataSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -15,22 +17,16 @@ export const setTokenMetadataSchema = z.object({
 
 export type SetTokenMetadataInput = z.infer<typeof setTokenMetadataSchema>;
 
-export const setTokenMetadataTool = {
+export const setTokenMetadataResultSchema = toolResult({});
+
+export const setTokenMetadataTool = defineTool({
   name: 'set_token_metadata',
   description: 'Set token metadata for specific token ID ranges. Auto-creates placeholder URI. The {id} placeholder works in the URI only (not in name/description/image fields).',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } },
-      name: { type: 'string', description: 'Token name. No {id} placeholder.' },
-      description: { type: 'string', description: 'Token description. No {id} placeholder.' },
-      image: { type: 'string', description: 'Image URL. No {id} placeholder.' }
-    },
-    required: ['tokenIds', 'name', 'description', 'image']
-  }
-};
+  schema: setTokenMetadataSchema,
+  handler: handleSetTokenMetadata,
+  resultSchema: setTokenMetadataResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetTokenMetadata(input: SetTokenMetadataInput) {
   getOrCreateSession(input.sessionId, input.creatorAddress);
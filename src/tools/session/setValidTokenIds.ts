@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { setValidTokenIds as setValidTokenIdsInSession, getOrCreateSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, uintRangeSchema } from '../resultSchemas.js';
 
 export const setValidTokenIdsSchema = z.object({
   sessionId: z.string().optional().describe("Session ID for per-request isolation."),
@@ -12,19 +14,18 @@ export const setValidTokenIdsSchema = z.object({
 
 export type SetValidTokenIdsInput = z.infer<typeof setValidTokenIdsSchema>;
 
-export const setValidTokenIdsTool = {
+export const setValidTokenIdsResultSchema = toolResult({
+  tokenIds: z.array(uintRangeSchema).optional()
+});
+
+export const setValidTokenIdsTool = defineTool({
   name: 'set_valid_token_ids',
   description: 'Set the valid token ID ranges for the collection. Defines which token IDs can exist. Fungible tokens and subscriptions use a single ID; NFTs use a range.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      sessionId: { type: 'string', description: 'Session ID.' },
-      creatorAddress: { type: 'string' },
-      tokenIds: { type: 'array', items: { type: 'object', properties: { start: { type: 'string' }, end: { type: 'string' } }, required: ['start', 'end'] } }
-    },
-    required: ['tokenIds']
-  }
-};
+  schema: setValidTokenIdsSchema,
+  handler: handleSetValidTokenIds,
+  resultSchema: setValidTokenIdsResultSchema,
+  mutatesSession: true
+});
 
 export function handleSetValidTokenIds(input: SetValidTokenIdsInput) {
   // Validate ranges: start must be <= end
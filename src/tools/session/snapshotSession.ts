@@ -0,0 +1,35 @@
+/**
+ * snapshot_session — Save a frozen copy of the session under a name.
+ */
+import { z } from 'zod';
+import { snapshotSession } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
+
+export const snapshotSessionSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  name: z.string().min(1).optional().describe('Snapshot name (default "snapshot-N"). Re-using a name replaces that snapshot.')
+});
+
+export type SnapshotSessionInput = z.infer<typeof snapshotSessionSchema>;
+
+export const snapshotSessionResultSchema = toolResult({
+  snapshotId: z.string().optional()
+});
+
+export const snapshotSessionTool = defineTool({
+  name: 'snapshot_session',
+  description: 'Save a frozen copy of the session as "<sessionId>@<name>". The snapshot can later be forked (fork_session) or compared against (compare_sessions). Use before trying an alternative design so you can return to or compare with this point.',
+  schema: snapshotSessionSchema,
+  handler: handleSnapshotSession,
+  resultSchema: snapshotSessionResultSchema
+});
+
+export function handleSnapshotSession(input: SnapshotSessionInput): Record<string, any> {
+  try {
+    const { snapshotId } = snapshotSession(input.sessionId, input.name);
+    return { success: true, snapshotId };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * undo — Revert the most recent session mutation(s).
+ */
+import { z } from 'zod';
+import { undo } from '../../session/sessionState.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult, historyStepSchema } from '../resultSchemas.js';
+
+export const undoSchema = z.object({
+  sessionId: z.string().optional().describe('Session ID. Omit for default session.'),
+  steps: z.number().int().min(1).optional().default(1).describe('How many steps to undo (default 1).')
+});
+
+export type UndoInput = z.infer<typeof undoSchema>;
+
+export const undoResultSchema = toolResult({
+  undone: z.array(historyStepSchema).optional().describe('Most recent first'),
+  steps: z.array(historyStepSchema).optional(),
+  canUndo: z.boolean().optional(),
+  canRedo: z.boolean().optional()
+});
+
+export const undoTool = defineTool({
+  name: 'undo',
+  description: 'Undo the most recent session mutation(s) (set_*, add_*, remove_*). Undone steps can be re-applied with redo until a new mutation is made. Use list_session_history to see what will be undone.',
+  schema: undoSchema,
+  handler: handleUndo,
+  resultSchema: undoResultSchema,
+  mutatesSession: true
+});
+
+export function handleUndo(input: UndoInput): Record<string, any> {
+  try {
+    const result = undo(input.sessionId, input.steps);
+    if (result.steps.length === 0) {
+      return { success: false, error: 'Nothing to undo.', ...result };
+    }
+    return { success: true, undone: result.steps, canUndo: result.canUndo, canRedo: result.canRedo };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { bech32 } from 'bech32';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const convertAddressSchema = z.object({
   address: z.string().describe('The address to convert (0x... or bb1...)'),
@@ -13,34 +15,22 @@ export const convertAddressSchema = z.object({
 
 export type ConvertAddressInput = z.infer<typeof convertAddressSchema>;
 
-export interface ConvertAddressResult {
-  success: boolean;
-  originalAddress?: string;
-  convertedAddress?: string;
-  originalFormat?: string;
-  targetFormat?: string;
-  error?: string;
-}
+export const convertAddressResultSchema = toolResult({
+  originalAddress: z.string().optional(),
+  convertedAddress: z.string().optional(),
+  originalFormat: z.string().optional().describe('"eth" or "bitbadges"'),
+  targetFormat: z.string().optional().describe('"eth" or "bitbadges"')
+});
+
+export type ConvertAddressResult = z.infer<typeof convertAddressResultSchema>;
 
-export const convertAddressTool = {
+export const convertAddressTool = defineTool({
   name: 'convert_address',
   description: 'Convert between ETH (0x) and BitBadges (bb1) address formats',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      address: {
-        type: 'string',
-        description: 'The address to convert (0x... or bb1...)'
-      },
-      targetFormat: {
-        type: 'string',
-        enum: ['eth', 'bitbadges'],
-        description: 'Target format: "eth" for 0x or "bitbadges" for bb1'
-      }
-    },
-    required: ['address']
-  }
-};
+  schema: convertAddressSchema,
+  handler: handleConvertAddress,
+  resultSchema: convertAddressResultSchema
+});
 
 /**
  * Convert Ethereum address to Cosmos (bb1) address
@@ -5,6 +5,7 @@
 
 import { z } from 'zod';
 import { ERROR_PATTERNS, ErrorPattern } from '../../resources/errorPatterns.js';
+import { defineTool } from '../defineTool.js';
 
 export const diagnoseErrorSchema = z.object({
   error: z.string().describe('The error message or description'),
@@ -13,41 +14,32 @@ export const diagnoseErrorSchema = z.object({
 
 export type DiagnoseErrorInput = z.infer<typeof diagnoseErrorSchema>;
 
-export interface DiagnoseErrorResult {
-  success: boolean;
-  diagnosis: {
-    matchedPattern: string;
-    category: string;
-    explanation: string;
-    fix: string;
-    example?: string;
-  } | null;
-  suggestions: Array<{
-    pattern: string;
-    category: string;
-    relevance: number;
-  }>;
-  tip: string;
-}
+export const diagnoseErrorResultSchema = z.object({
+  success: z.boolean().describe('Whether any error pattern matched'),
+  diagnosis: z.object({
+    matchedPattern: z.string(),
+    category: z.string(),
+    explanation: z.string(),
+    fix: z.string(),
+    example: z.string().optional()
+  }).nullable().describe('Best-matching error pattern'),
+  suggestions: z.array(z.object({
+    pattern: z.string(),
+    category: z.string(),
+    relevance: z.number()
+  })).describe('Runner-up patterns'),
+  tip: z.string()
+});
+
+export type DiagnoseErrorResult = z.infer<typeof diagnoseErrorResultSchema>;
 
-export const diagnoseErrorTool = {
+export const diagnoseErrorTool = defineTool({
   name: 'diagnose_error',
   description: 'Diagnose BitBadges transaction errors and get suggested fixes. Pass the error message and optionally the context of what you were doing.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      error: {
-        type: 'string',
-        description: 'The error message or description'
-      },
-      context: {
-        type: 'string',
-        description: 'Optional context — what you were trying to do, transaction JSON snippet, etc.'
-      }
-    },
-    required: ['error']
-  }
-};
+  schema: diagnoseErrorSchema,
+  handler: handleDiagnoseError,
+  resultSchema: diagnoseErrorResultSchema
+});
 
 function scorePatternMatch(pattern: ErrorPattern, error: string, context?: string): number {
   const errorLower = error.toLowerCase();
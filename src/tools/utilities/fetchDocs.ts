@@ -4,6 +4,8 @@
  */
 
 import { z } from 'zod';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const fetchDocsSchema = z.object({
   topic: z.string().describe('The topic to search for (e.g., "claims", "approvals", "SDK usage")')
@@ -11,28 +13,22 @@ export const fetchDocsSchema = z.object({
 
 export type FetchDocsInput = z.infer<typeof fetchDocsSchema>;
 
-export interface FetchDocsResult {
-  success: boolean;
-  topic?: string;
-  content?: string;
-  url?: string;
-  error?: string;
-}
+export const fetchDocsResultSchema = toolResult({
+  topic: z.string().optional(),
+  content: z.string().optional(),
+  url: z.string().optional().describe('Page the content was fetched from')
+});
 
-export const fetchDocsTool = {
+export type FetchDocsResult = z.infer<typeof fetchDocsResultSchema>;
+
+export const fetchDocsTool = defineTool({
   name: 'fetch_docs',
   description: 'Fetch live documentation from docs.bitbadges.io for a topic',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      topic: {
-        type: 'string',
-        description: 'The topic to search for (e.g., "claims", "approvals", "SDK usage")'
-      }
-    },
-    required: ['topic']
-  }
-};
+  schema: fetchDocsSchema,
+  handler: handleFetchDocs,
+  resultSchema: fetchDocsResultSchema,
+  network: true
+});
 
 /**
  * Map common topics to documentation URLs
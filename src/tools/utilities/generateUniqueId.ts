@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { randomBytes } from 'crypto';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const generateUniqueIdSchema = z.object({
   prefix: z.string().describe('Human-readable prefix for the ID (e.g. "subscription-mint", "public-mint", "transferable"). The suffix will be appended after an underscore.'),
@@ -13,20 +15,22 @@ export const generateUniqueIdSchema = z.object({
 
 export type GenerateUniqueIdInput = z.infer<typeof generateUniqueIdSchema>;
 
-export const generateUniqueIdTool = {
+export const generateUniqueIdResultSchema = toolResult({
+  ids: z.array(z.string()),
+  note: z.string()
+});
+
+export type GenerateUniqueIdResult = z.infer<typeof generateUniqueIdResultSchema>;
+
+export const generateUniqueIdTool = defineTool({
   name: 'generate_unique_id',
   description: 'Generate unique IDs for new approvals, trackers, etc. Returns IDs like "prefix_a1b2c3d4". Use this for ALL new approval IDs to prevent collisions. Do NOT use for existing approvals being updated — keep their original IDs.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      prefix: { type: 'string', description: 'Human-readable prefix (e.g. "subscription-mint", "public-mint").' },
-      count: { type: 'number', description: 'Number of unique IDs to generate (default: 1).' }
-    },
-    required: ['prefix']
-  }
-};
+  schema: generateUniqueIdSchema,
+  handler: handleGenerateUniqueId,
+  resultSchema: generateUniqueIdResultSchema
+});
 
-export function handleGenerateUniqueId(input: GenerateUniqueIdInput) {
+export function handleGenerateUniqueId(input: GenerateUniqueIdInput): GenerateUniqueIdResult {
   const count = Math.min(Math.max(input.count || 1, 1), 20);
   const ids: string[] = [];
   for (let i = 0; i < count; i++) {
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { defineTool } from '../defineTool.js';
 
 export const getCurrentTimestampSchema = z.object({
   offsetMs: z.number().optional().describe('Optional offset in milliseconds to add to current time'),
@@ -13,51 +14,38 @@ export const getCurrentTimestampSchema = z.object({
 
 export type GetCurrentTimestampInput = z.infer<typeof getCurrentTimestampSchema>;
 
-export interface GetCurrentTimestampResult {
-  timestamp: string;
-  timestampMs: number;
-  isoDate: string;
-  foreverEnd: string;
-  helpers: {
-    fiveMinutesFromNow: string;
-    oneHourFromNow: string;
-    oneDayFromNow: string;
-    oneWeekFromNow: string;
-    oneMonthFromNow: string;
-    oneYearFromNow: string;
-  };
-  durations: {
-    fiveMinutes: string;
-    oneHour: string;
-    oneDay: string;
-    oneWeek: string;
-    oneMonth: string;
-    oneYear: string;
-  };
-}
+export const getCurrentTimestampResultSchema = z.object({
+  timestamp: z.string().describe('Milliseconds since epoch, as a string'),
+  timestampMs: z.number(),
+  isoDate: z.string(),
+  foreverEnd: z.string().describe('Max uint64 — the end of a "forever" time range'),
+  helpers: z.object({
+    fiveMinutesFromNow: z.string(),
+    oneHourFromNow: z.string(),
+    oneDayFromNow: z.string(),
+    oneWeekFromNow: z.string(),
+    oneMonthFromNow: z.string(),
+    oneYearFromNow: z.string()
+  }),
+  durations: z.object({
+    fiveMinutes: z.string(),
+    oneHour: z.string(),
+    oneDay: z.string(),
+    oneWeek: z.string(),
+    oneMonth: z.string(),
+    oneYear: z.string()
+  })
+});
+
+export type GetCurrentTimestampResult = z.infer<typeof getCurrentTimestampResultSchema>;
 
-export const getCurrentTimestampTool = {
+export const getCurrentTimestampTool = defineTool({
   name: 'get_current_timestamp',
   description: 'Get current timestamp in milliseconds for time-dependent configurations. Includes helper values for common time offsets and durations.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      offsetMs: {
-        type: 'number',
-        description: 'Optional offset in milliseconds to add to current time'
-      },
-      offsetDays: {
-        type: 'number',
-        description: 'Optional offset in days to add to current time'
-      },
-      offsetHours: {
-        type: 'number',
-        description: 'Optional offset in hours to add to current time'
-      }
-    },
-    required: []
-  }
-};
+  schema: getCurrentTimestampSchema,
+  handler: handleGetCurrentTimestamp,
+  resultSchema: getCurrentTimestampResultSchema
+});
 
 const DURATION = {
   FIVE_MINUTES: 5 * 60 * 1000,
@@ -0,0 +1,41 @@
+/**
+ * Tool: get_skill_instructions
+ * Return the detailed build instructions for one skill.
+ */
+
+import { z } from 'zod';
+import { getSkillInstructions, getAllSkillInstructions, type SkillInstruction } from '../../resources/skillInstructions.js';
+import { defineTool } from '../defineTool.js';
+
+export const getSkillInstructionsSchema = z.object({
+  skillId: z.string().describe('Skill ID: smart-token, minting, liquidity-pools, fungible-token, nft-collection, quest, subscription, immutability, custom-2fa, address-list, bb-402, burnable, multi-sig-voting, ai-criteria-gate, verified, payment-protocol, tradable, credit-token')
+});
+
+export type GetSkillInstructionsInput = z.infer<typeof getSkillInstructionsSchema>;
+
+export const getSkillInstructionsResultSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  category: z.enum(['token-type', 'standard', 'approval', 'feature', 'advanced']),
+  summary: z.string(),
+  instructions: z.string().describe('Full build instructions (markdown)'),
+  referenceCollectionIds: z.array(z.string()).optional()
+});
+
+export const getSkillInstructionsTool = defineTool({
+  name: 'get_skill_instructions',
+  description: 'Get detailed instructions for a specific skill. Skills: smart-token, fungible-token, nft-collection, quest, subscription, bb-402, ai-criteria-gate, minting, custom-2fa, immutability, liquidity-pools, payment-protocol, verified, tradable, address-list, burnable, multi-sig-voting, credit-token. Decision matrices are in bitbadges://recipes/all.',
+  schema: getSkillInstructionsSchema,
+  handler: handleGetSkillInstructions,
+  resultSchema: getSkillInstructionsResultSchema
+});
+
+export function handleGetSkillInstructions(input: GetSkillInstructionsInput): SkillInstruction {
+  const instruction = getSkillInstructions(input.skillId);
+  if (instruction) {
+    return instruction;
+  }
+  const allSkills = getAllSkillInstructions();
+  throw new Error(`Skill "${input.skillId}" not found. Available skills: ${allSkills.map(s => s.id).join(', ')}`);
+}
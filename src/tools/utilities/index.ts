@@ -5,6 +5,7 @@
 export * from './lookupTokenInfo.js';
 export * from './validateTransaction.js';
 export * from './getCurrentTimestamp.js';
+export * from './getSkillInstructions.js';
 
 // Address utilities
 export * from './convertAddress.js';
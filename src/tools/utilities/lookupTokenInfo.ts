@@ -4,7 +4,9 @@
  */
 
 import { z } from 'zod';
-import { lookupTokenInfo, getAllTokens, type TokenInfo } from '../../sdk/coinRegistry.js';
+import { lookupTokenInfo, getAllTokens } from '../../sdk/coinRegistry.js';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const lookupTokenInfoSchema = z.object({
   query: z.string().describe('Token symbol (e.g., "USDC", "ATOM") or IBC denom (e.g., "ibc/...")')
@@ -12,27 +14,28 @@ export const lookupTokenInfoSchema = z.object({
 
 export type LookupTokenInfoInput = z.infer<typeof lookupTokenInfoSchema>;
 
-export interface LookupTokenInfoResult {
-  success: boolean;
-  tokenInfo?: TokenInfo;
-  allTokens?: TokenInfo[];
-  error?: string;
-}
+const tokenInfoSchema = z.object({
+  symbol: z.string(),
+  ibcDenom: z.string(),
+  decimals: z.string(),
+  backingAddress: z.string(),
+  displayName: z.string()
+});
+
+export const lookupTokenInfoResultSchema = toolResult({
+  tokenInfo: tokenInfoSchema.optional(),
+  allTokens: z.array(tokenInfoSchema).optional().describe('Every known token (query "all")')
+});
 
-export const lookupTokenInfoTool = {
+export type LookupTokenInfoResult = z.infer<typeof lookupTokenInfoResultSchema>;
+
+export const lookupTokenInfoTool = defineTool({
   name: 'lookup_token_info',
   description: 'Get token info by symbol or IBC denom. Returns symbol, IBC denom, decimals, and pre-generated backing address.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      query: {
-        type: 'string',
-        description: 'Token symbol (e.g., "USDC", "ATOM", "OSMO") or IBC denom (e.g., "ibc/F082B65...")'
-      }
-    },
-    required: ['query']
-  }
-};
+  schema: lookupTokenInfoSchema,
+  handler: handleLookupTokenInfo,
+  resultSchema: lookupTokenInfoResultSchema
+});
 
 export function handleLookupTokenInfo(input: LookupTokenInfoInput): LookupTokenInfoResult {
   try {
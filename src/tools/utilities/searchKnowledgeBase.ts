@@ -12,6 +12,7 @@ import { getLearningsContent } from '../../resources/learnings.js';
 import { getErrorPatternsContent } from '../../resources/errorPatterns.js';
 import { getFrontendDocsContent } from '../../resources/frontendDocs.js';
 import { getWorkflowsContent } from '../../resources/workflows.js';
+import { defineTool } from '../defineTool.js';
 
 export const searchKnowledgeBaseSchema = z.object({
   query: z.string().describe('Search query — keywords, error messages, or concepts'),
@@ -21,39 +22,31 @@ export const searchKnowledgeBaseSchema = z.object({
 
 export type SearchKnowledgeBaseInput = z.infer<typeof searchKnowledgeBaseSchema>;
 
-export interface KnowledgeSearchResult {
-  source: string;
-  section: string;
-  content: string;
-  relevance: number;
-}
+const knowledgeSearchResultSchema = z.object({
+  source: z.string(),
+  section: z.string(),
+  content: z.string().describe('Section text, truncated to 1500 characters'),
+  relevance: z.number()
+});
 
-export interface SearchKnowledgeBaseResult {
-  success: boolean;
-  query: string;
-  results: KnowledgeSearchResult[];
-  totalMatches: number;
-}
+export type KnowledgeSearchResult = z.infer<typeof knowledgeSearchResultSchema>;
 
-export const searchKnowledgeBaseTool = {
+export const searchKnowledgeBaseResultSchema = z.object({
+  success: z.boolean(),
+  query: z.string(),
+  results: z.array(knowledgeSearchResultSchema).describe('Top 10 matches, most relevant first'),
+  totalMatches: z.number()
+});
+
+export type SearchKnowledgeBaseResult = z.infer<typeof searchKnowledgeBaseResultSchema>;
+
+export const searchKnowledgeBaseTool = defineTool({
   name: 'search_knowledge_base',
   description: 'Search across all BitBadges knowledge — embedded docs, learnings, recipes, error patterns, and critical rules. Returns ranked, relevant snippets. Use this before asking questions or when debugging.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      query: {
-        type: 'string',
-        description: 'Search query — keywords, error messages, or concepts'
-      },
-      category: {
-        type: 'string',
-        enum: ['all', 'docs', 'learnings', 'recipes', 'errors', 'rules'],
-        description: 'Optional category filter (default: all)'
-      }
-    },
-    required: ['query']
-  }
-};
+  schema: searchKnowledgeBaseSchema,
+  handler: handleSearchKnowledgeBase,
+  resultSchema: searchKnowledgeBaseResultSchema
+});
 
 interface KnowledgeSection {
   source: string;
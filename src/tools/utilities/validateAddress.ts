@@ -5,6 +5,8 @@
 
 import { z } from 'zod';
 import { bech32 } from 'bech32';
+import { defineTool } from '../defineTool.js';
+import { toolResult } from '../resultSchemas.js';
 
 export const validateAddressSchema = z.object({
   address: z.string().describe('The address to validate')
@@ -12,33 +14,26 @@ export const validateAddressSchema = z.object({
 
 export type ValidateAddressInput = z.infer<typeof validateAddressSchema>;
 
-export interface ValidateAddressResult {
-  success: boolean;
-  valid: boolean;
-  chain?: 'eth' | 'cosmos' | 'unknown';
-  normalized?: string;
-  details?: {
-    prefix?: string;
-    length?: number;
-    format?: string;
-  };
-  error?: string;
-}
+export const validateAddressResultSchema = toolResult({
+  valid: z.boolean(),
+  chain: z.enum(['eth', 'cosmos', 'unknown']).optional(),
+  normalized: z.string().optional().describe('Canonical form of a valid address'),
+  details: z.object({
+    prefix: z.string().optional(),
+    length: z.number().optional(),
+    format: z.string().optional()
+  }).optional()
+});
+
+export type ValidateAddressResult = z.infer<typeof validateAddressResultSchema>;
 
-export const validateAddressTool = {
+export const validateAddressTool = defineTool({
   name: 'validate_address',
   description: 'Check if an address is valid and detect its chain type',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      address: {
-        type: 'string',
-        description: 'The address to validate'
-      }
-    },
-    required: ['address']
-  }
-};
+  schema: validateAddressSchema,
+  handler: handleValidateAddress,
+  resultSchema: validateAddressResultSchema
+});
 
 /**
  * Validate an Ethereum address
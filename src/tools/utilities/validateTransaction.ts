@@ -7,10 +7,11 @@
 
 import { z } from 'zod';
 import { validateTransaction, type ValidationIssue, type ValidationResult } from 'bitbadgesjs-sdk';
+import { defineTool } from '../defineTool.js';
 
 export const validateTransactionSchema = z.object({
-  transactionJson: z.string().optional().describe('The transaction JSON to validate (as a string)'),
-  transaction: z.object({}).passthrough().optional().describe('The transaction object to validate (alternative to transactionJson)')
+  transactionJson: z.string().optional().describe('The transaction JSON to validate (as a string). Either this or transaction must be provided.'),
+  transaction: z.object({}).passthrough().optional().describe('The transaction object to validate (alternative to transactionJson — pass the object directly without JSON.stringify).')
 }).refine(data => data.transactionJson !== undefined || data.transaction !== undefined, {
   message: 'Either transactionJson or transaction must be provided'
 });
@@ -21,23 +22,22 @@ export type { ValidationIssue, ValidationResult };
 
 export interface ValidateTransactionResult extends ValidationResult {}
 
-export const validateTransactionTool = {
+/** Shape of the SDK's ValidationResult (issues may carry more detail than listed) */
+export const validateTransactionResultSchema = z.object({
+  valid: z.boolean(),
+  issues: z.array(z.object({
+    severity: z.string().describe('"error" or "warning"'),
+    message: z.string()
+  }))
+});
+
+export const validateTransactionTool = defineTool({
   name: 'validate_transaction',
   description: 'Validate BitBadges transaction JSON against critical rules. Checks for common errors like numbers not being strings, missing required fields, and invalid list IDs.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      transactionJson: {
-        type: 'string',
-        description: 'The transaction JSON to validate (as a string). Either this or transaction must be provided.'
-      },
-      transaction: {
-        type: 'object',
-        description: 'The transaction object to validate (alternative to transactionJson — pass the object directly without JSON.stringify).'
-      }
-    }
-  }
-};
+  schema: validateTransactionSchema,
+  handler: handleValidateTransaction,
+  resultSchema: validateTransactionResultSchema
+});
 
 export function handleValidateTransaction(input: ValidateTransactionInput): ValidateTransactionResult {
   // Normalize: accept either a pre-parsed object or a JSON string
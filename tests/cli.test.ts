@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { writeFileSync, mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, type CliIO } from '../src/cli.js';
+import { resetAllSessions } from '../src/session/sessionState.js';
+import { startMockApiServer } from '../src/mock/mockApiServer.js';
+import { clearApiCache } from '../src/sdk/apiClient.js';
+
+function captureIO(stdin = ''): CliIO & { out: string[]; err: string[] } {
+  const out: string[] = [];
+  const err: string[] = [];
+  return {
+    out,
+    err,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    readStdin: async () => stdin
+  };
+}
+
+beforeEach(() => {
+  resetAllSessions();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  clearApiCache();
+});
+
+describe('cli call', () => {
+  it('prints structured output from flag arguments', async () => {
+    const io = captureIO();
+    const code = await runCli(['call', 'generate_unique_id', '--prefix', 'mint', '--count', '2'], io);
+    expect(code).toBe(0);
+    const body = JSON.parse(io.out[0]);
+    expect(body.success).toBe(true);
+    expect(body.ids).toHaveLength(2);
+  });
+
+  it('keeps string IDs as strings', async () => {
+    const seed = JSON.parse(readFileSync(new URL('./fixtures/mock-api-seed.json', import.meta.url), 'utf-8'));
+    const mock = await startMockApiServer({ port: 0, seed });
+    vi.stubEnv('BITBADGES_API_URL', mock.url);
+    vi.stubEnv('BITBADGES_API_KEY', 'any');
+    try {
+      const io = captureIO();
+      expect(await runCli(['call', 'query_collection', '--collectionId', '1', '--includeMetadata', 'false'], io)).toBe(0);
+      expect(JSON.parse(io.out[0]).collection.collectionId).toBe('1');
+    } finally {
+      await mock.close();
+    }
+  });
+
+  it('reads arguments from a file and from stdin', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-cli-'));
+    const file = join(dir, 'args.json');
+    writeFileSync(file, JSON.stringify({ address: 'not-an-address' }));
+
+    const fromFile = captureIO();
+    expect(await runCli(['call', 'validate_address', '--file', file], fromFile)).toBe(0);
+    expect(JSON.parse(fromFile.out[0]).valid).toBe(false);
+
+    const fromStdin = captureIO(JSON.stringify({ prefix: 'x' }));
+    expect(await runCli(['call', 'generate_unique_id', '--file', '-'], fromStdin)).toBe(0);
+    expect(JSON.parse(fromStdin.out[0]).ids[0]).toMatch(/^x_/);
+  });
+
+  it('exits non-zero when the call is an error', async () => {
+    const io = captureIO();
+    expect(await runCli(['call', 'set_manager', '--args', '{}'], io)).toBe(1);
+    expect(io.err[0]).toMatch(/Invalid arguments for set_manager/);
+    expect(await runCli(['call', 'no_such_tool'], captureIO())).toBe(1);
+  });
+
+  it('exits 2 on usage errors', async () => {
+    const io = captureIO();
+    expect(await runCli(['call'], io)).toBe(2);
+    expect(io.err[0]).toMatch(/call needs a tool name/);
+    expect(await runCli(['call', 'generate_unique_id', '--args', '[1]'], captureIO())).toBe(2);
+    expect(await runCli(['frobnicate'], captureIO())).toBe(2);
+  });
+});
+
+describe('cli list', () => {
+  it('prints tool schemas, optionally for selected tools', async () => {
+    const all = captureIO();
+    expect(await runCli(['list'], all)).toBe(0);
+    const tools = JSON.parse(all.out[0]);
+    expect(tools.some((t: any) => t.name === 'get_transaction' && t.inputSchema && t.outputSchema)).toBe(true);
+
+    const one = captureIO();
+    expect(await runCli(['list', 'set_manager'], one)).toBe(0);
+    expect(JSON.parse(one.out[0]).map((t: any) => t.name)).toEqual(['set_manager']);
+  });
+
+  it('respects the tool profile', async () => {
+    const io = captureIO();
+    expect(await runCli(['list', '--profile', 'read-only'], io)).toBe(0);
+    expect(JSON.parse(io.out[0]).every((t: any) => t.name.startsWith('query_') || ['explain_collection', 'search_knowledge_base'].includes(t.name))).toBe(true);
+  });
+});
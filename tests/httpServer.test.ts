@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { startHttpServer, type RunningHttpServer } from '../src/httpServer.js';
+import { getCollectionValue, resetAllSessions } from '../src/session/sessionState.js';
+
+const MANAGER = 'bb1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq';
+
+let running: RunningHttpServer;
+let baseUrl: string;
+
+beforeAll(async () => {
+  resetAllSessions();
+  running = await startHttpServer({ port: 0 });
+  baseUrl = `http://127.0.0.1:${running.port}`;
+});
+
+afterAll(async () => {
+  await running.close();
+});
+
+describe('HTTP transport', () => {
+  it('serves a health endpoint', async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe('ok');
+    expect(body.sessions).toEqual({ streamableHttp: 0, sse: 0, idleClosed: 0 });
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('maps the Streamable HTTP session to the builder session', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+
+    await client.callTool({ name: 'set_manager', arguments: { manager: MANAGER } });
+    expect(transport.sessionId).toBeTruthy();
+    expect(getCollectionValue(transport.sessionId).manager).toBe(MANAGER);
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    expect(health.sessions.streamableHttp).toBe(1);
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it('closes Streamable HTTP sessions that go idle', async () => {
+    const idle = await startHttpServer({ port: 0, idleTimeoutMs: 50 });
+    const idleUrl = `http://127.0.0.1:${idle.port}`;
+    const transport = new StreamableHTTPClientTransport(new URL(`${idleUrl}/mcp`));
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+    expect((await (await fetch(`${idleUrl}/health`)).json()).sessions.streamableHttp).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const health = await (await fetch(`${idleUrl}/health`)).json();
+    expect(health.sessions).toMatchObject({ streamableHttp: 0, idleClosed: 1 });
+    const stale = await fetch(`${idleUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'mcp-session-id': transport.sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    });
+    expect(stale.status).toBe(404);
+    await client.close();
+    await idle.close();
+  });
+
+  it('supports the legacy SSE transport', async () => {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    const { tools } = await client.listTools();
+    expect(tools.some((t) => t.name === 'get_transaction')).toBe(true);
+    // File tools stay local unless allowFilesystemTools is set
+    expect(tools.some((t) => t.name === 'export_session' || t.name === 'import_session')).toBe(false);
+    await client.close();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  collectionToSessionValue,
+  handleLoadCollectionIntoSession
+} from '../src/tools/session/loadCollectionIntoSession.js';
+import { getOrCreateSession, resetAllSessions, addApproval } from '../src/session/sessionState.js';
+
+const ONCHAIN_COLLECTION = {
+  collectionId: '42',
+  manager: 'bb1manager',
+  standards: ['NFTs'],
+  validBadgeIds: [{ start: '1', end: '100' }],
+  collectionMetadata: {
+    uri: 'ipfs://QmCollection',
+    customData: '',
+    metadata: { name: 'Live Collection', description: 'Already on chain.', image: 'ipfs://QmImage' }
+  },
+  tokenMetadata: [{ uri: 'ipfs://QmTokens/{id}', customData: '', badgeIds: [{ start: '1', end: '100' }] }],
+  collectionApprovals: [{
+    approvalId: 'public-mint',
+    fromListId: 'Mint',
+    toListId: 'All',
+    initiatedByListId: 'All',
+    fromList: { listId: 'Mint', addresses: [] },
+    uri: 'ipfs://QmApproval',
+    details: { name: 'Public Mint', description: 'Anyone can mint.' },
+    approvalCriteria: { maxNumTransfers: { overallMaxNumTransfers: 100 } }
+  }],
+  collectionPermissions: { canDeleteCollection: [] },
+  invariants: { noCustomOwnershipTimes: true }
+};
+
+describe('collectionToSessionValue', () => {
+  it('builds a MsgUniversalUpdateCollection value for the existing collection', () => {
+    const { value } = collectionToSessionValue(ONCHAIN_COLLECTION, 'bb1signer');
+    expect(value.collectionId).toBe('42');
+    expect(value.creator).toBe('bb1signer');
+    expect(value.manager).toBe('bb1manager');
+    expect(value.validTokenIds).toEqual([{ start: '1', end: '100' }]);
+    expect(value.tokenMetadata[0].tokenIds).toEqual([{ start: '1', end: '100' }]);
+    expect(value.aliasPathsToAdd).toEqual([]);
+  });
+
+  it('strips API-expanded list objects and stringifies numbers', () => {
+    const { value } = collectionToSessionValue(ONCHAIN_COLLECTION);
+    const approval = value.collectionApprovals[0];
+    expect(approval.fromList).toBeUndefined();
+    expect(approval.details).toBeUndefined();
+    expect(approval.approvalCriteria.maxNumTransfers.overallMaxNumTransfers).toBe('100');
+  });
+
+  it('converts fetched metadata into placeholders', () => {
+    const { value, metadataPlaceholders } = collectionToSessionValue(ONCHAIN_COLLECTION);
+    expect(value.collectionMetadata.uri).toBe('ipfs://METADATA_COLLECTION');
+    expect(metadataPlaceholders['ipfs://METADATA_COLLECTION'].name).toBe('Live Collection');
+    expect(value.collectionApprovals[0].uri).toBe('ipfs://METADATA_APPROVAL_public-mint');
+    expect(metadataPlaceholders['ipfs://METADATA_APPROVAL_public-mint'].name).toBe('Public Mint');
+  });
+
+  it('keeps on-chain URIs when no metadata was fetched', () => {
+    const { value, metadataPlaceholders } = collectionToSessionValue({
+      ...ONCHAIN_COLLECTION,
+      collectionMetadata: { uri: 'ipfs://QmCollection', customData: '' },
+      collectionApprovals: [{ approvalId: 'a', uri: 'ipfs://QmA' }]
+    });
+    expect(value.collectionMetadata.uri).toBe('ipfs://QmCollection');
+    expect(value.collectionApprovals[0].uri).toBe('ipfs://QmA');
+    expect(metadataPlaceholders).toEqual({});
+  });
+
+  it('reads timeline-format fields', () => {
+    const { value } = collectionToSessionValue({
+      collectionId: '7',
+      managerTimeline: [{ manager: 'bb1old' }],
+      standardsTimeline: [{ standards: ['Subscriptions'] }]
+    });
+    expect(value.manager).toBe('bb1old');
+    expect(value.standards).toEqual(['Subscriptions']);
+  });
+});
+
+describe('handleLoadCollectionIntoSession', () => {
+  const savedKey = process.env.BITBADGES_API_KEY;
+
+  beforeEach(() => {
+    resetAllSessions();
+    process.env.BITBADGES_API_KEY = 'test-key';
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ collections: [ONCHAIN_COLLECTION] }), { status: 200 })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (savedKey === undefined) delete process.env.BITBADGES_API_KEY;
+    else process.env.BITBADGES_API_KEY = savedKey;
+  });
+
+  it('replaces the session and records original approval IDs', async () => {
+    addApproval('load-1', { approvalId: 'draft' });
+    const result = await handleLoadCollectionIntoSession({ sessionId: 'load-1', collectionId: '42' });
+    expect(result.success).toBe(true);
+    expect(result.originalApprovalIds).toEqual(['public-mint']);
+
+    const s = getOrCreateSession('load-1');
+    expect(s.messages).toHaveLength(1);
+    expect(s.messages[0].value.collectionId).toBe('42');
+    expect(s.messages[0].value.collectionApprovals.map((a: any) => a.approvalId)).toEqual(['public-mint']);
+    expect([...(s.originalApprovalIds || [])]).toEqual(['public-mint']);
+  });
+
+  it('reports a missing collection', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ collections: [] }), { status: 200 })));
+    const result = await handleLoadCollectionIntoSession({ sessionId: 'load-2', collectionId: '999' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('999');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { startMockApiServer, type RunningMockApiServer } from '../src/mock/mockApiServer.js';
+import { handleQueryOwners } from '../src/tools/queries/queryOwners.js';
+import { addApproval, addTransfer, getOrCreateSession, getTransaction, resetAllSessions, setValidTokenIds } from '../src/session/sessionState.js';
+import {
+  clearApiCache,
+  getBalance,
+  getBalanceForToken,
+  getCollections,
+  search,
+  searchPlugins,
+  simulateTx,
+  verifyOwnership,
+  type ApiClientConfig
+} from '../src/sdk/apiClient.js';
+
+const seed = JSON.parse(readFileSync(new URL('./fixtures/mock-api-seed.json', import.meta.url), 'utf-8'));
+
+let mock: RunningMockApiServer;
+let config: ApiClientConfig;
+
+beforeEach(async () => {
+  mock = await startMockApiServer({ port: 0, seed, pageSize: 1 });
+  config = { apiKey: 'any', apiUrl: mock.url, retries: 0 };
+});
+
+afterEach(async () => {
+  await mock.close();
+  clearApiCache();
+  vi.unstubAllEnvs();
+});
+
+function transfer(from: string, toAddresses: string[], collectionId: string, amount: string, start: string, end: string) {
+  return {
+    txs: [{
+      context: { address: from, chain: 'eth' },
+      messages: [{
+        typeUrl: '/tokenization.MsgTransferTokens',
+        value: {
+          creator: from,
+          collectionId,
+          transfers: [{ from, toAddresses, balances: [{ amount, tokenIds: [{ start, end }], ownershipTimes: [{ start: '1', end: '18446744073709551615' }] }] }]
+        }
+      }]
+    }]
+  };
+}
+
+describe('mock BitBadges API', () => {
+  it('serves seeded collections and balances', async () => {
+    const collections = await getCollections({ collectionsToFetch: [{ collectionId: '1' }, { collectionId: '99' }] }, config);
+    expect(collections.data?.collections.map((c) => c.collectionId)).toEqual(['1']);
+
+    const balance = await getBalance('2', 'bb1alice', config);
+    expect(balance.data?.balance.balances).toEqual([
+      { amount: '1', tokenIds: [{ start: '1', end: '5' }], ownershipTimes: [{ start: '1', end: '18446744073709551615' }] }
+    ]);
+    expect((await getBalanceForToken('1', '1', 'bb1bob', config)).data).toEqual({ balance: '0' });
+  });
+
+  it('applies simulated transfers so later queries see them', async () => {
+    const simulated = await simulateTx(transfer('bb1alice', ['bb1bob', 'bb1carol'], '1', '100', '1', '1'), config);
+    expect(simulated.data?.results[0].error).toBeUndefined();
+    expect(simulated.data?.results[0].events).toHaveLength(1);
+
+    expect((await getBalanceForToken('1', '1', 'bb1alice', config)).data?.balance).toBe('800');
+    expect((await getBalanceForToken('1', '1', 'bb1carol', { ...config, bypassCache: true })).data?.balance).toBe('100');
+  });
+
+  it('rejects transfers beyond the sender balance without changing anything', async () => {
+    const simulated = await simulateTx(transfer('bb1bob', ['bb1carol'], '2', '1', '5', '7'), config);
+    expect(simulated.data?.results[0].error).toMatch(/insufficient balance/);
+    expect(mock.state.getTokenBalance('2', '6', 'bb1bob')).toBe('1');
+    expect(mock.state.getTokenBalance('2', '6', 'bb1carol')).toBe('0');
+  });
+
+  it('mints without debiting the Mint address', async () => {
+    await simulateTx(transfer('Mint', ['bb1bob'], '2', '1', '8', '10'), config);
+    expect(mock.state.getBalances('2', 'bb1bob')).toEqual([
+      { amount: '1', tokenIds: [{ start: '6', end: '10' }], ownershipTimes: [{ start: '1', end: '18446744073709551615' }] }
+    ]);
+  });
+
+  it('simulates a new-collection build straight from the session', async () => {
+    resetAllSessions();
+    getOrCreateSession('new-collection', 'bb1alice');
+    setValidTokenIds('new-collection', [{ start: '1', end: '10' }]);
+    addApproval('new-collection', { approvalId: 'mint', fromListId: 'Mint' });
+    addTransfer('new-collection', {
+      transfers: [{
+        from: 'Mint',
+        toAddresses: ['bb1bob'],
+        balances: [{ amount: '1', tokenIds: [{ start: '1', end: '3' }], ownershipTimes: [{ start: '1', end: '18446744073709551615' }] }]
+      }]
+    });
+
+    const { messages } = getTransaction('new-collection');
+    const simulated = await simulateTx({ txs: [{ context: { address: 'bb1alice', chain: 'eth' }, messages }] }, config);
+    expect(simulated.data?.results[0].error).toBeUndefined();
+
+    expect(mock.state.getCollection('3')?.validTokenIds).toEqual([{ start: '1', end: '10' }]);
+    expect(mock.state.getTokenBalance('3', '2', 'bb1bob')).toBe('1');
+    resetAllSessions();
+  });
+
+  it('verifies ownership requirements', async () => {
+    const asset = (start: string, end: string, min: string) => ({
+      collectionId: '2',
+      tokenIds: [{ start, end }],
+      ownershipTimes: [],
+      amountRange: { start: min, end: '18446744073709551615' }
+    });
+    const check = async (assetOwnershipRequirements: any) =>
+      (await verifyOwnership({ address: 'bb1alice', assetOwnershipRequirements }, config)).data?.verified;
+
+    expect(await check({ assets: [asset('1', '5', '1')] })).toBe(true);
+    expect(await check({ assets: [asset('1', '6', '1')] })).toBe(false);
+    expect(await check({ $or: [{ assets: [asset('6', '6', '1')] }, { assets: [asset('2', '2', '1')] }] })).toBe(true);
+    expect(await check({ $not: { assets: [asset('1', '1', '1')] } })).toBe(false);
+  });
+
+  it('searches collections, accounts and plugins', async () => {
+    const found = await search({ searchValue: 'art' }, config);
+    expect(found.data?.collections?.map((c) => c.collectionId)).toEqual(['2']);
+    expect((await search({ searchValue: 'bob' }, config)).data?.accounts?.map((a) => a.address)).toEqual(['bb1bob']);
+
+    expect((await searchPlugins({ searchValue: 'password' }, config)).data?.plugins.map((p) => p.pluginId)).toEqual(['password']);
+    expect((await searchPlugins({ pluginIds: ['numUses'] }, config)).data?.plugins.map((p) => p.pluginId)).toEqual(['numUses']);
+  });
+
+  it('lists every owner of a token through query_owners with all: true', async () => {
+    vi.stubEnv('BITBADGES_API_URL', mock.url);
+    vi.stubEnv('BITBADGES_API_KEY', 'any');
+    await simulateTx(transfer('Mint', ['bb1carol'], '2', '1', '3', '3'), config);
+
+    const firstPage = await handleQueryOwners({ collectionId: '2', tokenId: '3' });
+    expect(firstPage.owners?.map((owner) => owner.address)).toEqual(['bb1alice']);
+    expect(firstPage.pagination).toEqual({ bookmark: '1', hasMore: true });
+
+    const all = await handleQueryOwners({ collectionId: '2', tokenId: '3', all: true });
+    expect(all.owners?.map((owner) => owner.address)).toEqual(['bb1alice', 'bb1carol']);
+    expect(all.pagination).toBeUndefined();
+    expect(all.truncated).toBe(false);
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const response = await fetch(`${mock.url}/api/v0/nope`);
+    expect(response.status).toBe(404);
+  });
+});
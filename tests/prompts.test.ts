@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { listPrompts, getPrompt } from '../src/prompts/index.js';
+import { getAllSkillInstructions } from '../src/resources/skillInstructions.js';
+
+describe('prompts', () => {
+  it('lists one prompt per skill and per workflow, with unique names', () => {
+    const prompts = listPrompts();
+    const names = prompts.map((p) => p.name);
+    expect(new Set(names).size).toBe(names.length);
+
+    const skillIds = new Set(getAllSkillInstructions().map((s) => s.id));
+    for (const id of skillIds) expect(names).toContain(id);
+    expect(names).toContain('workflow-bb402-acquire');
+    expect(names).toContain('workflow-debug-transfer');
+    expect(names).not.toContain('workflow-overview');
+  });
+
+  it('advertises skill-specific arguments', () => {
+    const subscription = listPrompts().find((p) => p.name === 'subscription')!;
+    expect(subscription.arguments.map((a) => a.name)).toEqual(['name', 'denom', 'price', 'supply', 'creator', 'duration']);
+    const crowdfund = listPrompts().find((p) => p.name === 'crowdfund')!;
+    expect(crowdfund.arguments.map((a) => a.name)).toContain('goal');
+  });
+
+  it('fills arguments into the build plan', () => {
+    const result = getPrompt('subscription', { denom: 'USDC', price: '10', duration: 'monthly' });
+    expect(result.messages).toHaveLength(1);
+    const text = result.messages[0].content.text;
+    expect(text).toContain('Build a Subscription collection');
+    expect(text).toContain('- denom: USDC');
+    expect(text).toContain('- price: 10');
+    expect(text).toContain('durationFromTimestamp "2592000000"');
+    expect(text).toContain('lookup_token_info("USDC")');
+    expect(text).toContain('get_skill_instructions("subscription")');
+    expect(text).toMatch(/- supply: not given/);
+    expect(text).toContain('Required standards: ["Subscriptions"]');
+  });
+
+  it('skips the token lookup step when no denom is given', () => {
+    const text = getPrompt('prediction-market', { question: 'Will it rain?' }).messages[0].content.text;
+    expect(text).not.toContain('lookup_token_info');
+    expect(text).toContain('- question: Will it rain?');
+  });
+
+  it('renders workflows with optional context', () => {
+    const text = getPrompt('workflow-debug-transfer', { context: 'collection 42' }).messages[0].content.text;
+    expect(text).toContain('Context: collection 42');
+    expect(text).toContain('## Debug a Failed Transfer');
+  });
+
+  it('throws for unknown prompts', () => {
+    expect(() => getPrompt('nope')).toThrow('Unknown prompt: nope');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { listResourceTemplates, listTemplatedResources, readResourceTemplate } from '../src/resources/templates.js';
+import { resetAllSessions, setManager, getOrCreateSession } from '../src/session/sessionState.js';
+
+describe('resource templates', () => {
+  beforeEach(() => {
+    resetAllSessions();
+  });
+
+  it('lists the templates', () => {
+    expect(listResourceTemplates().map((t) => t.uriTemplate)).toEqual([
+      'bitbadges://skills/{id}',
+      'bitbadges://errors/{category}',
+      'bitbadges://collections/{collectionId}',
+      'bitbadges://session/{sessionId}'
+    ]);
+  });
+
+  it('reads a single skill', async () => {
+    const result = await readResourceTemplate('bitbadges://skills/subscription');
+    expect(result?.mimeType).toBe('text/markdown');
+    expect(result?.text).toMatch(/^## Subscription/);
+    expect(result?.text).not.toContain('## Crowdfund');
+  });
+
+  it('rejects unknown skills and categories with the valid options', async () => {
+    await expect(readResourceTemplate('bitbadges://skills/nope')).rejects.toThrow(/Unknown skill "nope"\. Available skills: .*subscription/);
+    await expect(readResourceTemplate('bitbadges://errors/nope')).rejects.toThrow(/Unknown error category "nope"\. Categories: .*transfer/);
+  });
+
+  it('reads one error category', async () => {
+    const result = await readResourceTemplate('bitbadges://errors/evm');
+    expect(result?.text).toMatch(/^## Evm/);
+    expect(result?.text).not.toContain('## Transfer');
+  });
+
+  it('reads a session as a redacted export document', async () => {
+    getOrCreateSession('my session');
+    setManager('my session', 'bb1manager');
+    const result = await readResourceTemplate(`bitbadges://session/${encodeURIComponent('my session')}`);
+    const doc = JSON.parse(result!.text);
+    expect(doc.format).toBe('bitbadges-builder-session');
+    expect(doc.sessionId).toBe('my session');
+    expect(doc.secretsRedacted).toBe(true);
+    expect(doc.messages[0].value.manager).toBe('bb1manager');
+  });
+
+  it('does not create sessions on read', async () => {
+    await expect(readResourceTemplate('bitbadges://session/missing')).rejects.toThrow('Session "missing" not found.');
+  });
+
+  it('lists concrete skills, error categories and sessions', () => {
+    getOrCreateSession('s1');
+    const uris = listTemplatedResources().map((r) => r.uri);
+    expect(uris).toContain('bitbadges://skills/subscription');
+    expect(uris).toContain('bitbadges://errors/transfer');
+    expect(uris).toContain('bitbadges://session/s1');
+    expect(new Set(uris).size).toBe(uris.length);
+  });
+
+  it('limits HTTP clients to their own session', async () => {
+    getOrCreateSession('mine');
+    getOrCreateSession('theirs');
+    const context = { transportSessionId: 'mine' };
+    const sessionUris = listTemplatedResources(context).map((r) => r.uri).filter((uri) => uri.startsWith('bitbadges://session/'));
+    expect(sessionUris).toEqual(['bitbadges://session/mine']);
+    expect((await readResourceTemplate('bitbadges://session/mine', context))?.mimeType).toBe('application/json');
+    await expect(readResourceTemplate('bitbadges://session/theirs', context)).rejects.toThrow('not available on this connection');
+  });
+
+  it('returns null for URIs no template matches', async () => {
+    expect(await readResourceTemplate('bitbadges://unknown/thing')).toBeNull();
+  });
+
+  describe('collections', () => {
+    const savedKey = process.env.BITBADGES_API_KEY;
+
+    beforeEach(() => {
+      process.env.BITBADGES_API_KEY = 'test-key';
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      if (savedKey === undefined) delete process.env.BITBADGES_API_KEY;
+      else process.env.BITBADGES_API_KEY = savedKey;
+    });
+
+    it('fetches the collection from the API', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ collections: [{ collectionId: '7', manager: 'bb1x' }] }), { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const result = await readResourceTemplate('bitbadges://collections/7');
+      expect(result?.mimeType).toBe('application/json');
+      expect(JSON.parse(result!.text)).toEqual({ collectionId: '7', manager: 'bb1x' });
+      const body = JSON.parse((fetchMock.mock.calls[0] as any[])[1].body);
+      expect(body.collectionsToFetch[0].collectionId).toBe('7');
+    });
+
+    it('reports collections that do not exist', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ collections: [] }), { status: 200 })));
+      await expect(readResourceTemplate('bitbadges://collections/999')).rejects.toThrow('Collection 999 not found');
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  apiRequest,
+  checkApiClientEnv,
+  parseRetryAfter,
+  withApiSignal,
+  clearApiCache,
+  getApiCacheSize,
+  getAllTokenOwners,
+  getBalanceForToken,
+  getCollections,
+  paginate,
+  type ApiClientConfig
+} from '../src/sdk/apiClient.js';
+import { fixtureFileName } from '../src/sdk/apiFixtures.js';
+import { handleQueryDynamicStore } from '../src/tools/queries/queryDynamicStore.js';
+
+const config: ApiClientConfig = { apiKey: 'test-key', apiUrl: 'https://api.test', retryDelayMs: 1 };
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+function stubFetch(...responses: Array<Response | Error>) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('unexpected fetch');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/** A fetch that never responds until its signal aborts */
+function stubHangingFetch() {
+  const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  clearApiCache();
+});
+
+describe('apiRequest', () => {
+  it('returns parsed data on success', async () => {
+    const fetchMock = stubFetch(jsonResponse(200, { ok: 1 }));
+    const result = await apiRequest('/api/v0/thing', 'POST', { a: 1 }, config);
+    expect(result).toEqual({ success: true, data: { ok: 1 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with an auth error when no API key is configured', async () => {
+    vi.stubEnv('BITBADGES_API_KEY', '');
+    const result = await apiRequest('/x', 'GET', undefined, { apiUrl: 'https://api.test' });
+    expect(result.success).toBe(false);
+    expect(result.apiError?.kind).toBe('auth');
+  });
+
+  it('retries 429 and 5xx responses with backoff, then succeeds', async () => {
+    const fetchMock = stubFetch(
+      jsonResponse(503, { error: 'busy' }),
+      jsonResponse(429, { error: 'slow down' }, { 'Retry-After': '0' }),
+      jsonResponse(200, { ok: 1 })
+    );
+    const result = await apiRequest('/x', 'POST', {}, config);
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured retries with a typed error', async () => {
+    const fetchMock = stubFetch(jsonResponse(500, 'a'), jsonResponse(500, 'b'));
+    const result = await apiRequest('/x', 'POST', {}, { ...config, retries: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^API Error 500/);
+    expect(result.apiError).toMatchObject({ kind: 'server', status: 500, attempts: 2 });
+  });
+
+  it('does not retry client errors', async () => {
+    const fetchMock = stubFetch(jsonResponse(400, 'bad'));
+    const result = await apiRequest('/x', 'POST', {}, config);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.apiError?.kind).toBe('validation');
+  });
+
+  it('classifies network failures and retries them', async () => {
+    const fetchMock = stubFetch(new TypeError('fetch failed'), new TypeError('fetch failed'));
+    const result = await apiRequest('/x', 'POST', {}, { ...config, retries: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.error).toBe('Request failed: fetch failed');
+    expect(result.apiError?.kind).toBe('network');
+  });
+
+  it('times out slow requests', async () => {
+    stubHangingFetch();
+    const result = await apiRequest('/x', 'POST', {}, { ...config, timeoutMs: 20, retries: 0 });
+    expect(result.apiError?.kind).toBe('timeout');
+  });
+
+  it('cancels in-flight requests through withApiSignal', async () => {
+    const fetchMock = stubHangingFetch();
+    const controller = new AbortController();
+    const pending = withApiSignal(controller.signal, () => apiRequest('/x', 'POST', {}, config));
+    controller.abort();
+    const result = await pending;
+    expect(result.apiError?.kind).toBe('cancelled');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('response cache', () => {
+  it('serves repeat requests from the cache, keyed by endpoint and body', async () => {
+    const fetchMock = stubFetch(jsonResponse(200, { n: 1 }), jsonResponse(200, { n: 2 }));
+    expect((await apiRequest('/api/v0/collections', 'POST', { id: '1' }, config)).data).toEqual({ n: 1 });
+    expect((await apiRequest('/api/v0/collections', 'POST', { id: '1' }, config)).data).toEqual({ n: 1 });
+    expect((await apiRequest('/api/v0/collections', 'POST', { id: '2' }, config)).data).toEqual({ n: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns copies, so callers can mutate results', async () => {
+    stubFetch(jsonResponse(200, { list: [1] }));
+    const first = await apiRequest<{ list: number[] }>('/api/v0/search', 'POST', {}, config);
+    first.data!.list.push(2);
+    const second = await apiRequest<{ list: number[] }>('/api/v0/search', 'POST', {}, config);
+    expect(second.data!.list).toEqual([1]);
+  });
+
+  it('refetches with bypassCache and after clearApiCache', async () => {
+    const fetchMock = stubFetch(jsonResponse(200, { n: 1 }), jsonResponse(200, { n: 2 }), jsonResponse(200, { n: 3 }));
+    await apiRequest('/api/v0/collections', 'POST', {}, config);
+    expect((await apiRequest('/api/v0/collections', 'POST', {}, { ...config, bypassCache: true })).data).toEqual({ n: 2 });
+    expect((await apiRequest('/api/v0/collections', 'POST', {}, config)).data).toEqual({ n: 2 });
+    expect(clearApiCache('/api/v0/search')).toBe(0);
+    expect(clearApiCache('/api/v0/collections')).toBe(1);
+    expect((await apiRequest('/api/v0/collections', 'POST', {}, config)).data).toEqual({ n: 3 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('never caches simulations, ownership checks or failures', async () => {
+    const fetchMock = stubFetch(
+      jsonResponse(200, {}), jsonResponse(200, {}),
+      jsonResponse(200, {}), jsonResponse(200, {}),
+      jsonResponse(400, 'bad'), jsonResponse(200, {})
+    );
+    await apiRequest('/api/v0/simulate', 'POST', {}, config);
+    await apiRequest('/api/v0/simulate', 'POST', {}, config);
+    await apiRequest('/api/v0/verifyOwnershipRequirements', 'POST', {}, config);
+    await apiRequest('/api/v0/verifyOwnershipRequirements', 'POST', {}, config);
+    await apiRequest('/api/v0/search', 'POST', {}, config);
+    await apiRequest('/api/v0/search', 'POST', {}, config);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect(getApiCacheSize()).toBe(1);
+  });
+
+  it('evicts the least recently used entry beyond BITBADGES_API_CACHE_MAX', async () => {
+    vi.stubEnv('BITBADGES_API_CACHE_MAX', '2');
+    const fetchMock = stubFetch(jsonResponse(200, { n: 1 }), jsonResponse(200, { n: 2 }), jsonResponse(200, { n: 3 }), jsonResponse(200, { n: 4 }));
+    await apiRequest('/api/v0/search', 'POST', { q: 1 }, config);
+    await apiRequest('/api/v0/search', 'POST', { q: 2 }, config);
+    await apiRequest('/api/v0/search', 'POST', { q: 1 }, config); // hit — q: 2 is now least recent
+    await apiRequest('/api/v0/search', 'POST', { q: 3 }, config);
+    expect(getApiCacheSize()).toBe(2);
+    expect((await apiRequest('/api/v0/search', 'POST', { q: 2 }, config)).data).toEqual({ n: 4 });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('fixtures', () => {
+  function useFixtures(mode: 'record' | 'replay', dir: string) {
+    vi.stubEnv('BITBADGES_API_FIXTURES', mode);
+    vi.stubEnv('BITBADGES_API_FIXTURES_DIR', dir);
+  }
+
+  it('records responses and replays them without an API key or network', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-fixtures-'));
+    useFixtures('record', dir);
+    stubFetch(jsonResponse(200, { collections: [{ collectionId: '1' }] }), jsonResponse(404, 'missing'));
+    await apiRequest('/api/v0/collections', 'POST', { collectionsToFetch: [{ collectionId: '1', fetchTotalAndMintBalances: true }] }, config);
+    await apiRequest('/api/v0/search', 'POST', { searchValue: 'nope' }, config);
+    expect(readdirSync(dir)).toHaveLength(2);
+
+    useFixtures('replay', dir);
+    vi.stubEnv('BITBADGES_API_KEY', '');
+    const fetchMock = stubFetch();
+    // Key order in the body doesn't matter
+    const hit = await apiRequest('/api/v0/collections', 'POST', { collectionsToFetch: [{ fetchTotalAndMintBalances: true, collectionId: '1' }] });
+    expect(hit).toEqual({ success: true, data: { collections: [{ collectionId: '1' }] } });
+    const recordedError = await apiRequest('/api/v0/search', 'POST', { searchValue: 'nope' });
+    expect(recordedError.apiError).toMatchObject({ kind: 'not-found', status: 404 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails clearly when replaying a request that was never recorded', async () => {
+    useFixtures('replay', mkdtempSync(join(tmpdir(), 'bb-fixtures-')));
+    const result = await apiRequest('/api/v0/search', 'POST', { searchValue: 'x' });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No recorded fixture for POST \/api\/v0\/search/);
+    expect(result.apiError?.kind).toBe('fixture');
+    expect(result.apiError?.retryable).toBe(false);
+  });
+
+  it('reports an unreadable fixture as a fixture error', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-fixtures-'));
+    writeFileSync(join(dir, fixtureFileName('POST', '/api/v0/search', { q: 1 })), '{"status": 2', 'utf-8');
+    useFixtures('replay', dir);
+    const result = await apiRequest('/api/v0/search', 'POST', { q: 1 });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/is not valid JSON/);
+    expect(result.apiError?.kind).toBe('fixture');
+    expect(result.apiError?.retryable).toBe(false);
+  });
+
+  it('still returns the response when the fixture cannot be saved', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-fixtures-'));
+    const blocked = join(dir, 'blocked');
+    writeFileSync(blocked, '', 'utf-8'); // a file where the fixtures directory should be
+    useFixtures('record', blocked);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubFetch(jsonResponse(200, { ok: true }));
+    const result = await apiRequest('/api/v0/search', 'POST', { q: 1 }, config);
+    expect(result).toEqual({ success: true, data: { ok: true } });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not record fixture for POST /api/v0/search'));
+    warn.mockRestore();
+  });
+
+  it('stores the normalised request next to the response', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-fixtures-'));
+    useFixtures('record', dir);
+    stubFetch(jsonResponse(200, { ok: true }));
+    await apiRequest('/api/v0/search', 'POST', { b: 1, a: 2 }, config);
+    const fixture = JSON.parse(readFileSync(join(dir, fixtureFileName('POST', '/api/v0/search', { a: 2, b: 1 })), 'utf-8'));
+    expect(fixture).toMatchObject({ method: 'POST', endpoint: '/api/v0/search', body: { a: 2, b: 1 }, status: 200, data: { ok: true } });
+    expect(Object.keys(fixture.body)).toEqual(['a', 'b']);
+  });
+});
+
+describe('response validation', () => {
+  const collection = {
+    collectionId: '1',
+    collectionMetadataTimeline: [{ collectionMetadata: { uri: 'ipfs://x', metadata: { name: 'X' } } }],
+    validBadgeIds: [{ start: '1', end: '1' }],
+    manager: 'bb1manager',
+    standards: [],
+    invariants: {}
+  };
+  const request = { collectionsToFetch: [{ collectionId: '1' }] };
+
+  it('accepts matching responses and keeps fields the schema does not list', async () => {
+    stubFetch(jsonResponse(200, { collections: [collection] }));
+    const result = await getCollections(request, config);
+    expect(result.success).toBe(true);
+    expect(result.data!.collections[0].invariants).toEqual({});
+  });
+
+  it('fails with the offending paths in strict mode, without caching', async () => {
+    const fetchMock = stubFetch(
+      jsonResponse(200, { collections: [{ ...collection, manager: 7, standards: 'NFTs' }] }),
+      jsonResponse(200, { collections: [collection] })
+    );
+    const result = await getCollections(request, config);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Unexpected API response from POST \/api\/v0\/collections: /);
+    expect(result.apiError?.kind).toBe('schema');
+    expect(result.apiError?.issues?.map((issue) => issue.path).sort()).toEqual(['collections.0.manager', 'collections.0.standards']);
+
+    expect((await getCollections(request, config)).success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs mismatches and returns the data in lenient mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubFetch(jsonResponse(200, { balance: 3 }));
+    const result = await getBalanceForToken('1', '1', 'bb1x', { ...config, validation: 'lenient' });
+    expect(result).toEqual({ success: true, data: { balance: 3 } });
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/balance: Expected string, received number/));
+    warn.mockRestore();
+  });
+
+  it('skips the check when validation is off', async () => {
+    vi.stubEnv('BITBADGES_API_VALIDATION', 'off');
+    stubFetch(jsonResponse(200, { unexpected: true }));
+    expect((await getCollections(request, config)).data).toEqual({ unexpected: true });
+  });
+
+  it('fails requests with a config error for an unknown mode', async () => {
+    vi.stubEnv('BITBADGES_API_VALIDATION', 'loose');
+    const fetchMock = stubFetch(jsonResponse(200, { collections: [] }));
+    const result = await getCollections(request, config);
+    expect(result.success).toBe(false);
+    expect(result.apiError?.kind).toBe('config');
+    expect(result.apiError?.retryable).toBe(false);
+    expect(result.error).toMatch(/Unknown BITBADGES_API_VALIDATION mode "loose"/);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(() => checkApiClientEnv()).toThrow(/Unknown BITBADGES_API_VALIDATION mode "loose"/);
+  });
+
+  it('checks replayed fixtures too', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-fixtures-'));
+    vi.stubEnv('BITBADGES_API_FIXTURES', 'record');
+    vi.stubEnv('BITBADGES_API_FIXTURES_DIR', dir);
+    stubFetch(jsonResponse(200, { collections: 'none' }));
+    expect((await getCollections(request, config)).apiError?.kind).toBe('schema');
+
+    vi.stubEnv('BITBADGES_API_FIXTURES', 'replay');
+    expect((await getCollections(request)).apiError?.issues).toEqual([
+      { path: 'collections', message: 'Expected array, received string' }
+    ]);
+  });
+});
+
+describe('pagination', () => {
+  function ownersPage(addresses: string[], bookmark?: string) {
+    return jsonResponse(200, {
+      owners: addresses.map((address) => ({ address, balances: [] })),
+      pagination: { bookmark: bookmark ?? '', hasMore: bookmark !== undefined }
+    });
+  }
+
+  it('follows bookmarks until the last page', async () => {
+    const fetchMock = stubFetch(ownersPage(['a', 'b'], 'p2'), ownersPage(['c'], 'p3'), ownersPage(['d']));
+    const result = await getAllTokenOwners('1', '1', config);
+    expect(result.data).toEqual({
+      items: ['a', 'b', 'c', 'd'].map((address) => ({ address, balances: [] })),
+      pages: 3,
+      truncated: false
+    });
+    expect(fetchMock.mock.calls.map((call) => (call as unknown[])[0])).toEqual([
+      'https://api.test/api/v0/collection/1/1/owners',
+      'https://api.test/api/v0/collection/1/1/owners?bookmark=p2',
+      'https://api.test/api/v0/collection/1/1/owners?bookmark=p3'
+    ]);
+  });
+
+  it('stops at maxItems and reports the cut', async () => {
+    const fetchMock = stubFetch(ownersPage(['a', 'b'], 'p2'), ownersPage(['c', 'd'], 'p3'));
+    const result = await getAllTokenOwners('1', '1', config, { maxItems: 3 });
+    expect(result.data?.items.map((owner) => owner.address)).toEqual(['a', 'b', 'c']);
+    expect(result.data?.truncated).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when an endpoint repeats a bookmark', async () => {
+    const pages = [{ values: [1], next: 'x' }, { values: [2], next: 'x' }, { values: [3], next: 'y' }];
+    let calls = 0;
+    const result = await paginate(
+      async () => ({ success: true, data: pages[calls++] }),
+      (page) => ({ items: page.values, bookmark: page.next })
+    );
+    expect(result.data).toEqual({ items: [1, 2], pages: 2, truncated: false });
+  });
+
+  it('fails when any page fails', async () => {
+    stubFetch(ownersPage(['a'], 'p2'), jsonResponse(404, 'gone'));
+    const result = await getAllTokenOwners('1', '1', config);
+    expect(result.success).toBe(false);
+    expect(result.apiError?.kind).toBe('not-found');
+  });
+  it('reports truncated on list_values and checks each page against its schema', async () => {
+    vi.stubEnv('BITBADGES_API_KEY', 'test-key');
+    vi.stubEnv('BITBADGES_API_URL', 'https://api.test');
+    const valuesPage = (addresses: string[], bookmark?: string) => jsonResponse(200, {
+      values: addresses.map((address) => ({ storeId: '1', address, value: true })),
+      pagination: { bookmark: bookmark ?? '', hasMore: bookmark !== undefined }
+    });
+
+    stubFetch(valuesPage(['a', 'b'], 'p2'), valuesPage(['c'], 'p3'));
+    const all = await handleQueryDynamicStore({ action: 'list_values', storeId: '1', all: true, maxItems: 3 });
+    expect(all.values?.map((v) => v.address)).toEqual(['a', 'b', 'c']);
+    expect(all.truncated).toBe(true);
+    expect(all.pagination).toBeUndefined();
+
+    stubFetch(jsonResponse(200, { values: [{ storeId: '1', address: 'a', value: 'yes' }] }));
+    const bad = await handleQueryDynamicStore({ action: 'list_values', storeId: '1', bookmark: 'p9' });
+    expect(bad.success).toBe(false);
+    expect(bad.error).toMatch(/values\.0\.value: Expected boolean/);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(10_000).toUTCString(), 4_000)).toBe(6000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
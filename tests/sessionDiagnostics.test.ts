@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { validateTransaction } from 'bitbadgesjs-sdk';
+import { withDiagnostics } from '../src/tools/session/diagnostics.js';
+import { handleRemoveApproval } from '../src/tools/session/removeApproval.js';
+import { resetAllSessions, setValidTokenIds, getTransaction, ensureStringNumbers, getOrCreateSession } from '../src/session/sessionState.js';
+
+function currentErrors(sessionId: string): string[] {
+  const { baseline: _baseline, ...transaction } = getTransaction(sessionId);
+  return validateTransaction(ensureStringNumbers(transaction)).issues
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => issue.message);
+}
+
+beforeEach(() => {
+  resetAllSessions();
+});
+
+describe('withDiagnostics', () => {
+  it('reports the error a call introduces and resolves it when fixed', () => {
+    const bad = withDiagnostics('diag', () => {
+      setValidTokenIds('diag', [{ start: '10', end: '1' }]);
+      return { success: true };
+    });
+    expect(bad.diagnostics.newErrors.length).toBeGreaterThan(0);
+    expect(currentErrors('diag')).toEqual(expect.arrayContaining(bad.diagnostics.newErrors));
+
+    const fixed = withDiagnostics('diag', () => {
+      setValidTokenIds('diag', [{ start: '1', end: '10' }]);
+      return { success: true };
+    });
+    expect(fixed.diagnostics.newErrors).toEqual([]);
+    expect(fixed.diagnostics.resolved).toBeGreaterThanOrEqual(bad.diagnostics.newErrors.length);
+    for (const message of bad.diagnostics.newErrors) {
+      expect(currentErrors('diag')).not.toContain(message);
+    }
+  });
+
+  it('reports nothing new when a call changes nothing', () => {
+    const run = () => {
+      setValidTokenIds('diag', [{ start: '1', end: '1' }]);
+      return { success: true };
+    };
+    withDiagnostics('diag', run);
+    const result = withDiagnostics('diag', run);
+    expect(result.diagnostics.newErrors).toEqual([]);
+    expect(result.diagnostics.newStandardsViolations).toEqual([]);
+    expect(result.diagnostics.resolved).toBe(0);
+  });
+
+  it('compares a new session against the blank template', () => {
+    const result = withDiagnostics('fresh', () => {
+      getOrCreateSession('fresh');
+      return { success: true };
+    });
+    // Whatever the blank template already fails isn't blamed on the call that created it
+    expect(result.diagnostics.newErrors).toEqual([]);
+    expect(result.diagnostics.newStandardsViolations).toEqual([]);
+    expect(result.diagnostics.resolved).toBe(0);
+  });
+
+  it('omits diagnostics for failed calls', () => {
+    const result = withDiagnostics('diag', () => handleRemoveApproval({ sessionId: 'diag', approvalId: 'missing' }));
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { computeMinimalUpdate, describeKeyedListChanges, compareCollections } from '../src/session/sessionDiff.js';
+import { resetAllSessions, loadCollection, setManager, setCollectionMetadata, addApproval, removeApproval } from '../src/session/sessionState.js';
+import { handleGetTransaction } from '../src/tools/session/getTransaction.js';
+
+const baseValue = () => ({
+  creator: 'bb1creator',
+  collectionId: '5',
+  updateCollectionApprovals: true,
+  collectionApprovals: [
+    { approvalId: 'mint', fromListId: 'Mint', toListId: 'All', uri: '', customData: '', version: '0' },
+    { approvalId: 'transfer', fromListId: '!Mint', toListId: 'All', uri: '', customData: '', version: '0' }
+  ],
+  updateStandards: true,
+  standards: ['NFTs'],
+  updateCollectionMetadata: true,
+  collectionMetadata: { uri: 'ipfs://METADATA_COLLECTION', customData: '' },
+  updateManager: true,
+  manager: 'bb1manager',
+  updateIsArchived: true,
+  isArchived: false,
+  mintEscrowCoinsToTransfer: [],
+  aliasPathsToAdd: [],
+  cosmosCoinWrapperPathsToAdd: []
+});
+
+const basePlaceholders = () => ({
+  'ipfs://METADATA_COLLECTION': { name: 'Old', description: 'Desc', image: 'https://img' }
+});
+
+describe('computeMinimalUpdate', () => {
+  it('emits only changed fields with update flags', () => {
+    const current = { ...baseValue(), manager: 'bb1other' };
+    const result = computeMinimalUpdate(
+      { value: current, metadataPlaceholders: basePlaceholders() },
+      { value: baseValue(), metadataPlaceholders: basePlaceholders() }
+    );
+    expect(result.changedFields).toEqual(['manager']);
+    expect(result.value.updateManager).toBe(true);
+    expect(result.value.manager).toBe('bb1other');
+    expect(result.value.updateStandards).toBe(false);
+    expect(result.value.standards).toBeUndefined();
+    expect(result.value.collectionId).toBe('5');
+    expect(result.metadataPlaceholders).toEqual({});
+    expect(result.summary).toEqual(['manager: bb1manager → bb1other']);
+  });
+
+  it('detects metadata-only changes behind an unchanged placeholder URI', () => {
+    const placeholders = basePlaceholders();
+    placeholders['ipfs://METADATA_COLLECTION'].name = 'New';
+    const result = computeMinimalUpdate(
+      { value: baseValue(), metadataPlaceholders: placeholders },
+      { value: baseValue(), metadataPlaceholders: basePlaceholders() }
+    );
+    expect(result.changedFields).toEqual(['collectionMetadata']);
+    expect(result.metadataPlaceholders['ipfs://METADATA_COLLECTION'].name).toBe('New');
+    expect(result.summary).toEqual(['collectionMetadata: name changed']);
+  });
+
+  it('returns no changed fields for identical snapshots', () => {
+    const result = computeMinimalUpdate(
+      { value: baseValue(), metadataPlaceholders: basePlaceholders() },
+      { value: baseValue(), metadataPlaceholders: basePlaceholders() }
+    );
+    expect(result.changedFields).toEqual([]);
+    expect(result.summary).toEqual([]);
+  });
+});
+
+describe('describeKeyedListChanges', () => {
+  it('reports added, removed, modified and reordered items', () => {
+    const lines = describeKeyedListChanges(
+      'approvals',
+      [{ id: 'b', x: 2 }, { id: 'a', x: 9 }, { id: 'c' }],
+      [{ id: 'a', x: 1 }, { id: 'b', x: 2 }, { id: 'd' }],
+      (item) => item.id
+    );
+    expect(lines).toEqual([
+      'approvals: modified "a" (x)',
+      'approvals: added "c"',
+      'approvals: removed "d"',
+      'approvals: reordered (b → a)'
+    ]);
+  });
+});
+
+describe('get_transaction minimal mode', () => {
+  beforeEach(() => {
+    resetAllSessions();
+  });
+
+  it('errors without a baseline', () => {
+    setManager('diff-none', 'bb1x');
+    const result = handleGetTransaction({ sessionId: 'diff-none', mode: 'minimal' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('load_collection_into_session');
+  });
+
+  it('diffs against the loaded collection', () => {
+    const sid = 'diff-loaded';
+    loadCollection(sid, baseValue(), basePlaceholders());
+    removeApproval(sid, 'transfer');
+    addApproval(sid, { approvalId: 'burn', fromListId: '!Mint', toListId: 'bb1burn' });
+    setCollectionMetadata(sid, 'New', 'Desc', 'https://img');
+
+    const result = handleGetTransaction({ sessionId: sid, mode: 'minimal' }) as any;
+    expect(result.success).toBe(true);
+    const value = result.transaction.messages[0].value;
+    expect(result.changedFields).toEqual(['collectionApprovals', 'collectionMetadata']);
+    expect(value.updateCollectionApprovals).toBe(true);
+    expect(value.updateStandards).toBe(false);
+    expect(value.updateManager).toBe(false);
+    expect(value.manager).toBeUndefined();
+    expect(result.summary).toContain('collectionApprovals: added "burn"');
+    expect(result.summary).toContain('collectionApprovals: removed "transfer"');
+    expect(Object.keys(result.transaction.metadataPlaceholders)).toContain('ipfs://METADATA_COLLECTION');
+  });
+
+  it('accepts an explicit baseline and leaves full mode untouched', () => {
+    const sid = 'diff-explicit';
+    loadCollection(sid, baseValue(), basePlaceholders());
+    setManager(sid, 'bb1new');
+
+    const minimal = handleGetTransaction({ sessionId: sid, mode: 'minimal', baseline: { ...baseValue(), manager: 'bb1new' } }) as any;
+    expect(minimal.changedFields).not.toContain('manager');
+
+    const full = handleGetTransaction({ sessionId: sid, mode: 'full' }) as any;
+    expect(full.transaction.baseline).toBeUndefined();
+    expect(full.transaction.messages[0].value.updateStandards).toBe(true);
+  });
+});
+
+describe('compareCollections', () => {
+  it('diffs permissions, invariants, metadata and denom-keyed paths', () => {
+    const base = {
+      ...baseValue(),
+      collectionPermissions: {
+        canUpdateTokenMetadata: [{ tokenIds: [{ start: '1', end: '10' }], permanentlyForbiddenTimes: [] }]
+      },
+      invariants: { noCustomOwnershipTimes: false },
+      tokenMetadata: [{ uri: 'ipfs://a/{id}', customData: '', tokenIds: [{ start: '1', end: '10' }] }],
+      aliasPathsToAdd: [{ denom: 'uvault', symbol: 'V' }]
+    };
+    const other = {
+      ...base,
+      collectionPermissions: {
+        canUpdateTokenMetadata: [
+          { tokenIds: [{ start: '11', end: '20' }], permanentlyForbiddenTimes: [] },
+          { tokenIds: [{ start: '1', end: '10' }], permanentlyForbiddenTimes: [{ start: '1', end: '5' }] }
+        ]
+      },
+      invariants: { noCustomOwnershipTimes: true },
+      aliasPathsToAdd: [{ denom: 'uvault', symbol: 'VLT' }],
+      standards: ['Tradable']
+    };
+    const placeholders = basePlaceholders();
+    placeholders['ipfs://METADATA_COLLECTION'].image = 'https://new';
+
+    const diff = compareCollections({ value: other, metadataPlaceholders: placeholders }, { value: base, metadataPlaceholders: basePlaceholders() });
+    expect(diff.permissions.canUpdateTokenMetadata.added).toEqual(['11-20']);
+    expect(diff.permissions.canUpdateTokenMetadata.modified).toEqual([{ key: '1-10', fields: ['permanentlyForbiddenTimes'] }]);
+    expect(diff.invariants).toEqual(['noCustomOwnershipTimes']);
+    expect(diff.metadata.collection).toEqual(['image']);
+    expect(diff.metadata.tokens.modified).toEqual([]);
+    expect(diff.paths.aliasPaths.modified).toEqual([{ key: 'uvault', fields: ['symbol'] }]);
+    expect(diff.otherFields).toEqual(['standards']);
+    expect(diff.approvals).toEqual({ added: [], removed: [], modified: [], reordered: false });
+  });
+});
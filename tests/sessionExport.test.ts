@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fromSessionDocument, REDACTED_SECRET } from '../src/session/sessionExport.js';
+import { resetAllSessions, addApproval, getCollectionValue, getOrCreateSession, undo, exportSession } from '../src/session/sessionState.js';
+import { handleExportSession } from '../src/tools/session/exportSession.js';
+import { handleImportSession } from '../src/tools/session/importSession.js';
+
+function codesApproval(approvalId: string) {
+  return {
+    approvalId,
+    fromListId: 'Mint',
+    toListId: 'All',
+    approvalCriteria: {
+      merkleChallenges: [{
+        claimConfig: {
+          label: 'launch',
+          plugins: [{ pluginId: 'codes', publicParams: { numCodes: 10 }, privateParams: { seedCode: 'abc123', codes: [] } }]
+        }
+      }]
+    }
+  };
+}
+
+const seedOf = (value: Record<string, any>) =>
+  value.collectionApprovals[0].approvalCriteria.merkleChallenges[0].claimConfig.plugins[0].privateParams;
+
+let dir: string;
+
+beforeEach(() => {
+  resetAllSessions();
+  dir = mkdtempSync(join(tmpdir(), 'session-export-'));
+  vi.stubEnv('BITBADGES_SESSION_EXPORT_DIR', dir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('export_session', () => {
+  it('redacts claim secrets by default', () => {
+    addApproval('exp', codesApproval('mint'));
+    const doc = exportSession('exp');
+    expect(doc.format).toBe('bitbadges-builder-session');
+    expect(doc.version).toBe(1);
+    expect(doc.secretsRedacted).toBe(true);
+    expect(seedOf(doc.messages[0].value)).toBe(REDACTED_SECRET);
+    expect(doc.claimSecrets).toEqual([{ approvalId: 'mint', pluginId: 'codes', label: 'launch' }]);
+    expect(JSON.stringify(doc)).not.toContain('abc123');
+    // The live session keeps its secrets
+    expect(seedOf(getCollectionValue('exp')).seedCode).toBe('abc123');
+  });
+
+  it('includes secrets when asked', () => {
+    addApproval('exp', codesApproval('mint'));
+    const doc = exportSession('exp', true);
+    expect(doc.secretsRedacted).toBe(false);
+    expect(doc.claimSecrets[0].privateParams).toEqual({ seedCode: 'abc123', codes: [] });
+    expect(seedOf(doc.messages[0].value).seedCode).toBe('abc123');
+  });
+});
+
+describe('import_session', () => {
+  it('round-trips through a file with secrets', () => {
+    addApproval('src', codesApproval('mint'));
+    getOrCreateSession('src').originalApprovalIds = new Set(['mint']);
+    const path = join('nested', 'session.json');
+    expect(handleExportSession({ sessionId: 'src', includeSecrets: true, path }).success).toBe(true);
+
+    const result = handleImportSession({ sessionId: 'dst', path });
+    expect(result.success).toBe(true);
+    expect(result.approvalIds).toEqual(['mint']);
+    expect(seedOf(getCollectionValue('dst')).seedCode).toBe('abc123');
+    expect(getOrCreateSession('dst').originalApprovalIds).toEqual(new Set(['mint']));
+  });
+
+  it('keeps file paths inside the export directory', () => {
+    getOrCreateSession('src');
+    expect(handleExportSession({ sessionId: 'src', path: '../escape.json' }).error).toContain('outside');
+    expect(handleExportSession({ sessionId: 'src', path: join(tmpdir(), 'escape.json') }).error).toContain('outside');
+    expect(handleImportSession({ sessionId: 'dst', path: '/etc/passwd' }).error).toContain('outside');
+    // An absolute path inside the directory is fine
+    expect(handleExportSession({ sessionId: 'src', path: join(dir, 'in.json') }).success).toBe(true);
+
+    vi.stubEnv('BITBADGES_SESSION_EXPORT_DIR', '');
+    expect(handleExportSession({ sessionId: 'src', path: 'in.json' }).error).toContain('BITBADGES_SESSION_EXPORT_DIR');
+  });
+
+  it('does not echo file content in errors', () => {
+    writeFileSync(join(dir, 'secret.txt'), 'SECRET_TOKEN=hunter2', 'utf-8');
+    const result = handleImportSession({ sessionId: 'dst', path: 'secret.txt' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not valid JSON');
+    expect(result.error).not.toContain('hunter2');
+    expect(handleImportSession({ sessionId: 'dst', document: 'SECRET_TOKEN=hunter2' }).error).not.toContain('hunter2');
+  });
+
+  it('drops redacted secrets with a warning', () => {
+    addApproval('src', codesApproval('mint'));
+    const { document } = handleExportSession({ sessionId: 'src' });
+    const result = handleImportSession({ sessionId: 'dst', document: JSON.stringify(document) });
+    expect(result.success).toBe(true);
+    expect(result.warnings[0]).toContain('"codes" on approval "mint"');
+    expect(seedOf(getCollectionValue('dst'))).toBeUndefined();
+  });
+
+  it('refuses to overwrite without the flag and is undoable', () => {
+    addApproval('src', codesApproval('mint'));
+    addApproval('dst', { approvalId: 'other' });
+    const document = exportSession('src');
+    expect(handleImportSession({ sessionId: 'dst', document }).error).toContain('already exists');
+    expect(handleImportSession({ sessionId: 'dst', document, overwrite: true }).success).toBe(true);
+    expect(getCollectionValue('dst').collectionApprovals[0].approvalId).toBe('mint');
+    undo('dst');
+    expect(getCollectionValue('dst').collectionApprovals[0].approvalId).toBe('other');
+  });
+
+  it('validates the document', () => {
+    expect(fromSessionDocument('{not json').success).toBe(false);
+    const wrongFormat = fromSessionDocument({ format: 'other', version: 1, messages: [], metadataPlaceholders: {}, secretsRedacted: true, claimSecrets: [] });
+    expect(wrongFormat.success).toBe(false);
+    if (!wrongFormat.success) {
+      expect(wrongFormat.error).toContain('format');
+      expect(wrongFormat.error).toContain('messages');
+    }
+    getOrCreateSession('x');
+    const future = fromSessionDocument({ ...exportSession('x'), version: 2 });
+    expect(future.success).toBe(false);
+    if (!future.success) expect(future.error).toContain('newer');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyJsonPatch } from '../src/session/sessionPatch.js';
+import { resetAllSessions, addApproval, getCollectionValue, getSessionHistory, undo } from '../src/session/sessionState.js';
+import { handleApplySessionPatch } from '../src/tools/session/applySessionPatch.js';
+
+beforeEach(() => {
+  resetAllSessions();
+});
+
+describe('applyJsonPatch', () => {
+  const doc = () => ({
+    collectionApprovals: [
+      { approvalId: 'mint', approvalCriteria: { maxNumTransfers: { overallMaxNumTransfers: '0' } } },
+      { approvalId: '42', fromListId: 'All' }
+    ],
+    tokenMetadata: [{ uri: 'a', tokenIds: [{ start: '1', end: '10' }] }],
+    aliasPathsToAdd: [{ denom: 'uvault', symbol: 'V' }],
+    standards: ['NFTs']
+  });
+
+  it('applies standard RFC 6902 operations', () => {
+    const result = applyJsonPatch(doc(), [
+      { op: 'add', path: '/standards/-', value: 'Tradable' },
+      { op: 'add', path: '/standards/0', value: 'First' },
+      { op: 'replace', path: '/aliasPathsToAdd/0/symbol', value: 'VLT' },
+      { op: 'copy', from: '/standards/1', path: '/customData' },
+      { op: 'move', from: '/customData', path: '/manager' },
+      { op: 'test', path: '/manager', value: 'NFTs' },
+      { op: 'remove', path: '/tokenMetadata/0' }
+    ]);
+    expect(result.standards).toEqual(['First', 'NFTs', 'Tradable']);
+    expect(result.aliasPathsToAdd[0].symbol).toBe('VLT');
+    expect((result as any).manager).toBe('NFTs');
+    expect((result as any).customData).toBeUndefined();
+    expect(result.tokenMetadata).toEqual([]);
+  });
+
+  it('addresses array items by approvalId, denom and token range', () => {
+    const result = applyJsonPatch(doc(), [
+      { op: 'replace', path: '/collectionApprovals/mint/approvalCriteria/maxNumTransfers/overallMaxNumTransfers', value: '100' },
+      { op: 'replace', path: '/collectionApprovals/approvalId=42/fromListId', value: '!Mint' },
+      { op: 'replace', path: '/aliasPathsToAdd/uvault/symbol', value: 'X' },
+      { op: 'replace', path: '/tokenMetadata/1-10/uri', value: 'b' }
+    ]);
+    expect(result.collectionApprovals[0].approvalCriteria!.maxNumTransfers.overallMaxNumTransfers).toBe('100');
+    expect(result.collectionApprovals[1].fromListId).toBe('!Mint');
+    expect(result.aliasPathsToAdd[0].symbol).toBe('X');
+    expect(result.tokenMetadata[0].uri).toBe('b');
+  });
+
+  it('is all-or-nothing and names the failing operation', () => {
+    const original = doc();
+    expect(() => applyJsonPatch(original, [
+      { op: 'replace', path: '/standards/0', value: 'X' },
+      { op: 'replace', path: '/collectionApprovals/nope/uri', value: 'x' }
+    ])).toThrow('Patch operation 1 (replace /collectionApprovals/nope/uri) failed: Path "/collectionApprovals/nope/uri": no item "nope". Known: mint, 42');
+    expect(original.standards).toEqual(['NFTs']);
+    expect(() => applyJsonPatch(original, [{ op: 'test', path: '/standards/0', value: 'X' }])).toThrow('test failed');
+    expect(() => applyJsonPatch(original, [{ op: 'replace', path: '/missing', value: 1 }])).toThrow('use "add"');
+  });
+});
+
+describe('apply_session_patch', () => {
+  it('patches the session, normalises the result and records one undoable step', () => {
+    addApproval('p', { approvalId: 'mint', fromListId: 'Mint', toListId: 'All', approvalCriteria: { maxNumTransfers: { overallMaxNumTransfers: '0' } } });
+    const result = handleApplySessionPatch({
+      sessionId: 'p',
+      operations: [
+        { op: 'replace', path: '/collectionApprovals/mint/approvalCriteria/maxNumTransfers/overallMaxNumTransfers', value: 100 },
+        { op: 'replace', path: '/collectionApprovals/mint/toListId', value: '0x742d35Cc6634C0532925a3b844Bc9e7595f2bD18' },
+        { op: 'replace', path: '/manager', value: '0x742d35Cc6634C0532925a3b844Bc9e7595f2bD18' }
+      ]
+    });
+    expect(result).toMatchObject({ success: true, changedFields: ['collectionApprovals', 'manager'] });
+    const value = getCollectionValue('p');
+    expect(value.collectionApprovals[0].approvalCriteria.maxNumTransfers.overallMaxNumTransfers).toBe('100');
+    expect(value.collectionApprovals[0].toListId).toMatch(/^bb1/);
+    expect(value.manager).toMatch(/^bb1/);
+    expect(getSessionHistory('p').at(-1)!.tool).toBe('apply_session_patch');
+    undo('p');
+    expect(getCollectionValue('p').manager).toBe('');
+  });
+
+  it('returns an error and leaves the session unchanged on failure', () => {
+    addApproval('p', { approvalId: 'mint' });
+    const result = handleApplySessionPatch({ sessionId: 'p', operations: [{ op: 'remove', path: '/collectionApprovals/other' }] });
+    expect(result.success).toBe(false);
+    expect(getCollectionValue('p').collectionApprovals).toHaveLength(1);
+    expect(getSessionHistory('p')).toHaveLength(1);
+  });
+});
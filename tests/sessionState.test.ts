@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   getOrCreateSession,
   getCollectionValue,
@@ -26,7 +26,23 @@ import {
   addTransfer,
   removeTransfer,
   getTransaction,
-  ensureStringNumbers
+  ensureStringNumbers,
+  undo,
+  redo,
+  getSessionHistory,
+  snapshotSession,
+  forkSession,
+  compareSessions,
+  listMessages,
+  appendMessages,
+  moveMessage,
+  removeMessage,
+  moveApproval,
+  listApprovals,
+  onSessionChange,
+  runSessionTransaction,
+  withSessionLock,
+  type SessionChangeKind
 } from '../src/session/sessionState.js';
 
 beforeEach(() => {
@@ -500,6 +516,190 @@ describe('getTransaction', () => {
   });
 });
 
+describe('undo/redo history', () => {
+  it('records each mutation with tool name, args and changed fields', () => {
+    const sid = 'hist-1';
+    setStandards(sid, ['NFTs']);
+    addApproval(sid, { approvalId: 'mint' });
+    const history = getSessionHistory(sid);
+    expect(history).toHaveLength(2);
+    expect(history[0].tool).toBe('set_standards');
+    expect(history[0].args).toEqual({ standards: ['NFTs'] });
+    expect(history[0].changedFields).toEqual(['standards']);
+    expect(history[1].tool).toBe('add_approval');
+    expect(history[1].changedFields).toContain('collectionApprovals');
+    expect(history[1].changedFields).toContain('metadataPlaceholders');
+  });
+
+  it('does not record no-op mutations', () => {
+    const sid = 'hist-2';
+    removeApproval(sid, 'missing');
+    expect(getSessionHistory(sid)).toHaveLength(0);
+  });
+
+  it('undo restores the previous state and redo re-applies it', () => {
+    const sid = 'hist-3';
+    addApproval(sid, { approvalId: 'a1' });
+    addApproval(sid, { approvalId: 'a2' });
+
+    const undone = undo(sid);
+    expect(undone.steps[0].tool).toBe('add_approval');
+    expect(getCollectionValue(sid).collectionApprovals.map((a: any) => a.approvalId)).toEqual(['a1']);
+    expect(undone.canRedo).toBe(true);
+
+    redo(sid);
+    expect(getCollectionValue(sid).collectionApprovals.map((a: any) => a.approvalId)).toEqual(['a1', 'a2']);
+  });
+
+  it('undo keeps the session object reference stable', () => {
+    const sid = 'hist-4';
+    const s = getOrCreateSession(sid);
+    setManager(sid, 'bb1manager');
+    undo(sid);
+    expect(getOrCreateSession(sid)).toBe(s);
+    expect(s.messages[0].value.manager).toBe('');
+  });
+
+  it('undo multiple steps and a new mutation clears the redo stack', () => {
+    const sid = 'hist-5';
+    setStandards(sid, ['A']);
+    setStandards(sid, ['B']);
+    setStandards(sid, ['C']);
+    expect(undo(sid, 2).steps).toHaveLength(2);
+    expect(getCollectionValue(sid).standards).toEqual(['A']);
+
+    setCustomData(sid, 'x');
+    const history = getSessionHistory(sid);
+    expect(history.map(h => h.tool)).toEqual(['set_standards', 'set_custom_data']);
+    expect(redo(sid).steps).toHaveLength(0);
+  });
+
+  it('undo with empty history is a no-op', () => {
+    const result = undo('hist-empty');
+    expect(result.steps).toHaveLength(0);
+    expect(result.canUndo).toBe(false);
+  });
+
+  it('resetSession clears history', () => {
+    const sid = 'hist-6';
+    setStandards(sid, ['A']);
+    resetSession(sid);
+    expect(getSessionHistory(sid)).toHaveLength(0);
+  });
+
+  it('redacts claim secrets in recorded args', () => {
+    const sid = 'hist-7';
+    addApproval(sid, {
+      approvalId: 'claim',
+      approvalCriteria: {
+        merkleChallenges: [{ claimConfig: { plugins: [{ pluginId: 'codes', privateParams: { seedCode: 'secret-seed' } }] } }]
+      }
+    });
+    const [step] = getSessionHistory(sid);
+    expect(step.args.approval.approvalCriteria.merkleChallenges[0].claimConfig.plugins[0]).toEqual({
+      pluginId: 'codes',
+      privateParams: '[REDACTED]'
+    });
+    expect(JSON.stringify(step.args)).not.toContain('secret-seed');
+    // The session itself keeps the secret
+    expect(getCollectionValue(sid).collectionApprovals[0].approvalCriteria.merkleChallenges[0].claimConfig.plugins[0].privateParams)
+      .toEqual({ seedCode: 'secret-seed' });
+  });
+});
+
+describe('session transactions', () => {
+  const step = { tool: 'batch_session_ops', args: {} };
+
+  it('records a successful transaction as a single undo step', async () => {
+    const sid = 'tx-1';
+    setStandards(sid, ['A']);
+    await runSessionTransaction(sid, step, async () => {
+      setStandards(sid, ['B']);
+      addApproval(sid, { approvalId: 'a1' });
+    });
+
+    const history = getSessionHistory(sid);
+    expect(history.map(h => h.tool)).toEqual(['set_standards', 'batch_session_ops']);
+    expect(history[1].changedFields).toEqual(expect.arrayContaining(['standards', 'collectionApprovals']));
+
+    undo(sid);
+    expect(getCollectionValue(sid).standards).toEqual(['A']);
+    expect(getCollectionValue(sid).collectionApprovals).toEqual([]);
+  });
+
+  it('rolls back the session and its history when the transaction throws', async () => {
+    const sid = 'tx-2';
+    setStandards(sid, ['A']);
+    const s = getOrCreateSession(sid);
+    await expect(runSessionTransaction(sid, step, async () => {
+      setStandards(sid, ['B']);
+      addApproval(sid, { approvalId: 'a1' });
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(getOrCreateSession(sid)).toBe(s);
+    expect(getCollectionValue(sid).standards).toEqual(['A']);
+    expect(getCollectionValue(sid).collectionApprovals).toEqual([]);
+    expect(getSessionHistory(sid).map(h => h.tool)).toEqual(['set_standards']);
+  });
+
+  it('deletes a session the failed transaction created', async () => {
+    const sid = 'tx-3';
+    await expect(runSessionTransaction(sid, step, async () => {
+      setStandards(sid, ['B']);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(hasSession(sid)).toBe(false);
+    expect(getSessionHistory(sid)).toHaveLength(0);
+  });
+
+  it('refuses mutations from outside a running transaction', async () => {
+    const sid = 'tx-4';
+    setStandards(sid, ['A']);
+    let resume!: () => void;
+    const paused = new Promise<void>((resolve) => {
+      resume = resolve;
+    });
+    const tx = runSessionTransaction(sid, step, async () => {
+      setStandards(sid, ['B']);
+      await paused;
+      throw new Error('boom');
+    });
+
+    await Promise.resolve();
+    expect(() => setManager(sid, 'bb1other')).toThrow(/busy with another operation/);
+    expect(() => undo(sid)).toThrow(/busy with another operation/);
+    resume();
+    await expect(tx).rejects.toThrow('boom');
+
+    expect(getCollectionValue(sid).standards).toEqual(['A']);
+    setManager(sid, 'bb1other');
+    expect(getCollectionValue(sid).manager).toBe('bb1other');
+  });
+
+  it('queues locked operations on the same session behind a transaction', async () => {
+    const sid = 'tx-5';
+    const order: string[] = [];
+    const tx = runSessionTransaction(sid, step, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      setStandards(sid, ['B']);
+      order.push('tx');
+    });
+    const next = withSessionLock(sid, async () => {
+      order.push(`next saw ${getCollectionValue(sid).standards.join(',')}`);
+      setStandards(sid, ['C']);
+    });
+    const other = withSessionLock('tx-other', async () => {
+      order.push('other session');
+    });
+
+    await Promise.all([tx, next, other]);
+    expect(order).toEqual(['other session', 'tx', 'next saw B']);
+    expect(getCollectionValue(sid).standards).toEqual(['C']);
+  });
+});
+
 describe('ensureStringNumbers', () => {
   it('converts numbers to strings', () => {
     expect(ensureStringNumbers(42)).toBe('42');
@@ -540,3 +740,221 @@ describe('ensureStringNumbers', () => {
     expect(ensureStringNumbers({})).toEqual({});
   });
 });
+
+describe('snapshots, forks and comparison', () => {
+  it('snapshots are frozen copies addressable as sessions', () => {
+    addApproval('snap', { approvalId: 'mint' });
+    const { snapshotId } = snapshotSession('snap');
+    expect(snapshotId).toBe('snap@snapshot-1');
+    expect(snapshotSession('snap').snapshotId).toBe('snap@snapshot-2');
+    addApproval('snap', { approvalId: 'transfer' });
+    expect(getCollectionValue(snapshotId).collectionApprovals).toHaveLength(1);
+    expect(getCollectionValue('snap').collectionApprovals).toHaveLength(2);
+  });
+
+  it('refuses to change a snapshot', () => {
+    addApproval('snap', { approvalId: 'mint' });
+    const { snapshotId } = snapshotSession('snap', 'v1');
+    expect(() => addApproval(snapshotId, { approvalId: 'transfer' })).toThrow('"snap@v1" is a snapshot');
+    expect(() => undo(snapshotId)).toThrow('is a snapshot');
+    expect(() => forkSession('snap', 'snap@v2')).toThrow('reserved for snapshots');
+    expect(getCollectionValue(snapshotId).collectionApprovals).toHaveLength(1);
+  });
+
+  it('forks evolve independently with their own history', () => {
+    addApproval('base', { approvalId: 'mint' });
+    const { sessionId } = forkSession('base', 'variant');
+    expect(getSessionHistory('variant')).toHaveLength(0);
+    setManager('variant', 'bb1other');
+    expect(getCollectionValue('base').manager).toBe('');
+    expect(forkSession('base').sessionId).toBe('base-fork-1');
+    expect(sessionId).toBe('variant');
+  });
+
+  it('refuses to fork missing sessions or overwrite without the flag', () => {
+    expect(() => forkSession('nope', 'x')).toThrow('not found');
+    getOrCreateSession('a');
+    getOrCreateSession('b');
+    expect(() => forkSession('a', 'b')).toThrow('already exists');
+    expect(forkSession('a', 'b', true).sessionId).toBe('b');
+  });
+
+  it('compares approvals by approvalId rather than position', () => {
+    addApproval('claim', { approvalId: 'public-mint', fromListId: 'Mint', toListId: 'All' });
+    addApproval('claim', { approvalId: 'transferable', fromListId: '!Mint', toListId: 'All' });
+    forkSession('claim', 'paid');
+    removeApproval('paid', 'public-mint');
+    addApproval('paid', { approvalId: 'paid-mint', fromListId: 'Mint', toListId: 'All' });
+    addTransfer('paid', { collectionId: '1', transfers: [] });
+
+    const diff = compareSessions('claim', 'paid');
+    expect(diff.identical).toBe(false);
+    expect(diff.approvals.added).toEqual(['paid-mint']);
+    expect(diff.approvals.removed).toEqual(['public-mint']);
+    expect(diff.approvals.modified).toEqual([]);
+    expect(diff.messagesChanged).toBe(true);
+    expect(compareSessions('claim', 'claim').identical).toBe(true);
+  });
+});
+
+describe('multi-message batches', () => {
+  const createStore = {
+    '@type': '/bitbadges.bitbadgeschain.tokenization.MsgCreateDynamicStore',
+    creator: 'bb1creator',
+    defaultValue: false
+  };
+
+  it('appends builder output in either message shape', () => {
+    const { indices } = appendMessages('batch', [createStore, { typeUrl: '/tokenization.MsgTransferTokens', value: { transfers: [] } }]);
+    expect(indices).toEqual([1, 2]);
+    const messages = listMessages('batch');
+    expect(messages.map((m) => m.typeUrl)).toEqual([
+      '/tokenization.MsgUniversalUpdateCollection',
+      '/tokenization.MsgCreateDynamicStore',
+      '/tokenization.MsgTransferTokens'
+    ]);
+    expect(messages[0].isCollection).toBe(true);
+    expect(messages[1].summary).toBe('create dynamic store (defaultValue=false)');
+    expect(getTransaction('batch').messages[1].value).toEqual({ creator: 'bb1creator', defaultValue: false });
+  });
+
+  it('rejects a second collection message', () => {
+    expect(() => appendMessages('batch', [{ typeUrl: '/tokenization.MsgUniversalUpdateCollection', value: {} }])).toThrow('already has');
+    expect(() => appendMessages('batch', [{ typeUrl: '/bitbadges.bitbadgeschain.tokenization.MsgUniversalUpdateCollection', value: {} }]))
+      .toThrow('already has');
+  });
+
+  it('shortens fully-qualified typeUrls', () => {
+    appendMessages('batch', [{ typeUrl: '/bitbadges.bitbadgeschain.tokenization.MsgTransferTokens', value: { transfers: [] } }]);
+    expect(listMessages('batch').map((m) => m.typeUrl)).toEqual([
+      '/tokenization.MsgUniversalUpdateCollection',
+      '/tokenization.MsgTransferTokens'
+    ]);
+  });
+
+  it('keeps other @type URLs as given', () => {
+    appendMessages('batch', [{ '@type': '/cosmos.bank.v1beta1.MsgSend', from_address: 'bb1a', to_address: 'bb1b', amount: [] }]);
+    const tx = getTransaction('batch');
+    expect(tx.messages[1].typeUrl).toBe('/cosmos.bank.v1beta1.MsgSend');
+    expect(tx.messages[1].value).toEqual({ from_address: 'bb1a', to_address: 'bb1b', amount: [] });
+  });
+
+  it('per-field tools follow the collection message after a reorder', () => {
+    appendMessages('batch', [createStore]);
+    expect(moveMessage('batch', 1, 0).moved).toBe(true);
+    setManager('batch', 'bb1mgr');
+    const tx = getTransaction('batch');
+    expect(tx.messages[0].typeUrl).toBe('/tokenization.MsgCreateDynamicStore');
+    expect(tx.messages[1].value.manager).toBe('bb1mgr');
+    expect(getCollectionValue('batch').manager).toBe('bb1mgr');
+    expect(moveMessage('batch', 0, 5).moved).toBe(false);
+  });
+
+  it('removes non-collection messages only, undoably', () => {
+    appendMessages('batch', [createStore]);
+    expect(removeMessage('batch', 0)).toEqual({ removed: false, typeUrl: '/tokenization.MsgUniversalUpdateCollection' });
+    expect(removeMessage('batch', 1)).toEqual({ removed: true, typeUrl: '/tokenization.MsgCreateDynamicStore' });
+    expect(getSessionHistory('batch').map((s) => s.changedFields)).toEqual([['messages[1]'], ['messages[1]']]);
+    undo('batch');
+    expect(listMessages('batch')).toHaveLength(2);
+  });
+});
+
+describe('approval ordering', () => {
+  beforeEach(() => {
+    for (const approvalId of ['a', 'b', 'c', 'd']) addApproval('order', { approvalId, fromListId: 'Mint', toListId: 'All' });
+  });
+
+  const order = () => listApprovals('order').map((a) => a.approvalId);
+
+  it('moves before, after and to an absolute index', () => {
+    expect(moveApproval('order', 'd', { before: 'b' })).toEqual({ moved: true, from: 3, to: 1 });
+    expect(order()).toEqual(['a', 'd', 'b', 'c']);
+    moveApproval('order', 'a', { after: 'c' });
+    expect(order()).toEqual(['d', 'b', 'c', 'a']);
+    moveApproval('order', 'c', { index: 0 });
+    expect(order()).toEqual(['c', 'd', 'b', 'a']);
+    expect(getSessionHistory('order').at(-1)!.tool).toBe('move_approval');
+  });
+
+  it('rejects unknown approvals and out-of-range indices without changing order', () => {
+    expect(moveApproval('order', 'x', { index: 0 }).error).toContain('"x" not found');
+    expect(moveApproval('order', 'a', { before: 'x' }).error).toContain('"x" not found');
+    expect(moveApproval('order', 'a', { index: 4 }).error).toContain('out of range');
+    expect(moveApproval('order', 'a', { after: 'a' }).error).toContain('itself');
+    expect(order()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('summarizes each approval in one line', () => {
+    addApproval('order', {
+      approvalId: 'paid',
+      fromListId: 'Mint',
+      toListId: 'All',
+      initiatedByListId: 'All',
+      approvalCriteria: {
+        coinTransfers: [{ to: 'bb1x', coins: [{ denom: 'ubadge', amount: '5000000000' }] }],
+        maxNumTransfers: { perInitiatedByAddressMaxNumTransfers: '1' }
+      }
+    });
+    expect(listApprovals('order').at(-1)).toEqual({
+      index: 4,
+      approvalId: 'paid',
+      summary: 'Mint → All; costs 5000000000 ubadge, max 1 per user'
+    });
+  });
+});
+
+describe('change notifications', () => {
+  let events: Array<[string, SessionChangeKind]>;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    events = [];
+    unsubscribe = onSessionChange((sessionId, kind) => events.push([sessionId, kind]));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('reports creation, updates and deletion', () => {
+    getOrCreateSession('watched');
+    setManager('watched', 'bb1manager');
+    resetSession('watched');
+    expect(events).toEqual([
+      ['watched', 'created'],
+      ['watched', 'updated'],
+      ['watched', 'deleted']
+    ]);
+  });
+
+  it('does not report mutations that change nothing', () => {
+    setManager('watched', 'bb1manager');
+    events = [];
+    setManager('watched', 'bb1manager');
+    expect(events).toEqual([]);
+  });
+
+  it('reports undo, snapshots and forks', () => {
+    setManager('watched', 'bb1manager');
+    events = [];
+    undo('watched');
+    snapshotSession('watched', 'v1');
+    forkSession('watched', 'copy');
+    expect(events).toEqual([
+      ['watched', 'updated'],
+      ['watched@v1', 'created'],
+      ['copy', 'created']
+    ]);
+  });
+
+  it('stops reporting after unsubscribe and survives throwing listeners', () => {
+    const stopThrowing = onSessionChange(() => {
+      throw new Error('listener failed');
+    });
+    unsubscribe();
+    setManager('watched', 'bb1manager');
+    stopThrowing();
+    expect(events).toEqual([]);
+  });
+});
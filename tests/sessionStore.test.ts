@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createMemorySessionStore,
+  createFileSessionStore,
+  createSessionStoreFromEnv
+} from '../src/session/sessionStore.js';
+import {
+  setSessionStore,
+  getOrCreateSession,
+  getCollectionValue,
+  hasSession,
+  resetSession,
+  addApproval,
+  setStandards,
+  getSessionHistory,
+  handleSessionEvicted,
+  onSessionChange,
+  snapshotSession,
+  isSnapshotId
+} from '../src/session/sessionState.js';
+
+function blankSession(tag: string) {
+  return {
+    messages: [{ typeUrl: '/tokenization.MsgUniversalUpdateCollection', value: { tag } }],
+    metadataPlaceholders: {}
+  };
+}
+
+describe('memory session store', () => {
+  it('evicts sessions idle past the TTL', () => {
+    let clock = 1000;
+    const store = createMemorySessionStore({ ttlMs: 100, now: () => clock });
+    store.set('a', blankSession('a'));
+    clock += 50;
+    expect(store.get('a')).toBeDefined();
+    clock += 150;
+    expect(store.get('a')).toBeUndefined();
+    expect(store.has('a')).toBe(false);
+  });
+
+  it('reading a session refreshes its TTL', () => {
+    let clock = 0;
+    const store = createMemorySessionStore({ ttlMs: 100, now: () => clock });
+    store.set('a', blankSession('a'));
+    for (let i = 0; i < 5; i++) {
+      clock += 80;
+      expect(store.get('a')).toBeDefined();
+    }
+  });
+
+  it('evicts least recently used sessions beyond the cap', () => {
+    const store = createMemorySessionStore({ maxSessions: 2, ttlMs: 0 });
+    store.set('a', blankSession('a'));
+    store.set('b', blankSession('b'));
+    store.get('a');
+    store.set('c', blankSession('c'));
+    expect(store.keys().sort()).toEqual(['a', 'c']);
+  });
+
+  it('reports evicted sessions but not explicit deletes', () => {
+    let clock = 0;
+    const evicted: string[] = [];
+    const store = createMemorySessionStore({ ttlMs: 100, maxSessions: 2, now: () => clock, onEvict: (id) => evicted.push(id) });
+    store.set('a', blankSession('a'));
+    store.set('b', blankSession('b'));
+    store.set('c', blankSession('c'));
+    store.delete('b');
+    clock += 200;
+    expect(store.get('c')).toBeUndefined();
+    expect(evicted).toEqual(['a', 'c']);
+  });
+});
+
+describe('sessionState eviction', () => {
+  afterEach(() => {
+    setSessionStore(createMemorySessionStore());
+  });
+
+  it('clears the history of evicted sessions', () => {
+    setSessionStore(createMemorySessionStore({ maxSessions: 1, ttlMs: 0, onEvict: handleSessionEvicted }));
+    setStandards('old', ['NFTs']);
+    expect(getSessionHistory('old')).toHaveLength(1);
+    setStandards('new', ['NFTs']);
+    expect(hasSession('old')).toBe(false);
+    expect(getSessionHistory('old')).toHaveLength(0);
+  });
+
+  it('never evicts snapshots or counts them toward the cap', () => {
+    setSessionStore(createMemorySessionStore({ maxSessions: 1, ttlMs: 0, onEvict: handleSessionEvicted, isPinned: isSnapshotId }));
+    setStandards('old', ['NFTs']);
+    const { snapshotId } = snapshotSession('old');
+    setStandards('new', ['NFTs']);
+    expect(hasSession('old')).toBe(false);
+    expect(hasSession(snapshotId)).toBe(true);
+    expect(hasSession('new')).toBe(true);
+  });
+
+  it('notifies listeners that an evicted session was deleted', () => {
+    setSessionStore(createMemorySessionStore({ maxSessions: 1, ttlMs: 0, onEvict: handleSessionEvicted }));
+    const events: string[] = [];
+    const unsubscribe = onSessionChange((sid, kind) => events.push(`${sid}:${kind}`));
+    setStandards('old', ['NFTs']);
+    setStandards('new', ['NFTs']);
+    unsubscribe();
+    expect(events).toContain('old:deleted');
+  });
+});
+
+describe('file session store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bb-sessions-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists sessions across store instances', () => {
+    const first = createFileSessionStore(dir);
+    const session = blankSession('persisted');
+    (session as any).originalApprovalIds = new Set(['mint']);
+    first.set('s1', session);
+
+    const second = createFileSessionStore(dir);
+    const loaded = second.get('s1');
+    expect(loaded?.messages[0].value.tag).toBe('persisted');
+    expect(loaded?.originalApprovalIds).toBeInstanceOf(Set);
+    expect(loaded?.originalApprovalIds?.has('mint')).toBe(true);
+  });
+
+  it('encodes session IDs into safe file names', () => {
+    const store = createFileSessionStore(dir);
+    store.set('../escape/attempt', blankSession('x'));
+    expect(readdirSync(dir)).toHaveLength(1);
+    expect(store.keys()).toEqual(['../escape/attempt']);
+  });
+
+  it('delete and clear remove files', () => {
+    const store = createFileSessionStore(dir);
+    store.set('a', blankSession('a'));
+    store.set('b', blankSession('b'));
+    store.delete('a');
+    expect(store.has('a')).toBe(false);
+    store.clear();
+    expect(readdirSync(dir)).toHaveLength(0);
+  });
+
+  it('evicts expired sessions', () => {
+    let clock = Date.now();
+    const store = createFileSessionStore(dir, { ttlMs: 1000, now: () => clock });
+    store.set('a', blankSession('a'));
+    clock += 5000;
+    expect(store.get('a')).toBeUndefined();
+    expect(readdirSync(dir)).toHaveLength(0);
+  });
+
+  it('caps the number of stored sessions', () => {
+    let clock = Date.now();
+    const store = createFileSessionStore(dir, { maxSessions: 2, ttlMs: 0, now: () => clock });
+    for (const id of ['a', 'b', 'c']) {
+      clock += 1000;
+      store.set(id, blankSession(id));
+    }
+    expect(store.keys().sort()).toEqual(['b', 'c']);
+  });
+
+  it('keeps pinned sessions past the TTL and the cap', () => {
+    let clock = Date.now();
+    const store = createFileSessionStore(dir, { maxSessions: 1, ttlMs: 5000, now: () => clock, isPinned: (id) => id.includes('@') });
+    store.set('a@v1', blankSession('pinned'));
+    for (const id of ['a', 'b']) {
+      clock += 1000;
+      store.set(id, blankSession(id));
+    }
+    clock += 10_000;
+    expect(store.keys().sort()).toEqual(['a@v1']);
+    expect(store.get('a@v1')).toBeDefined();
+  });
+
+  it('sweeps the directory only every few writes', () => {
+    let clock = Date.now();
+    const evicted: string[] = [];
+    const store = createFileSessionStore(dir, { maxSessions: 2, ttlMs: 0, now: () => clock, onEvict: (id) => evicted.push(id) });
+    for (let i = 0; i < 5; i++) {
+      clock += 1000;
+      store.set(`s${i}`, blankSession(String(i)));
+    }
+    expect(readdirSync(dir)).toHaveLength(5);
+    for (let i = 5; i < 25; i++) {
+      clock += 1000;
+      store.set(`s${i}`, blankSession(String(i)));
+    }
+    expect(readdirSync(dir)).toHaveLength(2);
+    expect(evicted).toHaveLength(23);
+  });
+});
+
+describe('sessionState with a file store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bb-sessions-'));
+    setSessionStore(createFileSessionStore(dir));
+  });
+
+  afterEach(() => {
+    setSessionStore(createMemorySessionStore());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('mutations survive a simulated restart', () => {
+    getOrCreateSession('durable', 'bb1creator');
+    setStandards('durable', ['Subscriptions']);
+    addApproval('durable', { approvalId: 'mint' });
+
+    // New store instance over the same directory = fresh process
+    setSessionStore(createFileSessionStore(dir));
+    expect(hasSession('durable')).toBe(true);
+    const value = getCollectionValue('durable');
+    expect(value.standards).toEqual(['Subscriptions']);
+    expect(value.collectionApprovals[0].approvalId).toBe('mint');
+  });
+
+  it('resetSession removes the persisted session', () => {
+    getOrCreateSession('gone');
+    resetSession('gone');
+    setSessionStore(createFileSessionStore(dir));
+    expect(hasSession('gone')).toBe(false);
+  });
+});
+
+describe('createSessionStoreFromEnv', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('rejects unknown store kinds', () => {
+    process.env.BITBADGES_SESSION_STORE = 'redis';
+    expect(() => createSessionStoreFromEnv()).toThrow(/Unknown BITBADGES_SESSION_STORE/);
+  });
+
+  it('creates a file store in BITBADGES_SESSION_DIR', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-sessions-'));
+    process.env.BITBADGES_SESSION_STORE = 'file';
+    process.env.BITBADGES_SESSION_DIR = dir;
+    const store = createSessionStoreFromEnv();
+    store.set('env', blankSession('env'));
+    expect(readdirSync(dir)).toHaveLength(1);
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
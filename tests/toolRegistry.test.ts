@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineTool } from '../src/tools/defineTool.js';
+import { resetAllSessions, getCollectionValue, hasSession } from '../src/session/sessionState.js';
+
+describe('defineTool', () => {
+  it('generates the JSON Schema from the zod schema', () => {
+    const tool = defineTool({
+      name: 'example',
+      description: 'Example tool',
+      schema: z.object({
+        sessionId: z.string().optional().describe('Session ID.'),
+        count: z.number().int().min(1).describe('How many.'),
+        mode: z.enum(['a', 'b']).optional()
+      }),
+      handler: (input) => input.count
+    });
+
+    expect(tool.inputSchema.type).toBe('object');
+    expect(tool.inputSchema.required).toEqual(['count']);
+    expect(tool.inputSchema.properties).toMatchObject({
+      sessionId: { type: 'string', description: 'Session ID.' },
+      count: { type: 'integer', minimum: 1, description: 'How many.' },
+      mode: { type: 'string', enum: ['a', 'b'] }
+    });
+    expect(tool.inputSchema).not.toHaveProperty('$schema');
+  });
+
+  it('unwraps refined schemas', () => {
+    const tool = defineTool({
+      name: 'refined',
+      description: 'Refined',
+      schema: z.object({ a: z.string().optional(), b: z.string().optional() }).refine((d) => d.a || d.b),
+      handler: () => null
+    });
+    expect(tool.inputSchema.type).toBe('object');
+    expect(Object.keys(tool.inputSchema.properties!)).toEqual(['a', 'b']);
+  });
+
+  it('rejects non-object schemas', () => {
+    expect(() => defineTool({ name: 'bad', description: 'Bad', schema: z.string(), handler: () => null })).toThrow(/zod object/);
+  });
+
+  it('generates an outputSchema from the result schema', () => {
+    const tool = defineTool({
+      name: 'with_result',
+      description: 'With result',
+      schema: z.object({}),
+      resultSchema: z.object({ success: z.boolean(), ids: z.array(z.string()).optional() }),
+      handler: () => ({ success: true, ids: ['a'] })
+    });
+    expect(tool.outputSchema).toMatchObject({
+      type: 'object',
+      required: ['success'],
+      properties: { success: { type: 'boolean' }, ids: { type: 'array' } }
+    });
+    // Results may carry fields the schema doesn't list
+    expect(tool.outputSchema!.additionalProperties).not.toBe(false);
+    expect(defineTool({ name: 'plain', description: 'Plain', schema: z.object({}), handler: () => null }).outputSchema).toBeUndefined();
+  });
+
+  it('adds diagnostics to the result schema of session mutations', () => {
+    const tool = defineTool({
+      name: 'mutation',
+      description: 'Mutation',
+      schema: z.object({}),
+      resultSchema: z.object({ success: z.boolean() }),
+      handler: () => ({ success: true }),
+      mutatesSession: true
+    });
+    expect(Object.keys(tool.outputSchema!.properties!)).toEqual(['success', 'diagnostics']);
+    expect(tool.outputSchema!.required).toEqual(['success']);
+  });
+});
+
+describe('tool registry', () => {
+  it('registers every tool once with a generated object schema', async () => {
+    const { toolRegistry } = await import('../src/tools/registry.js');
+    const names = toolRegistry.map((t) => t.name);
+    expect(new Set(names).size).toBe(names.length);
+    for (const tool of toolRegistry) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.description.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('rejects invalid arguments before the handler runs', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    resetAllSessions();
+    await expect(callTool('set_manager', { sessionId: 'reg' })).rejects.toThrow(/Invalid arguments for set_manager:\nmanager: Required/);
+    await expect(callTool('move_approval', { sessionId: 'reg', approvalId: 'x' })).rejects.toThrow(/exactly one of before, after or index/);
+  });
+
+  it('runs the handler and reports diagnostics for session mutations', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    resetAllSessions();
+    const manager = 'bb1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq';
+    const result = await callTool('set_manager', { sessionId: 'reg', manager });
+    const body = JSON.parse(result.content[0].text);
+    expect(body.success).toBe(true);
+    expect(body.diagnostics).toBeDefined();
+    expect(getCollectionValue('reg').manager).toBe(manager);
+  });
+
+  it('declares an output schema for every tool and returns structuredContent', async () => {
+    const { toolRegistry, callTool } = await import('../src/tools/registry.js');
+    expect(toolRegistry.filter((t) => !t.outputSchema).map((t) => t.name)).toEqual([]);
+
+    const result = await callTool('generate_unique_id', { prefix: 'mint', count: 2 });
+    expect(result.structuredContent).toMatchObject({ success: true, ids: [expect.stringMatching(/^mint_/), expect.any(String)] });
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+  });
+
+  it('passes the parsed arguments to the handler', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    resetAllSessions();
+    await callTool('add_approval', {
+      sessionId: 'reg',
+      approvalId: 'mint',
+      fromListId: 'Mint',
+      bogus: true,
+      approvalCriteria: {
+        predeterminedBalances: {
+          incrementedBalances: {
+            startBalances: [],
+            incrementTokenIdsBy: '1',
+            orderCalculationMethod: { useOverallNumTransfers: true }
+          }
+        }
+      }
+    });
+    const [approval] = getCollectionValue('reg').collectionApprovals;
+    expect(approval.toListId).toBe('All');
+    expect(approval).not.toHaveProperty('bogus');
+    // Nested orderCalculationMethod survives parsing and is hoisted by the handler
+    expect(approval.approvalCriteria.predeterminedBalances.orderCalculationMethod.useOverallNumTransfers).toBe(true);
+    expect(approval.approvalCriteria.predeterminedBalances.incrementedBalances).not.toHaveProperty('orderCalculationMethod');
+  });
+
+  it('throws for unknown tools', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    await expect(callTool('no_such_tool')).rejects.toThrow('Unknown tool: no_such_tool');
+  });
+});
+
+describe('batch_session_ops', () => {
+  it('applies every operation and reports per-operation results', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    resetAllSessions();
+    const result = await callTool('batch_session_ops', {
+      sessionId: 'batch',
+      operations: [
+        { tool: 'set_standards', args: { standards: ['NFTs'] } },
+        { tool: 'set_custom_data', args: { customData: 'hello' } }
+      ]
+    });
+    const body = result.structuredContent as Record<string, any>;
+    expect(body.success).toBe(true);
+    expect(body.operations.map((op: any) => op.status)).toEqual(['applied', 'applied']);
+    expect(getCollectionValue('batch').standards).toEqual(['NFTs']);
+    expect(getCollectionValue('batch').customData).toBe('hello');
+  });
+
+  it('rolls back earlier operations when one fails', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    resetAllSessions();
+    const result = await callTool('batch_session_ops', {
+      sessionId: 'batch',
+      operations: [
+        { tool: 'set_standards', args: { standards: ['NFTs'] } },
+        { tool: 'move_approval', args: { approvalId: 'missing', index: 0 } },
+        { tool: 'set_custom_data', args: { customData: 'hello' } }
+      ]
+    });
+    const body = result.structuredContent as Record<string, any>;
+    expect(body.success).toBe(false);
+    expect(body.rolledBack).toBe(true);
+    expect(body.failedIndex).toBe(1);
+    expect(body.operations.map((op: any) => op.status)).toEqual(['rolled_back', 'failed', 'skipped']);
+    expect(hasSession('batch')).toBe(false);
+  });
+
+  it('validates every operation before running any', async () => {
+    const { callTool } = await import('../src/tools/registry.js');
+    resetAllSessions();
+    const result = await callTool('batch_session_ops', {
+      sessionId: 'batch',
+      operations: [
+        { tool: 'set_standards', args: { standards: ['NFTs'] } },
+        { tool: 'undo' }
+      ]
+    });
+    const body = result.structuredContent as Record<string, any>;
+    expect(body.success).toBe(false);
+    expect(body.rolledBack).toBe(false);
+    expect(body.error).toMatch(/undo can't be batched/);
+    expect(body.operations.map((op: any) => op.status)).toEqual(['skipped', 'failed']);
+    expect(hasSession('batch')).toBe(false);
+  });
+});
+
+describe('tool profiles', () => {
+  it('restricts read-only to queries, explain and the knowledge base', async () => {
+    const { getToolProfile } = await import('../src/tools/profiles.js');
+    const names = getToolProfile('read-only').tools.map((t) => t.name);
+    expect(names).toContain('query_collection');
+    expect(names).toContain('explain_collection');
+    expect(names).toContain('search_knowledge_base');
+    expect(names.every((n) => n.startsWith('query_') || n === 'explain_collection' || n === 'search_knowledge_base')).toBe(true);
+  });
+
+  it('leaves network tools out of offline-builder', async () => {
+    const { getToolProfile } = await import('../src/tools/profiles.js');
+    const { toolRegistry } = await import('../src/tools/registry.js');
+    const names = getToolProfile('offline-builder').tools.map((t) => t.name);
+    expect(names).toContain('add_approval');
+    expect(names).not.toContain('query_collection');
+    expect(names).not.toContain('fetch_docs');
+    expect(getToolProfile('full').tools).toHaveLength(toolRegistry.length);
+  });
+
+  it('can leave out tools that touch the filesystem', async () => {
+    const { getToolProfile, withoutFilesystemTools } = await import('../src/tools/profiles.js');
+    const full = getToolProfile('full').tools.map((t) => t.name);
+    const names = withoutFilesystemTools(getToolProfile('full')).tools.map((t) => t.name);
+    expect(full).toContain('export_session');
+    expect(names).not.toContain('export_session');
+    expect(names).not.toContain('import_session');
+    expect(names).toHaveLength(full.length - 2);
+  });
+
+  it('builds custom profiles from names and prefixes', async () => {
+    const { getToolProfile, parseToolAllowlist } = await import('../src/tools/profiles.js');
+    const names = getToolProfile('custom', parseToolAllowlist('set_manager, list_*')).tools.map((t) => t.name);
+    expect(names).toEqual(['set_manager', 'list_approvals', 'list_messages', 'list_session_history']);
+  });
+
+  it('rejects unknown profiles and bad allowlists', async () => {
+    const { getToolProfile } = await import('../src/tools/profiles.js');
+    expect(() => getToolProfile('admin')).toThrow(/Unknown tool profile "admin"/);
+    expect(() => getToolProfile('custom')).toThrow(/needs an allowlist/);
+    expect(() => getToolProfile('custom', ['set_manger'])).toThrow('Tool allowlist matches no tools: set_manger');
+    expect(() => getToolProfile('read-only', ['set_manager'])).toThrow(/only applies to the custom profile/);
+  });
+});